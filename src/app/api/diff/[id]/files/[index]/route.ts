@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getComparisonStore, loadComparison } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id, index } = await params;
+  const store = getComparisonStore();
+  const record = await loadComparison(store, id);
+  const file = record?.files[Number(index)];
+  const blob = file ? await store.getBlob(file.hash) : null;
+  if (!file || !blob) {
+    return NextResponse.json(
+      { error: "File not found or expired." },
+      { status: 404 },
+    );
+  }
+
+  return new NextResponse(new Uint8Array(blob), {
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${file.name.replace(/["\\\r\n]/g, "_")}"`,
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getLineCache, MAX_PAGE_LINES } from "@/lib/hunks";
+import { getComparisonStore, loadComparison } from "@/lib/storage";
+import { DiffLinePage } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const integerParam = (
+  query: URLSearchParams,
+  name: string,
+  fallback: number,
+) => {
+  const value = query.get(name);
+  return value ? Number(value) : fallback;
+};
+
+/** Returns a range of a text diff that was sent collapsed into hunks. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const lines =
+    getLineCache().get(id) ??
+    (await loadComparison(getComparisonStore(), id))?.result.textDiff;
+  if (!lines) {
+    return NextResponse.json(
+      { error: "Diff lines not found or expired." },
+      { status: 404 },
+    );
+  }
+
+  const query = new URL(request.url).searchParams;
+  const start = integerParam(query, "start", 0);
+  const end = integerParam(
+    query,
+    "end",
+    Math.min(lines.length, start + MAX_PAGE_LINES),
+  );
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    start < 0 ||
+    end < start ||
+    end > lines.length ||
+    end - start > MAX_PAGE_LINES
+  ) {
+    return NextResponse.json(
+      {
+        error: `Lines must be a range within 0–${lines.length} of at most ${MAX_PAGE_LINES} lines.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const page: DiffLinePage = { start, lines: lines.slice(start, end) };
+  return NextResponse.json(page);
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { collapseResult, TEXT_VIEWS } from "@/lib/hunks";
+import {
+  deleteComparison,
+  getComparisonStore,
+  loadComparison,
+  savedResult,
+} from "@/lib/storage";
+import { DEFAULT_CONTEXT_LINES, MAX_CONTEXT_LINES } from "@/lib/unified";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json(
+    { error: "Comparison not found or expired." },
+    { status: 404 },
+  );
+
+const validationError = (message: string) =>
+  NextResponse.json({ error: message }, { status: 400 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const query = new URL(request.url).searchParams;
+  const view = query.get("view") || "full";
+  if (!TEXT_VIEWS.includes(view)) {
+    return validationError("View must be either full or hunks.");
+  }
+  const contextParam = query.get("context");
+  const context = contextParam ? Number(contextParam) : DEFAULT_CONTEXT_LINES;
+  if (!Number.isInteger(context) || context < 0 || context > MAX_CONTEXT_LINES) {
+    return validationError(
+      `Context must be an integer between 0 and ${MAX_CONTEXT_LINES}.`,
+    );
+  }
+
+  const record = await loadComparison(getComparisonStore(), id);
+  if (!record) {
+    return notFound();
+  }
+  const result = savedResult(record);
+  return NextResponse.json(
+    view === "hunks"
+      ? collapseResult(result, context, `/api/diff/${id}/lines`)
+      : result,
+  );
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const token =
+    request.headers.get("x-delete-token") ??
+    new URL(request.url).searchParams.get("token");
+  if (!token) {
+    return NextResponse.json(
+      { error: "A delete token is required." },
+      { status: 401 },
+    );
+  }
+
+  const outcome = await deleteComparison(getComparisonStore(), id, token);
+  if (outcome === "not-found") {
+    return notFound();
+  }
+  if (outcome === "forbidden") {
+    return NextResponse.json(
+      { error: "The delete token does not match this comparison." },
+      { status: 403 },
+    );
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -2,46 +2,217 @@ import { NextResponse } from "next/server";
 import {
   buildDescriptor,
   classifyKind,
-  decodeText,
+  compareTextFacts,
+  inspectText,
   sniffMime,
   computeTextDiff,
+  DIFF_ALGORITHMS,
   extensionOf,
+  INLINE_GRANULARITIES,
 } from "@/lib/diff";
-import { DiffResult, FileDescriptor } from "@/lib/types";
+import {
+  ArchiveContents,
+  compareArchives,
+  detectArchiveFormat,
+  findArchiveEntry,
+  readArchive,
+} from "@/lib/archive";
+import { computeBinaryDiff } from "@/lib/binary";
+import {
+  annotateLocators,
+  detectDocumentFormat,
+  DocumentText,
+  extractDocument,
+} from "@/lib/document";
+import { detectEncoding, encodeText, normalizeEncoding } from "@/lib/encoding";
+import { collapseResult, getLineCache, TEXT_VIEWS } from "@/lib/hunks";
+import { compileIgnoreRules, IGNORE_PRESETS } from "@/lib/ignore";
+import {
+  compareImages,
+  decodeImage,
+  detectImageFormat,
+  Raster,
+  readImageInfo,
+} from "@/lib/image";
+import {
+  compareMetadata,
+  extractMetadata,
+  MetadataField,
+  summarizeMetadata,
+} from "@/lib/metadata";
+import { computeMultiDiff, MAX_VARIANTS } from "@/lib/multi";
+import {
+  computeMerge,
+  MERGE_CONFLICT_STYLES,
+  parseResolutions,
+} from "@/lib/merge";
+import {
+  renderReport,
+  REPORT_CONTENT_TYPES,
+  REPORT_EXTENSIONS,
+  REPORT_FORMATS,
+  ReportFormat,
+} from "@/lib/report";
+import {
+  getComparisonStore,
+  MAX_RETENTION_HOURS,
+  purgeExpiredIfDue,
+  saveComparison,
+} from "@/lib/storage";
+import { computeTabularDiff, detectTabular } from "@/lib/tabular";
+import {
+  DEFAULT_CONTEXT_LINES,
+  MAX_CONTEXT_LINES,
+  renderUnifiedDiff,
+} from "@/lib/unified";
+import {
+  computeStructuredDiff,
+  detectStructuredFormat,
+} from "@/lib/structured";
+import {
+  DiffAlgorithm,
+  DiffResult,
+  FileDescriptor,
+  Finding,
+  IgnoreOptions,
+  IgnoreRule,
+  ImageDiff,
+  ImageInfo,
+  InlineGranularity,
+  MetadataDiff,
+  MergeConflictStyle,
+  MergeResolution,
+  MergeResult,
+  MultiDiff,
+  TextFacts,
+} from "@/lib/types";
 
 export const runtime = "nodejs";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB per file
 const MAX_COMBINED_SIZE = 8 * 1024 * 1024; // combined cap
 const BLOCKED_MIME_PREFIXES = ["video/", "audio/"];
+const IGNORE_FIELDS: (keyof IgnoreOptions)[] = [
+  "ignoreTrailingWhitespace",
+  "ignoreWhitespace",
+  "ignoreCase",
+  "ignoreBlankLines",
+];
+const TRUTHY_FIELD_VALUES = ["true", "1", "on", "yes"];
+const OUTPUT_FORMATS = ["json", "unified", "merged", ...REPORT_FORMATS];
+const LINE_BREAKS = { crlf: "\r\n", cr: "\r" } as const;
+// Request fields that only shape a single response and are not worth replaying.
+const TRANSIENT_FIELDS = [
+  "files",
+  "save",
+  "retentionHours",
+  "format",
+  "view",
+  "context",
+  "hexPage",
+  "entry",
+  "variant",
+  "resolutions",
+];
 
 const validationError = (message: string) =>
   NextResponse.json({ error: message }, { status: 400 });
 
+const attachment = (
+  body: string | Uint8Array<ArrayBuffer>,
+  contentType: string,
+  sourceName: string,
+  suffix: string,
+) => {
+  const baseName =
+    sourceName.replace(/\.[^.]+$/, "").replace(/["\\\r\n]/g, "_") ||
+    "comparison";
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${baseName}${suffix}"`,
+    },
+  });
+};
+
+const stringFields = (formData: FormData, name: string): string[] =>
+  formData
+    .getAll(name)
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
 type LoadedFile = {
   descriptor: FileDescriptor;
+  buffer: Buffer;
+  blocked: boolean;
   text?: string;
+  metadata?: MetadataField[];
+  document?: DocumentText;
 };
 
-const loadFile = async (file: File): Promise<LoadedFile> => {
+const loadFile = async (
+  file: File,
+  requestedEncoding?: string,
+): Promise<LoadedFile> => {
   const buffer = Buffer.from(await file.arrayBuffer());
   const ext = extensionOf(file.name);
   const inferredMime = await sniffMime(buffer, file.type, ext);
-  const kind = classifyKind(buffer, inferredMime, ext);
+  let kind = classifyKind(buffer, inferredMime, ext);
   const warnings: string[] = [];
 
-  if (BLOCKED_MIME_PREFIXES.some((prefix) => inferredMime.startsWith(prefix))) {
+  const blocked = BLOCKED_MIME_PREFIXES.some((prefix) =>
+    inferredMime.startsWith(prefix),
+  );
+  if (blocked) {
     warnings.push(
       "Large media files are blocked in the MVP. Provide text-like files instead.",
     );
   }
 
   let text: string | undefined;
+  let encoding: string | undefined;
+  let facts: TextFacts | undefined;
   if (kind === "text" && warnings.length === 0) {
+    encoding = requestedEncoding ?? detectEncoding(buffer);
     try {
-      text = decodeText(buffer);
+      const { text: decoded, ...rest } = inspectText(buffer, encoding);
+      text = decoded;
+      facts = rest;
     } catch {
-      warnings.push("Unable to decode text content using UTF-8.");
+      warnings.push(
+        `Unable to decode ${file.name} as ${encoding}. Comparing bytes instead.`,
+      );
+      kind = "binary";
+      encoding = undefined;
+    }
+  }
+
+  let metadata: MetadataField[] | undefined;
+  const imageFormat = kind === "binary" ? detectImageFormat(buffer) : null;
+  if (imageFormat) {
+    try {
+      const extracted = extractMetadata(buffer, imageFormat);
+      metadata = extracted.fields;
+      warnings.push(...extracted.warnings);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "read error";
+      warnings.push(`Could not read the image metadata (${reason}).`);
+    }
+  }
+
+  let documentText: DocumentText | undefined;
+  const documentFormat =
+    kind === "binary" && !blocked ? detectDocumentFormat(buffer) : null;
+  if (documentFormat) {
+    try {
+      documentText = extractDocument(buffer, documentFormat);
+      warnings.push(...documentText.warnings);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "read error";
+      warnings.push(
+        `Could not read the text of ${file.name} (${reason}). Comparing bytes instead.`,
+      );
     }
   }
 
@@ -50,10 +221,21 @@ const loadFile = async (file: File): Promise<LoadedFile> => {
     mime: inferredMime,
     buffer,
     kind,
+    encoding,
+    ...facts,
+    metadata: metadata && summarizeMetadata(metadata),
+    document: documentText?.info,
     warnings: warnings.length ? warnings : undefined,
   });
 
-  return { descriptor, text };
+  return {
+    descriptor,
+    buffer,
+    blocked,
+    text,
+    metadata,
+    document: documentText,
+  };
 };
 
 export async function POST(request: Request) {
@@ -66,21 +248,208 @@ export async function POST(request: Request) {
     .getAll("files")
     .filter((entry): entry is File => entry instanceof File);
 
-  if (files.length !== 2) {
-    return validationError("Please upload exactly two files.");
+  // Beyond two files, the first is a baseline and the rest are variants of it.
+  if (files.length < 2 || files.length > MAX_VARIANTS + 1) {
+    return validationError(
+      `Please upload two files, or a baseline and up to ${MAX_VARIANTS} variants.`,
+    );
+  }
+
+  // An optional common ancestor turns the comparison into a three-way merge.
+  const baseField = formData.get("base");
+  const base = baseField instanceof File ? baseField : null;
+  if (base && files.length !== 2) {
+    return validationError(
+      "A three-way merge takes exactly two files and a base.",
+    );
   }
+  const uploads = base ? [...files, base] : files;
 
-  if (files.some((file) => file.size > MAX_FILE_SIZE)) {
-    return validationError("Each file must be 5 MB or smaller.");
+  if (uploads.some((file) => file.size > MAX_FILE_SIZE)) {
+    return validationError(
+      "Each file must be 5 MB or smaller. Use /api/diff/stream for large text files.",
+    );
   }
 
-  const combinedSize = files.reduce((total, file) => total + file.size, 0);
+  const combinedSize = uploads.reduce((total, file) => total + file.size, 0);
   if (combinedSize > MAX_COMBINED_SIZE) {
-    return validationError("Combined file size must be 8 MB or smaller.");
+    return validationError(
+      "Combined file size must be 8 MB or smaller. Use /api/diff/stream for large text files.",
+    );
+  }
+
+  const granularityField = formData.get("granularity");
+  const granularity =
+    typeof granularityField === "string" && granularityField
+      ? granularityField
+      : "word";
+  if (!INLINE_GRANULARITIES.includes(granularity as InlineGranularity)) {
+    return validationError("Granularity must be either word or char.");
   }
 
-  const loadedFiles = await Promise.all(files.map((file) => loadFile(file)));
-  const [left, right] = loadedFiles;
+  const algorithmField = formData.get("algorithm");
+  const algorithm =
+    typeof algorithmField === "string" && algorithmField
+      ? algorithmField
+      : "myers";
+  if (!DIFF_ALGORITHMS.includes(algorithm as DiffAlgorithm)) {
+    return validationError(
+      "Algorithm must be one of myers, patience or histogram.",
+    );
+  }
+
+  const encodingField = formData.get("encoding");
+  let encoding: string | undefined;
+  if (typeof encodingField === "string" && encodingField.trim()) {
+    encoding = normalizeEncoding(encodingField) ?? undefined;
+    if (!encoding) {
+      return validationError(`Unsupported encoding "${encodingField.trim()}".`);
+    }
+  }
+
+  const ignore: IgnoreOptions = {};
+  IGNORE_FIELDS.forEach((field) => {
+    const value = formData.get(field);
+    if (
+      typeof value === "string" &&
+      TRUTHY_FIELD_VALUES.includes(value.toLowerCase())
+    ) {
+      ignore[field] = true;
+    }
+  });
+
+  const ignoreRules: IgnoreRule[] = [];
+  for (const preset of stringFields(formData, "ignorePresets")) {
+    if (!IGNORE_PRESETS[preset]) {
+      return validationError(`Unknown ignore preset "${preset}".`);
+    }
+    ignoreRules.push(IGNORE_PRESETS[preset]);
+  }
+  stringFields(formData, "ignorePatterns").forEach((pattern) =>
+    ignoreRules.push({ pattern, scope: "substring" }),
+  );
+  stringFields(formData, "ignoreLinePatterns").forEach((pattern) =>
+    ignoreRules.push({ pattern, scope: "line" }),
+  );
+  try {
+    compileIgnoreRules(ignoreRules);
+  } catch (error) {
+    return validationError(
+      error instanceof Error ? error.message : "Invalid ignore pattern.",
+    );
+  }
+
+  const arrayKeyField = formData.get("arrayKey");
+  const arrayKey =
+    typeof arrayKeyField === "string" && arrayKeyField.trim()
+      ? arrayKeyField.trim()
+      : undefined;
+
+  const keyColumns = stringFields(formData, "keyColumns")
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const hexPageField = formData.get("hexPage");
+  let hexPage: number | undefined;
+  if (typeof hexPageField === "string" && hexPageField) {
+    hexPage = Number(hexPageField);
+    if (!Number.isInteger(hexPage) || hexPage < 0) {
+      return validationError("Hex page must be a non-negative integer.");
+    }
+  }
+
+  const variantField = formData.get("variant");
+  let variant = 1;
+  if (typeof variantField === "string" && variantField) {
+    variant = Number(variantField);
+    if (!Number.isInteger(variant) || variant < 1 || variant >= files.length) {
+      return validationError(
+        `Variant must be an integer between 1 and ${files.length - 1}.`,
+      );
+    }
+  }
+
+  const entryField = formData.get("entry");
+  const entryPath =
+    typeof entryField === "string" && entryField.trim()
+      ? entryField.trim()
+      : undefined;
+
+  const formatField = formData.get("format");
+  const outputFormat =
+    typeof formatField === "string" && formatField ? formatField : "json";
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    return validationError(
+      "Format must be one of json, unified, merged, html or markdown.",
+    );
+  }
+  if (outputFormat === "merged" && !base) {
+    return validationError("Merged output needs a base file.");
+  }
+
+  const viewField = formData.get("view");
+  const view =
+    typeof viewField === "string" && viewField ? viewField : "full";
+  if (!TEXT_VIEWS.includes(view)) {
+    return validationError("View must be either full or hunks.");
+  }
+
+  const conflictStyleField = formData.get("conflictStyle");
+  const conflictStyle =
+    typeof conflictStyleField === "string" && conflictStyleField
+      ? conflictStyleField
+      : "merge";
+  if (!MERGE_CONFLICT_STYLES.includes(conflictStyle as MergeConflictStyle)) {
+    return validationError("Conflict style must be either merge or diff3.");
+  }
+
+  let resolutions: Record<number, MergeResolution>;
+  try {
+    resolutions = parseResolutions(stringFields(formData, "resolutions"));
+  } catch (error) {
+    return validationError(
+      error instanceof Error ? error.message : "Invalid resolution.",
+    );
+  }
+
+  const contextField = formData.get("context");
+  let context = DEFAULT_CONTEXT_LINES;
+  if (typeof contextField === "string" && contextField) {
+    context = Number(contextField);
+    if (!Number.isInteger(context) || context < 0 || context > MAX_CONTEXT_LINES) {
+      return validationError(
+        `Context must be an integer between 0 and ${MAX_CONTEXT_LINES}.`,
+      );
+    }
+  }
+
+  const saveField = formData.get("save");
+  const save =
+    typeof saveField === "string" &&
+    TRUTHY_FIELD_VALUES.includes(saveField.toLowerCase());
+
+  const retentionField = formData.get("retentionHours");
+  let retentionHours: number | undefined;
+  if (typeof retentionField === "string" && retentionField) {
+    retentionHours = Number(retentionField);
+    if (
+      !Number.isInteger(retentionHours) ||
+      retentionHours < 1 ||
+      retentionHours > MAX_RETENTION_HOURS
+    ) {
+      return validationError(
+        `Retention must be between 1 and ${MAX_RETENTION_HOURS} hours.`,
+      );
+    }
+  }
+
+  const loadedFiles = await Promise.all(
+    uploads.map((file) => loadFile(file, encoding)),
+  );
+  const [left, ...variants] = loadedFiles.slice(0, files.length);
+  const right = variants[variant - 1];
+  const ancestor = base ? loadedFiles[files.length] : undefined;
   const warnings: string[] = [];
 
   loadedFiles.forEach(({ descriptor }) => {
@@ -100,26 +469,462 @@ export async function POST(request: Request) {
     changePercent: hashesMatch && sizesMatch ? 0 : 100,
   };
   let textDiff;
+  let findings: Finding[] | undefined;
+  let binaryDiff;
+  let structuredDiff;
+  let tabularDiff;
+  let archiveDiff;
+  let imageDiff: ImageDiff | undefined;
+  let metadataDiff: MetadataDiff | undefined;
+  let merge: MergeResult | undefined;
+  let multiDiff: MultiDiff | undefined;
+
+  if (variants.length > 1) {
+    const baselineText = left.text;
+    const variantTexts = variants.map((loaded) => loaded.text);
+    if (
+      baselineText === undefined ||
+      variantTexts.some((text) => text === undefined)
+    ) {
+      return validationError(
+        "Comparing a baseline with several variants needs text files only.",
+      );
+    }
+    const multi = computeMultiDiff(baselineText, variantTexts as string[], {
+      ...ignore,
+      ignoreRules,
+      algorithm: algorithm as DiffAlgorithm,
+    });
+    multiDiff = {
+      baseline: left.descriptor,
+      variants: variants.map((loaded, idx) => ({
+        file: loaded.descriptor,
+        summary: {
+          ...multi.summaries[idx],
+          identical:
+            multi.summaries[idx].identical &&
+            loaded.descriptor.hash === left.descriptor.hash,
+        },
+      })),
+      selected: variant - 1,
+      leadingInsertions: multi.leadingInsertions,
+      lines: multi.lines,
+    };
+  }
+
+  if (ancestor) {
+    if (
+      left.text === undefined ||
+      right.text === undefined ||
+      ancestor.text === undefined
+    ) {
+      return validationError("Three-way merge needs three text files.");
+    }
+    try {
+      merge = {
+        base: ancestor.descriptor,
+        ...computeMerge(
+          { base: ancestor.text, ours: left.text, theirs: right.text },
+          {
+            labels: {
+              base: ancestor.descriptor.name,
+              ours: left.descriptor.name,
+              theirs: right.descriptor.name,
+            },
+            resolutions,
+            conflictStyle: conflictStyle as MergeConflictStyle,
+          },
+        ),
+      };
+    } catch (error) {
+      return validationError(
+        error instanceof Error ? error.message : "Invalid resolution.",
+      );
+    }
+
+    if (outputFormat === "merged") {
+      // Write the merged text back with our side's line breaks, encoding
+      // and byte order mark, falling back to UTF-8 where we cannot encode.
+      const { lineEnding, bom } = left.descriptor;
+      const lineBreak =
+        lineEnding === "crlf" || lineEnding === "cr"
+          ? LINE_BREAKS[lineEnding]
+          : "\n";
+      const mergedText = merge.merged.replace(/\n/g, lineBreak);
+      let mergedEncoding = left.descriptor.encoding ?? "utf-8";
+      let mergedBuffer = encodeText(mergedText, mergedEncoding, bom);
+      if (!mergedBuffer) {
+        mergedEncoding = "utf-8";
+        mergedBuffer = Buffer.from(mergedText);
+      }
+      const extension = left.descriptor.extension;
+      return attachment(
+        new Uint8Array(mergedBuffer),
+        `text/plain; charset=${mergedEncoding}`,
+        left.descriptor.name,
+        extension ? `-merged.${extension}` : "-merged",
+      );
+    }
+  }
+
+  // Office files are ZIPs too; their text wins unless an entry is picked.
+  const documents =
+    !ancestor && !multiDiff && !entryPath && left.document && right.document
+      ? [left.document, right.document]
+      : undefined;
+  const leftArchive = detectArchiveFormat(left.buffer, left.descriptor.name);
+  const rightArchive = detectArchiveFormat(right.buffer, right.descriptor.name);
+  let archives: [ArchiveContents, ArchiveContents] | undefined;
+  if (!ancestor && !multiDiff && !documents && leftArchive && rightArchive) {
+    try {
+      archives = [
+        readArchive(left.buffer, leftArchive),
+        readArchive(right.buffer, rightArchive),
+      ];
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "read error";
+      warnings.push(
+        `Could not unpack the archives (${reason}). Comparing bytes instead.`,
+      );
+    }
+  }
+  const leftImage = detectImageFormat(left.buffer);
+  const rightImage = detectImageFormat(right.buffer);
+  let images: [ImageInfo, ImageInfo] | undefined;
+  if (
+    !archives &&
+    leftImage &&
+    rightImage &&
+    left.descriptor.kind === "binary" &&
+    right.descriptor.kind === "binary"
+  ) {
+    try {
+      images = [
+        readImageInfo(left.buffer, leftImage),
+        readImageInfo(right.buffer, rightImage),
+      ];
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "read error";
+      warnings.push(
+        `Could not read the image headers (${reason}). Comparing bytes instead.`,
+      );
+    }
+  }
+
+  if (entryPath && !archives) {
+    return validationError(
+      "Entries can only be selected when comparing two archives.",
+    );
+  }
+
+  if (archives) {
+    const [before, after] = archives;
+    archiveDiff = compareArchives(before, after);
+    warnings.push(...before.warnings, ...after.warnings);
+    const total = archiveDiff.entries.length;
+    const differing = total - archiveDiff.identical;
+    summary = {
+      ...summary,
+      changePercent: total
+        ? Math.round((differing / total) * 100)
+        : summary.changePercent,
+    };
+
+    if (entryPath) {
+      const found = findArchiveEntry(archiveDiff, before, after, entryPath);
+      if (!found) {
+        return validationError(`Archive entry "${entryPath}" not found.`);
+      }
+      if (found.change.kind !== "text") {
+        return validationError(
+          `Archive entry "${entryPath}" is not a text file.`,
+        );
+      }
+      // An added or removed entry is diffed against an empty file.
+      let sides: { text: string; descriptor: FileDescriptor }[];
+      try {
+        sides = [found.before, found.after].map((entry) => {
+          const buffer = entry?.data ?? Buffer.alloc(0);
+          const entryEncoding = encoding ?? detectEncoding(buffer);
+          const { text, ...facts } = inspectText(buffer, entryEncoding);
+          return {
+            text,
+            descriptor: buildDescriptor({
+              name: entry?.path ?? entryPath,
+              mime: "text/plain",
+              buffer,
+              kind: "text",
+              encoding: entryEncoding,
+              ...facts,
+            }),
+          };
+        });
+      } catch {
+        return validationError(`Unable to decode archive entry "${entryPath}".`);
+      }
+      const diff = computeTextDiff(sides[0].text, sides[1].text, {
+        ...ignore,
+        ignoreRules,
+        granularity: granularity as InlineGranularity,
+        algorithm: algorithm as DiffAlgorithm,
+      });
+
+      if (outputFormat === "unified") {
+        return attachment(
+          renderUnifiedDiff(diff.lines, {
+            oldName: sides[0].descriptor.name,
+            newName: sides[1].descriptor.name,
+            context,
+            oldFinalNewline: sides[0].descriptor.finalNewline,
+            newFinalNewline: sides[1].descriptor.finalNewline,
+          }),
+          "text/x-diff; charset=utf-8",
+          entryPath.slice(entryPath.lastIndexOf("/") + 1),
+          ".diff",
+        );
+      }
 
-  if (left.descriptor.kind === "text" && right.descriptor.kind === "text") {
-    if (!left.text || !right.text) {
+      textDiff = diff.lines;
+      if (found.before && found.after) {
+        findings = compareTextFacts(sides[0].descriptor, sides[1].descriptor);
+      }
+      summary = {
+        ...diff.summary,
+        identical: found.change.status === "identical",
+      };
+      archiveDiff.entry = entryPath;
+    } else if (outputFormat === "unified") {
+      return validationError(
+        "Unified diff export of archives needs a selected text entry.",
+      );
+    }
+  } else if (
+    left.descriptor.kind === "text" &&
+    right.descriptor.kind === "text"
+  ) {
+    if (left.text === undefined || right.text === undefined) {
       return validationError("Could not read text contents from both files.");
     }
-    const diff = computeTextDiff(left.text, right.text);
-    summary = diff.summary;
+    const diff = computeTextDiff(left.text, right.text, {
+      ...ignore,
+      ignoreRules,
+      granularity: granularity as InlineGranularity,
+      algorithm: algorithm as DiffAlgorithm,
+    });
     textDiff = diff.lines;
-  } else {
+
+    if (outputFormat === "unified") {
+      const patch = renderUnifiedDiff(diff.lines, {
+        oldName: left.descriptor.name,
+        newName: right.descriptor.name,
+        context,
+        oldFinalNewline: left.descriptor.finalNewline,
+        newFinalNewline: right.descriptor.finalNewline,
+      });
+      return attachment(
+        patch,
+        "text/x-diff; charset=utf-8",
+        right.descriptor.name,
+        ".diff",
+      );
+    }
+
+    findings = compareTextFacts(left.descriptor, right.descriptor);
+    // Byte-different files are never reported as identical, even when every line matches.
+    summary = {
+      ...diff.summary,
+      identical: diff.summary.identical && hashesMatch,
+    };
+
+    const leftEncoding = left.descriptor.encoding;
+    const rightEncoding = right.descriptor.encoding;
+    if (!hashesMatch && leftEncoding !== rightEncoding && left.text === right.text) {
+      warnings.push(
+        `Files differ only in encoding (${leftEncoding} vs ${rightEncoding}); the decoded text is identical.`,
+      );
+    }
+
+    const format = detectStructuredFormat(left.descriptor, right.descriptor);
+    if (format) {
+      try {
+        structuredDiff = computeStructuredDiff(left.text, right.text, format, {
+          arrayKey,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "parse error";
+        warnings.push(
+          `Could not parse both files as ${format.toUpperCase()} (${reason}). Showing the line diff only.`,
+        );
+      }
+    }
+
+    if (detectTabular(left.descriptor, right.descriptor)) {
+      try {
+        tabularDiff = computeTabularDiff(left.text, right.text, { keyColumns });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "parse error";
+        warnings.push(`Tabular diff is not available: ${reason}`);
+      }
+    }
+  } else if (documents) {
+    const [before, after] = documents;
+    const diff = computeTextDiff(
+      before.lines.join("\n"),
+      after.lines.join("\n"),
+      {
+        ...ignore,
+        ignoreRules,
+        granularity: granularity as InlineGranularity,
+        algorithm: algorithm as DiffAlgorithm,
+      },
+    );
+
+    if (outputFormat === "unified") {
+      return attachment(
+        renderUnifiedDiff(diff.lines, {
+          oldName: left.descriptor.name,
+          newName: right.descriptor.name,
+          context,
+        }),
+        "text/x-diff; charset=utf-8",
+        right.descriptor.name,
+        ".diff",
+      );
+    }
+
+    textDiff = annotateLocators(diff.lines, before.locators, after.locators);
+    summary = {
+      ...diff.summary,
+      identical: diff.summary.identical && hashesMatch,
+    };
+    if (!hashesMatch && diff.summary.identical) {
+      warnings.push("The documents differ, but their extracted text is the same.");
+    }
+  } else if (outputFormat === "unified") {
+    return validationError("Unified diff export needs two text files or documents.");
+  } else if (left.blocked || right.blocked) {
     warnings.push(
-      "One or both files are binary. Text diff view is not available in the MVP.",
+      "One or both files are blocked media. Only hashes were compared.",
     );
+  } else {
+    if (images) {
+      // Without pixels from both sides, only the headers are compared.
+      const rasters: Raster[] = [];
+      [left, right].forEach((loaded, idx) => {
+        try {
+          rasters.push(decodeImage(loaded.buffer, images[idx]));
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : "decode error";
+          warnings.push(
+            `Could not decode ${loaded.descriptor.name} (${reason}). Comparing image size and format only.`,
+          );
+        }
+      });
+      try {
+        imageDiff = compareImages(
+          images,
+          rasters.length === 2 ? [rasters[0], rasters[1]] : undefined,
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "compare error";
+        warnings.push(
+          `Could not compare the pixels (${reason}). Comparing image size and format only.`,
+        );
+        imageDiff = compareImages(images);
+      }
+      if (images.some((info) => info.animated)) {
+        warnings.push("Only the first frame of animated images is compared.");
+      }
+    }
+    if (left.metadata && right.metadata) {
+      metadataDiff = compareMetadata(left.metadata, right.metadata);
+    }
+
+    if (imageDiff?.changePercent !== undefined) {
+      summary = {
+        ...summary,
+        changePercent: Math.round(imageDiff.changePercent),
+      };
+      if (!summary.identical && !imageDiff.changedPixels) {
+        warnings.push(
+          "The images are encoded differently, but every pixel looks the same.",
+        );
+      }
+    } else {
+      binaryDiff = computeBinaryDiff(left.buffer, right.buffer, {
+        page: hexPage,
+      });
+      summary = {
+        ...summary,
+        // Files that share every chunk can still differ, so never report 0%.
+        changePercent: summary.identical
+          ? 0
+          : Math.max(1, 100 - binaryDiff.similarity),
+      };
+      warnings.push(
+        "One or both files are binary. Showing a byte-level comparison instead of a text diff.",
+      );
+    }
   }
 
   const result: DiffResult = {
     files: [left.descriptor, right.descriptor],
     summary,
     textDiff,
+    findings: findings?.length ? findings : undefined,
+    binaryDiff,
+    structuredDiff,
+    tabularDiff,
+    archiveDiff,
+    imageDiff,
+    metadataDiff,
+    merge,
+    multiDiff,
     warnings: warnings.length ? warnings : undefined,
   };
 
+  if (outputFormat !== "json") {
+    const format = outputFormat as ReportFormat;
+    return attachment(
+      renderReport(result, format),
+      REPORT_CONTENT_TYPES[format],
+      right.descriptor.name,
+      `-report.${REPORT_EXTENSIONS[format]}`,
+    );
+  }
+
+  if (save) {
+    const store = getComparisonStore();
+    try {
+      await purgeExpiredIfDue(store);
+      result.saved = await saveComparison(store, {
+        files: loadedFiles.map(({ descriptor, buffer }) => ({
+          name: descriptor.name,
+          type: descriptor.mime,
+          hash: descriptor.hash,
+          buffer,
+        })),
+        fields: [...formData.entries()].filter(
+          (entry): entry is [string, string] =>
+            typeof entry[1] === "string" && !TRANSIENT_FIELDS.includes(entry[0]),
+        ),
+        result,
+        retentionHours,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "storage error";
+      warnings.push(`Could not save the comparison (${reason}).`);
+      result.warnings = warnings;
+    }
+  }
+
+  if (view === "hunks" && result.textDiff) {
+    // Saved comparisons page their lines from the store, others from memory.
+    const id = result.saved?.id ?? getLineCache().put(result.textDiff);
+    return NextResponse.json(
+      collapseResult(result, context, `/api/diff/${id}/lines`),
+    );
+  }
+
   return NextResponse.json(result);
 }
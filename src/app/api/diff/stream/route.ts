@@ -0,0 +1,278 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextResponse } from "next/server";
+import {
+  classifyKind,
+  compareTextFacts,
+  extensionOf,
+  INLINE_GRANULARITIES,
+  sniffMime,
+} from "@/lib/diff";
+import { detectBom, detectEncoding, normalizeEncoding } from "@/lib/encoding";
+import { compileIgnoreRules, IGNORE_PRESETS } from "@/lib/ignore";
+import {
+  multipartBoundary,
+  ReceivedFile,
+  receiveMultipart,
+} from "@/lib/multipart";
+import { diffHistogram, diffPatience, SequenceDiff } from "@/lib/sequence";
+import { indexText, streamTextDiff, TextIndex } from "@/lib/stream";
+import { DEFAULT_CONTEXT_LINES, MAX_CONTEXT_LINES } from "@/lib/unified";
+import {
+  DiffAlgorithm,
+  DiffStreamChunk,
+  FileDescriptor,
+  IgnoreOptions,
+  IgnoreRule,
+  InlineGranularity,
+} from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_SIZE = 256 * 1024 * 1024; // 256 MB per file
+const MAX_COMBINED_SIZE = 512 * 1024 * 1024; // combined cap
+const IGNORE_FIELDS: (keyof IgnoreOptions)[] = [
+  "ignoreTrailingWhitespace",
+  "ignoreWhitespace",
+  "ignoreCase",
+  "ignoreBlankLines",
+];
+const TRUTHY_FIELD_VALUES = ["true", "1", "on", "yes"];
+// Only the anchored algorithms run in linear space; Myers is left out.
+const STREAM_DIFFS: Partial<Record<DiffAlgorithm, SequenceDiff>> = {
+  patience: diffPatience,
+  histogram: diffHistogram,
+};
+
+const validationError = (message: string) =>
+  NextResponse.json({ error: message }, { status: 400 });
+
+/** Drops a UTF-8 sequence cut off at the end of a truncated head. */
+const completeHead = (file: ReceivedFile) => {
+  const { head } = file;
+  if (file.size <= head.length) return head;
+  for (let back = 1; back <= 3 && back <= head.length; back += 1) {
+    const byte = head[head.length - back];
+    if (byte < 0x80) return head;
+    if (byte >= 0xc0) {
+      const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+      return length > back ? head.subarray(0, head.length - back) : head;
+    }
+  }
+  return head;
+};
+
+/**
+ * Compares two large text files without holding them in memory. Uploads are
+ * streamed to a temporary directory, each side is reduced to line hashes,
+ * and the diff goes back as newline-delimited JSON chunks.
+ */
+export async function POST(request: Request) {
+  const boundary = multipartBoundary(request.headers.get("content-type") ?? "");
+  if (!boundary || !request.body) {
+    return validationError("Invalid form data.");
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "mintdiff-"));
+  let streaming = false;
+  try {
+    let upload;
+    try {
+      upload = await receiveMultipart(request.body, boundary, {
+        directory,
+        maxFileSize: MAX_FILE_SIZE,
+        maxCombinedSize: MAX_COMBINED_SIZE,
+      });
+    } catch (error) {
+      return validationError(
+        error instanceof Error ? error.message : "Invalid form data.",
+      );
+    }
+
+    const files = upload.files.filter((file) => file.field === "files");
+    if (files.length !== 2) {
+      return validationError("Please upload exactly two files to stream.");
+    }
+
+    const values = (name: string) =>
+      upload.fields
+        .filter(([field]) => field === name)
+        .map(([, value]) => value.trim())
+        .filter(Boolean);
+    const value = (name: string) => values(name)[0];
+
+    const granularity = value("granularity") ?? "word";
+    if (!INLINE_GRANULARITIES.includes(granularity as InlineGranularity)) {
+      return validationError("Granularity must be either word or char.");
+    }
+
+    const algorithm = value("algorithm") ?? "patience";
+    const diffLines = Object.hasOwn(STREAM_DIFFS, algorithm)
+      ? STREAM_DIFFS[algorithm as DiffAlgorithm]
+      : undefined;
+    if (!diffLines) {
+      return validationError(
+        "Algorithm must be either patience or histogram for streaming.",
+      );
+    }
+
+    let encoding: string | undefined;
+    const encodingField = value("encoding");
+    if (encodingField) {
+      encoding = normalizeEncoding(encodingField) ?? undefined;
+      if (!encoding) {
+        return validationError(`Unsupported encoding "${encodingField}".`);
+      }
+    }
+
+    const ignore: IgnoreOptions = {};
+    IGNORE_FIELDS.forEach((field) => {
+      const flag = value(field);
+      if (flag && TRUTHY_FIELD_VALUES.includes(flag.toLowerCase())) {
+        ignore[field] = true;
+      }
+    });
+
+    const ignoreRules: IgnoreRule[] = [];
+    for (const preset of values("ignorePresets")) {
+      if (!IGNORE_PRESETS[preset]) {
+        return validationError(`Unknown ignore preset "${preset}".`);
+      }
+      ignoreRules.push(IGNORE_PRESETS[preset]);
+    }
+    values("ignorePatterns").forEach((pattern) =>
+      ignoreRules.push({ pattern, scope: "substring" }),
+    );
+    values("ignoreLinePatterns").forEach((pattern) =>
+      ignoreRules.push({ pattern, scope: "line" }),
+    );
+    try {
+      compileIgnoreRules(ignoreRules);
+    } catch (error) {
+      return validationError(
+        error instanceof Error ? error.message : "Invalid ignore pattern.",
+      );
+    }
+
+    let context = DEFAULT_CONTEXT_LINES;
+    const contextField = value("context");
+    if (contextField) {
+      context = Number(contextField);
+      if (
+        !Number.isInteger(context) ||
+        context < 0 ||
+        context > MAX_CONTEXT_LINES
+      ) {
+        return validationError(
+          `Context must be an integer between 0 and ${MAX_CONTEXT_LINES}.`,
+        );
+      }
+    }
+
+    const options = {
+      ...ignore,
+      ignoreRules,
+      granularity: granularity as InlineGranularity,
+    };
+    const sides: {
+      file: ReceivedFile;
+      descriptor: FileDescriptor;
+      encoding: string;
+      index: TextIndex;
+    }[] = [];
+    for (const file of files) {
+      const head = completeHead(file);
+      const extension = extensionOf(file.name);
+      const mime = await sniffMime(head, file.type, extension);
+      if (classifyKind(head, mime, extension) !== "text") {
+        return validationError("Streaming comparison needs two text files.");
+      }
+      const fileEncoding = encoding ?? detectEncoding(head);
+      let index: TextIndex;
+      try {
+        index = await indexText(
+          { path: file.path, encoding: fileEncoding },
+          options,
+        );
+      } catch {
+        return validationError(
+          `Unable to decode ${file.name} as ${fileEncoding}.`,
+        );
+      }
+      sides.push({
+        file,
+        encoding: fileEncoding,
+        index,
+        descriptor: {
+          name: file.name,
+          extension,
+          size: file.size,
+          mime,
+          hash: file.hash,
+          kind: "text",
+          encoding: fileEncoding,
+          lineEnding: index.lineEnding,
+          bom: detectBom(head) !== null,
+          finalNewline: index.finalNewline,
+        },
+      });
+    }
+
+    const [left, right] = sides;
+    const runs = diffLines(left.index.hashes, right.index.hashes);
+    const findings = compareTextFacts(left.descriptor, right.descriptor);
+    const hashesMatch = left.file.hash === right.file.hash;
+
+    const { readable, writable } = new TransformStream<Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    // Each write waits for the reader, so a slow client slows the diff down.
+    const emit = (chunk: DiffStreamChunk) =>
+      writer.write(encoder.encode(`${JSON.stringify(chunk)}\n`));
+
+    const produce = async () => {
+      try {
+        await emit({
+          type: "files",
+          files: [left.descriptor, right.descriptor],
+        });
+        const { summary, warnings } = await streamTextDiff(
+          { path: left.file.path, encoding: left.encoding },
+          { path: right.file.path, encoding: right.encoding },
+          runs,
+          { ...options, context },
+          emit,
+        );
+        await emit({
+          type: "summary",
+          // Byte-different files are never reported as identical.
+          summary: { ...summary, identical: summary.identical && hashesMatch },
+          ...(findings.length > 0 && { findings }),
+          ...(warnings.length > 0 && { warnings }),
+        });
+      } catch (error) {
+        await emit({
+          type: "error",
+          error: error instanceof Error ? error.message : "Comparison failed.",
+        }).catch(() => undefined);
+      } finally {
+        await writer.close().catch(() => undefined);
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    };
+
+    streaming = true;
+    void produce();
+    return new NextResponse(readable, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } finally {
+    if (!streaming) {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { NextResponse } from "next/server";
+import {
+  buildDescriptor,
+  classifyKind,
+  compareTextFacts,
+  computeTextDiff,
+  decodeText,
+  detectLineEnding,
+  extensionOf,
+  inspectText,
+  INLINE_GRANULARITIES,
+  sniffMime,
+} from "@/lib/diff";
+import { detectEncoding, encodeText, normalizeEncoding } from "@/lib/encoding";
+import {
+  applyPatch,
+  FilePatch,
+  parseUnifiedDiff,
+  patchToDiffLines,
+  selectFilePatch,
+} from "@/lib/patch";
+import {
+  renderReport,
+  REPORT_CONTENT_TYPES,
+  REPORT_EXTENSIONS,
+  REPORT_FORMATS,
+  ReportFormat,
+} from "@/lib/report";
+import {
+  DiffResult,
+  Finding,
+  InlineGranularity,
+  PatchHunkResult,
+  PatchReport,
+  TextFacts,
+} from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB per file
+const MAX_COMBINED_SIZE = 8 * 1024 * 1024; // combined cap
+const LINE_BREAKS = { crlf: "\r\n", cr: "\r" } as const;
+const OUTPUT_FORMATS = ["json", ...REPORT_FORMATS];
+
+const validationError = (message: string) =>
+  NextResponse.json({ error: message }, { status: 400 });
+
+const respond = (result: DiffResult, outputFormat: string) => {
+  if (outputFormat === "json") return NextResponse.json(result);
+  const format = outputFormat as ReportFormat;
+  const baseName =
+    result.files[1].name.replace(/\.[^.]+$/, "").replace(/["\\\r\n]/g, "_") ||
+    "patch";
+  return new NextResponse(renderReport(result, format), {
+    headers: {
+      "Content-Type": REPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${baseName}-report.${REPORT_EXTENSIONS[format]}"`,
+    },
+  });
+};
+
+const fileLabel = (path: string | null, fallback: string) =>
+  path ? path.slice(path.lastIndexOf("/") + 1) : fallback;
+
+const buildReport = (
+  mode: PatchReport["mode"],
+  patch: FilePatch,
+  fileCount: number,
+  hunks: PatchHunkResult[],
+): PatchReport => ({
+  mode,
+  oldName: patch.oldName,
+  newName: patch.newName,
+  fileCount,
+  hunkCount: patch.hunks.length,
+  applied: hunks.filter((hunk) => hunk.status === "applied").length,
+  failed: hunks.filter((hunk) => hunk.status === "failed").length,
+  hunks,
+});
+
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return validationError("Invalid form data.");
+  }
+
+  const patchField = formData.get("patch");
+  const originalField = formData.get("original");
+  const original = originalField instanceof File ? originalField : null;
+  let patchText: string;
+  let patchSize: number;
+  if (patchField instanceof File) {
+    patchSize = patchField.size;
+    if (patchSize > MAX_FILE_SIZE) {
+      return validationError("Each file must be 5 MB or smaller.");
+    }
+    patchText = decodeText(Buffer.from(await patchField.arrayBuffer()));
+  } else if (typeof patchField === "string" && patchField.trim()) {
+    patchText = patchField;
+    patchSize = Buffer.byteLength(patchField);
+  } else {
+    return validationError("Please provide a patch file.");
+  }
+
+  if (original && original.size > MAX_FILE_SIZE) {
+    return validationError("Each file must be 5 MB or smaller.");
+  }
+  if (patchSize + (original?.size ?? 0) > MAX_COMBINED_SIZE) {
+    return validationError("Combined file size must be 8 MB or smaller.");
+  }
+
+  const granularityField = formData.get("granularity");
+  const granularity =
+    typeof granularityField === "string" && granularityField
+      ? granularityField
+      : "word";
+  if (!INLINE_GRANULARITIES.includes(granularity as InlineGranularity)) {
+    return validationError("Granularity must be either word or char.");
+  }
+
+  const encodingField = formData.get("encoding");
+  let encoding: string | undefined;
+  if (typeof encodingField === "string" && encodingField.trim()) {
+    encoding = normalizeEncoding(encodingField) ?? undefined;
+    if (!encoding) {
+      return validationError(`Unsupported encoding "${encodingField.trim()}".`);
+    }
+  }
+
+  const formatField = formData.get("format");
+  const outputFormat =
+    typeof formatField === "string" && formatField ? formatField : "json";
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    return validationError("Format must be one of json, html or markdown.");
+  }
+
+  let patches: FilePatch[];
+  try {
+    patches = parseUnifiedDiff(patchText);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "parse error";
+    return validationError(`Invalid patch: ${reason}`);
+  }
+
+  const warnings: string[] = [];
+
+  if (!original) {
+    const [patch] = patches;
+    const preview = patchToDiffLines(patch, {
+      granularity: granularity as InlineGranularity,
+    });
+    const oldName = fileLabel(patch.oldName ?? patch.newName, "original");
+    const newName = fileLabel(patch.newName ?? patch.oldName, "patched");
+    if (patches.length > 1) {
+      warnings.push(
+        `The patch touches ${patches.length} files; showing ${newName} only.`,
+      );
+    }
+    warnings.push(
+      "No original file was provided, so only the lines inside the patch hunks are shown.",
+    );
+
+    const result: DiffResult = {
+      files: [
+        buildDescriptor({
+          name: oldName,
+          mime: "text/plain",
+          buffer: Buffer.from(preview.before),
+          kind: "text",
+        }),
+        buildDescriptor({
+          name: newName,
+          mime: "text/plain",
+          buffer: Buffer.from(preview.after),
+          kind: "text",
+        }),
+      ],
+      summary: preview.summary,
+      textDiff: preview.lines,
+      patch: buildReport("preview", patch, patches.length, []),
+      warnings,
+    };
+    return respond(result, outputFormat);
+  }
+
+  const buffer = Buffer.from(await original.arrayBuffer());
+  const ext = extensionOf(original.name);
+  const mime = await sniffMime(buffer, original.type, ext);
+  if (classifyKind(buffer, mime, ext) !== "text") {
+    return validationError("Patches can only be applied to text files.");
+  }
+
+  const originalEncoding = encoding ?? detectEncoding(buffer);
+  let inspected: TextFacts & { text: string };
+  try {
+    inspected = inspectText(buffer, originalEncoding);
+  } catch {
+    return validationError(
+      `Unable to decode ${original.name} as ${originalEncoding}.`,
+    );
+  }
+  const { text, ...facts } = inspected;
+
+  const patch = selectFilePatch(patches, original.name);
+  if (!patch) {
+    return validationError(`The patch does not modify ${original.name}.`);
+  }
+  if (patches.length > 1) {
+    warnings.push(
+      `The patch touches ${patches.length} files; applied the changes for ${original.name} only.`,
+    );
+  }
+
+  const applied = applyPatch(text, patch);
+  const failed = applied.hunks.filter((hunk) => hunk.status === "failed");
+  if (failed.length) {
+    warnings.push(
+      `${failed.length} of ${applied.hunks.length} hunks could not be applied: ${failed
+        .map((hunk) => hunk.header)
+        .join(", ")}.`,
+    );
+  }
+
+  // Write the patched text back with the original's line breaks.
+  const lineBreak =
+    facts.lineEnding === "crlf" || facts.lineEnding === "cr"
+      ? LINE_BREAKS[facts.lineEnding]
+      : "\n";
+  const patchedRaw = applied.text.replace(/\n/g, lineBreak);
+  let patchedBuffer = encodeText(patchedRaw, originalEncoding, facts.bom);
+  if (!patchedBuffer) {
+    warnings.push(
+      `The patched file's size and hash are for UTF-8, since ${originalEncoding} text cannot be encoded.`,
+    );
+    patchedBuffer = Buffer.from(patchedRaw);
+  }
+  const originalDescriptor = buildDescriptor({
+    name: original.name,
+    mime,
+    buffer,
+    kind: "text",
+    encoding: originalEncoding,
+    ...facts,
+  });
+  const patchedDescriptor = buildDescriptor({
+    name: fileLabel(patch.newName, original.name),
+    mime,
+    buffer: patchedBuffer,
+    kind: "text",
+    encoding: originalEncoding,
+    lineEnding: detectLineEnding(patchedRaw),
+    bom: facts.bom,
+    finalNewline: /[\r\n]$/.test(patchedRaw),
+  });
+
+  const diff = computeTextDiff(text, applied.text, {
+    granularity: granularity as InlineGranularity,
+  });
+  const findings: Finding[] = compareTextFacts(
+    originalDescriptor,
+    patchedDescriptor,
+  );
+
+  const result: DiffResult = {
+    files: [originalDescriptor, patchedDescriptor],
+    // A patch that only adds or drops the final newline still changes the file.
+    summary: {
+      ...diff.summary,
+      identical: diff.summary.identical && !findings.length,
+    },
+    textDiff: diff.lines,
+    findings: findings.length ? findings : undefined,
+    patch: buildReport("apply", patch, patches.length, applied.hunks),
+    warnings: warnings.length ? warnings : undefined,
+  };
+
+  return respond(result, outputFormat);
+}
@@ -0,0 +1,6 @@
+import Home from "../../page";
+
+// The home page loads the saved comparison named in the URL.
+export default function SavedComparisonPage() {
+  return <Home />;
+}
@@ -1,17 +1,151 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { DiffLine, DiffResult } from "@/lib/types";
+import Image from "next/image";
+import { useParams } from "next/navigation";
+import {
+  CSSProperties,
+  Ref,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ArchiveDiff,
+  ArchiveEntryChange,
+  BinaryDiff,
+  DiffAlgorithm,
+  DiffHunk,
+  DiffLine,
+  DiffLinePage,
+  DiffResult,
+  DiffStreamChunk,
+  DocumentInfo,
+  DocumentLocator,
+  IgnoreOptions,
+  ImageDiff,
+  ImageInfo,
+  IgnoreRuleScope,
+  InlineGranularity,
+  InlineSegment,
+  JsonValue,
+  MergeConflictStyle,
+  MergeHunk,
+  MergeHunkType,
+  MergeResolution,
+  MergeResult,
+  MetadataChange,
+  MetadataDiff,
+  MetadataGroup,
+  MetadataSummary,
+  MultiDiff,
+  MultiDiffLine,
+  PatchHunkResult,
+  PatchReport,
+  SavedComparison,
+  StructuredChange,
+  StructuredDiff,
+  TabularDiff,
+  TabularRowChange,
+  TextHunks,
+} from "@/lib/types";
+import {
+  detectLanguage,
+  highlightDiffLines,
+  LineTokens,
+  splitTokens,
+  SYNTAX_LANGUAGES,
+  SyntaxLanguage,
+  SyntaxToken,
+  SyntaxTokenType,
+} from "@/lib/highlight";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 const MAX_COMBINED_SIZE = 8 * 1024 * 1024;
+// Two larger text files are compared through the streaming endpoint instead.
+const STREAM_MAX_FILE_SIZE = 256 * 1024 * 1024;
+const STREAM_MAX_COMBINED_SIZE = 512 * 1024 * 1024;
 const BLOCKED_PREFIXES = ["video/", "audio/"];
+const HEX_ROW_BYTES = 16;
+const DEFAULT_CONTEXT_LINES = 3;
+const MAX_CONTEXT_LINES = 1000;
+// Collapsed unchanged lines revealed per "show more" click.
+const EXPAND_LINES = 20;
+const MAX_PAGE_LINES = 2000;
+// Diff rows are virtualized; rows not yet measured are assumed this tall.
+const ESTIMATED_ROW_HEIGHT = 46;
+const OVERSCAN_PX = 600;
+// Highlighting tokenizes every loaded line, so very long diffs stay plain.
+const MAX_HIGHLIGHT_ROWS = 20_000;
+const PATCH_EXTENSIONS = ["diff", "patch"];
+const MAX_VARIANTS = 10;
+const RETENTION_OPTIONS = [
+  { value: 24, label: "1 day" },
+  { value: 7 * 24, label: "7 days" },
+  { value: 30 * 24, label: "30 days" },
+];
+const DELETE_TOKEN_KEY = (id: string) => `mintdiff:delete:${id}`;
+const REPORT_EXPORTS: { format: ExportFormat; label: string }[] = [
+  { format: "html", label: "HTML" },
+  { format: "markdown", label: "Markdown" },
+];
 
 type SelectedFile = {
   id: string;
   file: File;
 };
 
+type IgnoreRuleSettings = {
+  presets: string[];
+  patterns: string;
+  scope: IgnoreRuleScope;
+};
+
+type CompareOptions = {
+  encoding: string;
+  granularity: InlineGranularity;
+  algorithm: DiffAlgorithm;
+  ignore: IgnoreOptions;
+  rules: IgnoreRuleSettings;
+  arrayKey: string;
+  keyColumns: string;
+  hexPage?: number;
+  entry?: string;
+  variant?: number;
+  save?: boolean;
+  retentionHours?: number;
+};
+
+type ExportFormat = "unified" | "merged" | "html" | "markdown";
+
+type ImageViewMode = "side" | "onion" | "swipe" | "difference";
+
+type ArchiveTreeNode = {
+  name: string;
+  path: string;
+  children: ArchiveTreeNode[];
+  change?: ArchiveEntryChange;
+};
+
+type ChangeTreeNode = {
+  label: string;
+  children: ChangeTreeNode[];
+  change?: StructuredChange;
+};
+
+// `position` is the line's index in the full text diff.
+type ViewRow =
+  | { kind: "line"; line: DiffLine; position: number }
+  | { kind: "gap"; start: number; end: number };
+
+// "auto" follows the language detected from the file.
+type SyntaxChoice = SyntaxLanguage | "auto" | "plain";
+
+type DiffViewerHandle = {
+  scrollToPosition: (position: number) => void;
+};
+
 const formatBytes = (size: number) => {
   if (size === 0) return "0 B";
   const units = ["B", "KB", "MB", "GB"];
@@ -20,7 +154,202 @@ const formatBytes = (size: number) => {
   return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[idx]}`;
 };
 
-const isChange = (line: DiffLine) => line.type !== "unchanged";
+const isPatchFile = (file: File) =>
+  PATCH_EXTENSIONS.includes(file.name.split(".").pop()?.toLowerCase() ?? "");
+
+const MERGE_HUNK_LABELS: Record<MergeHunkType, string> = {
+  unchanged: "Unchanged",
+  ours: "Ours only",
+  theirs: "Theirs only",
+  both: "Same change on both sides",
+  conflict: "Conflict",
+};
+
+const MERGE_CHOICES: { value: MergeResolution; label: string }[] = [
+  { value: "ours", label: "Use ours" },
+  { value: "theirs", label: "Use theirs" },
+  { value: "both", label: "Keep both" },
+  { value: "base", label: "Keep base" },
+];
+
+const IMAGE_VIEW_MODES: { mode: ImageViewMode; label: string }[] = [
+  { mode: "side", label: "Side by side" },
+  { mode: "onion", label: "Onion skin" },
+  { mode: "swipe", label: "Swipe" },
+  { mode: "difference", label: "Difference" },
+];
+
+const METADATA_GROUP_LABELS: Record<MetadataGroup, string> = {
+  container: "Container",
+  exif: "EXIF",
+  xmp: "XMP",
+  iptc: "IPTC",
+  icc: "ICC profile",
+  text: "Text",
+};
+
+const describeLocator = (locator: DocumentLocator) =>
+  `${locator.sheet ? `${locator.sheet} ` : ""}${locator.unit} ${locator.number}`;
+
+const describeDocument = ({ format, pages, paragraphs, sheets }: DocumentInfo) =>
+  [
+    format.toUpperCase(),
+    pages !== undefined && `${pages} pages`,
+    paragraphs !== undefined && `${paragraphs} paragraphs`,
+    sheets && `${sheets.length} sheets`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const isChange = (line: DiffLine) =>
+  line.type !== "unchanged" && !line.ignored;
+
+/** Combines two hunk lists in order, joining hunks that touch or overlap. */
+const mergeHunks = (hunks: DiffHunk[], more: DiffHunk[]) =>
+  [...hunks, ...more]
+    .sort((a, b) => a.start - b.start)
+    .reduce<DiffHunk[]>((merged, hunk) => {
+      const last = merged[merged.length - 1];
+      const lastEnd = last ? last.start + last.lines.length : 0;
+      if (last && hunk.start <= lastEnd) {
+        merged[merged.length - 1] = {
+          start: last.start,
+          lines: last.lines.concat(hunk.lines.slice(lastEnd - hunk.start)),
+        };
+      } else {
+        merged.push(hunk);
+      }
+      return merged;
+    }, []);
+
+/** Lays out hunks as line rows, with a gap row wherever lines are collapsed. */
+const buildRows = (hunks: DiffHunk[], lineCount: number) => {
+  const rows: ViewRow[] = [];
+  let position = 0;
+  hunks.forEach((hunk) => {
+    if (hunk.start > position) {
+      rows.push({ kind: "gap", start: position, end: hunk.start });
+    }
+    hunk.lines.forEach((line, idx) => {
+      rows.push({ kind: "line", line, position: hunk.start + idx });
+    });
+    position = hunk.start + hunk.lines.length;
+  });
+  if (lineCount > position) {
+    rows.push({ kind: "gap", start: position, end: lineCount });
+  }
+  return rows;
+};
+
+const rowKey = (row: ViewRow) =>
+  row.kind === "line" ? `line-${row.position}` : `gap-${row.start}-${row.end}`;
+
+/** Index of the row covering vertical offset `y`, given each row's top. */
+const rowAtOffset = (offsets: number[], y: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= y) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+const IGNORE_TOGGLES: { key: keyof IgnoreOptions; label: string }[] = [
+  { key: "ignoreTrailingWhitespace", label: "Trailing whitespace" },
+  { key: "ignoreWhitespace", label: "All whitespace" },
+  { key: "ignoreCase", label: "Case" },
+  { key: "ignoreBlankLines", label: "Blank lines" },
+];
+
+const ENCODING_OPTIONS = [
+  { value: "", label: "Auto-detect" },
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252" },
+  { value: "iso-8859-1", label: "ISO-8859-1" },
+  { value: "shift_jis", label: "Shift_JIS" },
+  { value: "gbk", label: "GBK" },
+];
+
+const DIFF_ALGORITHM_OPTIONS: { value: DiffAlgorithm; label: string }[] = [
+  { value: "myers", label: "Myers" },
+  { value: "patience", label: "Patience" },
+  { value: "histogram", label: "Histogram" },
+];
+
+const SYNTAX_CLASSES: Record<SyntaxTokenType, string> = {
+  comment: "italic text-teal-300/70",
+  string: "text-amber-200",
+  keyword: "text-sky-300",
+  literal: "text-fuchsia-300",
+  number: "text-violet-300",
+  type: "text-cyan-200",
+  function: "text-emerald-200",
+  property: "text-sky-200",
+  tag: "text-rose-300",
+  attribute: "text-amber-300",
+};
+
+const IGNORE_PRESET_OPTIONS = [
+  { id: "iso-timestamps", label: "ISO timestamps" },
+  { id: "uuids", label: "UUIDs" },
+  { id: "hex-hashes", label: "Hex hashes" },
+];
+
+const toHex = (value: number, width = 2) =>
+  value.toString(16).padStart(width, "0");
+
+const toAscii = (byte: number) =>
+  byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : ".";
+
+const formatJsonValue = (value: JsonValue | undefined) => {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+const buildChangeTree = (changes: StructuredChange[]): ChangeTreeNode => {
+  const root: ChangeTreeNode = { label: "$", children: [] };
+  changes.forEach((change) => {
+    let node = root;
+    change.segments.forEach((segment) => {
+      let child = node.children.find((item) => item.label === segment);
+      if (!child) {
+        child = { label: segment, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+    node.change = change;
+  });
+  return root;
+};
+
+const buildArchiveTree = (entries: ArchiveEntryChange[]): ArchiveTreeNode => {
+  const root: ArchiveTreeNode = { name: "", path: "", children: [] };
+  entries.forEach((change) => {
+    let node = root;
+    change.path.split("/").forEach((segment) => {
+      let child = node.children.find((item) => item.name === segment);
+      if (!child) {
+        child = {
+          name: segment,
+          path: node.path ? `${node.path}/${segment}` : segment,
+          children: [],
+        };
+        node.children.push(child);
+      }
+      node = child;
+    });
+    node.change = change;
+  });
+  return root;
+};
 
 const badgeClasses = "rounded-full border px-3 py-1 text-xs font-semibold";
 
@@ -47,6 +376,13 @@ function SummaryPanel({
     0,
     Math.min(100, 100 - result.summary.changePercent),
   );
+  const { summary } = result;
+  const equivalent =
+    !summary.identical &&
+    Boolean(result.textDiff || result.textHunks) &&
+    summary.added + summary.removed + summary.modified + (summary.moved ?? 0) ===
+      0;
+  const findings = result.findings ?? [];
 
   return (
     <div className="rounded-2xl border border-teal-800 bg-teal-950/50 p-5 shadow-lg shadow-teal-900/40">
@@ -57,16 +393,28 @@ function SummaryPanel({
             <span
               className={`${badgeClasses} border-cyan-400/60 bg-cyan-400/15 text-cyan-50`}
             >
-              {result.summary.identical ? "Identical" : "Compared"}
+              {summary.identical
+                ? "Identical"
+                : equivalent
+                  ? "Equivalent"
+                  : "Compared"}
             </span>
             <span className="text-3xl font-semibold text-teal-50">
               {similarity}% similar
             </span>
           </div>
           <p className="mt-1 text-sm text-teal-200/80">
-            {result.summary.identical
+            {summary.identical
               ? "Hashes match and no line-level changes."
-              : "Similarity is calculated from unchanged lines."}
+              : equivalent
+                ? "Every line matches, but the bytes differ. See the findings below."
+                : result.archiveDiff && !result.textDiff && !result.textHunks
+                ? "Similarity is the share of archive entries that are identical."
+                : result.imageDiff?.changedPixels !== undefined
+                ? "Similarity is the share of pixels that look the same."
+                : result.binaryDiff
+                ? "Similarity is calculated from shared byte chunks."
+                : "Similarity is calculated from unchanged lines."}
           </p>
         </div>
         <div className="flex flex-wrap gap-3 text-sm text-teal-100">
@@ -100,8 +448,45 @@ function SummaryPanel({
               {result.summary.modified}
             </p>
           </div>
+          {result.summary.moved ? (
+            <div className="rounded-xl border border-cyan-400/40 bg-cyan-400/10 px-4 py-3">
+              <p className="text-xs uppercase tracking-wide text-cyan-100/80">
+                Moved
+              </p>
+              <p className="text-xl font-semibold text-cyan-50">
+                {result.summary.moved}
+              </p>
+            </div>
+          ) : null}
+          {result.summary.ignored ? (
+            <div className="rounded-xl border border-dashed border-sky-400/50 bg-sky-400/10 px-4 py-3">
+              <p className="text-xs uppercase tracking-wide text-sky-100/80">
+                Ignored
+              </p>
+              <p className="text-xl font-semibold text-sky-50">
+                {result.summary.ignored}
+              </p>
+            </div>
+          ) : null}
         </div>
       </div>
+      {findings.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs uppercase tracking-wide text-sky-100/80">
+            Invisible differences
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {findings.map((finding) => (
+              <span
+                key={finding.kind}
+                className={`${badgeClasses} border-sky-400/50 bg-sky-400/15 text-sky-50`}
+              >
+                {finding.message}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
       {warnings.length > 0 && (
         <div className="mt-4 flex flex-wrap gap-2">
           {warnings.map((warning) => (
@@ -143,140 +528,2289 @@ function DescriptorCards({ files }: { files: DiffResult["files"] }) {
               .{file.extension || "none"}
             </span>
             <span
-              className={`rounded-full border px-2 py-1 ${
-                file.kind === "text"
-                  ? "border-emerald-400/40 bg-emerald-400/15 text-emerald-50"
-                  : "border-amber-400/40 bg-amber-400/15 text-amber-50"
-              }`}
+              className={`rounded-full border px-2 py-1 ${
+                file.kind === "text"
+                  ? "border-emerald-400/40 bg-emerald-400/15 text-emerald-50"
+                  : "border-amber-400/40 bg-amber-400/15 text-amber-50"
+              }`}
+            >
+              {file.kind === "text" ? "Text-like" : "Binary"}
+            </span>
+            {file.encoding && (
+              <span className="rounded-full border border-teal-700 px-2 py-1">
+                {file.encoding}
+                {file.bom ? " + BOM" : ""}
+              </span>
+            )}
+            {file.lineEnding && file.lineEnding !== "none" && (
+              <span className="rounded-full border border-teal-700 px-2 py-1">
+                {file.lineEnding.toUpperCase()}
+              </span>
+            )}
+            {file.finalNewline === false && file.size > 0 && (
+              <span className="rounded-full border border-teal-700 px-2 py-1">
+                No final newline
+              </span>
+            )}
+            {file.document && (
+              <span
+                className="rounded-full border border-sky-400/40 bg-sky-400/15 px-2 py-1 text-sky-50"
+                title={file.document.sheets?.join(", ")}
+              >
+                {describeDocument(file.document)}
+              </span>
+            )}
+          </div>
+          {file.metadata && <MetadataFacts metadata={file.metadata} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MetadataFacts({ metadata }: { metadata: MetadataSummary }) {
+  const groups = (
+    Object.keys(METADATA_GROUP_LABELS) as MetadataGroup[]
+  ).filter((group) => metadata.fields[group]);
+  const facts: [string, string | undefined][] = [
+    ["Camera", metadata.camera],
+    ["Software", metadata.software],
+    ["Created", metadata.created],
+    ["Color profile", metadata.colorProfile],
+  ];
+
+  return (
+    <div className="mt-3 space-y-1 border-t border-teal-800 pt-2 text-xs text-teal-100">
+      {facts
+        .filter(([, value]) => value)
+        .map(([label, value]) => (
+          <p key={label} className="truncate" title={value}>
+            <span className="text-teal-300/80">{label}:</span> {value}
+          </p>
+        ))}
+      <div className="flex flex-wrap gap-2 pt-1">
+        {groups.map((group) => (
+          <span
+            key={group}
+            className="rounded-full border border-teal-700 px-2 py-1"
+          >
+            {METADATA_GROUP_LABELS[group]} · {metadata.fields[group]}
+          </span>
+        ))}
+        {metadata.location && (
+          <span className="rounded-full border border-amber-400/40 bg-amber-400/15 px-2 py-1 text-amber-50">
+            GPS location
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SharePanel({
+  saved,
+  retentionHours,
+  onRetentionChange,
+  onSave,
+  onCopy,
+  copied,
+  onDelete,
+  disabled,
+}: {
+  saved?: SavedComparison;
+  retentionHours: number;
+  onRetentionChange: (hours: number) => void;
+  onSave: () => void;
+  onCopy: () => void;
+  copied: boolean;
+  onDelete?: () => void;
+  disabled: boolean;
+}) {
+  if (!saved) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm text-teal-200">
+        <label className="flex items-center gap-2 text-xs text-teal-200/80">
+          Keep for
+          <select
+            value={retentionHours}
+            onChange={(e) => onRetentionChange(Number(e.target.value))}
+            disabled={disabled}
+            className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100"
+          >
+            {RETENTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={disabled}
+          className="rounded-lg border border-cyan-400/60 bg-cyan-400/15 px-3 py-1 text-sm text-cyan-50 transition hover:border-cyan-300 hover:text-white disabled:opacity-50"
+        >
+          Save &amp; share
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-teal-200">
+      <span className="text-xs text-teal-200/80">Permalink</span>
+      <code className="rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 text-xs text-teal-50">
+        {saved.url}
+      </code>
+      <button
+        type="button"
+        onClick={onCopy}
+        className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white"
+      >
+        {copied ? "Copied" : "Copy link"}
+      </button>
+      <span className="text-xs text-teal-200/80">
+        Expires {new Date(saved.expiresAt).toLocaleString()}
+      </span>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={disabled}
+          className="rounded-lg border border-rose-400/50 bg-rose-400/10 px-3 py-1 text-sm text-rose-50 transition hover:border-rose-300 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
+
+const describeHunk = (hunk: PatchHunkResult) => {
+  if (hunk.status === "failed") return "failed";
+  const notes: string[] = [];
+  if (hunk.offset) {
+    notes.push(`offset ${hunk.offset > 0 ? "+" : ""}${hunk.offset}`);
+  }
+  if (hunk.fuzz) notes.push(`fuzz ${hunk.fuzz}`);
+  return notes.join(", ") || "applied";
+};
+
+function PatchReportPanel({ report }: { report: PatchReport }) {
+  const target = report.newName ?? report.oldName ?? "unnamed file";
+  return (
+    <div className="rounded-2xl border border-teal-800 bg-teal-950/50 p-5 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">
+          {report.mode === "apply" ? "Patch applied" : "Patch preview"}
+        </span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          {target}
+        </span>
+        <span className="text-xs text-teal-200/80">
+          {report.mode === "apply"
+            ? `${report.applied} of ${report.hunkCount} hunks applied`
+            : `${report.hunkCount} hunks`}
+          {report.fileCount > 1 ? ` · ${report.fileCount} files in patch` : ""}
+        </span>
+      </div>
+      {report.hunks.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {report.hunks.map((hunk) => (
+            <span
+              key={hunk.index}
+              className={`${badgeClasses} font-mono ${
+                hunk.status === "failed"
+                  ? "border-rose-400/50 bg-rose-400/15 text-rose-50"
+                  : hunk.offset || hunk.fuzz
+                    ? "border-amber-400/50 bg-amber-400/15 text-amber-50"
+                    : "border-emerald-400/50 bg-emerald-400/15 text-emerald-50"
+              }`}
+            >
+              {hunk.header} {describeHunk(hunk)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MergeLines({
+  lines,
+  start,
+  className,
+}: {
+  lines: string[];
+  start: number;
+  className: string;
+}) {
+  if (!lines.length) {
+    return <p className="px-3 py-2 text-xs text-teal-200/70">(no lines)</p>;
+  }
+  return (
+    <pre
+      className={`overflow-x-auto rounded-lg border px-3 py-2 font-mono text-xs leading-5 ${className}`}
+    >
+      {lines.map((line, idx) => (
+        <div key={idx} className="flex gap-3">
+          <span className="w-10 shrink-0 select-none text-right opacity-60">
+            {start + idx}
+          </span>
+          <span className="whitespace-pre-wrap break-all">{line || " "}</span>
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+const resolvedMergeLines = (hunk: MergeHunk, choice: MergeResolution) =>
+  choice === "both" ? [...hunk.ours, ...hunk.theirs] : hunk[choice];
+
+function MergePanel({
+  merge,
+  names,
+  resolutions,
+  onResolve,
+  conflictStyle,
+  onConflictStyleChange,
+  onDownload,
+  disabled,
+}: {
+  merge: MergeResult;
+  names: [string, string];
+  resolutions: Record<number, MergeResolution>;
+  onResolve: (index: number, choice: MergeResolution | null) => void;
+  conflictStyle: MergeConflictStyle;
+  onConflictStyleChange: (style: MergeConflictStyle) => void;
+  onDownload: () => void;
+  disabled: boolean;
+}) {
+  const resolved = merge.hunks.filter(
+    (hunk) => hunk.type === "conflict" && resolutions[hunk.index],
+  ).length;
+  const tones: Record<Exclude<MergeHunkType, "unchanged">, string> = {
+    ours: "border-cyan-400/40 bg-cyan-400/10 text-cyan-50",
+    theirs: "border-emerald-400/40 bg-emerald-400/10 text-emerald-50",
+    both: "border-teal-600 bg-teal-800/40 text-teal-50",
+    conflict: "border-rose-400/40 bg-rose-400/10 text-rose-50",
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Three-way merge</span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          base {merge.base.name}
+        </span>
+        <span className="text-xs text-teal-200/80">
+          {merge.oursOnly} ours only · {merge.theirsOnly} theirs only ·{" "}
+          {merge.bothSame} on both sides
+        </span>
+        <span
+          className={`${badgeClasses} ${
+            merge.conflicts === 0
+              ? "border-emerald-400/50 bg-emerald-400/15 text-emerald-50"
+              : resolved === merge.conflicts
+                ? "border-cyan-400/50 bg-cyan-400/15 text-cyan-50"
+                : "border-rose-400/50 bg-rose-400/15 text-rose-50"
+          }`}
+        >
+          {merge.conflicts === 0
+            ? "Merges cleanly"
+            : `${resolved} of ${merge.conflicts} conflicts resolved`}
+        </span>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-teal-200/80">
+            Markers
+            <select
+              value={conflictStyle}
+              onChange={(e) =>
+                onConflictStyleChange(e.target.value as MergeConflictStyle)
+              }
+              className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100"
+            >
+              <option value="merge">ours / theirs</option>
+              <option value="diff3">with base (diff3)</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={onDownload}
+            disabled={disabled}
+            className="rounded-lg border border-cyan-400/60 bg-cyan-400/15 px-3 py-1 text-sm text-cyan-50 transition hover:border-cyan-300 hover:text-white disabled:opacity-50"
+          >
+            Download merged file
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3 p-4">
+        {merge.hunks.map((hunk) => {
+          if (hunk.type === "unchanged") {
+            return (
+              <p
+                key={hunk.index}
+                className="rounded-lg border border-dashed border-teal-800 px-3 py-2 text-xs text-teal-200/70"
+              >
+                {hunk.base.length} unchanged{" "}
+                {hunk.base.length === 1 ? "line" : "lines"} (base line{" "}
+                {hunk.baseStart}
+                {hunk.base.length > 1
+                  ? `–${hunk.baseStart + hunk.base.length - 1}`
+                  : ""}
+                )
+              </p>
+            );
+          }
+
+          const choice = resolutions[hunk.index];
+          return (
+            <div key={hunk.index} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-teal-200/80">
+                <span className={`${badgeClasses} ${tones[hunk.type]}`}>
+                  {MERGE_HUNK_LABELS[hunk.type]}
+                </span>
+                <span>base line {hunk.baseStart}</span>
+                {hunk.type === "conflict" && (
+                  <div className="ml-auto flex flex-wrap gap-2">
+                    {MERGE_CHOICES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() =>
+                          onResolve(hunk.index, choice === value ? null : value)
+                        }
+                        className={`rounded-lg border px-3 py-1 text-sm transition ${
+                          choice === value
+                            ? "border-cyan-300 bg-cyan-400/25 text-white"
+                            : "border-teal-700 bg-teal-800 text-teal-100 hover:border-cyan-400 hover:text-white"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {hunk.type !== "conflict" ? (
+                <MergeLines
+                  lines={hunk.type === "theirs" ? hunk.theirs : hunk.ours}
+                  start={hunk.type === "theirs" ? hunk.theirsStart : hunk.oursStart}
+                  className={tones[hunk.type]}
+                />
+              ) : choice ? (
+                <MergeLines
+                  lines={resolvedMergeLines(hunk, choice)}
+                  start={
+                    choice === "theirs"
+                      ? hunk.theirsStart
+                      : choice === "base"
+                        ? hunk.baseStart
+                        : hunk.oursStart
+                  }
+                  className="border-cyan-400/40 bg-cyan-400/10 text-cyan-50"
+                />
+              ) : (
+                <>
+                  <div className="grid gap-2 md:grid-cols-2">
+                    <div className="space-y-1">
+                      <p className="text-xs text-teal-200/80">Ours · {names[0]}</p>
+                      <MergeLines
+                        lines={hunk.ours}
+                        start={hunk.oursStart}
+                        className={tones.ours}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-teal-200/80">Theirs · {names[1]}</p>
+                      <MergeLines
+                        lines={hunk.theirs}
+                        start={hunk.theirsStart}
+                        className={tones.theirs}
+                      />
+                    </div>
+                  </div>
+                  <details className="text-xs text-teal-200/80">
+                    <summary className="cursor-pointer">
+                      Base · {hunk.base.length}{" "}
+                      {hunk.base.length === 1 ? "line" : "lines"}
+                    </summary>
+                    <div className="mt-1">
+                      <MergeLines
+                        lines={hunk.base}
+                        start={hunk.baseStart}
+                        className="border-teal-700 bg-teal-900/50 text-teal-100"
+                      />
+                    </div>
+                  </details>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function DiffControls({
+  hideUnchanged,
+  onToggleHidden,
+  granularity,
+  onGranularityChange,
+  algorithm,
+  onAlgorithmChange,
+  syntax,
+  detectedSyntax,
+  onSyntaxChange,
+  syntaxLimited,
+  ignore,
+  onIgnoreChange,
+  onPrev,
+  onNext,
+  hasChanges,
+  disabled,
+}: {
+  hideUnchanged: boolean;
+  onToggleHidden: (next: boolean) => void;
+  granularity: InlineGranularity;
+  onGranularityChange: (next: InlineGranularity) => void;
+  algorithm: DiffAlgorithm;
+  onAlgorithmChange?: (next: DiffAlgorithm) => void;
+  syntax: SyntaxChoice;
+  detectedSyntax: SyntaxLanguage | null;
+  onSyntaxChange: (next: SyntaxChoice) => void;
+  syntaxLimited: boolean;
+  ignore: IgnoreOptions;
+  onIgnoreChange: (next: IgnoreOptions) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  hasChanges: boolean;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-teal-800 bg-teal-900/50 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-teal-100">
+          <input
+            type="checkbox"
+            checked={hideUnchanged}
+            onChange={(e) => onToggleHidden(e.target.checked)}
+            className="h-4 w-4 accent-cyan-400"
+          />
+          Hide unchanged lines
+        </label>
+        <label className="flex items-center gap-2 text-sm text-teal-100">
+          Inline highlight
+          <select
+            value={granularity}
+            disabled={disabled}
+            onChange={(e) =>
+              onGranularityChange(e.target.value as InlineGranularity)
+            }
+            className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100 disabled:opacity-40"
+          >
+            <option value="word">Words</option>
+            <option value="char">Characters</option>
+          </select>
+        </label>
+        {onAlgorithmChange && (
+          <label className="flex items-center gap-2 text-sm text-teal-100">
+            Algorithm
+            <select
+              value={algorithm}
+              disabled={disabled}
+              onChange={(e) =>
+                onAlgorithmChange(e.target.value as DiffAlgorithm)
+              }
+              className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100 disabled:opacity-40"
+            >
+              {DIFF_ALGORITHM_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label
+          className="flex items-center gap-2 text-sm text-teal-100"
+          title={
+            syntaxLimited
+              ? `Syntax highlighting is off for diffs over ${MAX_HIGHLIGHT_ROWS.toLocaleString()} lines`
+              : undefined
+          }
+        >
+          Syntax
+          <select
+            value={syntax}
+            disabled={syntaxLimited}
+            onChange={(e) => onSyntaxChange(e.target.value as SyntaxChoice)}
+            className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100 disabled:opacity-40"
+          >
+            <option value="auto">
+              {`Auto (${
+                SYNTAX_LANGUAGES.find(
+                  (option) => option.value === detectedSyntax,
+                )?.label ?? "plain text"
+              })`}
+            </option>
+            <option value="plain">Plain text</option>
+            {SYNTAX_LANGUAGES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-teal-100">
+          <span className="text-teal-200/80">Ignore</span>
+          {IGNORE_TOGGLES.map((toggle) => (
+            <label key={toggle.key} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={Boolean(ignore[toggle.key])}
+                disabled={disabled}
+                onChange={(e) =>
+                  onIgnoreChange({ ...ignore, [toggle.key]: e.target.checked })
+                }
+                className="h-4 w-4 accent-cyan-400"
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onPrev}
+          disabled={!hasChanges}
+          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+        >
+          Previous change
+        </button>
+        <button
+          type="button"
+          onClick={onNext}
+          disabled={!hasChanges}
+          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+        >
+          Next change
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function IgnoreRulesPanel({
+  rules,
+  onRulesChange,
+  onApply,
+  disabled,
+}: {
+  rules: IgnoreRuleSettings;
+  onRulesChange: (next: IgnoreRuleSettings, apply: boolean) => void;
+  onApply: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <form
+      className="flex flex-wrap items-start gap-4 rounded-xl border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-100"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply();
+      }}
+    >
+      <div className="space-y-2">
+        <p className="text-teal-200/80">Mask volatile values</p>
+        <div className="flex flex-wrap gap-3">
+          {IGNORE_PRESET_OPTIONS.map((preset) => (
+            <label key={preset.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rules.presets.includes(preset.id)}
+                disabled={disabled}
+                onChange={(e) =>
+                  onRulesChange(
+                    {
+                      ...rules,
+                      presets: e.target.checked
+                        ? [...rules.presets, preset.id]
+                        : rules.presets.filter((id) => id !== preset.id),
+                    },
+                    true,
+                  )
+                }
+                className="h-4 w-4 accent-cyan-400"
+              />
+              {preset.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <label className="flex min-w-64 flex-1 flex-col gap-1">
+        <span className="text-teal-200/80">Custom patterns (one regex per line)</span>
+        <textarea
+          value={rules.patterns}
+          onChange={(e) =>
+            onRulesChange({ ...rules, patterns: e.target.value }, false)
+          }
+          rows={2}
+          placeholder="build-\d+"
+          className="rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 font-mono text-sm text-teal-50 placeholder:text-teal-300/50"
+        />
+      </label>
+      <div className="flex flex-col gap-2">
+        <select
+          value={rules.scope}
+          onChange={(e) =>
+            onRulesChange(
+              { ...rules, scope: e.target.value as IgnoreRuleScope },
+              false,
+            )
+          }
+          className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-1 text-sm text-teal-100"
+        >
+          <option value="substring">Mask matched text</option>
+          <option value="line">Ignore whole line</option>
+        </select>
+        <button
+          type="submit"
+          disabled={disabled}
+          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+        >
+          Apply patterns
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function SyntaxContent({ tokens }: { tokens: SyntaxToken[] }) {
+  return (
+    <>
+      {tokens.map((token, idx) =>
+        token.type ? (
+          <span key={idx} className={SYNTAX_CLASSES[token.type]}>
+            {token.value}
+          </span>
+        ) : (
+          token.value
+        ),
+      )}
+    </>
+  );
+}
+
+function InlineContent({
+  segments,
+  side,
+  tokens,
+}: {
+  segments: InlineSegment[];
+  side: "before" | "after";
+  tokens?: SyntaxToken[];
+}) {
+  const hidden = side === "before" ? "inserted" : "deleted";
+  const highlight =
+    side === "before"
+      ? "rounded-sm bg-rose-500/40 text-rose-50"
+      : "rounded-sm bg-emerald-400/40 text-emerald-50";
+  const visible = segments.filter((segment) => segment.type !== hidden);
+  // Syntax colours continue inside the changed words.
+  const pieces =
+    tokens && splitTokens(tokens, visible.map((segment) => segment.value));
+
+  return (
+    <>
+      {visible.map((segment, idx) => {
+        const content = pieces ? (
+          <SyntaxContent tokens={pieces[idx]} />
+        ) : (
+          segment.value
+        );
+        return segment.type === "equal" ? (
+          <span key={idx}>{content}</span>
+        ) : (
+          <mark key={idx} className={highlight}>
+            {content}
+          </mark>
+        );
+      })}
+    </>
+  );
+}
+
+function LineLabel({
+  number,
+  locator,
+}: {
+  number: number | null;
+  locator?: DocumentLocator;
+}) {
+  // Extracted document text is labelled by page, paragraph or row.
+  const label = locator ? describeLocator(locator) : undefined;
+  return (
+    <div
+      className="truncate text-right text-xs text-teal-200/80"
+      title={label && `${label} (line ${number})`}
+    >
+      {label ?? number ?? "–"}
+    </div>
+  );
+}
+
+function DiffLineRow({
+  line,
+  index,
+  tokens,
+  activeMove,
+  onMoveHover,
+  onJumpToMove,
+}: {
+  line: DiffLine;
+  index: number;
+  tokens?: LineTokens;
+  activeMove?: number | null;
+  onMoveHover?: (id: number | null) => void;
+  onJumpToMove?: (line: DiffLine) => void;
+}) {
+  const base = "grid grid-cols-[72px_72px_1fr_1fr] gap-3 rounded-lg border px-3 py-2";
+  const colors: Record<DiffLine["type"], string> = {
+    unchanged: "border-teal-800 bg-teal-900/40",
+    added: "border-emerald-400/50 bg-emerald-400/15",
+    removed: "border-rose-500/50 bg-rose-500/15",
+    modified: "border-amber-400/50 bg-amber-400/15",
+    moved: "border-cyan-400/50 bg-cyan-400/10",
+  };
+
+  const beforeContent = line.before ?? "";
+  const afterContent = line.after ?? "";
+  const ignoredColors = "border-dashed border-sky-400/50 bg-sky-400/10";
+  const { move } = line;
+  // The empty side of a moved line links to where the line went or came from.
+  const moveLink = move && (
+    <button
+      type="button"
+      onClick={() => onJumpToMove?.(line)}
+      className="font-sans text-xs text-cyan-200 underline decoration-dotted transition hover:text-white"
+    >
+      {move.side === "source"
+        ? `Moved to line ${move.newNumber}`
+        : `Moved from line ${move.oldNumber}`}
+    </button>
+  );
+
+  return (
+    <div
+      id={`diff-line-${index}`}
+      className={`${base} ${line.ignored ? ignoredColors : colors[line.type]} ${
+        move && move.id === activeMove ? "ring-1 ring-cyan-300" : ""
+      }`}
+      title={line.ignored ? "Difference ignored by the current options" : undefined}
+      onMouseEnter={move && (() => onMoveHover?.(move.id))}
+      onMouseLeave={move && (() => onMoveHover?.(null))}
+    >
+      <LineLabel number={line.oldNumber} locator={line.oldLocator} />
+      <LineLabel number={line.newNumber} locator={line.newLocator} />
+      <pre className="whitespace-pre-wrap break-words font-mono text-sm text-teal-50">
+        {move?.side === "target" ? (
+          moveLink
+        ) : line.segments ? (
+          <InlineContent
+            segments={line.segments}
+            side="before"
+            tokens={tokens?.before}
+          />
+        ) : tokens?.before ? (
+          <SyntaxContent tokens={tokens.before} />
+        ) : (
+          beforeContent
+        )}
+      </pre>
+      <pre className="whitespace-pre-wrap break-words font-mono text-sm text-teal-50">
+        {move?.side === "source" ? (
+          moveLink
+        ) : line.segments ? (
+          <InlineContent
+            segments={line.segments}
+            side="after"
+            tokens={tokens?.after}
+          />
+        ) : tokens?.after ? (
+          <SyntaxContent tokens={tokens.after} />
+        ) : (
+          afterContent
+        )}
+      </pre>
+    </div>
+  );
+}
+
+function GapRow({
+  start,
+  end,
+  lineCount,
+  onExpand,
+  disabled,
+}: {
+  start: number;
+  end: number;
+  lineCount: number;
+  onExpand?: (start: number, end: number) => void;
+  disabled: boolean;
+}) {
+  const count = end - start;
+  const buttonClass =
+    "rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-xs text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 rounded-lg border border-dashed border-teal-700 bg-teal-900/30 px-3 py-2 text-xs text-teal-200/80">
+      <span>
+        {count.toLocaleString()} unchanged {count === 1 ? "line" : "lines"}
+        {!onExpand && " not shown"}
+      </span>
+      {onExpand && (
+        <>
+          {start > 0 && count > EXPAND_LINES && (
+            <button
+              type="button"
+              onClick={() => onExpand(start, start + EXPAND_LINES)}
+              disabled={disabled}
+              className={buttonClass}
+            >
+              ↓ Show {EXPAND_LINES} more lines
+            </button>
+          )}
+          {end < lineCount && count > EXPAND_LINES && (
+            <button
+              type="button"
+              onClick={() => onExpand(end - EXPAND_LINES, end)}
+              disabled={disabled}
+              className={buttonClass}
+            >
+              ↑ Show {EXPAND_LINES} more lines
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onExpand(start, end)}
+            disabled={disabled}
+            className={buttonClass}
+          >
+            Show all
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function TextDiffView({
+  rows,
+  lineCount,
+  syntax,
+  onExpand,
+  expanding,
+  ref,
+}: {
+  rows: ViewRow[];
+  lineCount: number;
+  // Syntax tokens by position in the full diff.
+  syntax?: Map<number, LineTokens> | null;
+  onExpand?: (start: number, end: number) => void;
+  expanding: boolean;
+  ref?: Ref<DiffViewerHandle>;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  // Lines of the moved block under the pointer, or last jumped along.
+  const [activeMove, setActiveMove] = useState<number | null>(null);
+
+  // Only rows near the viewport are rendered; spacers stand in for the rest.
+  const offsets = useMemo(() => {
+    const tops = [0];
+    rows.forEach((row, idx) => {
+      tops.push(tops[idx] + (heights[rowKey(row)] ?? ESTIMATED_ROW_HEIGHT));
+    });
+    return tops;
+  }, [heights, rows]);
+  const first = rowAtOffset(offsets, scrollTop - OVERSCAN_PX);
+  const last = Math.min(
+    rows.length,
+    rowAtOffset(offsets, scrollTop + viewportHeight + OVERSCAN_PX) + 1,
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight),
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      const measured = Object.fromEntries(
+        entries.map(({ target }) => {
+          const row = target as HTMLElement;
+          return [row.dataset.rowKey ?? "", row.offsetHeight];
+        }),
+      );
+      setHeights((prev) =>
+        Object.entries(measured).some(([key, height]) => prev[key] !== height)
+          ? { ...prev, ...measured }
+          : prev,
+      );
+    });
+    container
+      .querySelectorAll("[data-row-key]")
+      .forEach((row) => observer.observe(row));
+    return () => observer.disconnect();
+  }, [first, last, rows]);
+
+  const scrollToRow = (idx: number) => {
+    const container = containerRef.current;
+    if (!container || idx < 0) return;
+    container.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    container.scrollTo({
+      top: Math.max(0, offsets[idx] - container.clientHeight / 2),
+      behavior: "smooth",
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToPosition: (position) =>
+      scrollToRow(
+        rows.findIndex(
+          (row) => row.kind === "line" && row.position === position,
+        ),
+      ),
+  }));
+
+  const jumpToMove = ({ move }: DiffLine) => {
+    if (!move) return;
+    setActiveMove(move.id);
+    scrollToRow(
+      rows.findIndex(
+        (row) =>
+          row.kind === "line" &&
+          row.line.move?.id === move.id &&
+          row.line.move.side !== move.side &&
+          row.line.move.oldNumber === move.oldNumber,
+      ),
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-teal-800 bg-teal-950/70 p-3">
+      <div className="grid grid-cols-[72px_72px_1fr_1fr] gap-3 rounded-lg border border-teal-800 bg-teal-900/70 px-3 py-2 text-xs uppercase tracking-wide text-teal-200/80">
+        <span className="text-right">Left</span>
+        <span className="text-right">Right</span>
+        <span>Original</span>
+        <span>Comparison</span>
+      </div>
+      <div
+        ref={containerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="mt-2 max-h-[70vh] overflow-y-auto"
+      >
+        {rows.length === 0 ? (
+          <p className="rounded-lg border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-200">
+            No differences to show.
+          </p>
+        ) : (
+          <div
+            style={{
+              paddingTop: offsets[first],
+              paddingBottom: offsets[rows.length] - offsets[last],
+            }}
+          >
+            {rows.slice(first, last).map((row) => (
+              <div key={rowKey(row)} data-row-key={rowKey(row)} className="pb-2">
+                {row.kind === "line" ? (
+                  <DiffLineRow
+                    line={row.line}
+                    index={row.position}
+                    tokens={syntax?.get(row.position)}
+                    activeMove={activeMove}
+                    onMoveHover={setActiveMove}
+                    onJumpToMove={jumpToMove}
+                  />
+                ) : (
+                  <GapRow
+                    start={row.start}
+                    end={row.end}
+                    lineCount={lineCount}
+                    onExpand={onExpand}
+                    disabled={expanding}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ChangeTreeItem({ node }: { node: ChangeTreeNode }) {
+  const colors: Record<StructuredChange["type"], string> = {
+    added: "border-emerald-400/50 bg-emerald-400/15 text-emerald-50",
+    removed: "border-rose-500/50 bg-rose-500/15 text-rose-50",
+    changed: "border-amber-400/50 bg-amber-400/15 text-amber-50",
+  };
+  const { change } = node;
+
+  return (
+    <li className="space-y-1">
+      {change ? (
+        <div
+          className={`flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2 text-sm ${colors[change.type]}`}
+          title={change.path}
+        >
+          <span className="font-mono font-semibold">{node.label}</span>
+          <span className="text-xs uppercase tracking-wide opacity-80">
+            {change.type}
+          </span>
+          {change.type !== "added" && (
+            <code className="break-all font-mono text-xs line-through decoration-rose-300/70">
+              {formatJsonValue(change.before)}
+            </code>
+          )}
+          {change.type === "changed" && <span className="text-xs">→</span>}
+          {change.type !== "removed" && (
+            <code className="break-all font-mono text-xs">
+              {formatJsonValue(change.after)}
+            </code>
+          )}
+        </div>
+      ) : (
+        <span className="font-mono text-sm text-teal-100">{node.label}</span>
+      )}
+      {node.children.length > 0 && (
+        <ul className="ml-4 space-y-1 border-l border-teal-800 pl-3">
+          {node.children.map((child) => (
+            <ChangeTreeItem key={child.label} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+const ARCHIVE_STATUS_COLORS: Record<ArchiveEntryChange["status"], string> = {
+  added: "border-emerald-400/50 bg-emerald-400/15 text-emerald-50",
+  removed: "border-rose-500/50 bg-rose-500/15 text-rose-50",
+  changed: "border-amber-400/50 bg-amber-400/15 text-amber-50",
+  renamed: "border-sky-400/50 bg-sky-400/15 text-sky-50",
+  identical: "border-teal-800 bg-teal-900/40 text-teal-200",
+};
+
+function ArchiveTreeItem({
+  node,
+  selected,
+  onSelect,
+  disabled,
+}: {
+  node: ArchiveTreeNode;
+  selected?: string;
+  onSelect: (path: string) => void;
+  disabled: boolean;
+}) {
+  const { change } = node;
+  return (
+    <li className="space-y-1">
+      {change ? (
+        <div
+          className={`flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2 text-sm ${
+            ARCHIVE_STATUS_COLORS[change.status]
+          } ${selected === change.path ? "ring-2 ring-cyan-300" : ""}`}
+          title={change.path}
+        >
+          <span className="font-mono font-semibold">{node.name}</span>
+          <span className="text-xs uppercase tracking-wide opacity-80">
+            {change.status}
+          </span>
+          {change.oldPath && (
+            <span className="font-mono text-xs opacity-80">
+              from {change.oldPath}
+            </span>
+          )}
+          <span className="text-xs opacity-80">
+            {change.oldSize !== null && change.newSize !== null
+              ? change.oldSize === change.newSize
+                ? formatBytes(change.newSize)
+                : `${formatBytes(change.oldSize)} → ${formatBytes(change.newSize)}`
+              : formatBytes(change.newSize ?? change.oldSize ?? 0)}
+          </span>
+          {change.kind === "text" && change.status !== "identical" && (
+            <button
+              type="button"
+              onClick={() => onSelect(change.path)}
+              disabled={disabled}
+              className="ml-auto rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-xs text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50"
+            >
+              View diff
+            </button>
+          )}
+        </div>
+      ) : (
+        <span className="font-mono text-sm text-teal-100">{node.name}/</span>
+      )}
+      {node.children.length > 0 && (
+        <ul className="ml-4 space-y-1 border-l border-teal-800 pl-3">
+          {node.children.map((child) => (
+            <ArchiveTreeItem
+              key={child.name}
+              node={child}
+              selected={selected}
+              onSelect={onSelect}
+              disabled={disabled}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function ArchiveDiffView({
+  diff,
+  onSelect,
+  onClear,
+  disabled,
+}: {
+  diff: ArchiveDiff;
+  onSelect: (path: string) => void;
+  onClear: () => void;
+  disabled: boolean;
+}) {
+  const [showIdentical, setShowIdentical] = useState(false);
+  const tree = useMemo(
+    () =>
+      buildArchiveTree(
+        showIdentical
+          ? diff.entries
+          : diff.entries.filter((entry) => entry.status !== "identical"),
+      ),
+    [diff.entries, showIdentical],
+  );
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Archive contents</span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          {diff.formats[0] === diff.formats[1]
+            ? diff.formats[0].toUpperCase()
+            : `${diff.formats[0].toUpperCase()} vs ${diff.formats[1].toUpperCase()}`}
+        </span>
+        <span className="text-xs text-teal-200/80">
+          {diff.added} added · {diff.removed} removed · {diff.changed} changed
+          · {diff.renamed} renamed · {diff.identical} identical
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {diff.entry && (
+            <button
+              type="button"
+              onClick={onClear}
+              disabled={disabled}
+              className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50"
+            >
+              Close entry diff
+            </button>
+          )}
+          <label className="flex items-center gap-2 text-xs text-teal-200/80">
+            <input
+              type="checkbox"
+              checked={showIdentical}
+              onChange={(e) => setShowIdentical(e.target.checked)}
+              className="h-4 w-4 accent-cyan-400"
+            />
+            Show identical
+          </label>
+        </div>
+      </div>
+      <div className="p-4">
+        {tree.children.length ? (
+          <ul className="space-y-1">
+            {tree.children.map((child) => (
+              <ArchiveTreeItem
+                key={child.name}
+                node={child}
+                selected={diff.entry}
+                onSelect={onSelect}
+                disabled={disabled}
+              />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-teal-200">
+            Every entry is identical in both archives.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ImageLayer({
+  src,
+  info,
+  canvas,
+  alt,
+  style,
+}: {
+  src: string;
+  info: ImageInfo;
+  canvas: { width: number; height: number };
+  alt: string;
+  style?: CSSProperties;
+}) {
+  // Layers share a top-left origin, matching how the server compared pixels.
+  return (
+    <Image
+      src={src}
+      alt={alt}
+      width={info.width}
+      height={info.height}
+      unoptimized
+      className="absolute left-0 top-0 h-auto max-w-none"
+      style={{
+        width: `${(info.width / canvas.width) * 100}%`,
+        imageRendering: "pixelated",
+        ...style,
+      }}
+    />
+  );
+}
+
+function ImageDiffView({
+  diff,
+  names,
+  sources,
+}: {
+  diff: ImageDiff;
+  names: [string, string];
+  sources: string[] | null;
+}) {
+  const [mode, setMode] = useState<ImageViewMode>(
+    sources ? "side" : "difference",
+  );
+  const [mix, setMix] = useState(50);
+  const [before, after] = diff.images;
+  const canvas = {
+    width: Math.max(before.width, after.width),
+    height: Math.max(before.height, after.height),
+  };
+  const modes = IMAGE_VIEW_MODES.filter(({ mode: option }) =>
+    option === "difference" ? Boolean(diff.overlay) : Boolean(sources),
+  );
+  const describe = (info: ImageInfo) =>
+    `${info.format.toUpperCase()} · ${info.width}×${info.height}${info.animated ? " · animated" : ""}`;
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Image comparison</span>
+        {diff.formatChanged && (
+          <span
+            className={`${badgeClasses} border-amber-400/50 bg-amber-400/15 text-amber-50`}
+          >
+            {before.format.toUpperCase()} → {after.format.toUpperCase()}
+          </span>
+        )}
+        {diff.dimensionsChanged && (
+          <span
+            className={`${badgeClasses} border-amber-400/50 bg-amber-400/15 text-amber-50`}
+          >
+            {before.width}×{before.height} → {after.width}×{after.height}
+          </span>
+        )}
+        {diff.changedPixels !== undefined && (
+          <span className="text-xs text-teal-200/80">
+            {diff.changedPixels.toLocaleString()} of{" "}
+            {diff.totalPixels?.toLocaleString()} pixels changed (
+            {diff.changePercent}%) · {diff.similarity}% structural similarity
+          </span>
+        )}
+        <div className="ml-auto flex flex-wrap gap-2">
+          {modes.map(({ mode: option, label }) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`rounded-lg border px-3 py-1 text-sm transition ${
+                mode === option
+                  ? "border-cyan-400 bg-cyan-400/20 text-cyan-50"
+                  : "border-teal-700 bg-teal-800 text-teal-100 hover:border-cyan-400 hover:text-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-3 p-4">
+        {mode === "side" && sources ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            {[before, after].map((info, idx) => (
+              <figure key={idx} className="space-y-2">
+                <div
+                  className="relative w-full bg-white"
+                  style={{ aspectRatio: `${info.width} / ${info.height}` }}
+                >
+                  <ImageLayer
+                    src={sources[idx]}
+                    info={info}
+                    canvas={info}
+                    alt={names[idx]}
+                  />
+                </div>
+                <figcaption className="text-xs text-teal-200/80">
+                  <span className="font-semibold text-teal-50">{names[idx]}</span>{" "}
+                  {describe(info)}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        ) : (mode === "onion" || mode === "swipe") && sources ? (
+          <>
+            <div
+              className="relative w-full overflow-hidden bg-white"
+              style={{ aspectRatio: `${canvas.width} / ${canvas.height}` }}
+            >
+              <ImageLayer
+                src={sources[0]}
+                info={before}
+                canvas={canvas}
+                alt={names[0]}
+              />
+              <ImageLayer
+                src={sources[1]}
+                info={after}
+                canvas={canvas}
+                alt={names[1]}
+                style={
+                  mode === "onion"
+                    ? { opacity: mix / 100 }
+                    : { clipPath: `inset(0 0 0 ${mix}%)` }
+                }
+              />
+              {mode === "swipe" && (
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-cyan-400"
+                  style={{ left: `${mix}%` }}
+                />
+              )}
+            </div>
+            <label className="flex items-center gap-3 text-xs text-teal-200/80">
+              <span className="truncate">{names[0]}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={mix}
+                onChange={(e) => setMix(Number(e.target.value))}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="truncate">{names[1]}</span>
+            </label>
+          </>
+        ) : diff.overlay ? (
+          <>
+            <div
+              className="relative w-full bg-white"
+              style={{ aspectRatio: `${canvas.width} / ${canvas.height}` }}
+            >
+              <ImageLayer
+                src={diff.overlay}
+                info={{ ...after, ...canvas }}
+                canvas={canvas}
+                alt="Changed pixels"
+              />
+            </div>
+            <p className="text-xs text-teal-200/80">
+              Changed pixels are red over a faded copy of {names[1]}; area
+              covered by only one image counts as changed.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-teal-200">
+            The pixels could not be decoded, so only the format and size
+            were compared.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function MetadataDiffView({
+  diff,
+  names,
+}: {
+  diff: MetadataDiff;
+  names: [string, string];
+}) {
+  const rowColors: Record<MetadataChange["type"], string> = {
+    added: "bg-emerald-400/15 text-emerald-50",
+    removed: "bg-rose-500/15 text-rose-50",
+    changed: "bg-amber-400/10 text-amber-50",
+  };
+  const groups = (Object.keys(METADATA_GROUP_LABELS) as MetadataGroup[])
+    .map((group) => ({
+      group,
+      changes: diff.changes.filter((change) => change.group === group),
+    }))
+    .filter(({ changes }) => changes.length);
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Metadata</span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          {diff.added} added · {diff.removed} removed · {diff.changed} changed
+          · {diff.unchanged} unchanged fields
+        </span>
+      </div>
+      {groups.length ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-teal-300/80">
+              <tr>
+                <th className="px-4 py-2 font-medium">Field</th>
+                <th className="px-4 py-2 font-medium">{names[0]}</th>
+                <th className="px-4 py-2 font-medium">{names[1]}</th>
+              </tr>
+            </thead>
+            {groups.map(({ group, changes }) => (
+              <tbody key={group} className="border-t border-teal-800">
+                <tr>
+                  <th
+                    colSpan={3}
+                    className="bg-teal-900/50 px-4 py-1 text-xs font-semibold text-teal-200"
+                  >
+                    {METADATA_GROUP_LABELS[group]}
+                  </th>
+                </tr>
+                {changes.map((change) => (
+                  <tr key={change.key} className={rowColors[change.type]}>
+                    <td className="px-4 py-1.5 font-mono text-xs">
+                      {change.key}
+                    </td>
+                    <td className="break-all px-4 py-1.5 font-mono text-xs">
+                      {change.before ?? "—"}
+                    </td>
+                    <td className="break-all px-4 py-1.5 font-mono text-xs">
+                      {change.after ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      ) : (
+        <p className="px-4 py-3 text-sm text-teal-200">
+          Both files carry the same metadata.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function StructuredDiffView({
+  diff,
+  arrayKey,
+  onArrayKeyChange,
+  onApply,
+  disabled,
+}: {
+  diff: StructuredDiff;
+  arrayKey: string;
+  onArrayKeyChange: (next: string) => void;
+  onApply: () => void;
+  disabled: boolean;
+}) {
+  const tree = useMemo(() => buildChangeTree(diff.changes), [diff.changes]);
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold text-teal-50">
+            Structural {diff.format.toUpperCase()} diff
+          </span>
+          <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+            {diff.added} added · {diff.removed} removed · {diff.changed} changed
+          </span>
+          {diff.documents && (
+            <span className="text-xs text-teal-200/80">
+              {diff.documents[0]} → {diff.documents[1]} documents, matched by
+              kind and name
+            </span>
+          )}
+        </div>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onApply();
+          }}
+        >
+          <label className="text-xs text-teal-200/80" htmlFor="array-key">
+            Match arrays by key
+          </label>
+          <input
+            id="array-key"
+            value={arrayKey}
+            onChange={(e) => onArrayKeyChange(e.target.value)}
+            placeholder="index"
+            className="w-28 rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 text-sm text-teal-50 placeholder:text-teal-300/50"
+          />
+          <button
+            type="submit"
+            disabled={disabled}
+            className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </form>
+      </div>
+      <div className="p-4">
+        {diff.identical ? (
+          <p className="rounded-lg border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-200">
+            Both documents hold the same values. Any line changes are formatting
+            or ordering only.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            <ChangeTreeItem node={tree} />
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TabularCell({
+  row,
+  index,
+  column,
+}: {
+  row: TabularRowChange;
+  index: number;
+  column: string;
+}) {
+  const before = row.before?.[index] ?? null;
+  const after = row.after?.[index] ?? null;
+
+  if (row.type === "changed" && row.changedColumns.includes(column)) {
+    return (
+      <td className="border border-teal-800 bg-amber-400/25 px-3 py-2 align-top">
+        <span className="block text-xs text-rose-200 line-through">
+          {before}
+        </span>
+        <span className="block text-amber-50">{after}</span>
+      </td>
+    );
+  }
+
+  return (
+    <td className="border border-teal-800 px-3 py-2 align-top">
+      {row.type === "removed" ? before : after}
+    </td>
+  );
+}
+
+function TabularDiffView({
+  diff,
+  keyColumns,
+  onKeyColumnsChange,
+  onApply,
+  onShowLines,
+  disabled,
+}: {
+  diff: TabularDiff;
+  keyColumns: string;
+  onKeyColumnsChange: (next: string) => void;
+  onApply: () => void;
+  onShowLines: () => void;
+  disabled: boolean;
+}) {
+  const rowColors: Record<TabularRowChange["type"], string> = {
+    added: "bg-emerald-400/15 text-emerald-50",
+    removed: "bg-rose-500/15 text-rose-50",
+    changed: "text-teal-50",
+  };
+  const describeDelimiter = (delimiter: string) =>
+    delimiter === "\t" ? "tab" : `"${delimiter}"`;
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold text-teal-50">Table diff view</span>
+          <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+            {diff.added} added · {diff.removed} removed · {diff.changed}{" "}
+            changed · {diff.unchanged} unchanged rows
+          </span>
+          <span className="text-xs text-teal-200/80">
+            {diff.keyColumns.length
+              ? `Matched by ${diff.keyColumns.join(", ")}`
+              : "Matched by row content"}
+            {" · "}
+            {describeDelimiter(diff.delimiters[0])} /{" "}
+            {describeDelimiter(diff.delimiters[1])} delimited
+            {diff.hasHeader ? ", with header" : ", no header"}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onApply();
+            }}
+          >
+            <label className="text-xs text-teal-200/80" htmlFor="key-columns">
+              Key columns
+            </label>
+            <input
+              id="key-columns"
+              value={keyColumns}
+              onChange={(e) => onKeyColumnsChange(e.target.value)}
+              placeholder="id, region"
+              className="w-36 rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 text-sm text-teal-50 placeholder:text-teal-300/50"
+            />
+            <button
+              type="submit"
+              disabled={disabled}
+              className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+            >
+              Apply
+            </button>
+          </form>
+          <button
+            type="button"
+            onClick={onShowLines}
+            className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white"
+          >
+            Line view
+          </button>
+        </div>
+      </div>
+      {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+        <div className="flex flex-wrap gap-2 border-b border-teal-800 px-4 py-3 text-xs">
+          {diff.addedColumns.map((column) => (
+            <span
+              key={`added-${column}`}
+              className={`${badgeClasses} border-emerald-400/50 bg-emerald-400/15 text-emerald-50`}
+            >
+              + column {column}
+            </span>
+          ))}
+          {diff.removedColumns.map((column) => (
+            <span
+              key={`removed-${column}`}
+              className={`${badgeClasses} border-rose-500/50 bg-rose-500/15 text-rose-50`}
             >
-              {file.kind === "text" ? "Text-like" : "Binary"}
+              − column {column}
             </span>
-          </div>
+          ))}
         </div>
-      ))}
+      )}
+      <div className="overflow-x-auto p-4">
+        {diff.rows.length === 0 ? (
+          <p className="rounded-lg border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-200">
+            No row differences to show.
+          </p>
+        ) : (
+          <table className="min-w-full border-collapse font-mono text-sm">
+            <thead>
+              <tr className="bg-teal-900/70 text-left text-xs uppercase tracking-wide text-teal-200/80">
+                <th className="border border-teal-800 px-3 py-2">Row</th>
+                {diff.columns.map((column) => (
+                  <th
+                    key={column}
+                    className={`border border-teal-800 px-3 py-2 ${
+                      diff.addedColumns.includes(column)
+                        ? "text-emerald-200"
+                        : diff.removedColumns.includes(column)
+                          ? "text-rose-200 line-through"
+                          : ""
+                    }`}
+                  >
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.rows.map((row) => (
+                <tr
+                  key={`${row.type}-${row.oldRow}-${row.newRow}`}
+                  className={rowColors[row.type]}
+                >
+                  <td className="whitespace-nowrap border border-teal-800 px-3 py-2 text-xs text-teal-200/80">
+                    {row.oldRow ?? "–"} → {row.newRow ?? "–"}
+                  </td>
+                  {diff.columns.map((column, idx) => (
+                    <TabularCell
+                      key={column}
+                      row={row}
+                      index={idx}
+                      column={column}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   );
 }
 
-function DiffControls({
-  hideUnchanged,
-  onToggleHidden,
-  onPrev,
-  onNext,
-  hasChanges,
+function MultiDiffCell({
+  line,
+  variant,
+  name,
 }: {
-  hideUnchanged: boolean;
-  onToggleHidden: (next: boolean) => void;
-  onPrev: () => void;
-  onNext: () => void;
-  hasChanges: boolean;
+  line: Pick<MultiDiffLine, "changes" | "insertions">;
+  variant: number;
+  name: string;
 }) {
+  const change = line.changes.find((item) => item.variant === variant);
+  const inserted = line.insertions.find((item) => item.variant === variant);
+  if (!change && !inserted) {
+    return <td className="border border-teal-800 px-2 py-1" />;
+  }
+  const details = [
+    change?.type === "removed" && `${name}: line removed`,
+    change?.type === "modified" && `${name}: ${change.text}`,
+    inserted && `${name} adds after:\n${inserted.lines.join("\n")}`,
+  ].filter(Boolean);
+
   return (
-    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-teal-800 bg-teal-900/50 px-4 py-3">
-      <label className="flex items-center gap-2 text-sm text-teal-100">
-        <input
-          type="checkbox"
-          checked={hideUnchanged}
-          onChange={(e) => onToggleHidden(e.target.checked)}
-          className="h-4 w-4 accent-cyan-400"
-        />
-        Hide unchanged lines
-      </label>
-      <div className="flex items-center gap-2">
-        <button
-          type="button"
-          onClick={onPrev}
-          disabled={!hasChanges}
-          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
-        >
-          Previous change
-        </button>
-        <button
-          type="button"
-          onClick={onNext}
-          disabled={!hasChanges}
-          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+    <td
+      className="border border-teal-800 px-2 py-1 text-center text-xs"
+      title={details.join("\n")}
+    >
+      {change && (
+        <span
+          className={
+            change.type === "removed" ? "text-rose-200" : "text-amber-200"
+          }
         >
-          Next change
-        </button>
+          {change.type === "removed" ? "−" : "~"}
+        </span>
+      )}
+      {inserted && (
+        <span className="ml-1 text-emerald-200">
+          +{inserted.lines.length}
+        </span>
+      )}
+    </td>
+  );
+}
+
+function MultiDiffView({
+  diff,
+  onSelectVariant,
+  disabled,
+}: {
+  diff: MultiDiff;
+  onSelectVariant: (index: number) => void;
+  disabled: boolean;
+}) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const rows = useMemo(
+    () =>
+      showUnchanged
+        ? diff.lines
+        : diff.lines.filter(
+            (line) => line.changes.length || line.insertions.length,
+          ),
+    [diff.lines, showUnchanged],
+  );
+  const names = diff.variants.map((variant) => variant.file.name);
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Baseline comparison</span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          {diff.baseline.name}
+        </span>
+        <span className="text-xs text-teal-200/80">
+          {diff.variants.length} variants ·{" "}
+          {diff.variants.filter((variant) => variant.summary.identical).length}{" "}
+          identical to the baseline
+        </span>
+      </div>
+
+      <div className="overflow-x-auto p-4">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-teal-900/70 text-left text-xs uppercase tracking-wide text-teal-200/80">
+              <th className="border border-teal-800 px-3 py-2">#</th>
+              <th className="border border-teal-800 px-3 py-2">Variant</th>
+              <th className="border border-teal-800 px-3 py-2">Similar</th>
+              <th className="border border-teal-800 px-3 py-2">Added</th>
+              <th className="border border-teal-800 px-3 py-2">Removed</th>
+              <th className="border border-teal-800 px-3 py-2">Modified</th>
+              <th className="border border-teal-800 px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {diff.variants.map(({ file, summary }, idx) => (
+              <tr
+                key={`${idx}-${file.hash}`}
+                className={idx === diff.selected ? "bg-cyan-400/10" : ""}
+              >
+                <td className="border border-teal-800 px-3 py-2 text-xs text-teal-200/80">
+                  {idx + 1}
+                </td>
+                <td className="border border-teal-800 px-3 py-2 text-teal-50">
+                  {file.name}
+                </td>
+                <td className="border border-teal-800 px-3 py-2">
+                  {summary.identical
+                    ? "Identical"
+                    : `${100 - summary.changePercent}%`}
+                </td>
+                <td className="border border-teal-800 px-3 py-2 text-emerald-200">
+                  {summary.added}
+                </td>
+                <td className="border border-teal-800 px-3 py-2 text-rose-200">
+                  {summary.removed}
+                </td>
+                <td className="border border-teal-800 px-3 py-2 text-amber-200">
+                  {summary.modified}
+                </td>
+                <td className="border border-teal-800 px-3 py-2 text-right">
+                  {idx === diff.selected ? (
+                    <span className="text-xs text-cyan-100">
+                      Shown below
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onSelectVariant(idx)}
+                      disabled={disabled}
+                      className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-xs text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50"
+                    >
+                      Pairwise diff
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 border-y border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Combined view</span>
+        <span className="text-xs text-teal-200/80">
+          ~ modified · − removed · +n lines inserted after. Hover a cell for
+          the variant&apos;s text.
+        </span>
+        <label className="ml-auto flex items-center gap-2 text-sm text-teal-100">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+            className="h-4 w-4 accent-cyan-400"
+          />
+          Show unchanged lines
+        </label>
+      </div>
+      <div className="max-h-[32rem] overflow-auto p-4">
+        {rows.length === 0 && diff.leadingInsertions.length === 0 ? (
+          <p className="rounded-lg border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-200">
+            No variant changes any baseline line.
+          </p>
+        ) : (
+          <table className="min-w-full border-collapse font-mono text-sm">
+            <thead>
+              <tr className="bg-teal-900/70 text-left text-xs uppercase tracking-wide text-teal-200/80">
+                <th className="border border-teal-800 px-3 py-2">Line</th>
+                <th className="border border-teal-800 px-3 py-2">Baseline</th>
+                {names.map((name, idx) => (
+                  <th
+                    key={idx}
+                    title={name}
+                    className="border border-teal-800 px-2 py-2 text-center"
+                  >
+                    {idx + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.leadingInsertions.length > 0 && (
+                <tr>
+                  <td className="border border-teal-800 px-3 py-1 text-xs text-teal-200/80">
+                    0
+                  </td>
+                  <td className="border border-teal-800 px-3 py-1 text-xs text-teal-200/70">
+                    (start of file)
+                  </td>
+                  {names.map((name, idx) => (
+                    <MultiDiffCell
+                      key={idx}
+                      line={{ changes: [], insertions: diff.leadingInsertions }}
+                      variant={idx}
+                      name={name}
+                    />
+                  ))}
+                </tr>
+              )}
+              {rows.map((line) => (
+                <tr key={line.number}>
+                  <td className="border border-teal-800 px-3 py-1 text-xs text-teal-200/80">
+                    {line.number}
+                  </td>
+                  <td className="whitespace-pre-wrap break-all border border-teal-800 px-3 py-1 text-teal-50">
+                    {line.text}
+                  </td>
+                  {names.map((name, idx) => (
+                    <MultiDiffCell
+                      key={idx}
+                      line={line}
+                      variant={idx}
+                      name={name}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
       </div>
     </div>
   );
 }
 
-function DiffLineRow({
-  line,
-  index,
+function ChangeMap({
+  diff,
+  onSelect,
 }: {
-  line: DiffLine;
-  index: number;
+  diff: BinaryDiff;
+  onSelect: (offset: number) => void;
 }) {
-  const base = "grid grid-cols-[72px_72px_1fr_1fr] gap-3 rounded-lg border px-3 py-2";
-  const colors: Record<DiffLine["type"], string> = {
-    unchanged: "border-teal-800 bg-teal-900/40",
-    added: "border-emerald-400/50 bg-emerald-400/15",
-    removed: "border-rose-500/50 bg-rose-500/15",
-    modified: "border-amber-400/50 bg-amber-400/15",
-  };
+  const total = Math.max(diff.leftSize, diff.rightSize, 1);
 
-  const beforeContent = line.before ?? "";
-  const afterContent = line.after ?? "";
+  return (
+    <div className="relative h-6 overflow-hidden rounded-lg border border-teal-800 bg-teal-900/60">
+      {diff.ranges.map((range) => (
+        <button
+          type="button"
+          key={range.offset}
+          title={`0x${toHex(range.offset, 8)} · ${range.length} bytes`}
+          onClick={() => onSelect(range.offset)}
+          className="absolute top-0 h-full bg-amber-400/70 hover:bg-amber-300"
+          style={{
+            left: `${(range.offset / total) * 100}%`,
+            width: `max(2px, ${(range.length / total) * 100}%)`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function HexCells({
+  bytes,
+  other,
+}: {
+  bytes: number[];
+  other: number[];
+}) {
+  const cells = Array.from({ length: HEX_ROW_BYTES }, (_, idx) => idx);
+  const changed = (idx: number) =>
+    idx < bytes.length && bytes[idx] !== other[idx];
 
   return (
-    <div
-      id={`diff-line-${index}`}
-      className={`${base} ${colors[line.type]}`}
-    >
-      <div className="text-right text-xs text-teal-200/80">
-        {line.oldNumber ?? "–"}
-      </div>
-      <div className="text-right text-xs text-teal-200/80">
-        {line.newNumber ?? "–"}
-      </div>
-      <pre className="whitespace-pre-wrap break-words font-mono text-sm text-teal-50">
-        {beforeContent}
-      </pre>
-      <pre className="whitespace-pre-wrap break-words font-mono text-sm text-teal-50">
-        {afterContent}
-      </pre>
+    <div className="flex gap-4">
+      <span className="font-mono text-xs text-teal-50">
+        {cells.map((idx) => (
+          <span
+            key={idx}
+            className={`mr-1 ${changed(idx) ? "rounded-sm bg-amber-400/40 text-amber-50" : ""}`}
+          >
+            {idx < bytes.length ? toHex(bytes[idx]) : "  "}
+          </span>
+        ))}
+      </span>
+      <span className="whitespace-pre font-mono text-xs text-teal-200/80">
+        {cells.map((idx) => (
+          <span
+            key={idx}
+            className={changed(idx) ? "bg-amber-400/40 text-amber-50" : ""}
+          >
+            {idx < bytes.length ? toAscii(bytes[idx]) : " "}
+          </span>
+        ))}
+      </span>
     </div>
   );
 }
 
-function TextDiffView({
-  lines,
-  hideUnchanged,
+function HexViewer({
+  diff,
+  onPageChange,
+  disabled,
 }: {
-  lines: DiffLine[];
-  hideUnchanged: boolean;
+  diff: BinaryDiff;
+  onPageChange: (page: number) => void;
+  disabled: boolean;
 }) {
-  const visibleLines = hideUnchanged
-    ? lines.filter((line) => line.type !== "unchanged")
-    : lines;
+  const { preview } = diff;
 
   return (
-    <div className="rounded-2xl border border-teal-800 bg-teal-950/70 p-3">
-      <div className="grid grid-cols-[72px_72px_1fr_1fr] gap-3 rounded-lg border border-teal-800 bg-teal-900/70 px-3 py-2 text-xs uppercase tracking-wide text-teal-200/80">
-        <span className="text-right">Left</span>
-        <span className="text-right">Right</span>
-        <span>Original</span>
-        <span>Comparison</span>
+    <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
+      <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
+        <span className="font-semibold text-teal-50">Binary diff view</span>
+        <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
+          {diff.changedBytes} changed bytes in {diff.ranges.length}
+          {diff.rangesTruncated ? "+" : ""} ranges
+        </span>
+        <span className="text-xs text-teal-200/80">
+          {formatBytes(diff.leftSize)} → {formatBytes(diff.rightSize)}. Click
+          the change map to jump to a range.
+        </span>
       </div>
-      <div className="mt-2 flex flex-col gap-2">
-        {visibleLines.length === 0 ? (
-          <p className="rounded-lg border border-teal-800 bg-teal-900/50 px-4 py-3 text-sm text-teal-200">
-            No differences to show.
-          </p>
-        ) : (
-          visibleLines.map((line, idx) => (
-            <DiffLineRow key={`${line.type}-${idx}-${line.oldNumber}-${line.newNumber}`} line={line} index={idx} />
-          ))
-        )}
+      <div className="space-y-3 p-4">
+        <ChangeMap
+          diff={diff}
+          onSelect={(offset) =>
+            onPageChange(Math.floor(offset / preview.pageSize))
+          }
+        />
+        <div className="flex items-center justify-between gap-3 text-sm text-teal-100">
+          <span>
+            Page {preview.page + 1} of {preview.totalPages}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => onPageChange(preview.page - 1)}
+              disabled={disabled || preview.page === 0}
+              className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+            >
+              Previous page
+            </button>
+            <button
+              type="button"
+              onClick={() => onPageChange(preview.page + 1)}
+              disabled={disabled || preview.page >= preview.totalPages - 1}
+              className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-2 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-40"
+            >
+              Next page
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto rounded-2xl border border-teal-800 bg-teal-950/70 p-3">
+          <div className="grid min-w-max grid-cols-[88px_1fr_1fr] gap-6 rounded-lg border border-teal-800 bg-teal-900/70 px-3 py-2 text-xs uppercase tracking-wide text-teal-200/80">
+            <span className="text-right">Offset</span>
+            <span>Original</span>
+            <span>Comparison</span>
+          </div>
+          <div className="mt-2 flex min-w-max flex-col gap-1">
+            {preview.rows.map((row) => (
+              <div
+                key={row.offset}
+                className="grid grid-cols-[88px_1fr_1fr] gap-6 px-3 py-1"
+              >
+                <span className="text-right font-mono text-xs text-teal-200/80">
+                  {toHex(row.offset, 8)}
+                </span>
+                <HexCells bytes={row.left} other={row.right} />
+                <HexCells bytes={row.right} other={row.left} />
+              </div>
+            ))}
+          </div>
+        </div>
       </div>
     </div>
   );
 }
 
+const buildFormData = (
+  files: File[],
+  options: CompareOptions,
+  base?: File | null,
+): FormData => {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+  if (base) {
+    formData.append("base", base);
+  }
+  if (options.encoding) {
+    formData.append("encoding", options.encoding);
+  }
+  formData.append("granularity", options.granularity);
+  if (options.algorithm !== "myers") {
+    formData.append("algorithm", options.algorithm);
+  }
+  IGNORE_TOGGLES.forEach(({ key }) => {
+    if (options.ignore[key]) formData.append(key, "true");
+  });
+  options.rules.presets.forEach((preset) =>
+    formData.append("ignorePresets", preset),
+  );
+  options.rules.patterns
+    .split("\n")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .forEach((pattern) =>
+      formData.append(
+        options.rules.scope === "line" ? "ignoreLinePatterns" : "ignorePatterns",
+        pattern,
+      ),
+    );
+  if (options.arrayKey.trim()) {
+    formData.append("arrayKey", options.arrayKey.trim());
+  }
+  if (options.keyColumns.trim()) {
+    formData.append("keyColumns", options.keyColumns.trim());
+  }
+  if (options.hexPage !== undefined) {
+    formData.append("hexPage", String(options.hexPage));
+  }
+  if (options.entry) {
+    formData.append("entry", options.entry);
+  }
+  if (options.variant !== undefined) {
+    formData.append("variant", String(options.variant));
+  }
+  if (options.save) {
+    formData.append("save", "true");
+  }
+  if (options.retentionHours !== undefined) {
+    formData.append("retentionHours", String(options.retentionHours));
+  }
+  return formData;
+};
+
+const needsStreaming = (files: File[], base?: File | null) =>
+  files.length === 2 &&
+  !base &&
+  (files.some((file) => file.size > MAX_FILE_SIZE) ||
+    files[0].size + files[1].size > MAX_COMBINED_SIZE);
+
+/** Collects the NDJSON chunks from /api/diff/stream into a regular result. */
+const readDiffStream = async (response: Response): Promise<DiffResult> => {
+  if (!response.body) throw new Error("The comparison returned no data.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const hunks: DiffHunk[] = [];
+  const warnings: string[] = [];
+  let result: Omit<DiffResult, "summary"> | undefined;
+  let summary: DiffResult["summary"] | undefined;
+  let position = 0;
+  let pending = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+    const rows = pending.split("\n");
+    pending = rows.pop() ?? "";
+    for (const row of rows.filter(Boolean)) {
+      const chunk = JSON.parse(row) as DiffStreamChunk;
+      if (chunk.type === "error") throw new Error(chunk.error);
+      if (chunk.type === "files") {
+        result = { files: chunk.files };
+      } else if (chunk.type === "lines") {
+        const last = hunks[hunks.length - 1];
+        if (last && last.start + last.lines.length === position) {
+          last.lines.push(...chunk.lines);
+        } else {
+          hunks.push({ start: position, lines: [...chunk.lines] });
+        }
+        position += chunk.lines.length;
+      } else if (chunk.type === "skipped") {
+        position += chunk.count;
+      } else {
+        summary = chunk.summary;
+        if (result) result.findings = chunk.findings;
+        warnings.push(...(chunk.warnings ?? []));
+      }
+    }
+    if (done) break;
+  }
+  if (!result || !summary) throw new Error("The comparison ended early.");
+  // Skipped lines were never sent, so there is no URL to page them in from.
+  const textHunks: TextHunks = {
+    lineCount: position,
+    context: DEFAULT_CONTEXT_LINES,
+    hunks,
+  };
+  return { ...result, summary, warnings, textHunks };
+};
+
+/** Rebuilds the UI options from the form fields stored with a saved comparison. */
+const restoreOptions = (fields: [string, string][]): CompareOptions => {
+  const values = (name: string) =>
+    fields.filter(([key]) => key === name).map(([, value]) => value);
+  const linePatterns = values("ignoreLinePatterns");
+  return {
+    encoding: values("encoding")[0] ?? "",
+    granularity: values("granularity")[0] === "char" ? "char" : "word",
+    algorithm:
+      DIFF_ALGORITHM_OPTIONS.find(
+        (option) => option.value === values("algorithm")[0],
+      )?.value ?? "myers",
+    ignore: Object.fromEntries(
+      IGNORE_TOGGLES.filter(({ key }) => values(key).length).map(({ key }) => [
+        key,
+        true,
+      ]),
+    ),
+    rules: {
+      presets: values("ignorePresets"),
+      patterns: (linePatterns.length
+        ? linePatterns
+        : values("ignorePatterns")
+      ).join("\n"),
+      scope: linePatterns.length ? "line" : "substring",
+    },
+    arrayKey: values("arrayKey")[0] ?? "",
+    keyColumns: values("keyColumns")[0] ?? "",
+  };
+};
+
+const buildPatchFormData = (
+  patchFile: File,
+  files: File[],
+  options: CompareOptions,
+): FormData => {
+  const formData = new FormData();
+  formData.append("patch", patchFile);
+  const original = files.find((file) => file !== patchFile);
+  if (original) formData.append("original", original);
+  if (options.encoding) {
+    formData.append("encoding", options.encoding);
+  }
+  formData.append("granularity", options.granularity);
+  return formData;
+};
+
 export default function Home() {
   const [selected, setSelected] = useState<SelectedFile[]>([]);
   const [result, setResult] = useState<DiffResult | null>(null);
@@ -286,49 +2820,248 @@ export default function Home() {
   const [warnings, setWarnings] = useState<string[]>([]);
   const [activeChange, setActiveChange] = useState(0);
   const [dragging, setDragging] = useState(false);
+  const [encoding, setEncoding] = useState("");
+  const [granularity, setGranularity] = useState<InlineGranularity>("word");
+  const [algorithm, setAlgorithm] = useState<DiffAlgorithm>("myers");
+  const [syntax, setSyntax] = useState<SyntaxChoice>("auto");
+  const [ignore, setIgnore] = useState<IgnoreOptions>({});
+  const [rules, setRules] = useState<IgnoreRuleSettings>({
+    presets: [],
+    patterns: "",
+    scope: "substring",
+  });
+  const [arrayKey, setArrayKey] = useState("");
+  const [keyColumns, setKeyColumns] = useState("");
+  const [showTable, setShowTable] = useState(true);
+  const [contextLines, setContextLines] = useState(DEFAULT_CONTEXT_LINES);
+  const [retentionHours, setRetentionHours] = useState(7 * 24);
+  const [deleteToken, setDeleteToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [baseFile, setBaseFile] = useState<File | null>(null);
+  const [archiveEntry, setArchiveEntry] = useState<string | undefined>();
+  const [variant, setVariant] = useState(1);
+  const [resolutions, setResolutions] = useState<
+    Record<number, MergeResolution>
+  >({});
+  const [conflictStyle, setConflictStyle] =
+    useState<MergeConflictStyle>("merge");
+  const params = useParams<{ id?: string }>();
+  const savedId = params?.id;
+  const loadedId = useRef<string | null>(null);
+  const viewerRef = useRef<DiffViewerHandle>(null);
+  // Lines paged into the current result's collapsed regions.
+  const [expanded, setExpanded] = useState<{
+    source?: TextHunks;
+    hunks: DiffHunk[];
+  }>({ hunks: [] });
+  const [expanding, setExpanding] = useState(false);
 
   const hasExactlyTwo = selected.length === 2;
+  const isMultiCompare = selected.length > 2;
   const currentFiles = selected.map((item) => item.file);
+  // One .patch/.diff upload is applied to the other file, or previewed alone.
+  const patchFile =
+    !isMultiCompare && currentFiles.filter(isPatchFile).length === 1
+      ? currentFiles.find(isPatchFile)
+      : undefined;
+  const canSubmit = selected.length >= 2 || Boolean(patchFile);
+  // A common ancestor next to two files turns the comparison into a merge.
+  const mergeBase = patchFile || isMultiCompare ? null : baseFile;
+
+  // Local copies of the compared images for the side-by-side, onion-skin
+  // and swipe views; the server only returns the difference overlay.
+  const imageSources = useMemo(
+    () =>
+      result?.imageDiff && selected.length === 2
+        ? selected.map((item) => URL.createObjectURL(item.file))
+        : null,
+    [result?.imageDiff, selected],
+  );
+  useEffect(
+    () => () => imageSources?.forEach((url) => URL.revokeObjectURL(url)),
+    [imageSources],
+  );
+
+  const diffRows = useMemo(() => {
+    const textHunks = result?.textHunks;
+    if (textHunks) {
+      const paged = expanded.source === textHunks ? expanded.hunks : [];
+      return buildRows(
+        mergeHunks(textHunks.hunks, paged),
+        textHunks.lineCount,
+      );
+    }
+    return (result?.textDiff ?? []).map(
+      (line, position): ViewRow => ({ kind: "line", line, position }),
+    );
+  }, [expanded, result?.textDiff, result?.textHunks]);
+
+  // An archive entry's own name decides its language, not the archive's.
+  const detectedSyntax = result?.files[0]
+    ? detectLanguage(
+        result.archiveDiff?.entry ?? result.files[0].name,
+        result.archiveDiff?.entry ? "" : result.files[0].mime,
+      )
+    : null;
+  const syntaxLanguage =
+    syntax === "auto" ? detectedSyntax : syntax === "plain" ? null : syntax;
+  const syntaxLimited = diffRows.length > MAX_HIGHLIGHT_ROWS;
+  // Tokenized over the loaded rows in order, so comments and strings that
+  // span lines keep their colour; gap rows reset the tokenizer.
+  const lineTokens = useMemo(() => {
+    if (!syntaxLanguage || syntaxLimited) return null;
+    const tokens = highlightDiffLines(
+      diffRows.map((row) => (row.kind === "line" ? row.line : null)),
+      syntaxLanguage,
+    );
+    return new Map(
+      diffRows.flatMap((row, idx) =>
+        row.kind === "line" ? [[row.position, tokens[idx]] as const] : [],
+      ),
+    );
+  }, [diffRows, syntaxLanguage, syntaxLimited]);
 
-  const displayedLines = useMemo(() => {
-    if (!result?.textDiff) return [];
-    return hideUnchanged
-      ? result.textDiff.filter((line) => line.type !== "unchanged")
-      : result.textDiff;
-  }, [hideUnchanged, result?.textDiff]);
+  const displayedRows = useMemo(
+    () =>
+      hideUnchanged
+        ? diffRows.filter((row) => row.kind === "line" && isChange(row.line))
+        : diffRows,
+    [diffRows, hideUnchanged],
+  );
 
+  // Positions in the full diff, so paging in more lines does not move them.
   const changePositions = useMemo(() => {
-    const lines = displayedLines;
-    const positions: number[] = [];
-    lines.forEach((line, idx) => {
-      if (isChange(line)) positions.push(idx);
-    });
-    return positions;
-  }, [displayedLines]);
+    const hunks =
+      result?.textHunks?.hunks ??
+      (result?.textDiff ? [{ start: 0, lines: result.textDiff }] : []);
+    return hunks.flatMap((hunk) =>
+      hunk.lines.flatMap((line, idx) =>
+        isChange(line) ? [hunk.start + idx] : [],
+      ),
+    );
+  }, [result?.textDiff, result?.textHunks]);
 
   useEffect(() => {
     setActiveChange(0);
-  }, [hideUnchanged, result?.textDiff]);
+  }, [hideUnchanged, result?.textDiff, result?.textHunks]);
 
   useEffect(() => {
     if (!changePositions.length) return;
     const clampedIndex = Math.min(activeChange, changePositions.length - 1);
-    const lineIndex = changePositions[clampedIndex];
-    const element = document.getElementById(`diff-line-${lineIndex}`);
-    if (element) {
-      element.scrollIntoView({ behavior: "smooth", block: "center" });
+    viewerRef.current?.scrollToPosition(changePositions[clampedIndex]);
+  }, [activeChange, changePositions, hideUnchanged]);
+
+  const expandLines = async (start: number, end: number) => {
+    const source = result?.textHunks;
+    if (!source?.linesUrl) return;
+    setExpanding(true);
+    setError(null);
+    try {
+      const pages: DiffHunk[] = [];
+      for (let from = start; from < end; from += MAX_PAGE_LINES) {
+        const to = Math.min(end, from + MAX_PAGE_LINES);
+        const response = await fetch(
+          `${source.linesUrl}?start=${from}&end=${to}`,
+        );
+        const payload = (await response.json()) as DiffLinePage & {
+          error?: string;
+        };
+        if (!response.ok || payload.error) {
+          throw new Error(payload.error || "Could not load more lines.");
+        }
+        pages.push(payload);
+      }
+      setExpanded((prev) => ({
+        source,
+        hunks: mergeHunks(prev.source === source ? prev.hunks : [], pages),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load more lines.");
+    } finally {
+      setExpanding(false);
     }
-  }, [activeChange, changePositions]);
+  };
+
+  useEffect(() => {
+    if (!savedId || loadedId.current === savedId) return;
+    loadedId.current = savedId;
+
+    const loadSaved = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/diff/${savedId}?view=hunks`);
+        const payload = (await response.json()) as DiffResult;
+        if (!response.ok || payload.error || !payload.saved) {
+          throw new Error(payload.error || "Could not load the comparison.");
+        }
+        const saved = payload.saved;
+        const compared = payload.multiDiff
+          ? [
+              payload.multiDiff.baseline,
+              ...payload.multiDiff.variants.map((item) => item.file),
+            ]
+          : payload.files;
+        const descriptors = payload.merge
+          ? [...compared, payload.merge.base]
+          : compared;
+        const files = await Promise.all(
+          descriptors.map(async (descriptor, idx) => {
+            const blob = await fetch(`/api/diff/${savedId}/files/${idx}`).then(
+              (res) => {
+                if (!res.ok) throw new Error("Saved files are no longer available.");
+                return res.blob();
+              },
+            );
+            return new File([blob], descriptor.name, { type: descriptor.mime });
+          }),
+        );
 
-  const validateFiles = (files: File[]) => {
+        const options = restoreOptions(saved.fields);
+        setEncoding(options.encoding);
+        setGranularity(options.granularity);
+        setAlgorithm(options.algorithm);
+        setIgnore(options.ignore);
+        setRules(options.rules);
+        setArrayKey(options.arrayKey);
+        setKeyColumns(options.keyColumns);
+        setSelected(
+          files
+            .slice(0, compared.length)
+            .map((file, idx) => ({ id: `${saved.id}-${idx}`, file })),
+        );
+        setBaseFile(files[compared.length] ?? null);
+        setVariant((payload.multiDiff?.selected ?? 0) + 1);
+        setResolutions({});
+        setDeleteToken(localStorage.getItem(DELETE_TOKEN_KEY(saved.id)));
+        setResult(payload);
+        setWarnings(payload.warnings ?? []);
+      } catch (err) {
+        setResult(null);
+        setError(
+          err instanceof Error ? err.message : "Could not load the comparison.",
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    void loadSaved();
+  }, [savedId]);
+
+  const validateFiles = (files: File[], base?: File | null) => {
     if (files.length === 0) {
       return "Select at least one file.";
     }
-    if (files.length > 2) {
-      return "Only two files can be compared at once. Reset to replace.";
+    if (files.length > MAX_VARIANTS + 1) {
+      return `Compare at most a baseline and ${MAX_VARIANTS} variants. Reset to replace.`;
     }
-    if (files.some((file) => file.size > MAX_FILE_SIZE)) {
-      return "Each file must be 5 MB or smaller.";
+    // Up to two files without a base can be large enough to need streaming.
+    const streamable = files.length <= 2 && !base;
+    const maxFileSize = streamable ? STREAM_MAX_FILE_SIZE : MAX_FILE_SIZE;
+    if (files.some((file) => file.size > maxFileSize)) {
+      return streamable
+        ? "Each file must be 256 MB or smaller."
+        : "Each file must be 5 MB or smaller.";
     }
     if (
       files.some((file) =>
@@ -337,10 +3070,18 @@ export default function Home() {
     ) {
       return "Videos and audio files are blocked for the MVP.";
     }
-    if (files.length === 2) {
-      const total = files.reduce((sum, file) => sum + file.size, 0);
-      if (total > MAX_COMBINED_SIZE) {
-        return "Combined file size must be 8 MB or smaller.";
+    if (base && base.size > MAX_FILE_SIZE) {
+      return "Each file must be 5 MB or smaller.";
+    }
+    if (files.length >= 2) {
+      const total = [...files, ...(base ? [base] : [])].reduce(
+        (sum, file) => sum + file.size,
+        0,
+      );
+      if (total > (streamable ? STREAM_MAX_COMBINED_SIZE : MAX_COMBINED_SIZE)) {
+        return streamable
+          ? "Combined file size must be 512 MB or smaller."
+          : "Combined file size must be 8 MB or smaller.";
       }
     }
     return null;
@@ -355,25 +3096,39 @@ export default function Home() {
       setError(validationError);
       return;
     }
-    const trimmed = merged.slice(0, 2);
+    const trimmed = merged.slice(0, MAX_VARIANTS + 1);
     setSelected(
       trimmed.map((file) => ({
         id: `${file.name}-${file.size}-${file.lastModified}`,
         file,
       })),
     );
+    setArchiveEntry(undefined);
+    setVariant(1);
     setError(null);
     setResult(null);
     setWarnings([]);
   };
 
-  const submit = async () => {
-    if (!hasExactlyTwo) {
+  const submit = async (overrides: Partial<CompareOptions> = {}) => {
+    const options: CompareOptions = {
+      encoding,
+      granularity,
+      algorithm,
+      ignore,
+      rules,
+      arrayKey,
+      keyColumns,
+      entry: archiveEntry,
+      variant: isMultiCompare ? variant : undefined,
+      ...overrides,
+    };
+    if (!canSubmit) {
       setError("Add one more file to compare.");
       return;
     }
     const files = currentFiles;
-    const validationError = validateFiles(files);
+    const validationError = validateFiles(files, mergeBase);
     if (validationError) {
       setError(validationError);
       return;
@@ -383,15 +3138,33 @@ export default function Home() {
     setError(null);
     setWarnings([]);
 
-    const formData = new FormData();
-    files.forEach((file) => formData.append("files", file));
+    const formData = patchFile
+      ? buildPatchFormData(patchFile, files, options)
+      : buildFormData(files, options, mergeBase);
+
+    const streamed = !patchFile && needsStreaming(files, mergeBase);
+    if (streamed) {
+      formData.append("context", String(DEFAULT_CONTEXT_LINES));
+    } else if (!patchFile) {
+      formData.append("view", "hunks");
+    }
 
     try {
-      const response = await fetch("/api/diff", {
-        method: "POST",
-        body: formData,
-      });
-      const payload = (await response.json()) as DiffResult;
+      const response = await fetch(
+        patchFile
+          ? "/api/patch"
+          : streamed
+            ? "/api/diff/stream"
+            : "/api/diff",
+        {
+          method: "POST",
+          body: formData,
+        },
+      );
+      const payload =
+        streamed && response.ok
+          ? await readDiffStream(response)
+          : ((await response.json()) as DiffResult);
 
       if (!response.ok || payload.error) {
         throw new Error(payload.error || "Upload failed.");
@@ -401,6 +3174,23 @@ export default function Home() {
       setWarnings(payload.warnings ?? []);
       setHideUnchanged(false);
       setActiveChange(0);
+      setCopied(false);
+      setResolutions({});
+      setArchiveEntry(payload.archiveDiff?.entry);
+      setVariant((payload.multiDiff?.selected ?? 0) + 1);
+      if (payload.saved?.deleteToken) {
+        localStorage.setItem(
+          DELETE_TOKEN_KEY(payload.saved.id),
+          payload.saved.deleteToken,
+        );
+        setDeleteToken(payload.saved.deleteToken);
+      }
+      // Keep the address bar in step: a permalink after saving, home otherwise.
+      const path = payload.saved?.url ?? "/";
+      if (window.location.pathname !== path) {
+        loadedId.current = payload.saved?.id ?? null;
+        window.history.replaceState(null, "", path);
+      }
     } catch (err) {
       setResult(null);
       setError(err instanceof Error ? err.message : "Upload failed.");
@@ -409,8 +3199,105 @@ export default function Home() {
     }
   };
 
+  const copyLink = async () => {
+    if (!result?.saved) return;
+    await navigator.clipboard.writeText(
+      `${window.location.origin}${result.saved.url}`,
+    );
+    setCopied(true);
+  };
+
+  const deleteSaved = async () => {
+    const saved = result?.saved;
+    if (!saved || !deleteToken) return;
+    try {
+      const response = await fetch(`/api/diff/${saved.id}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": deleteToken },
+      });
+      if (!response.ok && response.status !== 404) {
+        const payload = (await response.json()) as DiffResult;
+        throw new Error(payload.error || "Delete failed.");
+      }
+      localStorage.removeItem(DELETE_TOKEN_KEY(saved.id));
+      setDeleteToken(null);
+      setResult({ ...result, saved: undefined });
+      loadedId.current = null;
+      window.history.replaceState(null, "", "/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed.");
+    }
+  };
+
+  const downloadExport = async (format: ExportFormat) => {
+    if (!canSubmit) return;
+    const options: CompareOptions = {
+      encoding,
+      granularity,
+      algorithm,
+      ignore,
+      rules,
+      arrayKey,
+      keyColumns,
+      entry: archiveEntry,
+      variant: isMultiCompare ? variant : undefined,
+    };
+    const formData = patchFile
+      ? buildPatchFormData(patchFile, currentFiles, options)
+      : buildFormData(currentFiles, options, mergeBase);
+    formData.append("format", format);
+    if (format === "unified") {
+      formData.append("context", String(contextLines));
+    }
+    if (format === "merged") {
+      formData.append("conflictStyle", conflictStyle);
+      Object.entries(resolutions).forEach(([index, choice]) =>
+        formData.append("resolutions", `${index}:${choice}`),
+      );
+    }
+
+    try {
+      const response = await fetch(patchFile ? "/api/patch" : "/api/diff", {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as DiffResult;
+        throw new Error(payload.error || "Export failed.");
+      }
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] ?? "comparison";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed.");
+    }
+  };
+
+  const pickBase = (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const validationError = validateFiles(currentFiles, file);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setBaseFile(file);
+    setError(null);
+    setResult(null);
+    setWarnings([]);
+  };
+
   const clear = () => {
     setSelected([]);
+    setBaseFile(null);
+    setArchiveEntry(undefined);
+    setVariant(1);
     setResult(null);
     setError(null);
     setWarnings([]);
@@ -429,7 +3316,8 @@ export default function Home() {
             Phase 1 · Text diff MVP
           </span>
           <span className="text-sm text-teal-200">
-            Limits: 5 MB per file / 8 MB total. Text-first comparison.
+            Limits: 5 MB per file / 8 MB total; two text files up to 256 MB
+            each are streamed. Text-first comparison.
           </span>
         </div>
         <div className="flex flex-col gap-2 lg:flex-row lg:items-end lg:justify-between">
@@ -495,7 +3383,8 @@ export default function Home() {
                 Drop files here
               </p>
               <p className="mt-1 text-sm text-teal-200">
-                or choose exactly two files to compare
+                or choose two files to compare, a baseline plus up to{" "}
+                {MAX_VARIANTS} variants, or a .patch with its original file
               </p>
               <label className="mt-4 inline-block cursor-pointer rounded-full border border-teal-700 bg-teal-800 px-4 py-2 text-sm font-medium text-teal-100 transition hover:border-cyan-400 hover:text-white">
                 Browse files
@@ -520,22 +3409,88 @@ export default function Home() {
             )}
           </div>
 
+          {!patchFile && !isMultiCompare && (
+            <div className="mt-3 flex flex-wrap items-center gap-2 rounded-xl border border-teal-800 bg-teal-900/40 px-4 py-3 text-sm text-teal-200">
+              <span className="font-semibold text-teal-50">Common ancestor</span>
+              {baseFile ? (
+                <>
+                  <span className="truncate text-teal-50">{baseFile.name}</span>
+                  <span className="text-xs text-teal-300/80">
+                    {formatBytes(baseFile.size)} · first file is ours, second
+                    is theirs
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setBaseFile(null);
+                      setResult(null);
+                    }}
+                    className="ml-auto rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-xs text-teal-100 transition hover:border-cyan-400 hover:text-white"
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span className="text-xs text-teal-200/80">
+                    Optional: add the base version for a three-way merge.
+                  </span>
+                  <label className="ml-auto cursor-pointer rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-xs text-teal-100 transition hover:border-cyan-400 hover:text-white">
+                    Choose base
+                    <input
+                      type="file"
+                      className="hidden"
+                      onChange={(e) => {
+                        pickBase(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
             <div className="text-sm text-teal-200">
               We never upload beyond this session. Size cap: 5 MB each / 8 MB
-              total.
+              total, or 256 MB each when comparing two text files.
             </div>
             <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-teal-100">
+                Encoding
+                <select
+                  value={encoding}
+                  onChange={(e) => setEncoding(e.target.value)}
+                  className="rounded-lg border border-teal-700 bg-teal-800 px-2 py-2 text-sm text-teal-100"
+                >
+                  {ENCODING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
               {loading && (
                 <div className="h-4 w-4 animate-spin rounded-full border-2 border-cyan-200 border-t-transparent" />
               )}
               <button
                 type="button"
-                onClick={submit}
-                disabled={!hasExactlyTwo || loading}
+                onClick={() => submit()}
+                disabled={!canSubmit || loading}
                 className="rounded-lg bg-cyan-400 px-4 py-2 text-sm font-semibold text-teal-950 transition hover:bg-teal-300 disabled:opacity-40"
               >
-                {loading ? "Processing…" : "Compare files"}
+                {loading
+                  ? "Processing…"
+                  : patchFile
+                    ? hasExactlyTwo
+                      ? "Apply patch"
+                      : "Preview patch"
+                    : mergeBase
+                      ? "Merge files"
+                      : isMultiCompare
+                        ? `Compare ${selected.length - 1} variants`
+                        : "Compare files"}
               </button>
             </div>
           </div>
@@ -590,14 +3545,134 @@ export default function Home() {
 
       {result && (
         <section className="mt-8 space-y-4">
+          <div className="flex flex-wrap items-center justify-end gap-2 text-sm text-teal-200">
+            {!result.patch && (
+              <div className="mr-auto">
+                <SharePanel
+                  saved={result.saved}
+                  retentionHours={retentionHours}
+                  onRetentionChange={setRetentionHours}
+                  onSave={() => void submit({ save: true, retentionHours })}
+                  onCopy={() => void copyLink()}
+                  copied={copied}
+                  onDelete={deleteToken ? () => void deleteSaved() : undefined}
+                  disabled={loading}
+                />
+              </div>
+            )}
+            <span className="text-xs text-teal-200/80">Export report</span>
+            {REPORT_EXPORTS.map(({ format, label }) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => void downloadExport(format)}
+                disabled={loading}
+                className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           <SummaryPanel result={result} warnings={displayedWarnings} />
           <DescriptorCards files={result.files} />
+          {result.patch && <PatchReportPanel report={result.patch} />}
+          {result.multiDiff && (
+            <MultiDiffView
+              diff={result.multiDiff}
+              onSelectVariant={(idx) => void submit({ variant: idx + 1 })}
+              disabled={loading}
+            />
+          )}
+          {result.archiveDiff && (
+            <ArchiveDiffView
+              diff={result.archiveDiff}
+              onSelect={(path) => void submit({ entry: path })}
+              onClear={() => void submit({ entry: undefined })}
+              disabled={loading}
+            />
+          )}
+          {result.imageDiff && (
+            <ImageDiffView
+              diff={result.imageDiff}
+              names={[result.files[0].name, result.files[1].name]}
+              sources={imageSources}
+            />
+          )}
+          {result.metadataDiff && (
+            <MetadataDiffView
+              diff={result.metadataDiff}
+              names={[result.files[0].name, result.files[1].name]}
+            />
+          )}
+          {result.merge && (
+            <MergePanel
+              merge={result.merge}
+              names={[result.files[0].name, result.files[1].name]}
+              resolutions={resolutions}
+              onResolve={(index, choice) =>
+                setResolutions((prev) => {
+                  const next = { ...prev };
+                  if (choice) next[index] = choice;
+                  else delete next[index];
+                  return next;
+                })
+              }
+              conflictStyle={conflictStyle}
+              onConflictStyleChange={setConflictStyle}
+              onDownload={() => void downloadExport("merged")}
+              disabled={loading}
+            />
+          )}
+
+          {result.structuredDiff && (
+            <StructuredDiffView
+              diff={result.structuredDiff}
+              arrayKey={arrayKey}
+              onArrayKeyChange={setArrayKey}
+              onApply={() => void submit()}
+              disabled={loading}
+            />
+          )}
 
-          {result.textDiff ? (
+          {result.tabularDiff && showTable ? (
+            <TabularDiffView
+              diff={result.tabularDiff}
+              keyColumns={keyColumns}
+              onKeyColumnsChange={setKeyColumns}
+              onApply={() => void submit()}
+              onShowLines={() => setShowTable(false)}
+              disabled={loading}
+            />
+          ) : result.textDiff || result.textHunks ? (
             <>
               <DiffControls
                 hideUnchanged={hideUnchanged}
                 onToggleHidden={(next) => setHideUnchanged(next)}
+                granularity={granularity}
+                onGranularityChange={(next) => {
+                  setGranularity(next);
+                  void submit({ granularity: next });
+                }}
+                algorithm={algorithm}
+                onAlgorithmChange={
+                  // Patches keep their hunks and streamed diffs cannot use Myers.
+                  result.patch || (result.textHunks && !result.textHunks.linesUrl)
+                    ? undefined
+                    : (next) => {
+                        setAlgorithm(next);
+                        void submit({ algorithm: next });
+                      }
+                }
+                syntax={syntax}
+                detectedSyntax={detectedSyntax}
+                onSyntaxChange={setSyntax}
+                syntaxLimited={syntaxLimited}
+                ignore={ignore}
+                onIgnoreChange={(next) => {
+                  setIgnore(next);
+                  void submit({ ignore: next });
+                }}
+                disabled={loading}
                 onPrev={() =>
                   setActiveChange((prev) =>
                     changePositions.length
@@ -614,25 +3689,98 @@ export default function Home() {
                 }
                 hasChanges={changePositions.length > 0}
               />
+              <IgnoreRulesPanel
+                rules={rules}
+                onRulesChange={(next, apply) => {
+                  setRules(next);
+                  if (apply) void submit({ rules: next });
+                }}
+                onApply={() => void submit()}
+                disabled={loading}
+              />
               <div className="overflow-hidden rounded-2xl border border-teal-800 bg-teal-950/50 shadow-lg shadow-teal-900/30">
                 <div className="flex flex-wrap items-center gap-3 border-b border-teal-800 px-4 py-3 text-sm text-teal-200">
                   <span className="font-semibold text-teal-50">
                     Text diff view
                   </span>
+                  {result.archiveDiff?.entry && (
+                    <code className="rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 text-xs text-teal-50">
+                      {result.archiveDiff.entry}
+                    </code>
+                  )}
                   <span className="rounded-full border border-teal-700 px-2 py-1 text-xs text-teal-200/80">
                     {hideUnchanged
-                      ? `${displayedLines.length} visible lines`
-                      : `${result.textDiff.length} total lines`}
+                      ? `${displayedRows.length} visible lines`
+                      : `${result.textHunks?.lineCount ?? diffRows.length} total lines`}
                   </span>
                   <span className="text-xs text-teal-200/80">
                     Navigate changes or hide noise to focus on edits.
                   </span>
+                  <div className="ml-auto flex flex-wrap items-center gap-2">
+                    {!result.patch && (
+                      <>
+                        <label className="flex items-center gap-2 text-xs text-teal-200/80">
+                          Context
+                          <input
+                            type="number"
+                            min={0}
+                            max={MAX_CONTEXT_LINES}
+                            value={contextLines}
+                            onChange={(e) =>
+                              setContextLines(
+                                Math.min(
+                                  MAX_CONTEXT_LINES,
+                                  Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                                ),
+                              )
+                            }
+                            className="w-16 rounded-lg border border-teal-700 bg-teal-900 px-2 py-1 text-sm text-teal-50"
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => void downloadExport("unified")}
+                          disabled={loading}
+                          className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white disabled:opacity-50"
+                        >
+                          Download .diff
+                        </button>
+                      </>
+                    )}
+                    {result.tabularDiff && (
+                      <button
+                        type="button"
+                        onClick={() => setShowTable(true)}
+                        className="rounded-lg border border-teal-700 bg-teal-800 px-3 py-1 text-sm text-teal-100 transition hover:border-cyan-400 hover:text-white"
+                      >
+                        Table view
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div className="p-4">
-                  <TextDiffView lines={result.textDiff} hideUnchanged={hideUnchanged} />
+                  <TextDiffView
+                    ref={viewerRef}
+                    rows={displayedRows}
+                    lineCount={result.textHunks?.lineCount ?? diffRows.length}
+                    syntax={lineTokens}
+                    onExpand={
+                      result.textHunks?.linesUrl
+                        ? (start, end) => void expandLines(start, end)
+                        : undefined
+                    }
+                    expanding={expanding}
+                  />
                 </div>
               </div>
             </>
+          ) : result.archiveDiff ||
+            result.imageDiff?.changedPixels !== undefined ? null : result.binaryDiff ? (
+            <HexViewer
+              diff={result.binaryDiff}
+              onPageChange={(page) => void submit({ hexPage: page })}
+              disabled={loading}
+            />
           ) : (
             <div className="rounded-2xl border border-amber-500/40 bg-amber-500/10 px-5 py-4 text-amber-50">
               No text diff available. One or both files were classified as
@@ -0,0 +1,196 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  compareArchives,
+  detectArchiveFormat,
+  MAX_UNPACKED_SIZE,
+  readArchive,
+  safeEntryPath,
+} from "./archive";
+
+type ZipInput = { name: string; data: string; declaredSize?: number };
+
+/** Builds a minimal ZIP with deflated entries (CRCs are left at zero). */
+const buildZip = (files: ZipInput[]): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  files.forEach(({ name, data, declaredSize }) => {
+    const raw = Buffer.from(data);
+    const compressed = zlib.deflateRawSync(raw);
+    const nameBytes = Buffer.from(name);
+    const size = declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  });
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const buildTar = (files: { name: string; data: string; type?: string }[]) => {
+  const blocks: Buffer[] = [];
+  files.forEach(({ name, data, type = "0" }) => {
+    const body = Buffer.from(data);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write(body.length.toString(8).padStart(11, "0"), 124);
+    header.write(type, 156);
+    header.write("ustar\u000000", 257);
+    blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+};
+
+const unpack = (buffer: Buffer, name: string) => {
+  const format = detectArchiveFormat(buffer, name);
+  return format ? readArchive(buffer, format) : null;
+};
+
+describe("detectArchiveFormat", () => {
+  it("recognises ZIP, TAR and gzipped TAR by their bytes and name", () => {
+    const tar = buildTar([{ name: "a.txt", data: "a" }]);
+    expect(detectArchiveFormat(buildZip([]), "x.bin")).toBe("zip");
+    expect(detectArchiveFormat(tar, "bundle")).toBe("tar");
+    expect(detectArchiveFormat(zlib.gzipSync(tar), "bundle.tgz")).toBe(
+      "tar.gz",
+    );
+    expect(detectArchiveFormat(zlib.gzipSync(tar), "notes.gz")).toBeNull();
+    expect(detectArchiveFormat(Buffer.from("plain text"), "a.txt")).toBeNull();
+  });
+});
+
+describe("readArchive", () => {
+  it("unpacks ZIP entries and skips directories", () => {
+    const contents = unpack(
+      buildZip([
+        { name: "src/", data: "" },
+        { name: "src/app.ts", data: "export {};\n" },
+        { name: "README.md", data: "# hi\n" },
+      ]),
+      "a.zip",
+    );
+    expect(contents?.entries.map((entry) => entry.path)).toEqual([
+      "src/app.ts",
+      "README.md",
+    ]);
+    expect(contents?.entries[0].data.toString()).toBe("export {};\n");
+  });
+
+  it("skips entries that would escape the archive root", () => {
+    const contents = unpack(
+      buildZip([
+        { name: "../evil.sh", data: "rm -rf /" },
+        { name: "/etc/passwd", data: "root" },
+        { name: "ok/./file.txt", data: "fine" },
+      ]),
+      "a.zip",
+    );
+    expect(contents?.entries.map((entry) => entry.path)).toEqual([
+      "ok/file.txt",
+    ]);
+    expect(contents?.warnings).toHaveLength(2);
+    expect(safeEntryPath("C:\\Windows\\win.ini")).toBeNull();
+    expect(safeEntryPath("dir\\sub\\file.txt")).toBe("dir/sub/file.txt");
+  });
+
+  it("refuses archives that unpack past the size budget", () => {
+    const bomb = buildZip([
+      { name: "big.txt", data: "x", declaredSize: MAX_UNPACKED_SIZE + 1 },
+    ]);
+    expect(() => unpack(bomb, "bomb.zip")).toThrow(/more than 64 MB/);
+
+    const lying = buildZip([
+      { name: "lie.txt", data: "x".repeat(10_000), declaredSize: 10 },
+    ]);
+    expect(() => unpack(lying, "lie.zip")).toThrow(/lie\.txt/);
+  });
+
+  it("reads TAR and TAR.GZ entries, including long names", () => {
+    const longName = `${"deep/".repeat(30)}file.txt`;
+    const tar = buildTar([
+      { name: "docs", data: "", type: "5" },
+      { name: "././@LongLink", data: `${longName}\0`, type: "L" },
+      { name: "truncated", data: "long\n" },
+      { name: "docs/a.txt", data: "alpha\n" },
+    ]);
+    const plain = unpack(tar, "bundle.tar");
+    const gzipped = unpack(zlib.gzipSync(tar), "bundle.tar.gz");
+
+    expect(plain?.entries.map((entry) => entry.path)).toEqual([
+      longName,
+      "docs/a.txt",
+    ]);
+    expect(gzipped?.format).toBe("tar.gz");
+    expect(gzipped?.entries.map((entry) => entry.hash)).toEqual(
+      plain?.entries.map((entry) => entry.hash),
+    );
+  });
+});
+
+describe("compareArchives", () => {
+  it("reports entry status by path and detects renames by hash", () => {
+    const left = readArchive(
+      buildZip([
+        { name: "same.txt", data: "same\n" },
+        { name: "edit.txt", data: "before\n" },
+        { name: "old-name.txt", data: "moved\n" },
+        { name: "gone.txt", data: "bye\n" },
+      ]),
+      "zip",
+    );
+    const right = readArchive(
+      buildTar([
+        { name: "same.txt", data: "same\n" },
+        { name: "edit.txt", data: "after\n" },
+        { name: "new-name.txt", data: "moved\n" },
+        { name: "fresh.txt", data: "hello\n" },
+      ]),
+      "tar",
+    );
+
+    const diff = compareArchives(left, right);
+
+    expect(diff.formats).toEqual(["zip", "tar"]);
+    expect(
+      diff.entries.map(({ path, status, oldPath }) => [path, status, oldPath]),
+    ).toEqual([
+      ["edit.txt", "changed", undefined],
+      ["fresh.txt", "added", undefined],
+      ["gone.txt", "removed", undefined],
+      ["new-name.txt", "renamed", "old-name.txt"],
+      ["same.txt", "identical", undefined],
+    ]);
+    expect(diff).toMatchObject({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      renamed: 1,
+      identical: 1,
+    });
+    expect(diff.entries[0].kind).toBe("text");
+  });
+});
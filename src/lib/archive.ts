@@ -0,0 +1,385 @@
+import zlib from "zlib";
+import { classifyKind, extensionOf, hashBuffer } from "./diff";
+import { ArchiveDiff, ArchiveEntryChange, ArchiveFormat } from "./types";
+
+export const MAX_ARCHIVE_ENTRIES = 5000;
+export const MAX_UNPACKED_SIZE = 64 * 1024 * 1024; // per archive
+
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_END_SIZE = 22;
+const ZIP_MAX_COMMENT = 0xffff;
+const TAR_BLOCK = 512;
+const TAR_GZ_EXTENSIONS = [".tar.gz", ".tgz"];
+
+export type ArchiveEntry = {
+  path: string;
+  size: number;
+  hash: string;
+  data: Buffer;
+};
+
+export type ArchiveContents = {
+  format: ArchiveFormat;
+  entries: ArchiveEntry[];
+  warnings: string[];
+};
+
+const isGzip = (buffer: Buffer) =>
+  buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+
+const isTar = (buffer: Buffer) =>
+  buffer.length >= TAR_BLOCK && buffer.toString("latin1", 257, 262) === "ustar";
+
+/**
+ * Recognises archives by their magic bytes. Gzip is only treated as an
+ * archive when the name says it wraps a tarball (`.tar.gz` / `.tgz`).
+ */
+export const detectArchiveFormat = (
+  buffer: Buffer,
+  name: string,
+): ArchiveFormat | null => {
+  if (buffer.length >= 4) {
+    const signature = buffer.readUInt32LE(0);
+    if (signature === ZIP_LOCAL_SIGNATURE || signature === ZIP_END_SIGNATURE) {
+      return "zip";
+    }
+  }
+  const lower = name.toLowerCase();
+  if (isGzip(buffer) && TAR_GZ_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+    return "tar.gz";
+  }
+  if (isTar(buffer) || (lower.endsWith(".tar") && buffer.length >= TAR_BLOCK)) {
+    return "tar";
+  }
+  return null;
+};
+
+/**
+ * Normalizes an entry path and rejects anything that could escape the
+ * archive root when extracted (zip-slip): absolute paths, drive letters and
+ * `..` segments. Returns null for those.
+ */
+export const safeEntryPath = (raw: string): string | null => {
+  const path = raw.replace(/\\/g, "/");
+  if (path.startsWith("/") || /^[a-zA-Z]:/.test(path)) return null;
+  const segments = path.split("/").filter((part) => part && part !== ".");
+  if (!segments.length || segments.includes("..")) return null;
+  return segments.join("/");
+};
+
+/** Tracks the entry count and unpacked size so a bomb fails early. */
+const createBudget = () => {
+  let entries = 0;
+  let remaining = MAX_UNPACKED_SIZE;
+  const tooLarge = () =>
+    new Error(
+      `Archive unpacks to more than ${MAX_UNPACKED_SIZE / 1024 / 1024} MB.`,
+    );
+  return {
+    remaining: () => remaining,
+    take: (size: number) => {
+      entries += 1;
+      if (entries > MAX_ARCHIVE_ENTRIES) {
+        throw new Error(
+          `Archive has more than ${MAX_ARCHIVE_ENTRIES} entries.`,
+        );
+      }
+      if (size > remaining) throw tooLarge();
+      remaining -= size;
+    },
+    tooLarge,
+  };
+};
+
+type Budget = ReturnType<typeof createBudget>;
+
+const pushEntry = (
+  entries: ArchiveEntry[],
+  warnings: string[],
+  rawPath: string,
+  data: Buffer,
+) => {
+  const path = safeEntryPath(rawPath);
+  if (!path) {
+    warnings.push(`Skipped unsafe archive path "${rawPath}".`);
+    return;
+  }
+  if (entries.some((entry) => entry.path === path)) {
+    warnings.push(`Skipped duplicate archive path "${path}".`);
+    return;
+  }
+  entries.push({ path, size: data.length, hash: hashBuffer(data), data });
+};
+
+const readZip = (buffer: Buffer): ArchiveContents => {
+  const searchFrom = Math.max(
+    0,
+    buffer.length - ZIP_END_SIZE - ZIP_MAX_COMMENT,
+  );
+  let end = -1;
+  for (let i = buffer.length - ZIP_END_SIZE; i >= searchFrom; i -= 1) {
+    if (buffer.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("ZIP end of central directory not found.");
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const budget = createBudget();
+  const entries: ArchiveEntry[] = [];
+  const warnings: string[] = [];
+
+  for (let idx = 0; idx < count; idx += 1) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE
+    ) {
+      throw new Error("ZIP central directory is corrupt.");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools write CP437, read here as latin1.
+    const name = buffer.toString(
+      flags & 0x800 ? "utf8" : "latin1",
+      offset + 46,
+      offset + 46 + nameLength,
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) {
+      warnings.push(`Skipped encrypted archive entry "${name}".`);
+      continue;
+    }
+    if (method !== 0 && method !== 8) {
+      warnings.push(
+        `Skipped "${name}": compression method ${method} is not supported.`,
+      );
+      continue;
+    }
+    budget.take(size);
+
+    if (
+      localOffset + 30 > buffer.length ||
+      buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_SIGNATURE
+    ) {
+      throw new Error(`ZIP entry "${name}" is corrupt.`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    try {
+      // Never inflate past the declared size: a lying header cannot blow up memory.
+      data =
+        method === 0
+          ? Buffer.from(compressed)
+          : zlib.inflateRawSync(compressed, { maxOutputLength: size || 1 });
+    } catch {
+      throw new Error(`ZIP entry "${name}" could not be inflated.`);
+    }
+    if (data.length !== size) {
+      throw new Error(`ZIP entry "${name}" does not match its declared size.`);
+    }
+    pushEntry(entries, warnings, name, data);
+  }
+
+  return { format: "zip", entries, warnings };
+};
+
+const tarString = (block: Buffer, start: number, length: number) => {
+  const raw = block.subarray(start, start + length);
+  const nul = raw.indexOf(0);
+  return raw.toString("utf8", 0, nul < 0 ? raw.length : nul);
+};
+
+const tarNumber = (block: Buffer, start: number, length: number) => {
+  const text = tarString(block, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+/** Reads `path` from a pax extended header (`<len> key=value\n` records). */
+const paxPath = (data: Buffer): string | undefined => {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString("utf8"));
+  return match?.[1];
+};
+
+const readTar = (
+  buffer: Buffer,
+  format: ArchiveFormat,
+  budget: Budget = createBudget(),
+): ArchiveContents => {
+  const entries: ArchiveEntry[] = [];
+  const warnings: string[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) break;
+    const size = tarNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = isTar(header) ? tarString(header, 345, 155) : "";
+    const name = tarString(header, 0, 100);
+    const dataStart = offset + TAR_BLOCK;
+    if (!Number.isFinite(size) || dataStart + size > buffer.length) {
+      throw new Error("TAR archive is truncated.");
+    }
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === "L" || type === "x") {
+      longName = type === "L" ? tarString(data, 0, data.length) : paxPath(data);
+      continue;
+    }
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+    if (type === "5" || type === "g") continue;
+    if (type !== "0" && type !== "7") {
+      warnings.push(
+        `Skipped "${path}": links and special files are not compared.`,
+      );
+      continue;
+    }
+    budget.take(size);
+    pushEntry(entries, warnings, path, Buffer.from(data));
+  }
+
+  return { format, entries, warnings };
+};
+
+/** Unpacks an archive in memory, enforcing the entry and size limits. */
+export const readArchive = (
+  buffer: Buffer,
+  format: ArchiveFormat,
+): ArchiveContents => {
+  if (format === "zip") return readZip(buffer);
+  if (format === "tar") return readTar(buffer, format);
+
+  const budget = createBudget();
+  let tarball: Buffer;
+  try {
+    tarball = zlib.gunzipSync(buffer, {
+      maxOutputLength: budget.remaining() + TAR_BLOCK * 2,
+    });
+  } catch (error) {
+    if (error instanceof RangeError) throw budget.tooLarge();
+    throw new Error("Gzip data could not be decompressed.");
+  }
+  return readTar(tarball, format, budget);
+};
+
+/**
+ * Matches entries by path. Entries that disappear on one path and appear on
+ * another with the same hash are reported as renames rather than a
+ * removal plus an addition.
+ */
+export const compareArchives = (
+  left: ArchiveContents,
+  right: ArchiveContents,
+): ArchiveDiff => {
+  const oldEntries = new Map(left.entries.map((entry) => [entry.path, entry]));
+  const newEntries = new Map(right.entries.map((entry) => [entry.path, entry]));
+  const kindOf = (entry: ArchiveEntry) =>
+    classifyKind(entry.data, undefined, extensionOf(entry.path));
+  const changes: ArchiveEntryChange[] = [];
+
+  const removed = left.entries.filter((entry) => !newEntries.has(entry.path));
+  const added = right.entries.filter((entry) => !oldEntries.has(entry.path));
+  const renamedFrom = new Map<string, ArchiveEntry>();
+  removed.forEach((entry) => {
+    const target = added.find(
+      (candidate) =>
+        candidate.hash === entry.hash && !renamedFrom.has(candidate.path),
+    );
+    if (target) renamedFrom.set(target.path, entry);
+  });
+  const renamedPaths = new Set(
+    [...renamedFrom.values()].map((entry) => entry.path),
+  );
+
+  right.entries.forEach((entry) => {
+    const before = oldEntries.get(entry.path) ?? renamedFrom.get(entry.path);
+    changes.push({
+      path: entry.path,
+      oldPath: renamedFrom.get(entry.path)?.path,
+      status: !before
+        ? "added"
+        : before.path !== entry.path
+          ? "renamed"
+          : before.hash === entry.hash
+            ? "identical"
+            : "changed",
+      kind: before && kindOf(before) === "binary" ? "binary" : kindOf(entry),
+      oldSize: before?.size ?? null,
+      newSize: entry.size,
+      oldHash: before?.hash ?? null,
+      newHash: entry.hash,
+    });
+  });
+  removed
+    .filter((entry) => !renamedPaths.has(entry.path))
+    .forEach((entry) =>
+      changes.push({
+        path: entry.path,
+        status: "removed",
+        kind: kindOf(entry),
+        oldSize: entry.size,
+        newSize: null,
+        oldHash: entry.hash,
+        newHash: null,
+      }),
+    );
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+
+  const count = (status: ArchiveEntryChange["status"]) =>
+    changes.filter((change) => change.status === status).length;
+
+  return {
+    formats: [left.format, right.format],
+    added: count("added"),
+    removed: count("removed"),
+    changed: count("changed"),
+    renamed: count("renamed"),
+    identical: count("identical"),
+    entries: changes,
+  };
+};
+
+/** Finds both sides of an entry, following a rename back to its old path. */
+export const findArchiveEntry = (
+  diff: ArchiveDiff,
+  left: ArchiveContents,
+  right: ArchiveContents,
+  path: string,
+): {
+  change: ArchiveEntryChange;
+  before?: ArchiveEntry;
+  after?: ArchiveEntry;
+} | null => {
+  const change = diff.entries.find((entry) => entry.path === path);
+  if (!change) return null;
+  const oldPath = change.oldPath ?? change.path;
+  return {
+    change,
+    before: left.entries.find((entry) => entry.path === oldPath),
+    after: right.entries.find((entry) => entry.path === change.path),
+  };
+};
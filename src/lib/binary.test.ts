@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  HEX_PAGE_SIZE,
+  binarySimilarity,
+  buildHexPreview,
+  changedByteRanges,
+  computeBinaryDiff,
+} from "./binary";
+
+const randomBytes = (length: number, seed: number): Buffer => {
+  const buffer = Buffer.alloc(length);
+  let state = seed;
+  for (let i = 0; i < length; i += 1) {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    buffer[i] = state >> 16;
+  }
+  return buffer;
+};
+
+describe("changedByteRanges", () => {
+  it("collects contiguous differing bytes", () => {
+    const left = Buffer.from([1, 2, 3, 4, 5, 6]);
+    const right = Buffer.from([1, 9, 9, 4, 5, 7]);
+    const { ranges, changedBytes } = changedByteRanges(left, right);
+
+    expect(ranges).toEqual([
+      { offset: 1, length: 2 },
+      { offset: 5, length: 1 },
+    ]);
+    expect(changedBytes).toBe(3);
+  });
+
+  it("treats the size difference as a trailing change", () => {
+    const left = Buffer.from([1, 2, 3]);
+    const right = Buffer.from([1, 2, 4, 5, 6]);
+    const { ranges, changedBytes } = changedByteRanges(left, right);
+
+    expect(ranges).toEqual([{ offset: 2, length: 3 }]);
+    expect(changedBytes).toBe(3);
+  });
+});
+
+describe("binarySimilarity", () => {
+  it("stays high when bytes are inserted near the start", () => {
+    const left = randomBytes(8192, 7);
+    const right = Buffer.concat([
+      left.subarray(0, 100),
+      Buffer.from("inserted"),
+      left.subarray(100),
+    ]);
+
+    expect(binarySimilarity(left, right)).toBeGreaterThan(90);
+  });
+
+  it("is low for unrelated content", () => {
+    expect(
+      binarySimilarity(randomBytes(4096, 1), randomBytes(4096, 2)),
+    ).toBeLessThan(10);
+  });
+});
+
+describe("buildHexPreview", () => {
+  it("pages rows and clamps out-of-range pages", () => {
+    const left = randomBytes(HEX_PAGE_SIZE + 20, 3);
+    const preview = buildHexPreview(left, Buffer.alloc(0), 5);
+
+    expect(preview.totalPages).toBe(2);
+    expect(preview.page).toBe(1);
+    expect(preview.rows).toHaveLength(2);
+    expect(preview.rows[0].offset).toBe(HEX_PAGE_SIZE);
+    expect(preview.rows[1].left).toHaveLength(4);
+    expect(preview.rows[1].right).toEqual([]);
+  });
+});
+
+describe("computeBinaryDiff", () => {
+  it("opens the preview on the first changed page", () => {
+    const left = randomBytes(HEX_PAGE_SIZE * 16, 5);
+    const right = Buffer.from(left);
+    right[HEX_PAGE_SIZE * 2 + 3] ^= 0xff;
+    const diff = computeBinaryDiff(left, right);
+
+    expect(diff.preview.page).toBe(2);
+    expect(diff.changedBytes).toBe(1);
+    expect(diff.similarity).toBeGreaterThan(90);
+  });
+});
@@ -0,0 +1,170 @@
+import { BinaryDiff, ByteRange, HexPreview, HexRow } from "./types";
+
+export const HEX_ROW_BYTES = 16;
+export const HEX_PAGE_ROWS = 32;
+export const HEX_PAGE_SIZE = HEX_ROW_BYTES * HEX_PAGE_ROWS;
+
+const MAX_RANGES = 1000;
+
+const MIN_CHUNK = 16;
+const MAX_CHUNK = 256;
+// Top six bits of the gear hash: boundaries land every ~64 bytes on average.
+const CHUNK_MASK = 0xfc000000;
+
+const buildGearTable = (): Uint32Array => {
+  const table = new Uint32Array(256);
+  let seed = 0x9e3779b9;
+  for (let i = 0; i < table.length; i += 1) {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    table[i] = (t ^ (t >>> 14)) >>> 0;
+  }
+  return table;
+};
+
+const GEAR = buildGearTable();
+
+const fnv1a = (buffer: Buffer, start: number, end: number): number => {
+  let hash = 0x811c9dc5;
+  for (let i = start; i < end; i += 1) {
+    hash ^= buffer[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Splits a buffer into content-defined chunks so that an insertion only
+ * disturbs the chunks around it instead of shifting every later block.
+ */
+const chunkBuffer = (buffer: Buffer): Map<string, number> => {
+  const chunks = new Map<string, number>();
+  let start = 0;
+  let hash = 0;
+
+  const emit = (end: number) => {
+    const key = `${end - start}:${fnv1a(buffer, start, end)}`;
+    chunks.set(key, (chunks.get(key) ?? 0) + 1);
+    start = end;
+    hash = 0;
+  };
+
+  for (let i = 0; i < buffer.length; i += 1) {
+    hash = ((hash << 1) + GEAR[buffer[i]]) >>> 0;
+    const length = i + 1 - start;
+    if (
+      length >= MAX_CHUNK ||
+      (length >= MIN_CHUNK && (hash & CHUNK_MASK) === 0)
+    ) {
+      emit(i + 1);
+    }
+  }
+  if (start < buffer.length) emit(buffer.length);
+
+  return chunks;
+};
+
+export const binarySimilarity = (left: Buffer, right: Buffer): number => {
+  const total = left.length + right.length;
+  if (total === 0) return 100;
+  if (left.equals(right)) return 100;
+
+  const leftChunks = chunkBuffer(left);
+  const rightChunks = chunkBuffer(right);
+  let shared = 0;
+  leftChunks.forEach((count, key) => {
+    const other = rightChunks.get(key);
+    if (!other) return;
+    const size = Number(key.slice(0, key.indexOf(":")));
+    shared += size * Math.min(count, other);
+  });
+
+  return Math.round(((2 * shared) / total) * 100);
+};
+
+export const changedByteRanges = (
+  left: Buffer,
+  right: Buffer,
+): { ranges: ByteRange[]; changedBytes: number; truncated: boolean } => {
+  const ranges: ByteRange[] = [];
+  const overlap = Math.min(left.length, right.length);
+  const longest = Math.max(left.length, right.length);
+  let changedBytes = longest - overlap;
+  let truncated = false;
+  let rangeStart = -1;
+
+  const push = (offset: number, length: number) => {
+    if (ranges.length >= MAX_RANGES) {
+      truncated = true;
+      return;
+    }
+    ranges.push({ offset, length });
+  };
+
+  for (let i = 0; i < overlap; i += 1) {
+    if (left[i] !== right[i]) {
+      changedBytes += 1;
+      if (rangeStart === -1) rangeStart = i;
+    } else if (rangeStart !== -1) {
+      push(rangeStart, i - rangeStart);
+      rangeStart = -1;
+    }
+  }
+
+  if (longest > overlap) {
+    // The size difference extends the trailing range (or starts a new one).
+    const start = rangeStart === -1 ? overlap : rangeStart;
+    push(start, longest - start);
+  } else if (rangeStart !== -1) {
+    push(rangeStart, overlap - rangeStart);
+  }
+
+  return { ranges, changedBytes, truncated };
+};
+
+export const buildHexPreview = (
+  left: Buffer,
+  right: Buffer,
+  page: number,
+): HexPreview => {
+  const longest = Math.max(left.length, right.length);
+  const totalPages = Math.max(1, Math.ceil(longest / HEX_PAGE_SIZE));
+  const current = Math.min(Math.max(0, Math.floor(page)), totalPages - 1);
+  const pageStart = current * HEX_PAGE_SIZE;
+  const pageEnd = Math.min(longest, pageStart + HEX_PAGE_SIZE);
+  const rows: HexRow[] = [];
+
+  for (let offset = pageStart; offset < pageEnd; offset += HEX_ROW_BYTES) {
+    const end = offset + HEX_ROW_BYTES;
+    rows.push({
+      offset,
+      left: Array.from(left.subarray(offset, end)),
+      right: Array.from(right.subarray(offset, end)),
+    });
+  }
+
+  return { page: current, pageSize: HEX_PAGE_SIZE, totalPages, rows };
+};
+
+export const computeBinaryDiff = (
+  left: Buffer,
+  right: Buffer,
+  options: { page?: number } = {},
+): BinaryDiff => {
+  const { ranges, changedBytes, truncated } = changedByteRanges(left, right);
+  const page =
+    options.page ??
+    (ranges.length ? Math.floor(ranges[0].offset / HEX_PAGE_SIZE) : 0);
+
+  return {
+    leftSize: left.length,
+    rightSize: right.length,
+    changedBytes,
+    ranges,
+    rangesTruncated: truncated,
+    similarity: binarySimilarity(left, right),
+    preview: buildHexPreview(left, right, page),
+  };
+};
@@ -1,6 +1,13 @@
 import { describe, expect, it } from "vitest";
+import { FileDescriptor } from "./types";
 import {
+  compareTextFacts,
+  computeInlineSegments,
   computeTextDiff,
+  decodeText,
+  DIFF_ALGORITHMS,
+  detectLineEnding,
+  inspectText,
   isProbablyText,
   normalizeNewlines,
 } from "./diff";
@@ -12,6 +19,80 @@ describe("normalizeNewlines", () => {
   });
 });
 
+describe("decodeText", () => {
+  it("decodes UTF-16 with a BOM and strips the BOM", () => {
+    const buffer = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from("a\r\nb", "utf16le"),
+    ]);
+    expect(decodeText(buffer)).toBe("a\nb");
+  });
+
+  it("decodes Latin-1 instead of producing replacement characters", () => {
+    expect(decodeText(Buffer.from([0x63, 0x61, 0x66, 0xe9]))).toBe("café");
+  });
+});
+
+describe("detectLineEnding", () => {
+  it("classifies line break styles", () => {
+    expect(detectLineEnding("a\nb\n")).toBe("lf");
+    expect(detectLineEnding("a\r\nb\r\n")).toBe("crlf");
+    expect(detectLineEnding("a\rb")).toBe("cr");
+    expect(detectLineEnding("a\r\nb\n")).toBe("mixed");
+    expect(detectLineEnding("single line")).toBe("none");
+  });
+});
+
+describe("inspectText", () => {
+  it("records BOM, line endings and the final newline", () => {
+    const buffer = Buffer.from("\ufeffa\r\nb", "utf8");
+    expect(inspectText(buffer)).toEqual({
+      text: "a\nb",
+      lineEnding: "crlf",
+      bom: true,
+      finalNewline: false,
+    });
+  });
+});
+
+describe("compareTextFacts", () => {
+  const text = (overrides: Partial<FileDescriptor>): FileDescriptor => ({
+    name: "a.txt",
+    extension: "txt",
+    size: 1,
+    mime: "text/plain",
+    hash: "",
+    kind: "text",
+    encoding: "utf-8",
+    lineEnding: "lf",
+    bom: false,
+    finalNewline: true,
+    ...overrides,
+  });
+
+  it("reports nothing for matching facts", () => {
+    expect(compareTextFacts(text({}), text({}))).toEqual([]);
+  });
+
+  it("reports line ending, BOM and final newline differences", () => {
+    const findings = compareTextFacts(
+      text({ lineEnding: "crlf", bom: true }),
+      text({ finalNewline: false }),
+    );
+    expect(findings.map((finding) => finding.kind)).toEqual([
+      "line-ending",
+      "bom",
+      "final-newline",
+    ]);
+    expect(findings[0].message).toBe(
+      "Line endings differ: CRLF in the original, LF in the comparison.",
+    );
+    expect(findings[2].message).toBe(
+      "Original ends with a newline; comparison does not.",
+    );
+  });
+});
+
 describe("isProbablyText", () => {
   it("identifies text buffers", () => {
     const buffer = Buffer.from("hello world\n");
@@ -23,6 +104,11 @@ describe("isProbablyText", () => {
     expect(isProbablyText(buffer, "application/octet-stream", "ts")).toBe(true);
   });
 
+  it("treats UTF-16 text as text despite its null bytes", () => {
+    const buffer = Buffer.from("hello world\n", "utf16le");
+    expect(isProbablyText(buffer, "application/octet-stream")).toBe(true);
+  });
+
   it("identifies binary buffers", () => {
     const buffer = Buffer.from([0, 120, 3, 255, 10]);
     expect(isProbablyText(buffer, "application/octet-stream")).toBe(false);
@@ -57,6 +143,138 @@ describe("computeTextDiff", () => {
     expect(lines[0].after).toBe("colour");
   });
 
+  it("attaches inline segments to modified lines", () => {
+    const left = "timeout = 30\n";
+    const right = "timeout = 45\n";
+    const { lines } = computeTextDiff(left, right);
+
+    expect(lines[0].segments).toEqual([
+      { type: "equal", value: "timeout = " },
+      { type: "deleted", value: "30" },
+      { type: "inserted", value: "45" },
+    ]);
+  });
+
+  it("only pairs similar lines as modifications", () => {
+    const left = "start\nname = mintdiff\nversion = 1\nend\n";
+    const right = "start\n[package]\nname = mintdiff2\nversion = 2\nend\n";
+    const { summary, lines } = computeTextDiff(left, right);
+
+    expect(summary.added).toBe(1);
+    expect(summary.modified).toBe(2);
+    expect(summary.removed).toBe(0);
+    expect(lines[1]).toMatchObject({ type: "added", after: "[package]" });
+    expect(lines[2]).toMatchObject({
+      type: "modified",
+      before: "name = mintdiff",
+      after: "name = mintdiff2",
+    });
+  });
+
+  it("ignores trailing whitespace while keeping the original text", () => {
+    const { summary, lines } = computeTextDiff("a  \nb\n", "a\nb\n", {
+      ignoreTrailingWhitespace: true,
+    });
+
+    expect(summary.identical).toBe(true);
+    expect(lines[0]).toMatchObject({
+      type: "unchanged",
+      before: "a  ",
+      after: "a",
+      ignored: true,
+    });
+    expect(lines[1].ignored).toBeUndefined();
+  });
+
+  it("ignores reindentation when all whitespace is ignored", () => {
+    const left = "if (x) {\n  run();\n}\n";
+    const right = "if (x) {\n\trun( );\n}\n";
+    expect(computeTextDiff(left, right).summary.modified).toBe(1);
+    expect(
+      computeTextDiff(left, right, { ignoreWhitespace: true }).summary.identical,
+    ).toBe(true);
+  });
+
+  it("ignores case when requested", () => {
+    const { summary } = computeTextDiff("SELECT 1\n", "select 1\n", {
+      ignoreCase: true,
+    });
+    expect(summary.identical).toBe(true);
+  });
+
+  it("marks blank line changes as ignored and keeps line numbers", () => {
+    const { summary, lines } = computeTextDiff("a\nb\n", "a\n\nb\n", {
+      ignoreBlankLines: true,
+    });
+
+    expect(summary.added).toBe(0);
+    expect(summary.identical).toBe(true);
+    expect(lines.map((line) => [line.type, line.oldNumber, line.newNumber])).toEqual([
+      ["unchanged", 1, 1],
+      ["added", null, 2],
+      ["unchanged", 2, 3],
+    ]);
+    expect(lines[1].ignored).toBe(true);
+  });
+
+  it("masks ignore rule matches and counts them separately", () => {
+    const left = "# build 100\nversion=2024-01-01T00:00:00Z\nname=a\n";
+    const right = "# build 101\nversion=2024-02-01T12:30:00Z\nname=b\n";
+    const { summary, lines } = computeTextDiff(left, right, {
+      ignoreRules: [
+        { pattern: "^# build", scope: "line" },
+        { pattern: "\\d{4}-\\d{2}-\\d{2}T[\\d:]+Z", scope: "substring" },
+      ],
+    });
+
+    expect(summary.modified).toBe(1);
+    expect(summary.ignored).toBe(2);
+    expect(summary.changePercent).toBe(33);
+    expect(lines.map((line) => line.ignored ?? false)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("keeps inserted and removed functions whole with every algorithm", () => {
+    const fn = (name: string, body: string[]) => [
+      `int ${name}(int n)`,
+      "{",
+      ...body,
+      "}",
+      "",
+    ];
+    const frob = fn("frob", ["    if (n)", "    {", "        print(n);", "    }"]);
+    const fact = fn("fact", ["    return n * fact(n - 1);"]);
+    const fib = fn("fib", ["    return fib(n - 1) + fib(n - 2);"]);
+    const main = ["int main()", "{", "    return 0;", "}"];
+    const before = [...frob, ...fact, ...main].join("\n");
+    const after = [...fib, ...frob, ...main].join("\n");
+
+    DIFF_ALGORITHMS.forEach((algorithm) => {
+      const { lines, summary } = computeTextDiff(before, after, { algorithm });
+      const kept = (type: string) =>
+        lines.filter((line) => line.type !== type);
+      expect(kept("added").map((line) => line.before)).toEqual(
+        before.split("\n"),
+      );
+      expect(kept("removed").map((line) => line.after)).toEqual(
+        after.split("\n"),
+      );
+      expect(summary).toMatchObject({ added: 5, removed: 5, modified: 0 });
+
+      // Blocks slide down to start at the signature, not the brace above.
+      const runs = lines
+        .map((line) => line.type)
+        .filter((type, idx, types) => type !== types[idx - 1]);
+      expect(runs).toEqual(["added", "unchanged", "removed", "unchanged"]);
+      expect(lines.find((line) => line.type === "removed")?.before).toBe(
+        "int fact(int n)",
+      );
+    });
+  });
+
   it("caps change percent at 100", () => {
     const left = "a\nb\nc\n";
     const right = "x\ny\nz\nw\n";
@@ -64,3 +282,24 @@ describe("computeTextDiff", () => {
     expect(summary.changePercent).toBeLessThanOrEqual(100);
   });
 });
+
+describe("computeInlineSegments", () => {
+  it("splits on word boundaries by default", () => {
+    const segments = computeInlineSegments("the quick fox", "the slow fox");
+    expect(segments).toEqual([
+      { type: "equal", value: "the " },
+      { type: "deleted", value: "quick" },
+      { type: "inserted", value: "slow" },
+      { type: "equal", value: " fox" },
+    ]);
+  });
+
+  it("supports character granularity", () => {
+    const segments = computeInlineSegments("color", "colour", "char");
+    expect(segments).toEqual([
+      { type: "equal", value: "colo" },
+      { type: "inserted", value: "u" },
+      { type: "equal", value: "r" },
+    ]);
+  });
+});
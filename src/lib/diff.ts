@@ -1,12 +1,31 @@
 import crypto from "node:crypto";
-import { diffLines } from "diff";
+import { diffArrays, diffChars, diffWordsWithSpace } from "diff";
 import { fileTypeFromBuffer } from "file-type";
 import {
+  DiffAlgorithm,
   DiffLine,
   DiffSummary,
+  DocumentInfo,
   FileDescriptor,
   FileKind,
+  Finding,
+  InlineGranularity,
+  InlineSegment,
+  LineEnding,
+  MetadataSummary,
+  TextDiffOptions,
+  TextFacts,
 } from "./types";
+import { decodeBuffer, detectBom, detectEncoding, detectUtf16 } from "./encoding";
+import {
+  CompiledIgnoreRule,
+  compileIgnoreRules,
+  maskLine,
+  matchesLineRule,
+} from "./ignore";
+import { detectMoves } from "./moves";
+import { diffHistogram, diffPatience, SequenceDiff } from "./sequence";
+import { alignBlocks } from "./similarity";
 
 const TEXT_MIME_HINTS = [
   "application/json",
@@ -113,6 +132,10 @@ export const isProbablyText = (
   if (BINARY_MIME_HINTS.some((hint) => normalizedMime.startsWith(hint))) {
     return false;
   }
+  // UTF-16 text is full of null bytes, so catch it before the control-byte check.
+  if (detectBom(buffer) || detectUtf16(buffer)) {
+    return true;
+  }
   if (
     normalizedMime === "application/octet-stream" ||
     normalizedMime === "" ||
@@ -136,9 +159,99 @@ export const classifyKind = (
   extension?: string,
 ): FileKind => (isProbablyText(buffer, mime, extension) ? "text" : "binary");
 
-export const decodeText = (buffer: Buffer): string => {
-  const decoder = new TextDecoder("utf-8", { fatal: false });
-  return normalizeNewlines(decoder.decode(buffer));
+export const decodeText = (
+  buffer: Buffer,
+  encoding: string = detectEncoding(buffer),
+): string => normalizeNewlines(decodeBuffer(buffer, encoding));
+
+export const detectLineEnding = (raw: string): LineEnding => {
+  const crlf = (raw.match(/\r\n/g) ?? []).length;
+  const cr = (raw.match(/\r(?!\n)/g) ?? []).length;
+  const lf = (raw.match(/(?<!\r)\n/g) ?? []).length;
+  const styles = [crlf && "crlf", cr && "cr", lf && "lf"].filter(Boolean);
+  if (styles.length === 0) return "none";
+  if (styles.length > 1) return "mixed";
+  return styles[0] as LineEnding;
+};
+
+/**
+ * Decodes a text buffer and records the byte-level facts that newline
+ * normalisation would otherwise hide.
+ */
+export const inspectText = (
+  buffer: Buffer,
+  encoding: string = detectEncoding(buffer),
+): TextFacts & { text: string } => {
+  const raw = decodeBuffer(buffer, encoding);
+  return {
+    text: normalizeNewlines(raw),
+    lineEnding: detectLineEnding(raw),
+    bom: detectBom(buffer) !== null,
+    finalNewline: /[\r\n]$/.test(raw),
+  };
+};
+
+const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  lf: "LF",
+  crlf: "CRLF",
+  cr: "CR",
+  mixed: "mixed line endings",
+  none: "no line breaks",
+};
+
+export const compareTextFacts = (
+  left: FileDescriptor,
+  right: FileDescriptor,
+): Finding[] => {
+  const findings: Finding[] = [];
+
+  if (left.encoding && right.encoding && left.encoding !== right.encoding) {
+    findings.push({
+      kind: "encoding",
+      message: `Encodings differ: ${left.encoding} in the original, ${right.encoding} in the comparison.`,
+      before: left.encoding,
+      after: right.encoding,
+    });
+  }
+
+  if (
+    left.lineEnding &&
+    right.lineEnding &&
+    left.lineEnding !== right.lineEnding &&
+    left.lineEnding !== "none" &&
+    right.lineEnding !== "none"
+  ) {
+    findings.push({
+      kind: "line-ending",
+      message: `Line endings differ: ${LINE_ENDING_LABELS[left.lineEnding]} in the original, ${LINE_ENDING_LABELS[right.lineEnding]} in the comparison.`,
+      before: left.lineEnding,
+      after: right.lineEnding,
+    });
+  }
+
+  if (left.bom !== undefined && right.bom !== undefined && left.bom !== right.bom) {
+    findings.push({
+      kind: "bom",
+      message: `Byte order mark present only in the ${left.bom ? "original" : "comparison"}.`,
+      before: left.bom,
+      after: right.bom,
+    });
+  }
+
+  if (
+    left.finalNewline !== undefined &&
+    right.finalNewline !== undefined &&
+    left.finalNewline !== right.finalNewline
+  ) {
+    findings.push({
+      kind: "final-newline",
+      message: `${left.finalNewline ? "Original" : "Comparison"} ends with a newline; ${left.finalNewline ? "comparison" : "original"} does not.`,
+      before: left.finalNewline,
+      after: right.finalNewline,
+    });
+  }
+
+  return findings;
 };
 
 export const buildDescriptor = ({
@@ -146,12 +259,24 @@ export const buildDescriptor = ({
   mime,
   buffer,
   kind,
+  encoding,
+  lineEnding,
+  bom,
+  finalNewline,
+  metadata,
+  document,
   warnings,
 }: {
   name: string;
   mime: string;
   buffer: Buffer;
   kind: FileKind;
+  encoding?: string;
+  lineEnding?: LineEnding;
+  bom?: boolean;
+  finalNewline?: boolean;
+  metadata?: MetadataSummary;
+  document?: DocumentInfo;
   warnings?: string[];
 }): FileDescriptor => ({
   name,
@@ -160,18 +285,117 @@ export const buildDescriptor = ({
   mime,
   hash: hashBuffer(buffer),
   kind,
+  encoding,
+  lineEnding,
+  bom,
+  finalNewline,
+  metadata,
+  document,
   warnings,
 });
 
+/**
+ * Reduces a line to the form used for matching, so lines that only differ in
+ * ignored whitespace, case or masked patterns compare equal while the
+ * original text is kept for display.
+ */
+export const comparisonKey = (
+  line: string,
+  options: TextDiffOptions,
+  rules: CompiledIgnoreRule[],
+): string => {
+  let key = rules.length ? maskLine(line, rules) : line;
+  if (options.ignoreWhitespace) {
+    key = key.replace(/\s+/g, "");
+  } else if (options.ignoreTrailingWhitespace) {
+    key = key.replace(/\s+$/, "");
+  }
+  if (options.ignoreCase) {
+    key = key.toLowerCase();
+  }
+  return key;
+};
+
+export const INLINE_GRANULARITIES: InlineGranularity[] = ["word", "char"];
+
+export const computeInlineSegments = (
+  before: string,
+  after: string,
+  granularity: InlineGranularity = "word",
+): InlineSegment[] => {
+  const changes =
+    granularity === "char"
+      ? diffChars(before, after)
+      : diffWordsWithSpace(before, after);
+  const segments: InlineSegment[] = [];
+  changes.forEach((change) => {
+    if (!change.value) return;
+    const type = change.added
+      ? "inserted"
+      : change.removed
+        ? "deleted"
+        : "equal";
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.value += change.value;
+      return;
+    }
+    segments.push({ type, value: change.value });
+  });
+  return segments;
+};
+
+export const DIFF_ALGORITHMS: DiffAlgorithm[] = [
+  "myers",
+  "patience",
+  "histogram",
+];
+
+const diffMyers: SequenceDiff = (left, right) =>
+  diffArrays(Array.from(left), Array.from(right)).map((change) => ({
+    type: change.added ? "added" : change.removed ? "removed" : "equal",
+    count: change.count ?? 0,
+  }));
+
+// Every algorithm diffs lines reduced to ids and reports runs of them.
+const LINE_DIFFS: Record<DiffAlgorithm, SequenceDiff> = {
+  myers: diffMyers,
+  patience: diffPatience,
+  histogram: diffHistogram,
+};
+
+/** Numbers each distinct comparison key, so equal keys get equal ids. */
+const lineIds = (keys: string[][]) => {
+  const ids = new Map<string, number>();
+  return keys.map((side) =>
+    side.map((key) => {
+      let id = ids.get(key);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(key, id);
+      }
+      return id;
+    }),
+  );
+};
+
 export const computeTextDiff = (
   original: string,
   comparison: string,
+  options: TextDiffOptions = {},
 ): { lines: DiffLine[]; summary: DiffSummary } => {
+  const granularity = options.granularity ?? "word";
   const normalizedLeft = normalizeNewlines(original);
   const normalizedRight = normalizeNewlines(comparison);
   const leftLines = splitPreserve(normalizedLeft);
   const rightLines = splitPreserve(normalizedRight);
-  const changes = diffLines(normalizedLeft, normalizedRight);
+  const rules = compileIgnoreRules(options.ignoreRules ?? []);
+  const [leftIds, rightIds] = lineIds(
+    [leftLines, rightLines].map((lines) =>
+      lines.map((line) => comparisonKey(line, options, rules)),
+    ),
+  );
+  const changes = LINE_DIFFS[options.algorithm ?? "myers"](leftIds, rightIds);
 
   const diff: DiffLine[] = [];
   let added = 0;
@@ -180,103 +404,115 @@ export const computeTextDiff = (
   let oldLine = 1;
   let newLine = 1;
 
+  const isIgnoredLine = (line: string) =>
+    (Boolean(options.ignoreBlankLines) && line.trim() === "") ||
+    matchesLineRule(line, rules);
+
+  const pushRemoved = (before: string) => {
+    const ignored = isIgnoredLine(before);
+    diff.push({
+      type: "removed",
+      oldNumber: oldLine,
+      newNumber: null,
+      before,
+      after: null,
+      ...(ignored && { ignored }),
+    });
+    oldLine += 1;
+    if (!ignored) removed += 1;
+  };
+
+  const pushAdded = (after: string) => {
+    const ignored = isIgnoredLine(after);
+    diff.push({
+      type: "added",
+      oldNumber: null,
+      newNumber: newLine,
+      before: null,
+      after,
+      ...(ignored && { ignored }),
+    });
+    newLine += 1;
+    if (!ignored) added += 1;
+  };
+
   for (let i = 0; i < changes.length; i += 1) {
     const current = changes[i];
     const next = changes[i + 1];
+    const leftBlock = leftLines.slice(oldLine - 1, oldLine - 1 + current.count);
 
-    // Treat a removed block immediately followed by an added block as a modification group.
-    if (current.removed && next?.added) {
-      const removedLines = splitPreserve(current.value);
-      const addedLines = splitPreserve(next.value);
-      const max = Math.max(removedLines.length, addedLines.length);
-      for (let j = 0; j < max; j += 1) {
-        const before = removedLines[j] ?? null;
-        const after = addedLines[j] ?? null;
-        if (before !== null && after !== null) {
+    // Treat a removed block immediately followed by an added block as a modification group,
+    // pairing only lines that are similar enough to be edits of each other.
+    if (current.type === "removed" && next?.type === "added") {
+      const aligned = alignBlocks(
+        leftBlock,
+        rightLines.slice(newLine - 1, newLine - 1 + next.count),
+      );
+      aligned.forEach((entry) => {
+        if (entry.type === "modified") {
           diff.push({
             type: "modified",
             oldNumber: oldLine,
             newNumber: newLine,
-            before,
-            after,
+            before: entry.before,
+            after: entry.after,
+            segments: computeInlineSegments(
+              entry.before,
+              entry.after,
+              granularity,
+            ),
           });
           oldLine += 1;
           newLine += 1;
           modified += 1;
-        } else if (before !== null) {
-          diff.push({
-            type: "removed",
-            oldNumber: oldLine,
-            newNumber: null,
-            before,
-            after: null,
-          });
-          oldLine += 1;
-          removed += 1;
-        } else if (after !== null) {
-          diff.push({
-            type: "added",
-            oldNumber: null,
-            newNumber: newLine,
-            before: null,
-            after,
-          });
-          newLine += 1;
-          added += 1;
+        } else if (entry.type === "removed") {
+          pushRemoved(entry.before);
+        } else {
+          pushAdded(entry.after);
         }
-      }
+      });
       i += 1;
       continue;
     }
 
-    if (current.added) {
-      const lines = splitPreserve(current.value);
-      lines.forEach((line) => {
-        diff.push({
-          type: "added",
-          oldNumber: null,
-          newNumber: newLine,
-          before: null,
-          after: line,
-        });
-        newLine += 1;
-        added += 1;
-      });
+    if (current.type === "added") {
+      rightLines
+        .slice(newLine - 1, newLine - 1 + current.count)
+        .forEach(pushAdded);
       continue;
     }
 
-    if (current.removed) {
-      const lines = splitPreserve(current.value);
-      lines.forEach((line) => {
-        diff.push({
-          type: "removed",
-          oldNumber: oldLine,
-          newNumber: null,
-          before: line,
-          after: null,
-        });
-        oldLine += 1;
-        removed += 1;
-      });
+    if (current.type === "removed") {
+      leftBlock.forEach(pushRemoved);
       continue;
     }
 
-    const lines = splitPreserve(current.value);
-    lines.forEach((line) => {
+    // Lines can match through the ignore options while still differing in text.
+    leftBlock.forEach((before) => {
+      const after = rightLines[newLine - 1];
       diff.push({
         type: "unchanged",
         oldNumber: oldLine,
         newNumber: newLine,
-        before: line,
-        after: line,
+        before,
+        after,
+        ...(before !== after && { ignored: true }),
       });
       oldLine += 1;
       newLine += 1;
     });
   }
 
+  // Moved lines were counted once as removed and once as added.
+  const { lines, moved } = detectMoves(diff, (line) =>
+    comparisonKey(line, options, rules),
+  );
+  added -= moved;
+  removed -= moved;
+
   const totalLines = Math.max(leftLines.length, rightLines.length);
-  const changesCount = added + removed + modified;
+  const changesCount = added + removed + modified + moved;
+  const ignored = lines.filter((line) => line.ignored).length;
   const changePercent =
     totalLines === 0
       ? 0
@@ -289,7 +525,9 @@ export const computeTextDiff = (
     removed,
     modified,
     changePercent,
+    ...(ignored > 0 && { ignored }),
+    ...(moved > 0 && { moved }),
   };
 
-  return { lines: diff, summary };
+  return { lines, summary };
 };
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import {
+  annotateLocators,
+  describeLocator,
+  detectDocumentFormat,
+  extractDocument,
+} from "./document";
+
+/** Builds a minimal ZIP with stored entries (CRCs are left at zero). */
+const buildZip = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, data]) => {
+    const body = Buffer.from(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(body.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(body.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + body.length;
+  });
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const docx = (body: string) =>
+  buildZip({
+    "[Content_Types].xml": "<Types/>",
+    "word/document.xml": `<?xml version="1.0"?><w:document xmlns:w="urn:w"><w:body>${body}</w:body></w:document>`,
+  });
+
+const paragraph = (...runs: string[]) =>
+  `<w:p><w:pPr><w:jc w:val="left"/></w:pPr>${runs
+    .map((run) => `<w:r>${run}</w:r>`)
+    .join("")}</w:p>`;
+
+describe("detectDocumentFormat", () => {
+  it("recognises PDFs and Office files, but not other ZIPs", () => {
+    expect(detectDocumentFormat(Buffer.from("%PDF-1.7\n"))).toBe("pdf");
+    expect(detectDocumentFormat(docx(""))).toBe("docx");
+    expect(
+      detectDocumentFormat(buildZip({ "xl/workbook.xml": "<workbook/>" })),
+    ).toBe("xlsx");
+    expect(detectDocumentFormat(buildZip({ "notes.txt": "hi" }))).toBeNull();
+    expect(detectDocumentFormat(Buffer.from("plain text"))).toBeNull();
+  });
+});
+
+describe("extractDocument", () => {
+  it("reads DOCX paragraphs, numbering only those with text", () => {
+    const document = extractDocument(
+      docx(
+        [
+          paragraph(
+            "<w:t>Hello</w:t>",
+            '<w:t xml:space="preserve"> world &amp; more</w:t>',
+          ),
+          paragraph(),
+          paragraph("<w:t>Name</w:t><w:tab/><w:t>Value</w:t>"),
+          paragraph("<w:t>First</w:t><w:br/><w:t>Second</w:t>"),
+          `<w:p><w:moveFrom><w:r><w:t>Old spot</w:t></w:r></w:moveFrom><w:r><w:delText>Gone</w:delText></w:r><w:r><w:t>Kept</w:t></w:r></w:p>`,
+        ].join(""),
+      ),
+      "docx",
+    );
+
+    expect(document.info).toEqual({ format: "docx", paragraphs: 4 });
+    expect(document.lines).toEqual([
+      "Hello world & more",
+      "Name\tValue",
+      "First",
+      "Second",
+      "Kept",
+    ]);
+    expect(document.locators.map((locator) => locator.number)).toEqual([
+      1, 2, 3, 3, 4,
+    ]);
+  });
+
+  it("reads XLSX sheets in workbook order as tab-separated rows", () => {
+    const workbook = buildZip({
+      "xl/workbook.xml": `<workbook xmlns:r="urn:r"><sheets><sheet name="Totals" sheetId="2" r:id="rId2"/><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>`,
+      "xl/sharedStrings.xml": `<sst><si><t>Item</t></si><si><r><t>Ca</t></r><r><t>ke</t></r><rPh><t>ケーキ</t></rPh></si></sst>`,
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Paid</t></is></c></row><row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><f>1+2</f><v>3</v></c><c r="C3" t="b"><v>1</v></c></row><row r="4"><c r="A4" s="1"/></row></sheetData></worksheet>`,
+      "xl/worksheets/sheet2.xml": `<worksheet><sheetData><row r="2"><c r="B2" t="str"><v>Sum</v></c></row></sheetData></worksheet>`,
+    });
+    const document = extractDocument(workbook, "xlsx");
+
+    expect(document.info).toEqual({
+      format: "xlsx",
+      sheets: ["Totals", "Data"],
+    });
+    expect(document.lines).toEqual(["\tSum", "Item\t\tPaid", "Cake\t3\tTRUE"]);
+    expect(document.locators.map(describeLocator)).toEqual([
+      "Totals row 2",
+      "Data row 1",
+      "Data row 3",
+    ]);
+    expect(document.warnings).toEqual([]);
+  });
+});
+
+describe("annotateLocators", () => {
+  it("labels each side of a line diff with where the line came from", () => {
+    const before = extractDocument(
+      docx(paragraph("<w:t>Intro</w:t>") + paragraph("<w:t>Old terms</w:t>")),
+      "docx",
+    );
+    const after = extractDocument(
+      docx(
+        paragraph("<w:t>Intro</w:t>") +
+          paragraph("<w:t>Added clause</w:t>") +
+          paragraph("<w:t>New terms</w:t>"),
+      ),
+      "docx",
+    );
+    const { lines } = computeTextDiff(
+      before.lines.join("\n"),
+      after.lines.join("\n"),
+    );
+    const labelled = annotateLocators(lines, before.locators, after.locators);
+
+    expect(
+      labelled.map((line) => [
+        line.type,
+        line.oldLocator && describeLocator(line.oldLocator),
+        line.newLocator && describeLocator(line.newLocator),
+      ]),
+    ).toEqual([
+      ["unchanged", "paragraph 1", "paragraph 1"],
+      ["added", undefined, "paragraph 2"],
+      ["modified", "paragraph 2", "paragraph 3"],
+    ]);
+  });
+});
@@ -0,0 +1,296 @@
+import { ArchiveEntry, readArchive } from "./archive";
+import { extractPdfText, isPdf } from "./pdf";
+import {
+  DiffLine,
+  DocumentFormat,
+  DocumentInfo,
+  DocumentLocator,
+} from "./types";
+import { scanXml } from "./xml";
+
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const DOCX_MAIN_PART = "word/document.xml";
+const XLSX_WORKBOOK_PART = "xl/workbook.xml";
+
+export type DocumentText = {
+  info: DocumentInfo;
+  lines: string[];
+  locators: DocumentLocator[];
+  warnings: string[];
+};
+
+/**
+ * Recognises PDFs by their header and Office files by the part names in
+ * the ZIP, which are stored uncompressed in the entry headers.
+ */
+export const detectDocumentFormat = (buffer: Buffer): DocumentFormat | null => {
+  if (isPdf(buffer)) return "pdf";
+  if (buffer.length < 4 || buffer.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+    return null;
+  }
+  if (buffer.includes(DOCX_MAIN_PART)) return "docx";
+  if (buffer.includes(XLSX_WORKBOOK_PART)) return "xlsx";
+  return null;
+};
+
+const readPart = (entries: ArchiveEntry[], path: string) =>
+  entries.find((entry) => entry.path === path)?.data.toString("utf8");
+
+const readPdf = (buffer: Buffer): DocumentText => {
+  const { pages, warnings } = extractPdfText(buffer);
+  const lines: string[] = [];
+  const locators: DocumentLocator[] = [];
+  pages.forEach((page, idx) =>
+    page.forEach((line) => {
+      lines.push(line);
+      locators.push({ unit: "page", number: idx + 1 });
+    }),
+  );
+  if (pages.length && !lines.length) {
+    warnings.push("No text was found in the PDF; it may be scanned images.");
+  }
+  return {
+    info: { format: "pdf", pages: pages.length },
+    lines,
+    locators,
+    warnings,
+  };
+};
+
+/**
+ * Reads body paragraphs in order. Line breaks inside a paragraph split it
+ * into several lines that share its number. Empty paragraphs are skipped
+ * and not counted, and text that tracked changes moved elsewhere is read
+ * only at its new position.
+ */
+const readDocx = (entries: ArchiveEntry[]): DocumentText => {
+  const xml = readPart(entries, DOCX_MAIN_PART);
+  if (xml === undefined) throw new Error(`${DOCX_MAIN_PART} is missing.`);
+  const lines: string[] = [];
+  const locators: DocumentLocator[] = [];
+  // Text boxes nest paragraphs inside paragraphs, so keep a stack.
+  const open: string[] = [];
+  let paragraphs = 0;
+  let inText = false;
+  let movedAway = 0;
+
+  const append = (text: string) => {
+    if (open.length && !movedAway) open[open.length - 1] += text;
+  };
+  const closeParagraph = () => {
+    const pieces = (open.pop() ?? "")
+      .split("\n")
+      .map((piece) => piece.trimEnd())
+      .filter((piece) => piece.trim());
+    if (!pieces.length) return;
+    paragraphs += 1;
+    pieces.forEach((piece) => {
+      lines.push(piece);
+      locators.push({ unit: "paragraph", number: paragraphs });
+    });
+  };
+
+  scanXml(xml).forEach((token) => {
+    if (token.type === "text") {
+      if (inText) append(token.value);
+    } else if (token.type === "close") {
+      if (token.name === "w:t") {
+        inText = false;
+      } else if (token.name === "w:moveFrom") {
+        movedAway = Math.max(0, movedAway - 1);
+      } else if (token.name === "w:p") {
+        closeParagraph();
+      }
+    } else if (token.name === "w:p") {
+      open.push("");
+      if (token.selfClosing) closeParagraph();
+    } else if (token.name === "w:t") {
+      inText = !token.selfClosing;
+    } else if (token.name === "w:moveFrom" && !token.selfClosing) {
+      movedAway += 1;
+    } else if (token.name === "w:tab") {
+      append("\t");
+    } else if (token.name === "w:br" || token.name === "w:cr") {
+      append("\n");
+    }
+  });
+
+  return {
+    info: { format: "docx", paragraphs },
+    lines,
+    locators,
+    warnings: [],
+  };
+};
+
+/** Resolves a relationship target against the folder of the workbook part. */
+const partPath = (target: string) =>
+  target.startsWith("/")
+    ? target.slice(1)
+    : `xl/${target}`
+        .split("/")
+        .reduce<string[]>((parts, part) => {
+          if (part === "..") parts.pop();
+          else if (part && part !== ".") parts.push(part);
+          return parts;
+        }, [])
+        .join("/");
+
+/** Spreadsheet column letters ("A", "AB") as a zero-based index. */
+const columnIndex = (reference: string) =>
+  [...(/^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? "")].reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0,
+  ) - 1;
+
+const readSharedStrings = (xml: string | undefined) => {
+  const strings: string[] = [];
+  let current: string | null = null;
+  let inText = false;
+  let phonetic = false;
+  scanXml(xml ?? "").forEach((token) => {
+    if (token.type === "text") {
+      if (inText && !phonetic && current !== null) current += token.value;
+    } else if (token.type === "open") {
+      if (token.name === "si" && token.selfClosing) strings.push("");
+      else if (token.name === "si") current = "";
+      else if (token.name === "t") inText = !token.selfClosing;
+      else if (token.name === "rPh") phonetic = !token.selfClosing;
+    } else if (token.name === "t") {
+      inText = false;
+    } else if (token.name === "rPh") {
+      phonetic = false;
+    } else if (token.name === "si" && current !== null) {
+      strings.push(current);
+      current = null;
+    }
+  });
+  return strings;
+};
+
+/**
+ * Reads each worksheet in workbook order as one line per non-empty row,
+ * with cells separated by tabs at their column positions. Values are shown
+ * as stored, so dates stay serial numbers and formulas show their result.
+ */
+const readXlsx = (entries: ArchiveEntry[]): DocumentText => {
+  const workbook = readPart(entries, XLSX_WORKBOOK_PART);
+  if (workbook === undefined) {
+    throw new Error(`${XLSX_WORKBOOK_PART} is missing.`);
+  }
+  const targets = new Map<string, string>();
+  scanXml(readPart(entries, "xl/_rels/workbook.xml.rels") ?? "").forEach(
+    (token) => {
+      if (token.type === "open" && token.name === "Relationship") {
+        targets.set(
+          token.attributes.Id,
+          partPath(token.attributes.Target ?? ""),
+        );
+      }
+    },
+  );
+  const shared = readSharedStrings(readPart(entries, "xl/sharedStrings.xml"));
+  const sheets = scanXml(workbook)
+    .filter((token) => token.type === "open" && token.name === "sheet")
+    .map((token) => (token.type === "open" ? token.attributes : {}));
+
+  const lines: string[] = [];
+  const locators: DocumentLocator[] = [];
+  const warnings: string[] = [];
+  sheets.forEach((sheet) => {
+    const name = sheet.name ?? "";
+    const xml = readPart(entries, targets.get(sheet["r:id"]) ?? "");
+    if (xml === undefined) {
+      warnings.push(`Worksheet "${name}" could not be found in the workbook.`);
+      return;
+    }
+    let row: string[] = [];
+    let rowNumber = 0;
+    let column = 0;
+    let cellType = "";
+    let value = "";
+    let inValue = false;
+    scanXml(xml).forEach((token) => {
+      if (token.type === "text") {
+        if (inValue) value += token.value;
+      } else if (token.type === "open") {
+        if (token.name === "row") {
+          row = [];
+          column = 0;
+          rowNumber = Number(token.attributes.r) || rowNumber + 1;
+        } else if (token.name === "c") {
+          column = token.attributes.r
+            ? columnIndex(token.attributes.r)
+            : column;
+          cellType = token.attributes.t ?? "";
+          value = "";
+        } else if (
+          token.name === "v" ||
+          (token.name === "t" && cellType === "inlineStr")
+        ) {
+          inValue = !token.selfClosing;
+        }
+      } else if (token.name === "v" || token.name === "t") {
+        inValue = false;
+      } else if (token.name === "c") {
+        row[column] =
+          cellType === "s"
+            ? (shared[Number(value)] ?? "")
+            : cellType === "b"
+              ? value === "1"
+                ? "TRUE"
+                : "FALSE"
+              : value;
+        column += 1;
+      } else if (token.name === "row") {
+        // Cells may hold line breaks; keep each row on one line.
+        const text = Array.from(row, (cell) => cell ?? "")
+          .join("\t")
+          .replace(/[\r\n]+/g, " ")
+          .trimEnd();
+        if (text.trim()) {
+          lines.push(text);
+          locators.push({ unit: "row", number: rowNumber, sheet: name });
+        }
+      }
+    });
+  });
+
+  return {
+    info: { format: "xlsx", sheets: sheets.map((sheet) => sheet.name ?? "") },
+    lines,
+    locators,
+    warnings,
+  };
+};
+
+/** Extracts the text of a document as lines, each with where it came from. */
+export const extractDocument = (
+  buffer: Buffer,
+  format: DocumentFormat,
+): DocumentText => {
+  if (format === "pdf") return readPdf(buffer);
+  const { entries, warnings } = readArchive(buffer, "zip");
+  const text = format === "docx" ? readDocx(entries) : readXlsx(entries);
+  return { ...text, warnings: [...warnings, ...text.warnings] };
+};
+
+/** Copies each line's page, paragraph or row from the extracted documents. */
+export const annotateLocators = (
+  lines: DiffLine[],
+  before: DocumentLocator[],
+  after: DocumentLocator[],
+): DiffLine[] =>
+  lines.map((line) => ({
+    ...line,
+    ...(line.oldNumber !== null && before[line.oldNumber - 1]
+      ? { oldLocator: before[line.oldNumber - 1] }
+      : {}),
+    ...(line.newNumber !== null && after[line.newNumber - 1]
+      ? { newLocator: after[line.newNumber - 1] }
+      : {}),
+  }));
+
+/** "page 3", "paragraph 12" or "Sheet1 row 4". */
+export const describeLocator = (locator: DocumentLocator) =>
+  `${locator.sheet ? `${locator.sheet} ` : ""}${locator.unit} ${locator.number}`;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  createStreamDecoder,
+  decodeBuffer,
+  detectBom,
+  detectEncoding,
+  encodeText,
+  normalizeEncoding,
+} from "./encoding";
+
+describe("detectBom", () => {
+  it("recognises UTF-8 and UTF-16 byte order marks", () => {
+    expect(detectBom(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toEqual({
+      encoding: "utf-8",
+      length: 3,
+    });
+    expect(detectBom(Buffer.from([0xff, 0xfe, 0x61, 0x00]))?.encoding).toBe(
+      "utf-16le",
+    );
+    expect(detectBom(Buffer.from("plain"))).toBeNull();
+  });
+});
+
+describe("detectEncoding", () => {
+  it("detects UTF-8", () => {
+    expect(detectEncoding(Buffer.from("héllo wörld"))).toBe("utf-8");
+  });
+
+  it("detects BOM-less UTF-16 in both byte orders", () => {
+    const le = Buffer.from("hello world", "utf16le");
+    const be = Buffer.from(le).swap16();
+    expect(detectEncoding(le)).toBe("utf-16le");
+    expect(detectEncoding(be)).toBe("utf-16be");
+  });
+
+  it("falls back to single-byte Latin encodings", () => {
+    expect(detectEncoding(Buffer.from([0x63, 0x61, 0x66, 0xe9]))).toBe(
+      "iso-8859-1",
+    );
+    expect(detectEncoding(Buffer.from([0x93, 0x68, 0x69, 0x94]))).toBe(
+      "windows-1252",
+    );
+  });
+});
+
+describe("normalizeEncoding", () => {
+  it("canonicalises labels and rejects unknown ones", () => {
+    expect(normalizeEncoding("UTF8")).toBe("utf-8");
+    expect(normalizeEncoding("latin1")).toBe("iso-8859-1");
+    expect(normalizeEncoding("cp1252")).toBe("windows-1252");
+    expect(normalizeEncoding("klingon")).toBeNull();
+  });
+});
+
+describe("decodeBuffer", () => {
+  it("decodes Windows-1252 punctuation", () => {
+    expect(
+      decodeBuffer(Buffer.from([0x93, 0x68, 0x69, 0x94]), "windows-1252"),
+    ).toBe("“hi”");
+  });
+
+  it("throws on invalid input for the chosen encoding", () => {
+    expect(() => decodeBuffer(Buffer.from([0xc3, 0x28]), "utf-8")).toThrow();
+  });
+});
+
+describe("createStreamDecoder", () => {
+  it("holds back characters split between chunks", () => {
+    const bytes = Buffer.from("\ufeffcafé ✓");
+    const decoder = createStreamDecoder("utf-8");
+    const pieces = [
+      bytes.subarray(0, 2),
+      bytes.subarray(2, 7),
+      bytes.subarray(7),
+    ];
+    expect(
+      pieces.map((piece) => decoder.write(piece)).join("") + decoder.end(),
+    ).toBe("café ✓");
+
+    const latin = createStreamDecoder("windows-1252");
+    expect(latin.write(Buffer.from([0x93, 0x68])) + latin.end()).toBe("“h");
+  });
+});
+
+describe("encodeText", () => {
+  it("round-trips through decodeBuffer with the byte order mark", () => {
+    const text = "caf\u00e9 \u20ac5\n";
+    for (const encoding of ["utf-8", "utf-16le", "utf-16be", "windows-1252"]) {
+      const buffer = encodeText(text, encoding, encoding !== "windows-1252")!;
+      expect(detectBom(buffer)?.encoding).toBe(
+        encoding === "windows-1252" ? undefined : encoding,
+      );
+      expect(decodeBuffer(buffer, encoding)).toBe(text);
+    }
+  });
+
+  it("replaces characters a single-byte encoding lacks", () => {
+    expect(encodeText("\u20ac\u00e9", "iso-8859-1")).toEqual(
+      Buffer.from([0x3f, 0xe9]),
+    );
+    expect(encodeText("x", "shift_jis")).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+export const MAX_ENCODING_SNIFF_BYTES = 4096;
+
+type Bom = { encoding: string; length: number };
+
+const BOMS: { bytes: number[]; encoding: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+  { bytes: [0xff, 0xfe], encoding: "utf-16le" },
+  { bytes: [0xfe, 0xff], encoding: "utf-16be" },
+];
+
+export const detectBom = (buffer: Buffer): Bom | null => {
+  const match = BOMS.find(({ bytes }) =>
+    bytes.every((byte, idx) => buffer[idx] === byte),
+  );
+  return match
+    ? { encoding: match.encoding, length: match.bytes.length }
+    : null;
+};
+
+const MIN_UTF16_PAIRS = 4;
+
+const isPrintableAscii = (byte: number) =>
+  (byte >= 0x20 && byte < 0x7f) ||
+  byte === 0x09 ||
+  byte === 0x0a ||
+  byte === 0x0d;
+
+/**
+ * Spots BOM-less UTF-16 by its zero high bytes: mostly-ASCII text leaves a
+ * null in every other position, next to a printable low byte.
+ */
+export const detectUtf16 = (buffer: Buffer): string | null => {
+  const length = Math.min(buffer.length, MAX_ENCODING_SNIFF_BYTES) & ~1;
+  const pairs = length / 2;
+  if (pairs < MIN_UTF16_PAIRS) return null;
+  let leZeros = 0;
+  let beZeros = 0;
+  let lePrintable = 0;
+  let bePrintable = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (buffer[i + 1] === 0) {
+      leZeros += 1;
+      if (isPrintableAscii(buffer[i])) lePrintable += 1;
+    }
+    if (buffer[i] === 0) {
+      beZeros += 1;
+      if (isPrintableAscii(buffer[i + 1])) bePrintable += 1;
+    }
+  }
+  if (
+    leZeros / pairs > 0.4 &&
+    beZeros / pairs < 0.05 &&
+    lePrintable / leZeros > 0.9
+  ) {
+    return "utf-16le";
+  }
+  if (
+    beZeros / pairs > 0.4 &&
+    leZeros / pairs < 0.05 &&
+    bePrintable / beZeros > 0.9
+  ) {
+    return "utf-16be";
+  }
+  return null;
+};
+
+const isValidUtf8 = (buffer: Buffer): boolean => {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectEncoding = (buffer: Buffer): string => {
+  const bom = detectBom(buffer);
+  if (bom) return bom.encoding;
+  const utf16 = detectUtf16(buffer);
+  if (utf16) return utf16;
+  if (isValidUtf8(buffer)) return "utf-8";
+  // 0x80–0x9F are C1 controls in Latin-1 but punctuation in Windows-1252.
+  return buffer.some((byte) => byte >= 0x80 && byte <= 0x9f)
+    ? "windows-1252"
+    : "iso-8859-1";
+};
+
+/**
+ * Returns the canonical WHATWG name for an encoding label, or null when the
+ * runtime cannot decode it.
+ */
+export const normalizeEncoding = (label: string): string | null => {
+  try {
+    const { encoding } = new TextDecoder(label.trim());
+    // WHATWG folds Latin-1 labels into Windows-1252; keep the requested name.
+    return encoding === "windows-1252" &&
+      /^(iso-?8859-1|latin-?1)$/i.test(label.trim())
+      ? "iso-8859-1"
+      : encoding;
+  } catch {
+    return null;
+  }
+};
+
+// Windows-1252 characters for bytes 0x80–0x9F; undefined bytes keep their C1 code point.
+const WINDOWS_1252_HIGH =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+export const decodeBuffer = (buffer: Buffer, encoding: string): string => {
+  if (encoding === "windows-1252") {
+    // Some Node builds decode windows-1252 as plain Latin-1, so map the C1 range by hand.
+    return buffer
+      .toString("latin1")
+      .replace(
+        /[\x80-\x9f]/g,
+        (char) => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80],
+      );
+  }
+  if (encoding === "iso-8859-1") {
+    return buffer.toString("latin1");
+  }
+  return new TextDecoder(encoding, { fatal: true }).decode(buffer);
+};
+
+/**
+ * Encodes text in one of the encodings detectEncoding returns, prefixed with
+ * its byte order mark when `bom` is set. Characters a single-byte encoding
+ * lacks become "?". Returns null for encodings the runtime can only decode.
+ */
+export const encodeText = (
+  text: string,
+  encoding: string,
+  bom = false,
+): Buffer | null => {
+  let body: Buffer;
+  if (encoding === "utf-8") {
+    body = Buffer.from(text, "utf8");
+  } else if (encoding === "utf-16le" || encoding === "utf-16be") {
+    body = Buffer.from(text, "utf16le");
+    if (encoding === "utf-16be") body.swap16();
+  } else if (encoding === "windows-1252" || encoding === "iso-8859-1") {
+    body = Buffer.from(
+      Array.from(text, (char) => {
+        const code = char.charCodeAt(0);
+        if (encoding === "iso-8859-1") return code <= 0xff ? code : 0x3f;
+        if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+        const high = WINDOWS_1252_HIGH.indexOf(char);
+        return high >= 0 ? 0x80 + high : 0x3f;
+      }),
+    );
+  } else {
+    return null;
+  }
+  const mark = bom
+    ? BOMS.find((entry) => entry.encoding === encoding)
+    : undefined;
+  return mark ? Buffer.concat([Buffer.from(mark.bytes), body]) : body;
+};
+
+/**
+ * Decodes a byte stream chunk by chunk with the same rules as decodeBuffer,
+ * holding back multi-byte characters split between chunks.
+ */
+export const createStreamDecoder = (encoding: string) => {
+  if (encoding === "windows-1252" || encoding === "iso-8859-1") {
+    return {
+      write: (chunk: Buffer) => decodeBuffer(chunk, encoding),
+      end: () => "",
+    };
+  }
+  const decoder = new TextDecoder(encoding, { fatal: true });
+  return {
+    write: (chunk: Buffer) => decoder.decode(chunk, { stream: true }),
+    end: () => decoder.decode(),
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { decodeGif, isGif, readGifInfo } from "./gif";
+
+// 4×2: the left half red, the right half blue, with an unused transparent index.
+const HALVES_GIF = Buffer.from(
+  "R0lGODlhBAACAIEAAExpcR4e3NweHgAAACH5BAUAAAAALAAAAAAEAAIAAAIElBKGBQA7",
+  "base64",
+);
+
+describe("decodeGif", () => {
+  it("reads the header and decodes the first frame", () => {
+    expect(isGif(HALVES_GIF)).toBe(true);
+    expect(readGifInfo(HALVES_GIF)).toEqual({
+      format: "gif",
+      width: 4,
+      height: 2,
+      alpha: true,
+      animated: false,
+    });
+
+    const { data } = decodeGif(HALVES_GIF);
+    const pixel = (idx: number) =>
+      Array.from(data.subarray(idx * 4, idx * 4 + 4));
+    expect(pixel(0)).toEqual([220, 30, 30, 255]);
+    expect(pixel(3)).toEqual([30, 30, 220, 255]);
+    expect(pixel(5)).toEqual([220, 30, 30, 255]);
+  });
+
+  it("rejects streams that end before the image does", () => {
+    expect(() => decodeGif(HALVES_GIF.subarray(0, 40))).toThrow(/truncated/);
+  });
+});
@@ -0,0 +1,247 @@
+import type { Raster } from "./image";
+import { ImageInfo } from "./types";
+
+const MAX_LZW_CODES = 4096;
+// Row order of an interlaced frame: [first row, step] for each of the four passes.
+const INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+];
+
+type GifFrame = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  palette?: Buffer;
+  transparent: number | null;
+  codeSize: number;
+  data: Buffer;
+};
+
+type GifExtension = {
+  label: number;
+  data: Buffer; // Sub-blocks joined, without their length bytes
+  raw: Buffer; // Everything after the label, length bytes included
+};
+
+type GifContents = {
+  width: number;
+  height: number;
+  frames: GifFrame[];
+  extensions: GifExtension[];
+};
+
+export const isGif = (buffer: Buffer) =>
+  buffer.length >= 13 && /^GIF8[79]a$/.test(buffer.toString("latin1", 0, 6));
+
+const paletteSize = (flags: number) =>
+  flags & 0x80 ? 3 * (2 << (flags & 7)) : 0;
+
+/** Joins a run of data sub-blocks and returns the offset just past it. */
+const readSubBlocks = (buffer: Buffer, start: number) => {
+  const parts: Buffer[] = [];
+  let offset = start;
+  for (;;) {
+    if (offset >= buffer.length) throw new Error("GIF data is truncated.");
+    const size = buffer[offset];
+    offset += 1;
+    if (!size) break;
+    parts.push(buffer.subarray(offset, offset + size));
+    offset += size;
+  }
+  return { data: Buffer.concat(parts), next: offset };
+};
+
+/** Walks the block stream, stopping once `maxFrames` frames were read. */
+const readGif = (buffer: Buffer, maxFrames: number): GifContents => {
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  const flags = buffer[10];
+  const globalPalette =
+    flags & 0x80 ? buffer.subarray(13, 13 + paletteSize(flags)) : undefined;
+  const frames: GifFrame[] = [];
+  const extensions: GifExtension[] = [];
+  let offset = 13 + paletteSize(flags);
+  let transparent: number | null = null;
+
+  while (offset < buffer.length && frames.length < maxFrames) {
+    const block = buffer[offset];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      // Graphic control extension: remember the next frame's transparent index.
+      if (buffer[offset + 1] === 0xf9 && buffer[offset + 2] >= 4) {
+        transparent = buffer[offset + 3] & 1 ? buffer[offset + 6] : null;
+      }
+      const { data, next } = readSubBlocks(buffer, offset + 2);
+      extensions.push({
+        label: buffer[offset + 1],
+        data,
+        raw: buffer.subarray(offset + 2, next),
+      });
+      offset = next;
+    } else if (block === 0x2c) {
+      if (offset + 10 > buffer.length)
+        throw new Error("GIF data is truncated.");
+      const frameFlags = buffer[offset + 9];
+      const paletteStart = offset + 10;
+      const paletteEnd = paletteStart + paletteSize(frameFlags);
+      const { data, next } = readSubBlocks(buffer, paletteEnd + 1);
+      frames.push({
+        left: buffer.readUInt16LE(offset + 1),
+        top: buffer.readUInt16LE(offset + 3),
+        width: buffer.readUInt16LE(offset + 5),
+        height: buffer.readUInt16LE(offset + 7),
+        interlaced: (frameFlags & 0x40) !== 0,
+        palette:
+          frameFlags & 0x80
+            ? buffer.subarray(paletteStart, paletteEnd)
+            : globalPalette,
+        transparent,
+        codeSize: buffer[paletteEnd],
+        data,
+      });
+      transparent = null;
+      offset = next;
+    } else {
+      throw new Error(`Unknown GIF block 0x${block.toString(16)}.`);
+    }
+  }
+
+  if (!width || !height) throw new Error("GIF image has no pixels.");
+  return { width, height, frames, extensions };
+};
+
+/** Reads every frame and extension block, for container metadata. */
+export const readGifContents = (buffer: Buffer) => readGif(buffer, Infinity);
+
+export const readGifInfo = (buffer: Buffer): ImageInfo => {
+  const { width, height, frames } = readGif(buffer, 2);
+  return {
+    format: "gif",
+    width,
+    height,
+    alpha: frames[0]?.transparent != null,
+    animated: frames.length > 1,
+  };
+};
+
+/** Expands LZW-coded color indexes; a truncated stream leaves zeros behind. */
+const lzwDecode = (data: Buffer, minCodeSize: number, count: number) => {
+  if (minCodeSize < 2 || minCodeSize > 8) {
+    throw new Error("GIF image data is corrupt.");
+  }
+  const out = new Uint8Array(count);
+  const prefix = new Uint16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const stack = new Uint8Array(MAX_LZW_CODES + 1);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let previous = -1;
+  let bits = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < count) {
+    while (bitCount < codeSize) {
+      if (position >= data.length) return out;
+      bits |= data[position] << bitCount;
+      position += 1;
+      bitCount += 8;
+    }
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === end) break;
+    if (code > next || (previous === -1 && code > clear)) {
+      throw new Error("GIF image data is corrupt.");
+    }
+
+    // Unwind the string for `code`; the one code not yet in the table is
+    // the previous string plus its own first byte.
+    let top = 0;
+    let current = code === next ? previous : code;
+    while (current > end) {
+      stack[top] = suffix[current];
+      top += 1;
+      current = prefix[current];
+    }
+    const firstByte = current;
+    stack[top] = firstByte;
+    top += 1;
+    while (top > 0 && written < count) {
+      top -= 1;
+      out[written] = stack[top];
+      written += 1;
+    }
+    if (code === next && written < count) {
+      out[written] = firstByte;
+      written += 1;
+    }
+
+    if (previous !== -1 && next < MAX_LZW_CODES) {
+      prefix[next] = previous;
+      suffix[next] = firstByte;
+      next += 1;
+      if (next === 1 << codeSize && codeSize < 12) codeSize += 1;
+    }
+    previous = code;
+  }
+  return out;
+};
+
+/** Decodes the first frame of a GIF onto a transparent canvas. */
+export const decodeGif = (buffer: Buffer): Raster => {
+  const { width, height, frames } = readGif(buffer, 1);
+  const pixels = new Uint8Array(width * height * 4);
+  const frame = frames[0];
+  if (!frame) return { width, height, data: pixels };
+  if (!frame.palette) throw new Error("GIF color table is missing.");
+  if (frame.width * frame.height > width * height) {
+    throw new Error("GIF frame is larger than its canvas.");
+  }
+
+  const indexes = lzwDecode(
+    frame.data,
+    frame.codeSize,
+    frame.width * frame.height,
+  );
+  const rows = frame.interlaced
+    ? INTERLACE_PASSES.flatMap(([first, step]) => {
+        const passRows: number[] = [];
+        for (let row = first; row < frame.height; row += step)
+          passRows.push(row);
+        return passRows;
+      })
+    : Array.from({ length: frame.height }, (_, row) => row);
+
+  rows.forEach((row, idx) => {
+    const y = frame.top + row;
+    if (y >= height) return;
+    for (let col = 0; col < frame.width; col += 1) {
+      const x = frame.left + col;
+      const index = indexes[idx * frame.width + col];
+      if (x >= width || index === frame.transparent) continue;
+      const target = (y * width + x) * 4;
+      pixels[target] = frame.palette![index * 3] ?? 0;
+      pixels[target + 1] = frame.palette![index * 3 + 1] ?? 0;
+      pixels[target + 2] = frame.palette![index * 3 + 2] ?? 0;
+      pixels[target + 3] = 255;
+    }
+  });
+
+  return { width, height, data: pixels };
+};
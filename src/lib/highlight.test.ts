@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import {
+  detectLanguage,
+  highlightDiffLines,
+  splitTokens,
+  SyntaxToken,
+  tokenizeLine,
+} from "./highlight";
+
+const highlighted = (tokens: SyntaxToken[] | undefined) =>
+  (tokens ?? [])
+    .filter((token) => token.type)
+    .map((token) => `${token.type}:${token.value}`);
+
+describe("detectLanguage", () => {
+  it("uses the extension first and then the MIME type", () => {
+    expect(detectLanguage("src/app/page.tsx")).toBe("typescript");
+    expect(detectLanguage("STYLE.CSS", "text/plain")).toBe("css");
+    expect(detectLanguage("feed", "application/atom+xml")).toBe("markup");
+    expect(detectLanguage("data", "application/json; charset=utf-8")).toBe(
+      "json",
+    );
+    expect(detectLanguage("notes.txt", "text/plain")).toBeNull();
+  });
+});
+
+describe("tokenizeLine", () => {
+  it("classifies keywords, calls, strings and comments", () => {
+    const { tokens, state } = tokenizeLine(
+      'export const total = sum(items, "qty"); // 2 args',
+      "typescript",
+    );
+    expect(highlighted(tokens)).toEqual([
+      "keyword:export",
+      "keyword:const",
+      "function:sum",
+      'string:"qty"',
+      "comment:// 2 args",
+    ]);
+    expect(tokens.map((token) => token.value).join("")).toBe(
+      'export const total = sum(items, "qty"); // 2 args',
+    );
+    expect(state).toBe("root");
+  });
+
+  it("carries open comments and tags onto the next line", () => {
+    const first = tokenizeLine("a = 1; /* note", "typescript");
+    expect(first.state).toBe("comment");
+    const second = tokenizeLine(
+      "still */ return b;",
+      "typescript",
+      first.state,
+    );
+    expect(highlighted(second.tokens)).toEqual([
+      "comment:still */",
+      "keyword:return",
+    ]);
+
+    const tag = tokenizeLine('<img class="logo"', "markup");
+    expect(highlighted(tag.tokens)).toEqual([
+      "tag:<img",
+      "attribute:class",
+      'string:"logo"',
+    ]);
+    expect(
+      highlighted(tokenizeLine('  src="a.png" />', "markup", tag.state).tokens),
+    ).toEqual(["attribute:src", 'string:"a.png"', "tag:/>"]);
+  });
+
+  it("tells JSON keys from values and CSS declarations from selectors", () => {
+    expect(
+      highlighted(
+        tokenizeLine('{"id": 7, "tags": ["a"], "ok": null}', "json").tokens,
+      ),
+    ).toEqual([
+      'property:"id"',
+      "number:7",
+      'property:"tags"',
+      'string:"a"',
+      'property:"ok"',
+      "literal:null",
+    ]);
+    expect(
+      highlighted(tokenizeLine("a:hover { color: #0f0; }", "css").tokens),
+    ).toEqual(["property:color", "number:#0f0"]);
+  });
+});
+
+describe("highlightDiffLines", () => {
+  it("tokenizes each side on its own and starts over after hidden lines", () => {
+    const { lines } = computeTextDiff(
+      ["/* header", "kept */", "let a = 1;"].join("\n"),
+      ["/* header", "*/ let a = 2;", "let a = 1;"].join("\n"),
+    );
+    const tokens = highlightDiffLines(lines, "typescript");
+    const removed = lines.findIndex((line) => line.type === "removed");
+    const added = lines.findIndex((line) => line.type === "added");
+    expect(highlighted(tokens[removed].before)).toEqual(["comment:kept */"]);
+    expect(tokens[removed].after).toBeUndefined();
+    expect(highlighted(tokens[added].after)).toEqual([
+      "comment:*/",
+      "keyword:let",
+      "number:2",
+    ]);
+
+    // Without the line before it, the comment's end is plain text.
+    const resumed = highlightDiffLines(
+      [lines[0], null, lines[added]],
+      "typescript",
+    );
+    expect(resumed[1]).toEqual({});
+    expect(highlighted(resumed[2].after)).toEqual(["keyword:let", "number:2"]);
+  });
+});
+
+describe("splitTokens", () => {
+  it("cuts tokens at the boundaries of intra-line changes", () => {
+    const { tokens } = tokenizeLine('call("old")', "typescript");
+    expect(splitTokens(tokens, ['call("', 'old")'])).toEqual([
+      [
+        { type: "function", value: "call" },
+        { type: null, value: "(" },
+        { type: "string", value: '"' },
+      ],
+      [
+        { type: "string", value: 'old"' },
+        { type: null, value: ")" },
+      ],
+    ]);
+  });
+});
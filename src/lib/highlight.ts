@@ -0,0 +1,399 @@
+import { DiffLine } from "./types";
+
+export type SyntaxLanguage =
+  "typescript" | "json" | "css" | "markup" | "yaml" | "python" | "shell";
+
+export type SyntaxTokenType =
+  | "comment"
+  | "string"
+  | "keyword"
+  | "literal"
+  | "number"
+  | "type"
+  | "function"
+  | "property"
+  | "tag"
+  | "attribute";
+
+export type SyntaxToken = {
+  // Null for text that is not highlighted.
+  type: SyntaxTokenType | null;
+  value: string;
+};
+
+export type LineTokens = {
+  before?: SyntaxToken[];
+  after?: SyntaxToken[];
+};
+
+export const SYNTAX_LANGUAGES: { value: SyntaxLanguage; label: string }[] = [
+  { value: "typescript", label: "JavaScript / TypeScript" },
+  { value: "json", label: "JSON" },
+  { value: "css", label: "CSS" },
+  { value: "markup", label: "HTML / XML" },
+  { value: "yaml", label: "YAML" },
+  { value: "python", label: "Python" },
+  { value: "shell", label: "Shell" },
+];
+
+const EXTENSION_LANGUAGES: Record<string, SyntaxLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "typescript",
+  jsx: "typescript",
+  mjs: "typescript",
+  cjs: "typescript",
+  json: "json",
+  jsonc: "json",
+  css: "css",
+  scss: "css",
+  less: "css",
+  html: "markup",
+  htm: "markup",
+  xhtml: "markup",
+  xml: "markup",
+  svg: "markup",
+  xsl: "markup",
+  xsd: "markup",
+  yaml: "yaml",
+  yml: "yaml",
+  py: "python",
+  pyi: "python",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+};
+
+const MIME_LANGUAGES: Record<string, SyntaxLanguage> = {
+  "text/javascript": "typescript",
+  "application/javascript": "typescript",
+  "application/typescript": "typescript",
+  "application/json": "json",
+  "text/css": "css",
+  "text/html": "markup",
+  "text/xml": "markup",
+  "application/xml": "markup",
+  "text/yaml": "yaml",
+  "application/yaml": "yaml",
+  "application/x-yaml": "yaml",
+  "text/x-python": "python",
+  "application/x-sh": "shell",
+  "text/x-shellscript": "shell",
+};
+
+/**
+ * Picks a language from a file name's extension, falling back to its MIME
+ * type (including `+json` and `+xml` suffixes). Null means plain text.
+ */
+export const detectLanguage = (
+  name: string,
+  mime = "",
+): SyntaxLanguage | null => {
+  const base = name.slice(name.lastIndexOf("/") + 1);
+  const dot = base.lastIndexOf(".");
+  const extension = dot === -1 ? "" : base.slice(dot + 1).toLowerCase();
+  const type = mime.split(";")[0].trim().toLowerCase();
+  if (EXTENSION_LANGUAGES[extension]) return EXTENSION_LANGUAGES[extension];
+  if (MIME_LANGUAGES[type]) return MIME_LANGUAGES[type];
+  if (type.endsWith("+json")) return "json";
+  if (type.endsWith("+xml")) return "markup";
+  return null;
+};
+
+// Decides a match's token type; `end` is where it ends in `text`.
+type Classify = (
+  value: string,
+  text: string,
+  end: number,
+) => SyntaxTokenType | null;
+
+type Rule = {
+  // Where several rules match at the same position the first one wins.
+  pattern: RegExp;
+  type: SyntaxTokenType | Classify | null;
+  // State the tokenizer switches to after this rule matches.
+  next?: string;
+};
+
+// Rule lists by state. Every line starts in "root" unless an unterminated
+// comment, string or tag carries another state over from the line before.
+type Grammar = Record<string, Rule[]>;
+
+const ROOT = "root";
+
+const words = (list: string) => new Set(list.split(" "));
+
+const followedBy = (pattern: RegExp, text: string, end: number) => {
+  pattern.lastIndex = end;
+  return pattern.test(text);
+};
+const CALL = /\s*\(/y;
+const COLON = /\s*:/y;
+const DECLARATION = /\s*:[^{]*$/y;
+
+const JS_KEYWORDS = words(
+  "abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield",
+);
+const JS_LITERALS = words("true false null undefined NaN Infinity");
+const PYTHON_KEYWORDS = words(
+  "and as assert async await break case class continue def del elif else except finally for from global if import in is lambda match nonlocal not or pass raise return try while with yield",
+);
+const PYTHON_LITERALS = words("True False None self");
+const SHELL_KEYWORDS = words(
+  "if then elif else fi for while until do done case esac in function return local export readonly declare select break continue exit",
+);
+const YAML_LITERALS = words("true false null yes no on off True False Null");
+
+const classifyWord =
+  (keywords: Set<string>, literals: Set<string>): Classify =>
+  (value, text, end) => {
+    if (keywords.has(value)) return "keyword";
+    if (literals.has(value)) return "literal";
+    if (followedBy(CALL, text, end)) return "function";
+    return /^[A-Z]/.test(value) ? "type" : null;
+  };
+
+// Block comments and multi-line strings close on a later line or keep going.
+const blockState = (close: RegExp, type: SyntaxTokenType): Rule[] => [
+  { pattern: close, type, next: ROOT },
+  { pattern: /.+/, type },
+];
+
+const DOUBLE_QUOTED = /"(?:[^"\\]|\\.)*"?/;
+const SINGLE_QUOTED = /'(?:[^'\\]|\\.)*'?/;
+const NUMBER =
+  /(?:0[xXbBoO][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d+)(?:[eE][+-]?\d+)?)n?/;
+
+// Each state's rules joined into one pattern, so the text between tokens is
+// skipped in a single search.
+const combined = new Map<Rule[], RegExp>();
+const combine = (rules: Rule[]) => {
+  let pattern = combined.get(rules);
+  if (!pattern) {
+    pattern = new RegExp(
+      rules.map((rule) => `(${rule.pattern.source})`).join("|"),
+      "g",
+    );
+    combined.set(rules, pattern);
+  }
+  return pattern;
+};
+
+const GRAMMARS: Record<SyntaxLanguage, Grammar> = {
+  typescript: {
+    root: [
+      { pattern: /\/\*/, type: "comment", next: "comment" },
+      { pattern: /\/\/.*/, type: "comment" },
+      { pattern: /`/, type: "string", next: "template" },
+      { pattern: DOUBLE_QUOTED, type: "string" },
+      { pattern: SINGLE_QUOTED, type: "string" },
+      { pattern: /@[\w$.]+/, type: "function" },
+      {
+        pattern: /[A-Za-z_$][\w$]*/,
+        type: classifyWord(JS_KEYWORDS, JS_LITERALS),
+      },
+      { pattern: NUMBER, type: "number" },
+    ],
+    comment: blockState(/.*?\*\//, "comment"),
+    template: blockState(/(?:[^`\\]|\\.)*`/, "string"),
+  },
+  json: {
+    root: [
+      {
+        pattern: DOUBLE_QUOTED,
+        type: (_, text, end) =>
+          followedBy(COLON, text, end) ? "property" : "string",
+      },
+      { pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/, type: "number" },
+      { pattern: /true|false|null/, type: "literal" },
+    ],
+  },
+  css: {
+    root: [
+      { pattern: /\/\*/, type: "comment", next: "comment" },
+      { pattern: DOUBLE_QUOTED, type: "string" },
+      { pattern: SINGLE_QUOTED, type: "string" },
+      { pattern: /@[\w-]+|!important/, type: "keyword" },
+      { pattern: /#[\da-fA-F]{3,8}(?![\w-])/, type: "number" },
+      {
+        pattern: /-{0,2}[A-Za-z_][\w-]*/,
+        // `color: red` is a declaration; `a:hover {` is a selector.
+        type: (_, text, end) =>
+          followedBy(CALL, text, end)
+            ? "function"
+            : followedBy(DECLARATION, text, end)
+              ? "property"
+              : null,
+      },
+      { pattern: /-?(?:\d+\.?\d*|\.\d+)(?:[a-zA-Z]+|%)?/, type: "number" },
+    ],
+    comment: blockState(/.*?\*\//, "comment"),
+  },
+  markup: {
+    root: [
+      { pattern: /<!--/, type: "comment", next: "comment" },
+      { pattern: /<[!?][\w-]*/, type: "keyword", next: "tag" },
+      { pattern: /<\/?[A-Za-z][\w:.-]*/, type: "tag", next: "tag" },
+      { pattern: /&#?\w+;/, type: "literal" },
+    ],
+    tag: [
+      { pattern: /\/?>|\?>/, type: "tag", next: ROOT },
+      { pattern: /"[^"]*"?|'[^']*'?/, type: "string" },
+      { pattern: /[^\s"'>/=?]+/, type: "attribute" },
+    ],
+    comment: blockState(/.*?-->/, "comment"),
+  },
+  yaml: {
+    root: [
+      { pattern: /(?<=^|\s)#.*/, type: "comment" },
+      { pattern: DOUBLE_QUOTED, type: "string" },
+      { pattern: SINGLE_QUOTED, type: "string" },
+      { pattern: /[\w$./][\w$./ -]*?(?=\s*:(?:\s|$))/, type: "property" },
+      { pattern: /[&*][\w-]+|!!?[\w-]+/, type: "type" },
+      {
+        pattern: /[A-Za-z_][\w-]*/,
+        type: (value) => (YAML_LITERALS.has(value) ? "literal" : null),
+      },
+      { pattern: /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/, type: "number" },
+      { pattern: /~/, type: "literal" },
+    ],
+  },
+  python: {
+    root: [
+      { pattern: /#.*/, type: "comment" },
+      { pattern: /[rRbBuUfF]{0,2}"""/, type: "string", next: "double" },
+      { pattern: /[rRbBuUfF]{0,2}'''/, type: "string", next: "single" },
+      { pattern: /[rRbBuUfF]{1,2}(?=["'])/, type: "string" },
+      { pattern: DOUBLE_QUOTED, type: "string" },
+      { pattern: SINGLE_QUOTED, type: "string" },
+      { pattern: /@[\w.]+/, type: "function" },
+      {
+        pattern: /[A-Za-z_]\w*/,
+        type: classifyWord(PYTHON_KEYWORDS, PYTHON_LITERALS),
+      },
+      { pattern: NUMBER, type: "number" },
+    ],
+    double: blockState(/.*?"""/, "string"),
+    single: blockState(/.*?'''/, "string"),
+  },
+  shell: {
+    root: [
+      { pattern: /(?<=^|\s)#.*/, type: "comment" },
+      { pattern: /"(?:[^"\\]|\\.)*"?/, type: "string" },
+      { pattern: /'[^']*'?/, type: "string" },
+      { pattern: /\$(?:\{[^}]*\}?|\w+|[@#?$!*-])/, type: "property" },
+      { pattern: /(?<=^|\s)--?[\w-]+/, type: "attribute" },
+      {
+        pattern: /[A-Za-z_][\w-]*/,
+        type: (value) => (SHELL_KEYWORDS.has(value) ? "keyword" : null),
+      },
+      { pattern: /\d+/, type: "number" },
+    ],
+  },
+};
+
+/**
+ * Splits one line into tokens. `state` is the state the previous line ended
+ * in, so comments, strings and tags left open keep their colour on the next
+ * line; unterminated ones simply run to the end of the line.
+ */
+export const tokenizeLine = (
+  text: string,
+  language: SyntaxLanguage,
+  state = ROOT,
+): { tokens: SyntaxToken[]; state: string } => {
+  const grammar = GRAMMARS[language];
+  const tokens: SyntaxToken[] = [];
+  const push = (type: SyntaxTokenType | null, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.value += value;
+    else tokens.push({ type, value });
+  };
+
+  let current = grammar[state] ? state : ROOT;
+  let position = 0;
+  while (position < text.length) {
+    const rules = grammar[current];
+    const pattern = combine(rules);
+    pattern.lastIndex = position;
+    const match = pattern.exec(text);
+    if (!match) {
+      push(null, text.slice(position));
+      break;
+    }
+    if (match.index > position) push(null, text.slice(position, match.index));
+    // Rule patterns have no capturing groups of their own.
+    const rule = rules[match.findIndex((group, idx) => idx && group) - 1];
+    const value = match[0];
+    const end = match.index + value.length;
+    push(
+      typeof rule.type === "function" ? rule.type(value, text, end) : rule.type,
+      value,
+    );
+    position = end;
+    current = rule.next ?? current;
+  }
+  return { tokens, state: current };
+};
+
+/**
+ * Tokenizes both sides of a run of diff lines, carrying each side's state
+ * from line to line. Null entries stand for hidden lines: the state is
+ * unknown after them, so both sides start over.
+ */
+export const highlightDiffLines = (
+  lines: (DiffLine | null)[],
+  language: SyntaxLanguage,
+): LineTokens[] => {
+  let beforeState = ROOT;
+  let afterState = ROOT;
+  return lines.map((line) => {
+    if (!line) {
+      beforeState = ROOT;
+      afterState = ROOT;
+      return {};
+    }
+    const tokens: LineTokens = {};
+    if (typeof line.before === "string") {
+      const next = tokenizeLine(line.before, language, beforeState);
+      tokens.before = next.tokens;
+      beforeState = next.state;
+    }
+    if (typeof line.after === "string") {
+      const next = tokenizeLine(line.after, language, afterState);
+      tokens.after = next.tokens;
+      afterState = next.state;
+    }
+    return tokens;
+  });
+};
+
+/**
+ * Cuts tokens at the boundaries of `pieces`, whose values make up the same
+ * text, so syntax colours can be drawn inside intra-line change highlights.
+ */
+export const splitTokens = (
+  tokens: SyntaxToken[],
+  pieces: string[],
+): SyntaxToken[][] => {
+  let tokenIdx = 0;
+  let offset = 0;
+  return pieces.map((piece) => {
+    const parts: SyntaxToken[] = [];
+    let remaining = piece.length;
+    while (remaining > 0 && tokenIdx < tokens.length) {
+      const token = tokens[tokenIdx];
+      const value = token.value.slice(offset, offset + remaining);
+      parts.push({ type: token.type, value });
+      remaining -= value.length;
+      offset += value.length;
+      if (offset === token.value.length) {
+        tokenIdx += 1;
+        offset = 0;
+      }
+    }
+    return parts;
+  });
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildDescriptor, computeTextDiff } from "./diff";
+import { collapseResult, collapseTextDiff, createLineCache } from "./hunks";
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, idx) => `line ${idx + 1}`);
+
+describe("collapseTextDiff", () => {
+  it("keeps changes with their context and merges hunks that touch", () => {
+    const before = numbered(40);
+    const after = [...before];
+    [4, 10, 30].forEach((idx) => {
+      after[idx] += "!";
+    });
+    const { lines } = computeTextDiff(before.join("\n"), after.join("\n"));
+
+    const hunks = collapseTextDiff(lines, 3);
+    expect(
+      hunks.map((hunk) => [hunk.start, hunk.start + hunk.lines.length]),
+    ).toEqual([
+      [1, 14],
+      [27, 34],
+    ]);
+    expect(hunks[0].lines[0]).toEqual(lines[1]);
+    expect(collapseTextDiff(lines, 0).map((hunk) => hunk.start)).toEqual([
+      4, 10, 30,
+    ]);
+  });
+
+  it("leaves ignored differences collapsed", () => {
+    const { lines } = computeTextDiff("a\nb \nc", "a\nb\nc", {
+      ignoreTrailingWhitespace: true,
+    });
+    expect(collapseTextDiff(lines, 1)).toEqual([]);
+  });
+});
+
+describe("collapseResult", () => {
+  it("replaces textDiff with hunks and a paging URL", () => {
+    const diff = computeTextDiff("a\nline b\nc\nd", "a\nline B\nc\nd");
+    const descriptor = (name: string) =>
+      buildDescriptor({
+        name,
+        mime: "text/plain",
+        buffer: Buffer.from(name),
+        kind: "text",
+      });
+    const collapsed = collapseResult(
+      {
+        files: [descriptor("a.txt"), descriptor("b.txt")],
+        summary: diff.summary,
+        textDiff: diff.lines,
+      },
+      0,
+      "/api/diff/abc/lines",
+    );
+    expect(collapsed.textDiff).toBeUndefined();
+    expect(collapsed.textHunks).toEqual({
+      lineCount: 4,
+      context: 0,
+      hunks: [{ start: 1, lines: [diff.lines[1]] }],
+      linesUrl: "/api/diff/abc/lines",
+    });
+  });
+});
+
+describe("createLineCache", () => {
+  it("expires idle entries and evicts the least recently read", () => {
+    let time = 0;
+    const cache = createLineCache({
+      ttlMs: 100,
+      maxEntries: 2,
+      now: () => time,
+    });
+    const { lines } = computeTextDiff("a", "b");
+    const first = cache.put(lines);
+    const second = cache.put([]);
+    expect(first).toMatch(/^[A-Za-z0-9_-]{12}$/);
+
+    time = 50;
+    expect(cache.get(first)).toBe(lines);
+    const third = cache.put([]);
+    expect(cache.get(second)).toBeNull();
+    expect(cache.get(third)).toEqual([]);
+
+    time = 200;
+    expect(cache.get(first)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { randomBytes } from "node:crypto";
+import { DiffHunk, DiffLine, DiffResult } from "./types";
+
+export const TEXT_VIEWS = ["full", "hunks"];
+// Most lines a single paging request returns.
+export const MAX_PAGE_LINES = 2000;
+const CACHE_TTL_MS = 30 * 60 * 1000;
+const MAX_CACHED_DIFFS = 20;
+
+const isChange = (line: DiffLine) => line.type !== "unchanged" && !line.ignored;
+
+/**
+ * Keeps each change plus `context` unchanged lines on either side; hunks
+ * that touch or overlap are merged. Everything else is left to be paged in.
+ */
+export const collapseTextDiff = (
+  lines: DiffLine[],
+  context: number,
+): DiffHunk[] => {
+  const ranges: [number, number][] = [];
+  lines.forEach((line, idx) => {
+    if (!isChange(line)) return;
+    const start = Math.max(0, idx - context);
+    const end = Math.min(lines.length, idx + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+  return ranges.map(([start, end]) => ({
+    start,
+    lines: lines.slice(start, end),
+  }));
+};
+
+/** Swaps a result's full `textDiff` for its collapsed `textHunks`. */
+export const collapseResult = (
+  result: DiffResult,
+  context: number,
+  linesUrl: string,
+): DiffResult => {
+  if (!result.textDiff) return result;
+  const { textDiff, ...rest } = result;
+  return {
+    ...rest,
+    textHunks: {
+      lineCount: textDiff.length,
+      context,
+      hunks: collapseTextDiff(textDiff, context),
+      linesUrl,
+    },
+  };
+};
+
+export type LineCache = {
+  put(lines: DiffLine[]): string;
+  get(id: string): DiffLine[] | null;
+};
+
+/**
+ * Keeps recent full text diffs in memory so collapsed regions can be paged
+ * in without saving the comparison. Entries expire `ttlMs` after their last
+ * read, and the least recently used go first once `maxEntries` is reached.
+ */
+export const createLineCache = ({
+  ttlMs = CACHE_TTL_MS,
+  maxEntries = MAX_CACHED_DIFFS,
+  now = () => Date.now(),
+} = {}): LineCache => {
+  const entries = new Map<string, { lines: DiffLine[]; expiresAt: number }>();
+  const prune = () => {
+    const time = now();
+    entries.forEach((entry, id) => {
+      if (entry.expiresAt <= time) entries.delete(id);
+    });
+  };
+
+  return {
+    put: (lines) => {
+      prune();
+      while (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      const id = randomBytes(9).toString("base64url");
+      entries.set(id, { lines, expiresAt: now() + ttlMs });
+      return id;
+    },
+    get: (id) => {
+      prune();
+      const entry = entries.get(id);
+      if (!entry) return null;
+      // Re-inserting moves the entry to the back of the eviction order.
+      entries.delete(id);
+      entries.set(id, { lines: entry.lines, expiresAt: now() + ttlMs });
+      return entry.lines;
+    },
+  };
+};
+
+// Route handlers may be bundled separately, so the cache lives on globalThis.
+const cacheHolder = globalThis as typeof globalThis & {
+  mintdiffLineCache?: LineCache;
+};
+
+export const getLineCache = (): LineCache => {
+  cacheHolder.mintdiffLineCache ??= createLineCache();
+  return cacheHolder.mintdiffLineCache;
+};
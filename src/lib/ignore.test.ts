@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  IGNORE_PRESETS,
+  MAX_IGNORE_RULES,
+  compileIgnoreRules,
+  maskLine,
+  matchesLineRule,
+} from "./ignore";
+
+describe("compileIgnoreRules", () => {
+  it("rejects invalid patterns with the offending source", () => {
+    expect(() =>
+      compileIgnoreRules([{ pattern: "([a-z", scope: "substring" }]),
+    ).toThrow(/Invalid ignore pattern "\(\[a-z"/);
+  });
+
+  it("rejects patterns that can backtrack catastrophically", () => {
+    for (const pattern of [
+      "(a+)+$",
+      "(?:x*y?)*z",
+      "((ab){2,})+",
+      "(a)\\1",
+      "(a|a)*$",
+      "(?:a|ab)*c",
+      "(\\w|\\d)+$",
+      "((a|b)c){2,}",
+    ]) {
+      expect(() => compileIgnoreRules([{ pattern, scope: "line" }])).toThrow(
+        /exponential time/,
+      );
+    }
+  });
+
+  it("accepts optional groups and quantifiers inside character classes", () => {
+    expect(() =>
+      compileIgnoreRules([
+        ...Object.values(IGNORE_PRESETS),
+        { pattern: "(?:[+*]\\d)+|(ab)?c{2}", scope: "substring" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it("limits the number of rules", () => {
+    const rules = Array.from({ length: MAX_IGNORE_RULES + 1 }, () => ({
+      pattern: "x",
+      scope: "substring" as const,
+    }));
+    expect(() => compileIgnoreRules(rules)).toThrow(/At most/);
+  });
+});
+
+describe("maskLine", () => {
+  it("masks preset matches so volatile values compare equal", () => {
+    const rules = compileIgnoreRules([
+      IGNORE_PRESETS["iso-timestamps"],
+      IGNORE_PRESETS.uuids,
+      IGNORE_PRESETS["hex-hashes"],
+    ]);
+    const left = maskLine(
+      "built 2024-01-02T10:00:00Z id=0f8fad5b-d9cb-469f-a165-70867728950e sha=3e4f5a6",
+      rules,
+    );
+    const right = maskLine(
+      "built 2025-06-30 23:59:01.123+02:00 id=7C9E6679-7425-40DE-944B-E07FC1F90AE7 sha=deadbeefcafe",
+      rules,
+    );
+    expect(left).toBe(right);
+  });
+
+  it("leaves plain numbers alone for the hex hash preset", () => {
+    const rules = compileIgnoreRules([IGNORE_PRESETS["hex-hashes"]]);
+    expect(maskLine("port 12345678", rules)).toBe("port 12345678");
+  });
+
+  it("collapses lines matched by a line rule", () => {
+    const rules = compileIgnoreRules([{ pattern: "^# generated", scope: "line" }]);
+    expect(matchesLineRule("# generated at noon", rules)).toBe(true);
+    expect(matchesLineRule("# generated at noon", rules)).toBe(true);
+    expect(maskLine("# generated at noon", rules)).toBe(
+      maskLine("# generated yesterday", rules),
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { IgnoreRule } from "./types";
+
+export const MAX_IGNORE_RULES = 20;
+export const MAX_IGNORE_PATTERN_LENGTH = 200;
+
+// Stands in for masked text so both sides collapse to the same comparison key.
+const MASK = "\u0000";
+const MASKED_LINE = "\u0000line";
+
+export const IGNORE_PRESETS: Record<string, IgnoreRule> = {
+  "iso-timestamps": {
+    pattern:
+      "\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?",
+    scope: "substring",
+  },
+  uuids: {
+    pattern:
+      "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}",
+    flags: "i",
+    scope: "substring",
+  },
+  "hex-hashes": {
+    pattern: "\\b(?=[0-9a-f]*[a-f])[0-9a-f]{7,128}\\b",
+    flags: "i",
+    scope: "substring",
+  },
+};
+
+export type CompiledIgnoreRule = {
+  scope: IgnoreRule["scope"];
+  matcher: RegExp;
+};
+
+/** Reads the quantifier at `at`, noting whether it can repeat its atom more than once. */
+const readQuantifier = (pattern: string, at: number) => {
+  const char = pattern[at];
+  if (char === "*" || char === "+") return { length: 1, repeats: true };
+  if (char === "?") return { length: 1, repeats: false };
+  const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(at, at + 24));
+  if (!braces) return null;
+  const max =
+    braces[2] === undefined
+      ? Number(braces[1])
+      : braces[3] === ""
+        ? Infinity
+        : Number(braces[3]);
+  return { length: braces[0].length, repeats: max > 1 };
+};
+
+type GroupScan = { repeats: boolean; alternates: boolean };
+
+/**
+ * Names the construct that can make a backtracking regex engine take
+ * exponential time: a backreference, or a repeated group that itself holds a
+ * repeating quantifier or an alternation, as in `(a+)+` or `(a|a)*`. Returns
+ * null for safe patterns.
+ */
+const findBacktrackingHazard = (pattern: string): string | null => {
+  // What each open group holds so far.
+  const groups: GroupScan[] = [];
+  let closed: GroupScan | null = null;
+  let inClass = false;
+  for (let at = 0; at < pattern.length; at += 1) {
+    const char = pattern[at];
+    const afterGroup = closed;
+    closed = null;
+    const innermost = groups[groups.length - 1];
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[at + 1] ?? "")) {
+        return "a backreference";
+      }
+      at += 1;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === ")") {
+      closed = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (closed && parent) {
+        parent.repeats ||= closed.repeats;
+        parent.alternates ||= closed.alternates;
+      }
+    } else if (char === "|") {
+      if (innermost) innermost.alternates = true;
+    } else {
+      const quantifier = readQuantifier(pattern, at);
+      if (!quantifier) continue;
+      if (quantifier.repeats) {
+        if (afterGroup?.repeats) return "a nested quantifier";
+        if (afterGroup?.alternates) return "an alternation in a repeated group";
+        if (innermost) innermost.repeats = true;
+      }
+      at += quantifier.length - 1;
+    }
+  }
+  return null;
+};
+
+export const compileIgnoreRules = (
+  rules: IgnoreRule[],
+): CompiledIgnoreRule[] => {
+  if (rules.length > MAX_IGNORE_RULES) {
+    throw new Error(`At most ${MAX_IGNORE_RULES} ignore patterns are allowed.`);
+  }
+  return rules.map(({ pattern, flags = "", scope }) => {
+    if (pattern.length > MAX_IGNORE_PATTERN_LENGTH) {
+      throw new Error(
+        `Ignore patterns must be ${MAX_IGNORE_PATTERN_LENGTH} characters or fewer.`,
+      );
+    }
+    const hazard = findBacktrackingHazard(pattern);
+    if (hazard) {
+      throw new Error(
+        `Ignore pattern "${pattern}" uses ${hazard}, which can make matching take exponential time.`,
+      );
+    }
+    try {
+      const globalFlags = flags.includes("g") ? flags : `${flags}g`;
+      return { scope, matcher: new RegExp(pattern, globalFlags) };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid ignore pattern "${pattern}": ${reason}`);
+    }
+  });
+};
+
+export const matchesLineRule = (
+  line: string,
+  rules: CompiledIgnoreRule[],
+): boolean =>
+  rules.some((rule) => {
+    if (rule.scope !== "line") return false;
+    rule.matcher.lastIndex = 0;
+    return rule.matcher.test(line);
+  });
+
+/**
+ * Returns the line with every substring rule match masked out, or a shared
+ * placeholder when a line rule matches so volatile lines pair up.
+ */
+export const maskLine = (line: string, rules: CompiledIgnoreRule[]): string => {
+  if (matchesLineRule(line, rules)) return MASKED_LINE;
+  return rules.reduce(
+    (masked, rule) =>
+      rule.scope === "substring" ? masked.replace(rule.matcher, MASK) : masked,
+    line,
+  );
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareImages,
+  decodeImage,
+  detectImageFormat,
+  MAX_IMAGE_PIXELS,
+  Raster,
+} from "./image";
+import { decodePng, encodePng } from "./png";
+import { ImageInfo } from "./types";
+
+const solid = (width: number, height: number, rgba: number[]): Raster => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+};
+
+const infoOf = ({ width, height }: Raster): ImageInfo => ({
+  format: "png",
+  width,
+  height,
+  alpha: false,
+  animated: false,
+});
+
+describe("detectImageFormat", () => {
+  it("recognises images by their magic bytes", () => {
+    expect(detectImageFormat(encodePng(solid(1, 1, [0, 0, 0, 255])))).toBe(
+      "png",
+    );
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "jpeg",
+    );
+    expect(
+      detectImageFormat(Buffer.from("GIF89a\x01\x00\x01\x00\x00\x00\x00")),
+    ).toBe("gif");
+    expect(detectImageFormat(Buffer.from("not an image"))).toBeNull();
+  });
+});
+
+describe("decodeImage", () => {
+  it("refuses images above the pixel budget before decoding", () => {
+    const png = encodePng(solid(1, 1, [0, 0, 0, 255]));
+    expect(() =>
+      decodeImage(png, {
+        ...infoOf(solid(1, 1, [])),
+        width: MAX_IMAGE_PIXELS,
+        height: 2,
+      }),
+    ).toThrow(/megapixels/);
+  });
+});
+
+describe("compareImages", () => {
+  it("counts changed pixels and draws them on the overlay", () => {
+    const before = solid(4, 4, [40, 120, 200, 255]);
+    const after = solid(4, 4, [40, 120, 200, 255]);
+    after.data.set([255, 255, 0, 255], (1 * 4 + 2) * 4);
+    // A shift too small to see is not a change.
+    after.data.set([41, 121, 200, 255], 0);
+
+    const diff = compareImages(
+      [infoOf(before), infoOf(after)],
+      [before, after],
+    );
+
+    expect(diff).toMatchObject({
+      formatChanged: false,
+      dimensionsChanged: false,
+      totalPixels: 16,
+      changedPixels: 1,
+      changePercent: 6.25,
+    });
+    expect(diff.similarity).toBeLessThan(100);
+    const overlay = decodePng(
+      Buffer.from(
+        diff.overlay!.replace("data:image/png;base64,", ""),
+        "base64",
+      ),
+    );
+    expect(Array.from(overlay.data.subarray(24, 28))).toEqual([255, 0, 0, 255]);
+    expect(overlay.data[0]).toBe(overlay.data[1]);
+  });
+
+  it("treats area covered by only one image as changed", () => {
+    const before = solid(2, 2, [0, 0, 0, 255]);
+    const after = solid(4, 2, [0, 0, 0, 255]);
+    const diff = compareImages(
+      [infoOf(before), infoOf(after)],
+      [before, after],
+    );
+
+    expect(diff).toMatchObject({ dimensionsChanged: true, changedPixels: 4 });
+    expect(diff.similarity).toBe(50);
+  });
+
+  it("refuses a canvas above the pixel budget for swapped shapes", () => {
+    // Each image is within the budget; the canvas covering both is not.
+    const wide = {
+      width: MAX_IMAGE_PIXELS / 16,
+      height: 16,
+      data: new Uint8Array(),
+    };
+    const tall = {
+      width: 16,
+      height: MAX_IMAGE_PIXELS / 16,
+      data: new Uint8Array(),
+    };
+    expect(() =>
+      compareImages([infoOf(wide), infoOf(tall)], [wide, tall]),
+    ).toThrow(/megapixels/);
+  });
+
+  it("reports header facts alone when pixels are unavailable", () => {
+    const info = infoOf(solid(2, 2, []));
+    const diff = compareImages([info, { ...info, format: "webp" }]);
+    expect(diff).toEqual({
+      images: [info, { ...info, format: "webp" }],
+      formatChanged: true,
+      dimensionsChanged: false,
+    });
+  });
+});
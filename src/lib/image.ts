@@ -0,0 +1,195 @@
+import { decodeGif, isGif, readGifInfo } from "./gif";
+import { decodeJpeg, isJpeg, readJpegInfo } from "./jpeg";
+import { decodeWebp, isWebp, readWebpInfo } from "./webp";
+import { decodePng, encodePng, isPng, readPngInfo } from "./png";
+import { ImageDiff, ImageFormat, ImageInfo } from "./types";
+
+export const MAX_IMAGE_PIXELS = 16 * 1024 * 1024;
+// Per-pixel YIQ distance (0-1) above which a pixel counts as changed.
+export const PIXEL_THRESHOLD = 0.1;
+
+const MAX_YIQ_DELTA = 35215;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/** Decoded pixels as 8-bit RGBA, row by row. */
+export type Raster = { width: number; height: number; data: Uint8Array };
+
+const CODECS: Record<
+  ImageFormat,
+  {
+    detect: (buffer: Buffer) => boolean;
+    info: (buffer: Buffer) => ImageInfo;
+    decode: (buffer: Buffer) => Raster;
+  }
+> = {
+  png: { detect: isPng, info: readPngInfo, decode: decodePng },
+  jpeg: { detect: isJpeg, info: readJpegInfo, decode: decodeJpeg },
+  gif: { detect: isGif, info: readGifInfo, decode: decodeGif },
+  webp: { detect: isWebp, info: readWebpInfo, decode: decodeWebp },
+};
+
+/** Recognises the supported image formats by their magic bytes. */
+export const detectImageFormat = (buffer: Buffer): ImageFormat | null =>
+  (Object.keys(CODECS) as ImageFormat[]).find((format) =>
+    CODECS[format].detect(buffer),
+  ) ?? null;
+
+/** Reads dimensions and flags from the header without decoding pixels. */
+export const readImageInfo = (buffer: Buffer, format: ImageFormat): ImageInfo =>
+  CODECS[format].info(buffer);
+
+/** Decodes an image (the first frame if animated) to RGBA. */
+export const decodeImage = (buffer: Buffer, info: ImageInfo): Raster => {
+  if (info.width * info.height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `${info.width}×${info.height} is more than ${MAX_IMAGE_PIXELS / 1024 / 1024} megapixels.`,
+    );
+  }
+  return CODECS[info.format].decode(buffer);
+};
+
+// Transparent pixels are compared as if drawn on white.
+const onWhite = (value: number, alpha: number) =>
+  255 + ((value - 255) * alpha) / 255;
+
+const luma = (data: Uint8Array, at: number) => {
+  const alpha = data[at + 3];
+  return (
+    onWhite(data[at], alpha) * 0.29889531 +
+    onWhite(data[at + 1], alpha) * 0.58662247 +
+    onWhite(data[at + 2], alpha) * 0.11448223
+  );
+};
+
+/** Squared YIQ color distance, the perceptual measure pixelmatch uses. */
+const colorDelta = (a: Uint8Array, at: number, b: Uint8Array, bt: number) => {
+  const r1 = onWhite(a[at], a[at + 3]);
+  const g1 = onWhite(a[at + 1], a[at + 3]);
+  const b1 = onWhite(a[at + 2], a[at + 3]);
+  const r2 = onWhite(b[bt], b[bt + 3]);
+  const g2 = onWhite(b[bt + 1], b[bt + 3]);
+  const b2 = onWhite(b[bt + 2], b[bt + 3]);
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+  const i = dr * 0.59597799 - dg * 0.2741761 - db * 0.32180189;
+  const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+};
+
+/**
+ * Mean structural similarity (SSIM) of the overlapping area, computed on
+ * luma over 8×8 windows.
+ */
+const structuralSimilarity = (left: Raster, right: Raster) => {
+  const width = Math.min(left.width, right.width);
+  const height = Math.min(left.height, right.height);
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top < height; top += SSIM_WINDOW) {
+    for (let start = 0; start < width; start += SSIM_WINDOW) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      let count = 0;
+      for (let y = top; y < Math.min(top + SSIM_WINDOW, height); y += 1) {
+        for (let x = start; x < Math.min(start + SSIM_WINDOW, width); x += 1) {
+          const a = luma(left.data, (y * left.width + x) * 4);
+          const b = luma(right.data, (y * right.width + x) * 4);
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+          count += 1;
+        }
+      }
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) *
+          (varianceA + varianceB + SSIM_C2));
+      windows += 1;
+    }
+  }
+  return windows ? total / windows : 0;
+};
+
+/**
+ * Compares two images. Header facts are always reported; when both were
+ * decoded, the pixels are compared on a canvas large enough for either, so
+ * area covered by only one image counts as changed. The overlay is the
+ * second image faded to grey with changed pixels in red, as a PNG data URL.
+ * Throws when that canvas is larger than `MAX_IMAGE_PIXELS`, which two
+ * small images of swapped shapes can reach.
+ */
+export const compareImages = (
+  images: [ImageInfo, ImageInfo],
+  rasters?: [Raster, Raster],
+): ImageDiff => {
+  const [before, after] = images;
+  const diff: ImageDiff = {
+    images,
+    formatChanged: before.format !== after.format,
+    dimensionsChanged:
+      before.width !== after.width || before.height !== after.height,
+  };
+  if (!rasters) return diff;
+
+  const [left, right] = rasters;
+  const width = Math.max(left.width, right.width);
+  const height = Math.max(left.height, right.height);
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `the ${width}×${height} comparison canvas is more than ${MAX_IMAGE_PIXELS / 1024 / 1024} megapixels`,
+    );
+  }
+  const overlay = new Uint8Array(width * height * 4);
+  const maxDelta = MAX_YIQ_DELTA * PIXEL_THRESHOLD * PIXEL_THRESHOLD;
+  let changed = 0;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const target = (y * width + x) * 4;
+      const inLeft = x < left.width && y < left.height;
+      const inRight = x < right.width && y < right.height;
+      const leftAt = (y * left.width + x) * 4;
+      const rightAt = (y * right.width + x) * 4;
+      if (
+        inLeft &&
+        inRight &&
+        colorDelta(left.data, leftAt, right.data, rightAt) <= maxDelta
+      ) {
+        const faded = 255 + (luma(right.data, rightAt) - 255) * 0.1;
+        overlay.fill(faded, target, target + 3);
+      } else {
+        changed += 1;
+        overlay[target] = 255;
+      }
+      overlay[target + 3] = 255;
+    }
+  }
+
+  const totalPixels = width * height;
+  const overlap =
+    (Math.min(left.width, right.width) * Math.min(left.height, right.height)) /
+    totalPixels;
+  const similarity = Math.max(0, structuralSimilarity(left, right)) * overlap;
+  return {
+    ...diff,
+    totalPixels,
+    changedPixels: changed,
+    changePercent: Math.round((changed / totalPixels) * 10000) / 100,
+    similarity: Math.round(similarity * 1000) / 10,
+    overlay: `data:image/png;base64,${encodePng({ width, height, data: overlay }).toString("base64")}`,
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { decodeJpeg, isJpeg, readJpegInfo } from "./jpeg";
+
+// 16×8 at 4:2:0: the left half (220, 30, 30), the right half (30, 30, 220).
+const BASELINE = Buffer.from(
+  "/9j/2wBDAAMCAgMCAgMDAwMEAwMEBQgFBQQEBQoHBwYIDAoMDAsKCwsNDhIQDQ4RDgsLEBYQERMUFRUVDA8XGBYUGBIUFRT/2wBDAQMEBAUEBQkFBQkUDQsNFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBT/wAARCAAIABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAf/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFAEBAAAAAAAAAAAAAAAAAAAAB//EABgRAAIDAAAAAAAAAAAAAAAAAAAHRYPD/9oADAMBAAIRAxEAPwCJJCBURklVqNbkj7cz/9k=",
+  "base64",
+);
+const PROGRESSIVE = Buffer.from(
+  "/9j/2wBDAAMCAgMCAgMDAwMEAwMEBQgFBQQEBQoHBwYIDAoMDAsKCwsNDhIQDQ4RDgsLEBYQERMUFRUVDA8XGBYUGBIUFRT/2wBDAQMEBAUEBQkFBQkUDQsNFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBT/wgARCAAIABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAb/xAAUAQEAAAAAAAAAAAAAAAAAAAAG/9oADAMBAAIQAxAAAAGIkBU1/8QAFBABAAAAAAAAAAAAAAAAAAAAEP/aAAgBAQABBQI//8QAGBEAAgMAAAAAAAAAAAAAAAAAAAZEgsL/2gAIAQMBAT8Bco9sn//EABgRAAIDAAAAAAAAAAAAAAAAAAAGRILC/9oACAECAQE/AUaTXR//xAAUEAEAAAAAAAAAAAAAAAAAAAAQ/9oACAEBAAY/Aj//xAAUEAEAAAAAAAAAAAAAAAAAAAAQ/9oACAEBAAE/IT//2gAMAwEAAgADAAAAEPf/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oACAEDAQE/EBf/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oACAECAQE/EF//xAAUEAEAAAAAAAAAAAAAAAAAAAAQ/9oACAEBAAE/ED//2Q==",
+  "base64",
+);
+
+const expectClose = (actual: Uint8Array, expected: number[]) =>
+  Array.from(actual).forEach((value, idx) =>
+    expect(Math.abs(value - expected[idx])).toBeLessThanOrEqual(8),
+  );
+
+describe("decodeJpeg", () => {
+  it("decodes baseline and progressive scans to the same pixels", () => {
+    expect(isJpeg(BASELINE)).toBe(true);
+    expect(readJpegInfo(PROGRESSIVE)).toMatchObject({ width: 16, height: 8 });
+
+    const baseline = decodeJpeg(BASELINE);
+    const progressive = decodeJpeg(PROGRESSIVE);
+    expect(baseline.width).toBe(16);
+    expectClose(baseline.data.subarray(0, 4), [220, 30, 30, 255]);
+    expectClose(baseline.data.subarray(60, 64), [30, 30, 220, 255]);
+    expect(Array.from(progressive.data)).toEqual(Array.from(baseline.data));
+  });
+
+  it("refuses arithmetic-coded frames", () => {
+    const arithmetic = Buffer.from(BASELINE);
+    arithmetic[arithmetic.indexOf(Buffer.from([0xff, 0xc0])) + 1] = 0xc9;
+    expect(() => readJpegInfo(arithmetic)).toThrow(/not supported/);
+  });
+});
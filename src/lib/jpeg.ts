@@ -0,0 +1,676 @@
+import type { Raster } from "./image";
+import { ImageInfo } from "./types";
+
+// Position of each zigzag-ordered coefficient in the natural 8x8 block.
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+// cos((2x + 1)uπ / 16) with the DCT normalisation folded in, indexed x * 8 + u.
+const IDCT_TABLE = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x += 1) {
+    for (let u = 0; u < 8; u += 1) {
+      table[x * 8 + u] =
+        ((u === 0 ? Math.SQRT1_2 : 1) *
+          Math.cos(((2 * x + 1) * u * Math.PI) / 16)) /
+        2;
+    }
+  }
+  return table;
+})();
+
+const SOF_BASELINE = [0xc0, 0xc1];
+const SOF_PROGRESSIVE = 0xc2;
+// Lossless, hierarchical and arithmetic-coded frames.
+const SOF_UNSUPPORTED = [
+  0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+];
+
+type HuffmanTable = {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  symbols: Uint8Array;
+};
+
+type Component = {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  coefficients: Int16Array;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+};
+
+type Frame = {
+  width: number;
+  height: number;
+  progressive: boolean;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+};
+
+export const isJpeg = (buffer: Buffer) =>
+  buffer.length >= 3 &&
+  buffer[0] === 0xff &&
+  buffer[1] === 0xd8 &&
+  buffer[2] === 0xff;
+
+const buildHuffmanTable = (counts: Buffer, symbols: Buffer): HuffmanTable => {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length += 1) {
+    const count = counts[length - 1];
+    valueOffset[length] = index - code;
+    code += count;
+    index += count;
+    if (count) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  return { maxCode, valueOffset, symbols: Uint8Array.from(symbols) };
+};
+
+/**
+ * Reads entropy-coded bits, dropping the stuffed zero after each 0xFF.
+ * At a marker it stops advancing and feeds zeros, as decoders conventionally do.
+ */
+const createBitReader = (data: Buffer, start: number) => {
+  let offset = start;
+  let current = 0;
+  let available = 0;
+
+  const readBit = (): number => {
+    if (!available) {
+      current = 0;
+      if (offset < data.length) {
+        const byte = data[offset];
+        if (byte !== 0xff) {
+          current = byte;
+          offset += 1;
+        } else if (data[offset + 1] === 0) {
+          current = 0xff;
+          offset += 2;
+        }
+      }
+      available = 8;
+    }
+    available -= 1;
+    return (current >> available) & 1;
+  };
+
+  const receive = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i += 1) value = (value << 1) | readBit();
+    return value;
+  };
+
+  return {
+    readBit,
+    receive,
+    receiveExtend: (length: number): number => {
+      if (!length) return 0;
+      const value = receive(length);
+      return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+    },
+    decode: (table: HuffmanTable): number => {
+      let code = 0;
+      for (let length = 1; length <= 16; length += 1) {
+        code = (code << 1) | readBit();
+        if (code <= table.maxCode[length]) {
+          return table.symbols[table.valueOffset[length] + code];
+        }
+      }
+      throw new Error("JPEG image data is corrupt.");
+    },
+    /** Drops buffered bits and returns the offset of the next marker. */
+    nextMarker: (): number => {
+      available = 0;
+      while (
+        offset < data.length - 1 &&
+        !(
+          data[offset] === 0xff &&
+          data[offset + 1] !== 0 &&
+          data[offset + 1] !== 0xff
+        )
+      ) {
+        offset += 1;
+      }
+      return offset;
+    },
+    seek: (position: number) => {
+      offset = position;
+      available = 0;
+    },
+  };
+};
+
+type ScanParams = {
+  components: Component[];
+  restartInterval: number;
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+};
+
+/** Decodes one scan into the components' coefficients; returns where it ended. */
+const decodeScan = (
+  data: Buffer,
+  start: number,
+  frame: Frame,
+  scan: ScanParams,
+): number => {
+  const { components, spectralStart, spectralEnd, approximationLow } = scan;
+  const reader = createBitReader(data, start);
+  let eobrun = 0;
+  let refineState = 0;
+  let refineValue = 0;
+
+  const tableFor = (table: HuffmanTable | undefined) => {
+    if (!table) throw new Error("JPEG Huffman table is missing.");
+    return table;
+  };
+
+  const decodeBaseline = (component: Component, block: number) => {
+    const { coefficients } = component;
+    component.pred += reader.receiveExtend(
+      reader.decode(tableFor(component.dcTable)),
+    );
+    coefficients[block] = component.pred;
+    const acTable = tableFor(component.acTable);
+    for (let k = 1; k < 64;) {
+      const symbol = reader.decode(acTable);
+      const size = symbol & 15;
+      const run = symbol >> 4;
+      if (!size) {
+        if (run < 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]] = reader.receiveExtend(size);
+      k += 1;
+    }
+  };
+
+  const decodeDcFirst = (component: Component, block: number) => {
+    const diff = reader.receiveExtend(
+      reader.decode(tableFor(component.dcTable)),
+    );
+    component.pred += diff * (1 << approximationLow);
+    component.coefficients[block] = component.pred;
+  };
+
+  const decodeDcRefine = (component: Component, block: number) => {
+    if (reader.readBit())
+      component.coefficients[block] |= 1 << approximationLow;
+  };
+
+  const decodeAcFirst = (component: Component, block: number) => {
+    if (eobrun > 0) {
+      eobrun -= 1;
+      return;
+    }
+    const acTable = tableFor(component.acTable);
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const symbol = reader.decode(acTable);
+      const size = symbol & 15;
+      const run = symbol >> 4;
+      if (!size) {
+        if (run < 15) {
+          eobrun = reader.receive(run) + (1 << run) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      component.coefficients[block + ZIGZAG[k]] =
+        reader.receiveExtend(size) * (1 << approximationLow);
+      k += 1;
+    }
+  };
+
+  // Refinement scans interleave correction bits for coefficients that are
+  // already non-zero with runs of zeros, so the position in a run is kept
+  // as a small state machine across calls.
+  const decodeAcRefine = (component: Component, block: number) => {
+    const { coefficients } = component;
+    const acTable = tableFor(component.acTable);
+    let run = 0;
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const at = block + ZIGZAG[k];
+      const sign = coefficients[at] < 0 ? -1 : 1;
+      if (refineState === 0) {
+        const symbol = reader.decode(acTable);
+        const size = symbol & 15;
+        run = symbol >> 4;
+        if (!size) {
+          if (run < 15) {
+            eobrun = reader.receive(run) + (1 << run);
+            refineState = 4;
+          } else {
+            run = 16;
+            refineState = 1;
+          }
+        } else {
+          if (size !== 1) throw new Error("JPEG image data is corrupt.");
+          refineValue = reader.receiveExtend(size);
+          refineState = run ? 2 : 3;
+        }
+        continue;
+      }
+      if (coefficients[at]) {
+        coefficients[at] += sign * (reader.readBit() << approximationLow);
+      } else if (refineState === 1 || refineState === 2) {
+        run -= 1;
+        if (!run) refineState = refineState === 2 ? 3 : 0;
+      } else if (refineState === 3) {
+        coefficients[at] = refineValue * (1 << approximationLow);
+        refineState = 0;
+      }
+      k += 1;
+    }
+    if (refineState === 4) {
+      eobrun -= 1;
+      if (!eobrun) refineState = 0;
+    }
+  };
+
+  const decodeFn = !frame.progressive
+    ? decodeBaseline
+    : spectralStart === 0
+      ? scan.approximationHigh === 0
+        ? decodeDcFirst
+        : decodeDcRefine
+      : scan.approximationHigh === 0
+        ? decodeAcFirst
+        : decodeAcRefine;
+
+  // A single-component scan covers only that component's own blocks;
+  // interleaved scans walk whole MCUs.
+  const single = components.length === 1 ? components[0] : null;
+  const total = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const decodeUnit = (unit: number) => {
+    if (single) {
+      const row = Math.floor(unit / single.blocksPerLine);
+      const col = unit % single.blocksPerLine;
+      decodeFn(single, 64 * (row * single.blocksPerLineForMcu + col));
+      return;
+    }
+    const mcuRow = Math.floor(unit / frame.mcusPerLine);
+    const mcuCol = unit % frame.mcusPerLine;
+    components.forEach((component) => {
+      for (let v = 0; v < component.v; v += 1) {
+        for (let h = 0; h < component.h; h += 1) {
+          const row = mcuRow * component.v + v;
+          const col = mcuCol * component.h + h;
+          decodeFn(component, 64 * (row * component.blocksPerLineForMcu + col));
+        }
+      }
+    });
+  };
+
+  let unit = 0;
+  while (unit < total) {
+    components.forEach((component) => {
+      component.pred = 0;
+    });
+    eobrun = 0;
+    refineState = 0;
+    const end = scan.restartInterval
+      ? Math.min(total, unit + scan.restartInterval)
+      : total;
+    for (; unit < end; unit += 1) decodeUnit(unit);
+
+    const marker = reader.nextMarker();
+    if (unit < total && data[marker + 1] >= 0xd0 && data[marker + 1] <= 0xd7) {
+      reader.seek(marker + 2);
+    } else if (unit < total) {
+      break;
+    }
+  }
+  return reader.nextMarker();
+};
+
+/** Dequantizes and inverse-transforms every block into 8-bit samples. */
+const buildPlane = (component: Component, quantTable: Int32Array) => {
+  const lineWidth = component.blocksPerLineForMcu * 8;
+  const plane = new Uint8Array(lineWidth * component.blocksPerColumnForMcu * 8);
+  const dequantized = new Float64Array(64);
+  const rows = new Float64Array(64);
+  const clamp = (value: number) =>
+    value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+
+  for (
+    let blockRow = 0;
+    blockRow < component.blocksPerColumnForMcu;
+    blockRow += 1
+  ) {
+    for (
+      let blockCol = 0;
+      blockCol < component.blocksPerLineForMcu;
+      blockCol += 1
+    ) {
+      const block = 64 * (blockRow * component.blocksPerLineForMcu + blockCol);
+      const origin = blockRow * 8 * lineWidth + blockCol * 8;
+      let acZero = true;
+      for (let i = 0; i < 64; i += 1) {
+        dequantized[i] = component.coefficients[block + i] * quantTable[i];
+        if (i && dequantized[i]) acZero = false;
+      }
+      if (acZero) {
+        const value = clamp(dequantized[0] / 8 + 128);
+        for (let y = 0; y < 8; y += 1) {
+          plane.fill(value, origin + y * lineWidth, origin + y * lineWidth + 8);
+        }
+        continue;
+      }
+      for (let v = 0; v < 8; v += 1) {
+        for (let x = 0; x < 8; x += 1) {
+          let sum = 0;
+          for (let u = 0; u < 8; u += 1) {
+            sum += IDCT_TABLE[x * 8 + u] * dequantized[v * 8 + u];
+          }
+          rows[v * 8 + x] = sum;
+        }
+      }
+      for (let y = 0; y < 8; y += 1) {
+        for (let x = 0; x < 8; x += 1) {
+          let sum = 0;
+          for (let v = 0; v < 8; v += 1) {
+            sum += IDCT_TABLE[y * 8 + v] * rows[v * 8 + x];
+          }
+          plane[origin + y * lineWidth + x] = clamp(sum + 128);
+        }
+      }
+    }
+  }
+  return { plane, lineWidth };
+};
+
+const readFrame = (segment: Buffer, marker: number): Frame => {
+  if (segment[0] !== 8) {
+    throw new Error(`${segment[0]}-bit JPEG images are not supported.`);
+  }
+  const height = segment.readUInt16BE(1);
+  const width = segment.readUInt16BE(3);
+  if (!width || !height) throw new Error("JPEG image has no pixels.");
+  const components = Array.from({ length: segment[5] }, (_, idx) => {
+    const at = 6 + idx * 3;
+    return {
+      id: segment[at],
+      h: Math.max(1, segment[at + 1] >> 4),
+      v: Math.max(1, segment[at + 1] & 15),
+      quantTable: segment[at + 2] & 3,
+    };
+  });
+  const maxH = Math.max(...components.map((component) => component.h));
+  const maxV = Math.max(...components.map((component) => component.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+  return {
+    width,
+    height,
+    progressive: marker === SOF_PROGRESSIVE,
+    maxH,
+    maxV,
+    mcusPerLine,
+    mcusPerColumn,
+    components: components.map((component) => {
+      const blocksPerLineForMcu = mcusPerLine * component.h;
+      const blocksPerColumnForMcu = mcusPerColumn * component.v;
+      return {
+        ...component,
+        blocksPerLine: Math.ceil(Math.ceil((width * component.h) / maxH) / 8),
+        blocksPerColumn: Math.ceil(
+          Math.ceil((height * component.v) / maxV) / 8,
+        ),
+        blocksPerLineForMcu,
+        blocksPerColumnForMcu,
+        coefficients: new Int16Array(
+          blocksPerLineForMcu * blocksPerColumnForMcu * 64,
+        ),
+        pred: 0,
+      };
+    }),
+  };
+};
+
+type Segment = { marker: number; data: Buffer; end: number };
+
+/** Finds the next marker segment, skipping fill bytes and standalone markers. */
+const nextSegment = (buffer: Buffer, start: number): Segment | null => {
+  let offset = start;
+  while (offset < buffer.length - 1) {
+    if (buffer[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    offset += 2;
+    if (marker === 0xff) {
+      offset -= 1;
+    } else if (marker === 0xd9) {
+      return null;
+    } else if (marker !== 0x01 && !(marker >= 0xd0 && marker <= 0xd8)) {
+      if (offset + 2 > buffer.length) break;
+      const length = buffer.readUInt16BE(offset);
+      const end = offset + length;
+      if (length < 2 || end > buffer.length) break;
+      return { marker, data: buffer.subarray(offset + 2, end), end };
+    }
+  }
+  return null;
+};
+
+/** Lists the marker segments before the first scan. */
+export const readJpegSegments = (buffer: Buffer): Segment[] => {
+  const segments: Segment[] = [];
+  for (
+    let segment = nextSegment(buffer, 2);
+    segment && segment.marker !== 0xda;
+    segment = nextSegment(buffer, segment.end)
+  ) {
+    segments.push(segment);
+  }
+  return segments;
+};
+
+export const readJpegInfo = (buffer: Buffer): ImageInfo => {
+  for (
+    let segment = nextSegment(buffer, 2);
+    segment;
+    segment = nextSegment(buffer, segment.end)
+  ) {
+    if (SOF_UNSUPPORTED.includes(segment.marker)) {
+      throw new Error(
+        "Lossless and arithmetic-coded JPEG images are not supported.",
+      );
+    }
+    if (
+      SOF_BASELINE.includes(segment.marker) ||
+      segment.marker === SOF_PROGRESSIVE
+    ) {
+      const height = segment.data.readUInt16BE(1);
+      const width = segment.data.readUInt16BE(3);
+      return { format: "jpeg", width, height, alpha: false, animated: false };
+    }
+  }
+  throw new Error("JPEG frame header is missing.");
+};
+
+/** Decodes a baseline or progressive JPEG to RGBA. */
+export const decodeJpeg = (buffer: Buffer): Raster => {
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | undefined;
+  let restartInterval = 0;
+  let adobeTransform: number | undefined;
+
+  let segment = nextSegment(buffer, 2);
+  while (segment) {
+    const { marker, data } = segment;
+    let next = segment.end;
+    if (SOF_UNSUPPORTED.includes(marker)) {
+      throw new Error(
+        "Lossless and arithmetic-coded JPEG images are not supported.",
+      );
+    } else if (SOF_BASELINE.includes(marker) || marker === SOF_PROGRESSIVE) {
+      frame = readFrame(data, marker);
+    } else if (marker === 0xdb) {
+      for (let at = 0; at < data.length;) {
+        const wide = data[at] >> 4;
+        const table = new Int32Array(64);
+        for (let i = 0; i < 64; i += 1) {
+          table[ZIGZAG[i]] = wide
+            ? data.readUInt16BE(at + 1 + i * 2)
+            : data[at + 1 + i];
+        }
+        quantTables[data[at] & 3] = table;
+        at += 1 + 64 * (wide ? 2 : 1);
+      }
+    } else if (marker === 0xc4) {
+      for (let at = 0; at < data.length;) {
+        const counts = data.subarray(at + 1, at + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(
+          counts,
+          data.subarray(at + 17, at + 17 + total),
+        );
+        (data[at] >> 4 ? acTables : dcTables)[data[at] & 3] = table;
+        at += 17 + total;
+      }
+    } else if (marker === 0xdd) {
+      restartInterval = data.readUInt16BE(0);
+    } else if (marker === 0xee && data.toString("latin1", 0, 5) === "Adobe") {
+      adobeTransform = data[11];
+    } else if (marker === 0xda) {
+      if (!frame) throw new Error("JPEG scan comes before the frame header.");
+      const current = frame;
+      const count = data[0];
+      const components = Array.from({ length: count }, (_, idx) => {
+        const component = current.components.find(
+          (c) => c.id === data[1 + idx * 2],
+        );
+        if (!component)
+          throw new Error("JPEG scan names an unknown component.");
+        const tables = data[2 + idx * 2];
+        component.dcTable = dcTables[tables >> 4];
+        component.acTable = acTables[tables & 15];
+        return component;
+      });
+      next = decodeScan(buffer, segment.end, current, {
+        components,
+        restartInterval,
+        spectralStart: data[1 + count * 2],
+        spectralEnd: data[2 + count * 2],
+        approximationHigh: data[3 + count * 2] >> 4,
+        approximationLow: data[3 + count * 2] & 15,
+      });
+    }
+    segment = nextSegment(buffer, next);
+  }
+
+  if (!frame) throw new Error("JPEG frame header is missing.");
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map((component) => {
+    const table = quantTables[component.quantTable];
+    if (!table) throw new Error("JPEG quantization table is missing.");
+    return { ...buildPlane(component, table), component };
+  });
+
+  const pixels = new Uint8Array(width * height * 4);
+  const ids = components.map((component) => component.id).join();
+  const isRgb = adobeTransform === 0 || ids === "82,71,66";
+  // Subsampled components are stretched with a triangle filter, like
+  // libjpeg's default "fancy" upsampling, rather than repeating samples.
+  const sample = (channel: number, x: number, y: number) => {
+    const { plane, lineWidth, component } = planes[channel];
+    if (component.h === maxH && component.v === maxV) {
+      return plane[y * lineWidth + x];
+    }
+    const lastX = Math.ceil((width * component.h) / maxH) - 1;
+    const lastY = Math.ceil((height * component.v) / maxV) - 1;
+    const sx = Math.min(
+      Math.max(((x + 0.5) * component.h) / maxH - 0.5, 0),
+      lastX,
+    );
+    const sy = Math.min(
+      Math.max(((y + 0.5) * component.v) / maxV - 0.5, 0),
+      lastY,
+    );
+    const x0 = Math.floor(sx);
+    const y0 = Math.floor(sy);
+    const x1 = Math.min(x0 + 1, lastX);
+    const y1 = Math.min(y0 + 1, lastY);
+    const fx = sx - x0;
+    const fy = sy - y0;
+    const top =
+      plane[y0 * lineWidth + x0] * (1 - fx) + plane[y0 * lineWidth + x1] * fx;
+    const bottom =
+      plane[y1 * lineWidth + x0] * (1 - fx) + plane[y1 * lineWidth + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+  const clamp = (value: number) =>
+    value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const target = (y * width + x) * 4;
+      let red: number;
+      let green: number;
+      let blue: number;
+      if (planes.length < 3) {
+        red = green = blue = Math.round(sample(0, x, y));
+      } else {
+        const first = sample(0, x, y);
+        const second = sample(1, x, y);
+        const third = sample(2, x, y);
+        if (isRgb || (planes.length === 4 && adobeTransform !== 2)) {
+          red = Math.round(first);
+          green = Math.round(second);
+          blue = Math.round(third);
+        } else {
+          red = clamp(first + 1.402 * (third - 128));
+          green = clamp(
+            first - 0.344136 * (second - 128) - 0.714136 * (third - 128),
+          );
+          blue = clamp(first + 1.772 * (second - 128));
+        }
+        if (planes.length === 4) {
+          // Adobe stores CMYK inverted, so these are already 255 - ink.
+          const black = sample(3, x, y);
+          red = Math.round((red * black) / 255);
+          green = Math.round((green * black) / 255);
+          blue = Math.round((blue * black) / 255);
+        }
+      }
+      pixels[target] = red;
+      pixels[target + 1] = green;
+      pixels[target + 2] = blue;
+      pixels[target + 3] = 255;
+    }
+  }
+  return { width, height, data: pixels };
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { computeMerge, computeMergeHunks, parseResolutions } from "./merge";
+
+const text = (...lines: string[]) => lines.map((line) => `${line}\n`).join("");
+const labels = { base: "base.txt", ours: "ours.txt", theirs: "theirs.txt" };
+
+describe("computeMergeHunks", () => {
+  it("classifies edits by the side that made them", () => {
+    const base = text("a", "b", "c", "d", "e", "f", "g");
+    const ours = text("a", "B", "c", "d", "e", "F", "g");
+    const theirs = text("a", "b", "c", "D", "e", "F", "g", "h");
+
+    const hunks = computeMergeHunks(base, ours, theirs);
+
+    expect(hunks.map((hunk) => hunk.type)).toEqual([
+      "unchanged",
+      "ours",
+      "unchanged",
+      "theirs",
+      "unchanged",
+      "both",
+      "unchanged",
+      "theirs",
+    ]);
+    expect(hunks[3]).toMatchObject({
+      baseStart: 4,
+      base: ["d"],
+      ours: ["d"],
+      theirs: ["D"],
+    });
+    expect(hunks[7]).toMatchObject({
+      baseStart: 8,
+      oursStart: 8,
+      theirsStart: 8,
+      theirs: ["h"],
+    });
+  });
+
+  it("reports overlapping edits and insertions at the same point as conflicts", () => {
+    const base = text("one", "two", "three");
+    const hunks = computeMergeHunks(
+      base,
+      text("one", "ours", "two", "three"),
+      text("one", "theirs", "two", "three"),
+    );
+
+    expect(hunks[1]).toMatchObject({
+      type: "conflict",
+      base: [],
+      ours: ["ours"],
+      theirs: ["theirs"],
+    });
+  });
+
+  it("reports edits to adjacent lines as one conflict, like git", () => {
+    const hunks = computeMergeHunks(
+      text("a", "b", "c", "d"),
+      text("a", "B", "c", "d"),
+      text("a", "b", "C", "d"),
+    );
+
+    expect(hunks.map((hunk) => hunk.type)).toEqual([
+      "unchanged",
+      "conflict",
+      "unchanged",
+    ]);
+    expect(hunks[1]).toMatchObject({
+      base: ["b", "c"],
+      ours: ["B", "c"],
+      theirs: ["b", "C"],
+    });
+  });
+
+  it("keeps line numbers on each side in step with earlier edits", () => {
+    const hunks = computeMergeHunks(
+      text("a", "b", "c", "d"),
+      text("x", "y", "a", "b", "c", "d"),
+      text("a", "b", "c", "D"),
+    );
+    const last = hunks[hunks.length - 1];
+
+    expect(last).toMatchObject({
+      type: "theirs",
+      baseStart: 4,
+      oursStart: 6,
+      theirsStart: 4,
+    });
+  });
+});
+
+describe("computeMerge", () => {
+  const base = text("keep", "old", "tail");
+  const ours = text("keep", "mine", "tail");
+  const theirs = text("keep", "yours", "tail", "extra");
+
+  it("writes git-style conflict markers, with the base in diff3 style", () => {
+    const merge = computeMerge({ base, ours, theirs }, { labels });
+    expect(merge.merged).toBe(
+      text(
+        "keep",
+        "<<<<<<< ours.txt",
+        "mine",
+        "=======",
+        "yours",
+        ">>>>>>> theirs.txt",
+        "tail",
+        "extra",
+      ),
+    );
+    expect(merge).toMatchObject({
+      conflicts: 1,
+      unresolved: 1,
+      theirsOnly: 1,
+    });
+
+    const diff3 = computeMerge(
+      { base, ours, theirs },
+      { labels, conflictStyle: "diff3" },
+    );
+    expect(diff3.merged).toContain("mine\n||||||| base.txt\nold\n=======\n");
+  });
+
+  it("applies resolutions and rejects ones that do not target a conflict", () => {
+    const merge = computeMerge(
+      { base, ours, theirs },
+      { labels, resolutions: { 1: "both" } },
+    );
+    expect(merge.unresolved).toBe(0);
+    expect(merge.merged).toBe(text("keep", "mine", "yours", "tail", "extra"));
+
+    expect(() =>
+      computeMerge(
+        { base, ours, theirs },
+        { labels, resolutions: { 0: "ours" } },
+      ),
+    ).toThrow(/not a conflict/);
+  });
+
+  it("keeps a dropped final newline from the side that changed it", () => {
+    const merge = computeMerge(
+      { base: "a\nb\n", ours: "a\nb\n", theirs: "a\nB" },
+      { labels },
+    );
+    expect(merge.merged).toBe("a\nB");
+  });
+});
+
+describe("parseResolutions", () => {
+  it("reads index:choice pairs", () => {
+    expect(parseResolutions(["1:ours", " 4:base "])).toEqual({
+      1: "ours",
+      4: "base",
+    });
+    expect(() => parseResolutions(["1:mine"])).toThrow(/Invalid resolution/);
+  });
+});
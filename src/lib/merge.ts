@@ -0,0 +1,297 @@
+import { diffArrays } from "diff";
+import { normalizeNewlines } from "./diff";
+import {
+  MergeConflictStyle,
+  MergeHunk,
+  MergeHunkType,
+  MergeResolution,
+  MergeResult,
+} from "./types";
+
+export const MERGE_RESOLUTIONS: MergeResolution[] = [
+  "ours",
+  "theirs",
+  "both",
+  "base",
+];
+export const MERGE_CONFLICT_STYLES: MergeConflictStyle[] = ["merge", "diff3"];
+
+type Change = { start: number; end: number; lines: string[] };
+
+const splitLines = (text: string): string[] => {
+  const normalized = normalizeNewlines(text);
+  return normalized === "" ? [] : normalized.replace(/\n$/, "").split("\n");
+};
+
+/** Lists one side's edits as replacements of base line ranges. */
+const sideChanges = (base: string[], side: string[]): Change[] => {
+  const changes: Change[] = [];
+  let position = 0;
+  let current: Change | null = null;
+
+  diffArrays(base, side).forEach((part) => {
+    if (!part.added && !part.removed) {
+      current = null;
+      position += part.count ?? part.value.length;
+      return;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [] };
+      changes.push(current);
+    }
+    if (part.removed) {
+      position += part.value.length;
+      current.end = position;
+    } else {
+      current.lines.push(...part.value);
+    }
+  });
+
+  return changes;
+};
+
+/** Rebuilds base[start, end) with the given edits applied. */
+const applyChanges = (
+  base: string[],
+  changes: Change[],
+  start: number,
+  end: number,
+): string[] => {
+  const lines: string[] = [];
+  let position = start;
+  changes.forEach((change) => {
+    lines.push(...base.slice(position, change.start), ...change.lines);
+    position = change.end;
+  });
+  lines.push(...base.slice(position, end));
+  return lines;
+};
+
+const growth = (changes: Change[]) =>
+  changes.reduce(
+    (total, change) =>
+      total + change.lines.length - (change.end - change.start),
+    0,
+  );
+
+const sameLines = (left: string[], right: string[]) =>
+  left.length === right.length &&
+  left.every((line, idx) => line === right[idx]);
+
+/**
+ * Splits a three-way comparison into hunks, diff3 style: edits from both
+ * sides that overlap or touch the same base lines (or insert at the same
+ * point) form one hunk, which is a conflict unless both sides made the same
+ * change.
+ */
+export const computeMergeHunks = (
+  base: string,
+  ours: string,
+  theirs: string,
+): MergeHunk[] => {
+  const baseLines = splitLines(base);
+  const oursChanges = sideChanges(baseLines, splitLines(ours));
+  const theirsChanges = sideChanges(baseLines, splitLines(theirs));
+  const hunks: MergeHunk[] = [];
+  let position = 0;
+  let oursShift = 0;
+  let theirsShift = 0;
+  let i = 0;
+  let j = 0;
+
+  const pushHunk = (
+    type: MergeHunkType,
+    start: number,
+    baseSlice: string[],
+    oursSlice: string[],
+    theirsSlice: string[],
+  ) => {
+    hunks.push({
+      index: hunks.length,
+      type,
+      baseStart: start + 1,
+      oursStart: start + oursShift + 1,
+      theirsStart: start + theirsShift + 1,
+      base: baseSlice,
+      ours: oursSlice,
+      theirs: theirsSlice,
+    });
+  };
+
+  const pushUnchanged = (end: number) => {
+    if (end <= position) return;
+    const lines = baseLines.slice(position, end);
+    pushHunk("unchanged", position, lines, lines, lines);
+  };
+
+  while (i < oursChanges.length || j < theirsChanges.length) {
+    const nextOurs = oursChanges[i];
+    const nextTheirs = theirsChanges[j];
+    const start = Math.min(
+      nextOurs?.start ?? Infinity,
+      nextTheirs?.start ?? Infinity,
+    );
+    let end = start;
+    const regionOurs: Change[] = [];
+    const regionTheirs: Change[] = [];
+
+    // Edits that merely touch the region join it, as in git and diff3.
+    const overlaps = (change: Change | undefined): change is Change =>
+      !!change && change.start <= end;
+
+    // Grow the region until no edit from either side overlaps or touches it.
+    for (let grew = true; grew;) {
+      grew = false;
+      if (overlaps(oursChanges[i])) {
+        regionOurs.push(oursChanges[i]);
+        end = Math.max(end, oursChanges[i].end);
+        i += 1;
+        grew = true;
+      }
+      if (overlaps(theirsChanges[j])) {
+        regionTheirs.push(theirsChanges[j]);
+        end = Math.max(end, theirsChanges[j].end);
+        j += 1;
+        grew = true;
+      }
+    }
+
+    pushUnchanged(start);
+    const baseSlice = baseLines.slice(start, end);
+    const oursSlice = applyChanges(baseLines, regionOurs, start, end);
+    const theirsSlice = applyChanges(baseLines, regionTheirs, start, end);
+    const type: MergeHunkType = !regionTheirs.length
+      ? "ours"
+      : !regionOurs.length
+        ? "theirs"
+        : sameLines(oursSlice, theirsSlice)
+          ? "both"
+          : "conflict";
+    pushHunk(type, start, baseSlice, oursSlice, theirsSlice);
+    oursShift += growth(regionOurs);
+    theirsShift += growth(regionTheirs);
+    position = end;
+  }
+  pushUnchanged(baseLines.length);
+
+  return hunks;
+};
+
+const resolvedLines = (
+  hunk: MergeHunk,
+  resolution: MergeResolution,
+): string[] => {
+  switch (resolution) {
+    case "ours":
+      return hunk.ours;
+    case "theirs":
+      return hunk.theirs;
+    case "both":
+      return [...hunk.ours, ...hunk.theirs];
+    case "base":
+      return hunk.base;
+  }
+};
+
+export type MergeLabels = { base: string; ours: string; theirs: string };
+
+/**
+ * Joins hunks into the merged text. Conflicts without a `resolution` are
+ * written with git-style markers; the `diff3` style also shows the base.
+ */
+export const renderMerged = (
+  hunks: MergeHunk[],
+  options: {
+    labels: MergeLabels;
+    conflictStyle?: MergeConflictStyle;
+    finalNewline?: boolean;
+  },
+): string => {
+  const { labels, conflictStyle = "merge", finalNewline = true } = options;
+  const lines = hunks.flatMap((hunk) => {
+    if (hunk.type === "unchanged") return hunk.base;
+    if (hunk.type === "theirs") return hunk.theirs;
+    if (hunk.type !== "conflict") return hunk.ours;
+    if (hunk.resolution) return resolvedLines(hunk, hunk.resolution);
+    return [
+      `<<<<<<< ${labels.ours}`,
+      ...hunk.ours,
+      ...(conflictStyle === "diff3"
+        ? [`||||||| ${labels.base}`, ...hunk.base]
+        : []),
+      "=======",
+      ...hunk.theirs,
+      `>>>>>>> ${labels.theirs}`,
+    ];
+  });
+  const text = lines.join("\n");
+  return lines.length && finalNewline ? `${text}\n` : text;
+};
+
+/**
+ * Reads `index:choice` resolution fields, e.g. `3:theirs`. Throws on
+ * malformed entries; whether the index is a conflict is checked later.
+ */
+export const parseResolutions = (
+  entries: string[],
+): Record<number, MergeResolution> => {
+  const resolutions: Record<number, MergeResolution> = {};
+  entries.forEach((entry) => {
+    const match = /^(\d+):(\w+)$/.exec(entry.trim());
+    if (!match || !MERGE_RESOLUTIONS.includes(match[2] as MergeResolution)) {
+      throw new Error(
+        `Invalid resolution "${entry}". Use <hunk>:ours, theirs, both or base.`,
+      );
+    }
+    resolutions[Number(match[1])] = match[2] as MergeResolution;
+  });
+  return resolutions;
+};
+
+/**
+ * Three-way merges decoded texts into LF-normalized output. The merged file
+ * ends with a newline unless one side dropped it and the other left it alone.
+ */
+export const computeMerge = (
+  texts: { base: string; ours: string; theirs: string },
+  options: {
+    labels: MergeLabels;
+    resolutions?: Record<number, MergeResolution>;
+    conflictStyle?: MergeConflictStyle;
+  },
+): Omit<MergeResult, "base"> => {
+  const { resolutions = {}, conflictStyle = "merge" } = options;
+  const hunks = computeMergeHunks(texts.base, texts.ours, texts.theirs);
+
+  Object.entries(resolutions).forEach(([key, resolution]) => {
+    const hunk = hunks[Number(key)];
+    if (hunk?.type !== "conflict") {
+      throw new Error(`Hunk ${key} is not a conflict.`);
+    }
+    hunk.resolution = resolution;
+  });
+
+  const endsWithNewline = (text: string) => text === "" || /[\r\n]$/.test(text);
+  const baseNewline = endsWithNewline(texts.base);
+  const oursNewline = endsWithNewline(texts.ours);
+  const finalNewline =
+    oursNewline === baseNewline ? endsWithNewline(texts.theirs) : oursNewline;
+  const count = (type: MergeHunkType) =>
+    hunks.filter((hunk) => hunk.type === type).length;
+  const conflicts = count("conflict");
+
+  return {
+    conflictStyle,
+    oursOnly: count("ours"),
+    theirsOnly: count("theirs"),
+    bothSame: count("both"),
+    conflicts,
+    unresolved: conflicts - hunks.filter((hunk) => hunk.resolution).length,
+    hunks,
+    merged: renderMerged(hunks, {
+      labels: options.labels,
+      conflictStyle,
+      finalNewline,
+    }),
+  };
+};
@@ -0,0 +1,310 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  compareMetadata,
+  extractMetadata,
+  MetadataField,
+  summarizeMetadata,
+} from "./metadata";
+
+type IfdEntry = [tag: number, type: number, count: number, value: Buffer];
+
+const ascii = (value: string) => Buffer.from(`${value}\0`, "latin1");
+const u16 = (value: number) => Buffer.from([value & 0xff, value >> 8]);
+const u32 = (value: number) => {
+  const out = Buffer.alloc(4);
+  out.writeUInt32LE(value);
+  return out;
+};
+const rational = (numerator: number, denominator: number) =>
+  Buffer.concat([u32(numerator), u32(denominator)]);
+
+/** Writes a little-endian IFD at `start`, with out-of-line values after it. */
+const writeIfd = (entries: IfdEntry[], start: number) => {
+  const table = Buffer.alloc(2 + entries.length * 12 + 4);
+  const values: Buffer[] = [];
+  let valueAt = start + table.length;
+  table.writeUInt16LE(entries.length, 0);
+  entries.forEach(([tag, type, count, value], idx) => {
+    const at = 2 + idx * 12;
+    table.writeUInt16LE(tag, at);
+    table.writeUInt16LE(type, at + 2);
+    table.writeUInt32LE(count, at + 4);
+    if (value.length <= 4) {
+      value.copy(table, at + 8);
+    } else {
+      table.writeUInt32LE(valueAt, at + 8);
+      values.push(value);
+      valueAt += value.length;
+    }
+  });
+  return Buffer.concat([table, ...values]);
+};
+
+const buildTiff = () => {
+  const ifd0 = (exifAt: number): IfdEntry[] => [
+    [0x010f, 2, 6, ascii("Canon")],
+    [0x0110, 2, 13, ascii("Canon EOS R5")],
+    [0x0112, 3, 1, u16(6)],
+    [0x8769, 4, 1, u32(exifAt)],
+  ];
+  const exifAt = 8 + writeIfd(ifd0(0), 8).length;
+  return Buffer.concat([
+    Buffer.from("II*\0", "latin1"),
+    u32(8),
+    writeIfd(ifd0(exifAt), 8),
+    writeIfd(
+      [
+        [0x829a, 5, 1, rational(1, 125)],
+        [0x9003, 2, 20, ascii("2024:05:01 10:00:00")],
+      ],
+      exifAt,
+    ),
+  ]);
+};
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmp:CreatorTool="Darkroom &amp; Co">
+<dc:subject><rdf:Bag><rdf:li>red</rdf:li><rdf:li>square</rdf:li></rdf:Bag></dc:subject>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+const buildIptc = () => {
+  const dataset = (number: number, value: string) => {
+    const header = Buffer.from([0x1c, 2, number, 0, value.length]);
+    return Buffer.concat([header, Buffer.from(value, "latin1")]);
+  };
+  const iim = Buffer.concat([
+    dataset(25, "red"),
+    dataset(25, "square"),
+    dataset(90, "Paris"),
+  ]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(iim.length);
+  return Buffer.concat([
+    Buffer.from("Photoshop 3.0\0" + "8BIM", "latin1"),
+    Buffer.from([0x04, 0x04, 0, 0]),
+    size,
+    iim,
+  ]);
+};
+
+/** Builds a one-tag ICC profile whose description is `description`. */
+const buildIcc = (description: string) => {
+  const text = ascii(description);
+  const tag = Buffer.concat([
+    Buffer.from("desc\0\0\0\0", "latin1"),
+    Buffer.alloc(4),
+    text,
+  ]);
+  tag.writeUInt32BE(text.length, 8);
+  const profile = Buffer.alloc(144 + tag.length);
+  profile.writeUInt32BE(profile.length, 0);
+  profile[8] = 2;
+  profile[9] = 0x10;
+  profile.write("mntrRGB XYZ ", 12, "latin1");
+  profile.write("acsp", 36, "latin1");
+  profile.writeUInt32BE(1, 128);
+  profile.write("desc", 132, "latin1");
+  profile.writeUInt32BE(144, 136);
+  profile.writeUInt32BE(tag.length, 140);
+  tag.copy(profile, 144);
+  return profile;
+};
+
+const jpegSegment = (marker: number, data: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+};
+
+// A 4:2:0 baseline frame header for a 16×8 image.
+const SOF0 = Buffer.from([
+  8, 0, 8, 0, 16, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1,
+]);
+
+const buildJpeg = (segments: Buffer[]) =>
+  Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...segments,
+    Buffer.from([0xff, 0xd9]),
+  ]);
+
+const pngChunk = (type: string, data: Buffer) => {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, data, Buffer.alloc(4)]);
+};
+
+const buildPng = (chunks: Buffer[]) => {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(1, 0);
+  ihdr.writeUInt32BE(1, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 6;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    ...chunks,
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+};
+
+const byKey = (fields: MetadataField[]) =>
+  Object.fromEntries(
+    fields.map(({ group, key, value }) => [`${group}.${key}`, value]),
+  );
+
+describe("extractMetadata", () => {
+  it("reads EXIF, XMP, IPTC and comments from JPEG segments", () => {
+    const jpeg = buildJpeg([
+      jpegSegment(
+        0xe1,
+        Buffer.concat([Buffer.from("Exif\0\0", "latin1"), buildTiff()]),
+      ),
+      jpegSegment(
+        0xe1,
+        Buffer.from(`http://ns.adobe.com/xap/1.0/\0${XMP}`, "utf8"),
+      ),
+      jpegSegment(0xed, buildIptc()),
+      jpegSegment(0xfe, Buffer.from("Shot on a tripod", "latin1")),
+      jpegSegment(0xc0, SOF0),
+    ]);
+    const { fields, warnings } = extractMetadata(jpeg, "jpeg");
+
+    expect(warnings).toEqual([]);
+    expect(byKey(fields)).toEqual({
+      "exif.Make": "Canon",
+      "exif.Model": "Canon EOS R5",
+      "exif.Orientation": "6",
+      "exif.ExposureTime": "1/125",
+      "exif.DateTimeOriginal": "2024:05:01 10:00:00",
+      "xmp.xmp:CreatorTool": "Darkroom & Co",
+      "xmp.dc:subject": "red, square",
+      "iptc.Keywords": "red, square",
+      "iptc.City": "Paris",
+      "text.Comment": "Shot on a tripod",
+      "container.Encoding": "Baseline",
+      "container.Bit depth": "8",
+      "container.Components": "3",
+      "container.Chroma subsampling": "4:2:0",
+      "container.Segments":
+        "APP1 Exif, APP1 http://ns.adobe.com/xap/1.0/, APP13 Photoshop 3.0",
+    });
+  });
+
+  it("reads PNG text chunks, the ICC profile and pixel density", () => {
+    const phys = Buffer.alloc(9);
+    phys.writeUInt32BE(2835, 0);
+    phys.writeUInt32BE(2835, 4);
+    phys[8] = 1;
+    const png = buildPng([
+      pngChunk(
+        "iCCP",
+        Buffer.concat([
+          ascii("Display P3"),
+          Buffer.from([0]),
+          zlib.deflateSync(buildIcc("Display P3")),
+        ]),
+      ),
+      pngChunk("pHYs", phys),
+      pngChunk("tEXt", Buffer.from("Author\0Ada", "latin1")),
+      pngChunk(
+        "zTXt",
+        Buffer.concat([
+          Buffer.from("Comment\0\0", "latin1"),
+          zlib.deflateSync("Squeezed"),
+        ]),
+      ),
+      pngChunk("iTXt", Buffer.from("Title\0\0\0fr\0Titre\0Éte", "utf8")),
+      pngChunk(
+        "iTXt",
+        Buffer.from(`XML:com.adobe.xmp\0\0\0\0\0${XMP}`, "utf8"),
+      ),
+    ]);
+
+    expect(byKey(extractMetadata(png, "png").fields)).toMatchObject({
+      "container.Color type": "RGB + alpha",
+      "container.Chunks": "IHDR, iCCP, pHYs, tEXt, zTXt, iTXt, IEND",
+      "container.Pixel density": "72 DPI",
+      "icc.Profile name": "Display P3",
+      "icc.Description": "Display P3",
+      "icc.Version": "2.1.0",
+      "icc.Device class": "Display",
+      "icc.Color space": "RGB",
+      "text.Author": "Ada",
+      "text.Comment": "Squeezed",
+      "text.Title": "Éte",
+      "xmp.xmp:CreatorTool": "Darkroom & Co",
+    });
+  });
+
+  it("keeps the other blocks when one is damaged", () => {
+    const jpeg = buildJpeg([
+      jpegSegment(0xe1, Buffer.from("Exif\0\0XX*\0", "latin1")),
+      jpegSegment(0xfe, Buffer.from("Still here", "latin1")),
+    ]);
+    const { fields, warnings } = extractMetadata(jpeg, "jpeg");
+
+    expect(warnings).toEqual(["The EXIF metadata could not be read."]);
+    expect(byKey(fields)).toMatchObject({ "text.Comment": "Still here" });
+  });
+});
+
+describe("summarizeMetadata", () => {
+  it("picks the headline facts and counts fields per group", () => {
+    const jpeg = buildJpeg([
+      jpegSegment(
+        0xe1,
+        Buffer.concat([Buffer.from("Exif\0\0", "latin1"), buildTiff()]),
+      ),
+      jpegSegment(0xc0, SOF0),
+    ]);
+    expect(summarizeMetadata(extractMetadata(jpeg, "jpeg").fields)).toEqual({
+      fields: { exif: 5, container: 5 },
+      camera: "Canon EOS R5",
+      software: undefined,
+      created: "2024:05:01 10:00:00",
+      colorProfile: undefined,
+      location: false,
+    });
+  });
+});
+
+describe("compareMetadata", () => {
+  it("reports added, removed and changed keys grouped in a fixed order", () => {
+    const before: MetadataField[] = [
+      { group: "exif", key: "Make", value: "Canon" },
+      { group: "exif", key: "Software", value: "Lightroom" },
+      { group: "container", key: "Bit depth", value: "8" },
+    ];
+    const after: MetadataField[] = [
+      { group: "text", key: "Comment", value: "Edited" },
+      { group: "exif", key: "Make", value: "Nikon" },
+      { group: "container", key: "Bit depth", value: "8" },
+    ];
+
+    expect(compareMetadata(before, after)).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+      changes: [
+        {
+          type: "changed",
+          group: "exif",
+          key: "Make",
+          before: "Canon",
+          after: "Nikon",
+        },
+        {
+          type: "removed",
+          group: "exif",
+          key: "Software",
+          before: "Lightroom",
+        },
+        { type: "added", group: "text", key: "Comment", after: "Edited" },
+      ],
+    });
+  });
+});
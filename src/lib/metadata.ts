@@ -0,0 +1,928 @@
+import zlib from "zlib";
+import { readGifContents } from "./gif";
+import { readJpegSegments } from "./jpeg";
+import { readPngChunks } from "./png";
+import { readWebpChunks } from "./webp";
+import {
+  ImageFormat,
+  MetadataChange,
+  MetadataDiff,
+  MetadataGroup,
+  MetadataSummary,
+} from "./types";
+import { decodeXml } from "./xml";
+
+const GROUP_ORDER: MetadataGroup[] = [
+  "container",
+  "exif",
+  "xmp",
+  "iptc",
+  "icc",
+  "text",
+];
+const MAX_VALUE_LENGTH = 500;
+// Numeric arrays longer than this are cut short, e.g. lookup tables.
+const MAX_LISTED_VALUES = 16;
+const MAX_IFD_ENTRIES = 1000;
+const MAX_INFLATED_BYTES = 4 * 1024 * 1024;
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+const XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+const ICC_HEADER = Buffer.from("ICC_PROFILE\0", "latin1");
+const PHOTOSHOP_HEADER = Buffer.from("Photoshop 3.0\0", "latin1");
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+const EXIF_POINTER = 0x8769;
+const GPS_POINTER = 0x8825;
+const INTEROP_POINTER = 0xa005;
+const USER_COMMENT = 0x9286;
+const IPTC_RESOURCE = 0x0404;
+
+// Bytes per value for each TIFF field type.
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+// IFD0 and Exif sub-IFD tags share one table; their numbers do not overlap.
+const EXIF_TAGS: Record<number, string> = {
+  0x0100: "ImageWidth",
+  0x0101: "ImageHeight",
+  0x0102: "BitsPerSample",
+  0x0103: "Compression",
+  0x0106: "PhotometricInterpretation",
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0115: "SamplesPerPixel",
+  0x011a: "XResolution",
+  0x011b: "YResolution",
+  0x011c: "PlanarConfiguration",
+  0x0128: "ResolutionUnit",
+  0x0131: "Software",
+  0x0132: "ModifyDate",
+  0x013b: "Artist",
+  0x013e: "WhitePoint",
+  0x013f: "PrimaryChromaticities",
+  0x0211: "YCbCrCoefficients",
+  0x0213: "YCbCrPositioning",
+  0x0214: "ReferenceBlackWhite",
+  0x8298: "Copyright",
+  0x829a: "ExposureTime",
+  0x829d: "FNumber",
+  0x8822: "ExposureProgram",
+  0x8827: "ISO",
+  0x8830: "SensitivityType",
+  0x9000: "ExifVersion",
+  0x9003: "DateTimeOriginal",
+  0x9004: "CreateDate",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+  0x9012: "OffsetTimeDigitized",
+  0x9101: "ComponentsConfiguration",
+  0x9102: "CompressedBitsPerPixel",
+  0x9201: "ShutterSpeedValue",
+  0x9202: "ApertureValue",
+  0x9203: "BrightnessValue",
+  0x9204: "ExposureCompensation",
+  0x9205: "MaxApertureValue",
+  0x9206: "SubjectDistance",
+  0x9207: "MeteringMode",
+  0x9208: "LightSource",
+  0x9209: "Flash",
+  0x920a: "FocalLength",
+  0x9214: "SubjectArea",
+  0x927c: "MakerNote",
+  [USER_COMMENT]: "UserComment",
+  0x9290: "SubSecTime",
+  0x9291: "SubSecTimeOriginal",
+  0x9292: "SubSecTimeDigitized",
+  0xa000: "FlashpixVersion",
+  0xa001: "ColorSpace",
+  0xa002: "ExifImageWidth",
+  0xa003: "ExifImageHeight",
+  0xa20e: "FocalPlaneXResolution",
+  0xa20f: "FocalPlaneYResolution",
+  0xa210: "FocalPlaneResolutionUnit",
+  0xa217: "SensingMethod",
+  0xa300: "FileSource",
+  0xa301: "SceneType",
+  0xa401: "CustomRendered",
+  0xa402: "ExposureMode",
+  0xa403: "WhiteBalance",
+  0xa404: "DigitalZoomRatio",
+  0xa405: "FocalLengthIn35mmFormat",
+  0xa406: "SceneCaptureType",
+  0xa407: "GainControl",
+  0xa408: "Contrast",
+  0xa409: "Saturation",
+  0xa40a: "Sharpness",
+  0xa40c: "SubjectDistanceRange",
+  0xa420: "ImageUniqueID",
+  0xa430: "OwnerName",
+  0xa431: "SerialNumber",
+  0xa432: "LensInfo",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+  0xa435: "LensSerialNumber",
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x00: "GPSVersionID",
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x08: "GPSSatellites",
+  0x09: "GPSStatus",
+  0x0a: "GPSMeasureMode",
+  0x0b: "GPSDOP",
+  0x0c: "GPSSpeedRef",
+  0x0d: "GPSSpeed",
+  0x0e: "GPSTrackRef",
+  0x0f: "GPSTrack",
+  0x10: "GPSImgDirectionRef",
+  0x11: "GPSImgDirection",
+  0x12: "GPSMapDatum",
+  0x17: "GPSDestBearingRef",
+  0x18: "GPSDestBearing",
+  0x1b: "GPSProcessingMethod",
+  0x1d: "GPSDateStamp",
+  0x1e: "GPSDifferential",
+  0x1f: "GPSHPositioningError",
+};
+
+// Only the thumbnail's size is reported from IFD1; its other tags repeat IFD0.
+const THUMBNAIL_TAGS: Record<number, string> = { 0x0202: "ThumbnailLength" };
+
+// IPTC-IIM application record (record 2) datasets.
+const IPTC_DATASETS: Record<number, string> = {
+  5: "ObjectName",
+  7: "EditStatus",
+  10: "Urgency",
+  15: "Category",
+  20: "SupplementalCategories",
+  25: "Keywords",
+  40: "SpecialInstructions",
+  55: "DateCreated",
+  60: "TimeCreated",
+  62: "DigitalCreationDate",
+  63: "DigitalCreationTime",
+  65: "OriginatingProgram",
+  70: "ProgramVersion",
+  80: "By-line",
+  85: "By-lineTitle",
+  90: "City",
+  92: "Sub-location",
+  95: "Province-State",
+  100: "Country-PrimaryLocationCode",
+  101: "Country-PrimaryLocationName",
+  103: "OriginalTransmissionReference",
+  105: "Headline",
+  110: "Credit",
+  115: "Source",
+  116: "CopyrightNotice",
+  118: "Contact",
+  120: "Caption-Abstract",
+  122: "Writer-Editor",
+};
+
+const ICC_DEVICE_CLASSES: Record<string, string> = {
+  scnr: "Input device",
+  mntr: "Display",
+  prtr: "Output device",
+  link: "Device link",
+  spac: "Color space",
+  abst: "Abstract",
+  nmcl: "Named color",
+};
+
+const RENDERING_INTENTS = [
+  "Perceptual",
+  "Relative colorimetric",
+  "Saturation",
+  "Absolute colorimetric",
+];
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+  0: "Grayscale",
+  2: "RGB",
+  3: "Indexed",
+  4: "Grayscale + alpha",
+  6: "RGB + alpha",
+};
+
+const JPEG_ENCODINGS: Record<number, string> = {
+  0xc0: "Baseline",
+  0xc1: "Extended sequential",
+  0xc2: "Progressive",
+  0xc3: "Lossless",
+  0xc9: "Extended sequential (arithmetic)",
+  0xca: "Progressive (arithmetic)",
+  0xcb: "Lossless (arithmetic)",
+};
+
+// Luma sampling relative to chroma, as [horizontal, vertical] ratios.
+const CHROMA_SUBSAMPLING: Record<string, string> = {
+  "1,1": "4:4:4",
+  "2,1": "4:2:2",
+  "2,2": "4:2:0",
+  "1,2": "4:4:0",
+  "4,1": "4:1:1",
+};
+
+/** One metadata value, keyed by its name within the group. */
+export type MetadataField = {
+  group: MetadataGroup;
+  key: string;
+  value: string;
+};
+
+export type ImageMetadata = { fields: MetadataField[]; warnings: string[] };
+
+/**
+ * Gathers fields in reading order. A key seen twice in a group (repeated
+ * IPTC keywords, PNG text chunks) keeps one entry with the values joined.
+ */
+const createCollector = () => {
+  const fields = new Map<string, MetadataField>();
+  const warnings: string[] = [];
+  const add = (group: MetadataGroup, key: string, value: string) => {
+    if (!value) return;
+    const existing = fields.get(fieldId(group, key));
+    if (existing) existing.value = clip(`${existing.value}, ${value}`);
+    else fields.set(fieldId(group, key), { group, key, value: clip(value) });
+  };
+  // A damaged block is skipped so the rest of the file still reports.
+  const read = (label: string, reader: () => void) => {
+    try {
+      reader();
+    } catch {
+      warnings.push(`The ${label} metadata could not be read.`);
+    }
+  };
+  return {
+    add,
+    read,
+    result: (): ImageMetadata => ({ fields: [...fields.values()], warnings }),
+  };
+};
+
+type Collector = ReturnType<typeof createCollector>;
+
+const fieldId = (group: MetadataGroup, key: string) => `${group}\0${key}`;
+
+const clip = (value: string) =>
+  value.length > MAX_VALUE_LENGTH
+    ? `${value.slice(0, MAX_VALUE_LENGTH)}…`
+    : value;
+
+const cleanText = (value: string) => value.replace(/\0+$/, "").trim();
+
+const startsWith = (data: Buffer, header: Buffer) =>
+  data.length >= header.length &&
+  data.subarray(0, header.length).equals(header);
+
+const decodeText = (data: Buffer) => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return data.toString("latin1");
+  }
+};
+
+const inflate = (data: Buffer) =>
+  zlib.inflateSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+
+const formatRational = (numerator: number, denominator: number) => {
+  if (!denominator) return `${numerator}/0`;
+  const value = numerator / denominator;
+  if (Number.isInteger(value)) return String(value);
+  // Exposure times read best as fractions.
+  if (Math.abs(numerator) === 1) return `${numerator}/${denominator}`;
+  return String(Math.round(value * 10000) / 10000);
+};
+
+/** Reads the IFD0, Exif, GPS and thumbnail fields of a TIFF structure. */
+const readExif = (tiff: Buffer, add: Collector["add"]) => {
+  const order = tiff.toString("latin1", 0, 2);
+  if ((order !== "II" && order !== "MM") || tiff.length < 8) {
+    throw new Error("EXIF data is not a TIFF structure.");
+  }
+  const little = order === "II";
+  const u16 = (at: number) =>
+    little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+  const u32 = (at: number) =>
+    little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+  const visited = new Set<number>();
+
+  const readValue = (tag: number, type: number, count: number, at: number) => {
+    const bytes = tiff.subarray(at, at + count * TIFF_TYPE_SIZES[type]);
+    if (type === 2) return cleanText(decodeText(bytes));
+    if (type === 7) {
+      if (tag === USER_COMMENT) {
+        const charset = bytes.toString("latin1", 0, 8).replace(/\0+$/, "");
+        const text = bytes.subarray(8);
+        if (charset === "ASCII") return cleanText(text.toString("latin1"));
+        if (charset === "UNICODE") {
+          return cleanText(
+            new TextDecoder(little ? "utf-16le" : "utf-16be").decode(text),
+          );
+        }
+      }
+      // Short printable values are versions like "0232".
+      return count <= 64 && /^[\x20-\x7e]*$/.test(bytes.toString("latin1"))
+        ? bytes.toString("latin1")
+        : `${count} bytes`;
+    }
+    const values: string[] = [];
+    for (let idx = 0; idx < Math.min(count, MAX_LISTED_VALUES); idx += 1) {
+      const offset = at + idx * TIFF_TYPE_SIZES[type];
+      switch (type) {
+        case 1:
+          values.push(String(tiff[offset]));
+          break;
+        case 3:
+          values.push(String(u16(offset)));
+          break;
+        case 4:
+          values.push(String(u32(offset)));
+          break;
+        case 5:
+          values.push(formatRational(u32(offset), u32(offset + 4)));
+          break;
+        case 6:
+          values.push(String(tiff.readInt8(offset)));
+          break;
+        case 8:
+          values.push(String((u16(offset) << 16) >> 16));
+          break;
+        case 9:
+          values.push(String(u32(offset) | 0));
+          break;
+        case 10:
+          values.push(formatRational(u32(offset) | 0, u32(offset + 4) | 0));
+          break;
+        case 11:
+          values.push(
+            String(
+              little ? tiff.readFloatLE(offset) : tiff.readFloatBE(offset),
+            ),
+          );
+          break;
+        default:
+          values.push(
+            String(
+              little ? tiff.readDoubleLE(offset) : tiff.readDoubleBE(offset),
+            ),
+          );
+      }
+    }
+    if (count > MAX_LISTED_VALUES) values.push(`… (${count} values)`);
+    return values.join(", ");
+  };
+
+  const readIfd = (offset: number, names: Record<number, string>) => {
+    if (visited.has(offset) || offset < 8 || offset + 2 > tiff.length) return;
+    visited.add(offset);
+    const entries = Math.min(u16(offset), MAX_IFD_ENTRIES);
+    for (let idx = 0; idx < entries; idx += 1) {
+      const entry = offset + 2 + idx * 12;
+      if (entry + 12 > tiff.length) break;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const count = u32(entry + 4);
+      if (tag === EXIF_POINTER) readIfd(u32(entry + 8), EXIF_TAGS);
+      else if (tag === GPS_POINTER) readIfd(u32(entry + 8), GPS_TAGS);
+      if (
+        tag === EXIF_POINTER ||
+        tag === GPS_POINTER ||
+        tag === INTEROP_POINTER ||
+        !TIFF_TYPE_SIZES[type]
+      ) {
+        continue;
+      }
+      if (names === THUMBNAIL_TAGS && !names[tag]) continue;
+      const size = TIFF_TYPE_SIZES[type] * count;
+      const at = size <= 4 ? entry + 8 : u32(entry + 8);
+      if (at + size > tiff.length) continue;
+      add(
+        "exif",
+        names[tag] ?? `Tag 0x${tag.toString(16).padStart(4, "0")}`,
+        readValue(tag, type, count, at),
+      );
+    }
+    if (names === EXIF_TAGS && offset === u32(4)) {
+      const next = offset + 2 + entries * 12;
+      if (next + 4 <= tiff.length) readIfd(u32(next), THUMBNAIL_TAGS);
+    }
+  };
+
+  readIfd(u32(4), EXIF_TAGS);
+};
+
+const xmlText = (xml: string) =>
+  decodeXml(
+    xml
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim(),
+  );
+
+/**
+ * Reads the properties of every rdf:Description in an XMP packet, keyed by
+ * their prefixed name (e.g. "xmp:CreatorTool"). Arrays are joined with ", ";
+ * structures are flattened to their text.
+ */
+const readXmp = (xml: string, add: Collector["add"]) => {
+  if (!xml.includes("<x:xmpmeta") && !xml.includes("<rdf:RDF")) {
+    throw new Error("XMP packet is missing.");
+  }
+  const descriptions =
+    /<rdf:Description\b([^>]*?)(?:\/>|>([\s\S]*?)<\/rdf:Description>)/g;
+  const attributes = /([\w.-]+:[\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const properties =
+    /<([\w.-]+:[\w.-]+)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+  const items = /<rdf:li\b[^>]*?(?:\/>|>([\s\S]*?)<\/rdf:li>)/g;
+  const isSyntax = (name: string) => /^(xmlns|rdf|xml):/.test(name);
+
+  for (const [, attributeText, body = ""] of xml.matchAll(descriptions)) {
+    for (const [, name, double, single] of attributeText.matchAll(attributes)) {
+      if (!isSyntax(name)) add("xmp", name, decodeXml(double ?? single));
+    }
+    for (const [, name, propertyAttributes, inner] of body.matchAll(
+      properties,
+    )) {
+      if (isSyntax(name)) continue;
+      if (inner === undefined) {
+        // An empty element holds its value (or a structure) in attributes.
+        const values = [...propertyAttributes.matchAll(attributes)]
+          .filter(([, attribute]) => !/^(xmlns|xml):/.test(attribute))
+          .map(([, , double, single]) => decodeXml(double ?? single));
+        add("xmp", name, values.join(", "));
+        continue;
+      }
+      const listed = [...inner.matchAll(items)].map(([, item = ""]) =>
+        xmlText(item),
+      );
+      add("xmp", name, listed.length ? listed.join(", ") : xmlText(inner));
+    }
+  }
+};
+
+/** Reads the IPTC-IIM block from Photoshop image resources (JPEG APP13). */
+const readIptc = (resources: Buffer, add: Collector["add"]) => {
+  let offset = PHOTOSHOP_HEADER.length;
+  while (
+    offset + 12 <= resources.length &&
+    resources.toString("latin1", offset, offset + 4) === "8BIM"
+  ) {
+    const id = resources.readUInt16BE(offset + 4);
+    // The resource name is a Pascal string padded to an even length.
+    const sizeAt = offset + 6 + ((resources[offset + 6] + 2) & ~1);
+    if (sizeAt + 4 > resources.length) break;
+    const size = resources.readUInt32BE(sizeAt);
+    const data = resources.subarray(sizeAt + 4, sizeAt + 4 + size);
+    offset = sizeAt + 4 + size + (size & 1);
+    if (id !== IPTC_RESOURCE) continue;
+
+    let at = 0;
+    while (at + 5 <= data.length && data[at] === 0x1c) {
+      const record = data[at + 1];
+      const dataset = data[at + 2];
+      const length = data.readUInt16BE(at + 3);
+      // Extended (over 32 KB) datasets only appear in envelope records.
+      if (length & 0x8000) break;
+      const value = data.subarray(at + 5, at + 5 + length);
+      at += 5 + length;
+      if (record !== 2 || dataset === 0) continue;
+      add(
+        "iptc",
+        IPTC_DATASETS[dataset] ?? `Dataset 2:${dataset}`,
+        cleanText(decodeText(value)),
+      );
+    }
+  }
+};
+
+/** Reads one text tag ('desc', 'text' or 'mluc' type) from an ICC profile. */
+const iccText = (profile: Buffer, signature: string) => {
+  const count = Math.min(profile.readUInt32BE(128), MAX_IFD_ENTRIES);
+  for (let idx = 0; idx < count; idx += 1) {
+    const entry = 132 + idx * 12;
+    if (entry + 12 > profile.length) break;
+    if (profile.toString("latin1", entry, entry + 4) !== signature) continue;
+    const start = profile.readUInt32BE(entry + 4);
+    const tag = profile.subarray(
+      start,
+      start + profile.readUInt32BE(entry + 8),
+    );
+    const type = tag.toString("latin1", 0, 4);
+    if (type === "desc" && tag.length >= 12) {
+      return cleanText(tag.toString("latin1", 12, 12 + tag.readUInt32BE(8)));
+    }
+    if (type === "text") return cleanText(tag.toString("latin1", 8));
+    if (type === "mluc" && tag.length >= 28 && tag.readUInt32BE(8)) {
+      // The first record is the profile's default language.
+      const length = tag.readUInt32BE(20);
+      const offset = tag.readUInt32BE(24);
+      return cleanText(
+        new TextDecoder("utf-16be").decode(
+          tag.subarray(offset, offset + length),
+        ),
+      );
+    }
+  }
+  return "";
+};
+
+const readIcc = (profile: Buffer, add: Collector["add"]) => {
+  if (profile.length < 132 || profile.toString("latin1", 36, 40) !== "acsp") {
+    throw new Error("ICC profile header is invalid.");
+  }
+  const deviceClass = profile.toString("latin1", 12, 16);
+  add("icc", "Description", iccText(profile, "desc"));
+  add("icc", "Copyright", iccText(profile, "cprt"));
+  add("icc", "Version", `${profile[8]}.${profile[9] >> 4}.${profile[9] & 0xf}`);
+  add("icc", "Device class", ICC_DEVICE_CLASSES[deviceClass] ?? deviceClass);
+  add("icc", "Color space", profile.toString("latin1", 16, 20).trim());
+  add("icc", "Connection space", profile.toString("latin1", 20, 24).trim());
+  add(
+    "icc",
+    "Rendering intent",
+    RENDERING_INTENTS[profile.readUInt32BE(64)] ?? "Unknown",
+  );
+  add("icc", "Creator", cleanText(profile.toString("latin1", 80, 84)));
+};
+
+const formatDensity = (x: number, y: number, unit: string) =>
+  x === y ? `${x} ${unit}` : `${x} × ${y} ${unit}`;
+
+const readPngMetadata = (buffer: Buffer, { add, read }: Collector) => {
+  const chunks = readPngChunks(buffer);
+  const header = chunks[0]?.data;
+  if (chunks[0]?.type !== "IHDR" || header.length < 13) {
+    throw new Error("PNG header is missing.");
+  }
+  add("container", "Bit depth", String(header[8]));
+  add("container", "Color type", PNG_COLOR_TYPES[header[9]] ?? "Unknown");
+  add("container", "Interlace", header[12] === 1 ? "Adam7" : "None");
+  add(
+    "container",
+    "Chunks",
+    [...new Set(chunks.map((chunk) => chunk.type))].join(", "),
+  );
+
+  chunks.forEach(({ type, data }) => {
+    if (type === "PLTE") {
+      add("container", "Palette colors", String(Math.floor(data.length / 3)));
+    } else if (type === "pHYs" && data.length >= 9) {
+      const x = data.readUInt32BE(0);
+      const y = data.readUInt32BE(4);
+      add(
+        "container",
+        "Pixel density",
+        data[8] === 1
+          ? formatDensity(Math.round(x * 0.0254), Math.round(y * 0.0254), "DPI")
+          : `${x}:${y} aspect`,
+      );
+    } else if (type === "gAMA" && data.length >= 4) {
+      add("container", "Gamma", String(data.readUInt32BE(0) / 100000));
+    } else if (type === "sRGB" && data.length >= 1) {
+      add("container", "sRGB intent", RENDERING_INTENTS[data[0]] ?? "Unknown");
+    } else if (type === "tIME" && data.length >= 7) {
+      const pad = (value: number) => String(value).padStart(2, "0");
+      add(
+        "container",
+        "Modified",
+        `${data.readUInt16BE(0)}-${pad(data[2])}-${pad(data[3])} ${pad(data[4])}:${pad(data[5])}:${pad(data[6])}`,
+      );
+    } else if (type === "acTL" && data.length >= 8) {
+      add("container", "Frames", String(data.readUInt32BE(0)));
+      add(
+        "container",
+        "Loop count",
+        data.readUInt32BE(4) ? String(data.readUInt32BE(4)) : "Infinite",
+      );
+    } else if (type === "eXIf") {
+      read("EXIF", () => readExif(data, add));
+    } else if (type === "iCCP") {
+      read("ICC", () => {
+        const nameEnd = data.indexOf(0);
+        add("icc", "Profile name", data.toString("latin1", 0, nameEnd));
+        readIcc(inflate(data.subarray(nameEnd + 2)), add);
+      });
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      read(`PNG ${type}`, () => {
+        const keywordEnd = data.indexOf(0);
+        if (keywordEnd < 1) throw new Error("PNG text keyword is missing.");
+        const keyword = data.toString("latin1", 0, keywordEnd);
+        let text: string;
+        if (type === "tEXt") {
+          text = data.toString("latin1", keywordEnd + 1);
+        } else if (type === "zTXt") {
+          text = inflate(data.subarray(keywordEnd + 2)).toString("latin1");
+        } else {
+          // Compression flag and method, then language and translated keyword.
+          const compressed = data[keywordEnd + 1] === 1;
+          const languageEnd = data.indexOf(0, keywordEnd + 3);
+          const translatedEnd = data.indexOf(0, languageEnd + 1);
+          if (languageEnd < 0 || translatedEnd < 0) {
+            throw new Error("PNG iTXt chunk is truncated.");
+          }
+          const body = data.subarray(translatedEnd + 1);
+          text = (compressed ? inflate(body) : body).toString("utf8");
+        }
+        if (keyword === PNG_XMP_KEYWORD) readXmp(text, add);
+        else add("text", keyword, cleanText(text));
+      });
+    }
+  });
+};
+
+const readJpegMetadata = (buffer: Buffer, { add, read }: Collector) => {
+  const segments = readJpegSegments(buffer);
+  const iccChunks: { sequence: number; data: Buffer }[] = [];
+  const applications: string[] = [];
+
+  segments.forEach(({ marker, data }) => {
+    if (marker >= 0xe0 && marker <= 0xef) {
+      const identifier = data.toString(
+        "latin1",
+        0,
+        Math.max(0, Math.min(data.indexOf(0), 32)),
+      );
+      applications.push(
+        `APP${marker - 0xe0}${
+          /^[\x20-\x7e]+$/.test(identifier) ? ` ${identifier}` : ""
+        }`,
+      );
+    }
+    if (JPEG_ENCODINGS[marker] && data.length >= 6) {
+      const components = data[5];
+      add("container", "Encoding", JPEG_ENCODINGS[marker]);
+      add("container", "Bit depth", String(data[0]));
+      add("container", "Components", String(components));
+      if (components === 3 && data.length >= 15) {
+        const luma = data[7];
+        const chroma = data[10];
+        const ratio = `${(luma >> 4) / (chroma >> 4)},${(luma & 0xf) / (chroma & 0xf)}`;
+        add(
+          "container",
+          "Chroma subsampling",
+          CHROMA_SUBSAMPLING[ratio] ?? "Custom",
+        );
+      }
+    } else if (marker === 0xe0 && data.toString("latin1", 0, 5) === "JFIF\0") {
+      if (data.length < 12) return;
+      add(
+        "container",
+        "JFIF version",
+        `${data[5]}.${String(data[6]).padStart(2, "0")}`,
+      );
+      const x = data.readUInt16BE(8);
+      const y = data.readUInt16BE(10);
+      add(
+        "container",
+        "Pixel density",
+        data[7] === 1
+          ? formatDensity(x, y, "DPI")
+          : data[7] === 2
+            ? formatDensity(x, y, "dots/cm")
+            : `${x}:${y} aspect`,
+      );
+    } else if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+      read("EXIF", () => readExif(data.subarray(EXIF_HEADER.length), add));
+    } else if (marker === 0xe1 && startsWith(data, XMP_HEADER)) {
+      read("XMP", () =>
+        readXmp(data.subarray(XMP_HEADER.length).toString("utf8"), add),
+      );
+    } else if (marker === 0xe2 && startsWith(data, ICC_HEADER)) {
+      // Profiles over 64 KB are split across numbered APP2 segments.
+      iccChunks.push({
+        sequence: data[ICC_HEADER.length],
+        data: data.subarray(ICC_HEADER.length + 2),
+      });
+    } else if (marker === 0xed && startsWith(data, PHOTOSHOP_HEADER)) {
+      read("IPTC", () => readIptc(data, add));
+    } else if (marker === 0xfe) {
+      add("text", "Comment", cleanText(decodeText(data)));
+    }
+  });
+
+  add("container", "Segments", applications.join(", "));
+  if (iccChunks.length) {
+    read("ICC", () =>
+      readIcc(
+        Buffer.concat(
+          iccChunks
+            .sort((a, b) => a.sequence - b.sequence)
+            .map((chunk) => chunk.data),
+        ),
+        add,
+      ),
+    );
+  }
+};
+
+const readGifMetadata = (buffer: Buffer, { add, read }: Collector) => {
+  const { frames, extensions } = readGifContents(buffer);
+  const flags = buffer[10];
+  add("container", "Version", buffer.toString("latin1", 0, 6));
+  add(
+    "container",
+    "Global color table",
+    flags & 0x80 ? `${2 << (flags & 7)} colors` : "None",
+  );
+  add("container", "Frames", String(frames.length));
+
+  extensions.forEach(({ label, data, raw }) => {
+    if (label === 0xfe) {
+      add("text", "Comment", cleanText(decodeText(data)));
+    } else if (label === 0xff) {
+      const application = data.toString("latin1", 0, 11);
+      if (
+        application === "NETSCAPE2.0" &&
+        data[11] === 1 &&
+        data.length >= 14
+      ) {
+        const loops = data.readUInt16LE(12);
+        add("container", "Loop count", loops ? String(loops) : "Infinite");
+      } else if (application === "XMP DataXMP") {
+        // The packet is stored raw; its sub-block lengths are part of the text.
+        read("XMP", () => readXmp(raw.subarray(12).toString("utf8"), add));
+      }
+    }
+  });
+};
+
+const readWebpMetadata = (buffer: Buffer, { add, read }: Collector) => {
+  const chunks = readWebpChunks(buffer);
+  const types = chunks.map((chunk) => chunk.type.trim());
+  const frames = chunks.filter((chunk) => chunk.type === "ANMF").length;
+  add(
+    "container",
+    "Encoding",
+    frames
+      ? "Animated"
+      : types.includes("VP8L")
+        ? "Lossless"
+        : types.includes("VP8")
+          ? "Lossy"
+          : "Unknown",
+  );
+  add("container", "Chunks", [...new Set(types)].join(", "));
+  if (frames) add("container", "Frames", String(frames));
+
+  chunks.forEach(({ type, data }) => {
+    if (type === "ANIM" && data.length >= 6) {
+      const loops = data.readUInt16LE(4);
+      add("container", "Loop count", loops ? String(loops) : "Infinite");
+    } else if (type === "ICCP") {
+      read("ICC", () => readIcc(data, add));
+    } else if (type === "EXIF") {
+      // Some encoders keep the JPEG "Exif\0\0" prefix.
+      read("EXIF", () =>
+        readExif(
+          startsWith(data, EXIF_HEADER)
+            ? data.subarray(EXIF_HEADER.length)
+            : data,
+          add,
+        ),
+      );
+    } else if (type === "XMP ") {
+      read("XMP", () => readXmp(data.toString("utf8"), add));
+    }
+  });
+};
+
+const READERS: Record<
+  ImageFormat,
+  (buffer: Buffer, collector: Collector) => void
+> = {
+  png: readPngMetadata,
+  jpeg: readJpegMetadata,
+  gif: readGifMetadata,
+  webp: readWebpMetadata,
+};
+
+/**
+ * Extracts container facts plus embedded EXIF, XMP, IPTC, ICC and text
+ * metadata. Throws when the container itself cannot be walked; a damaged
+ * embedded block only adds a warning.
+ */
+export const extractMetadata = (
+  buffer: Buffer,
+  format: ImageFormat,
+): ImageMetadata => {
+  const collector = createCollector();
+  READERS[format](buffer, collector);
+  return collector.result();
+};
+
+const indexFields = (fields: MetadataField[]) =>
+  new Map(
+    fields.map((field) => [fieldId(field.group, field.key), field.value]),
+  );
+
+/** Condenses extracted fields to the facts shown on a file descriptor. */
+export const summarizeMetadata = (fields: MetadataField[]): MetadataSummary => {
+  const values = indexFields(fields);
+  const valueOf = (group: MetadataGroup, key: string) =>
+    values.get(fieldId(group, key));
+  const counts: MetadataSummary["fields"] = {};
+  fields.forEach(({ group }) => {
+    counts[group] = (counts[group] ?? 0) + 1;
+  });
+  const make = valueOf("exif", "Make");
+  const model = valueOf("exif", "Model");
+  const camera =
+    make && model && !model.startsWith(make)
+      ? `${make} ${model}`
+      : (model ?? make);
+  return {
+    fields: counts,
+    camera,
+    software:
+      valueOf("exif", "Software") ??
+      valueOf("xmp", "xmp:CreatorTool") ??
+      valueOf("text", "Software"),
+    created:
+      valueOf("exif", "DateTimeOriginal") ??
+      valueOf("xmp", "xmp:CreateDate") ??
+      valueOf("xmp", "photoshop:DateCreated"),
+    colorProfile: valueOf("icc", "Description"),
+    location:
+      values.has(fieldId("exif", "GPSLatitude")) ||
+      values.has(fieldId("xmp", "exif:GPSLatitude")),
+  };
+};
+
+/**
+ * Compares two files' metadata key by key within each group. Changes are
+ * ordered by group, then as the keys appear in the first file followed by
+ * keys only the second file has.
+ */
+export const compareMetadata = (
+  before: MetadataField[],
+  after: MetadataField[],
+): MetadataDiff => {
+  const left = indexFields(before);
+  const right = indexFields(after);
+  const keys = new Map<string, MetadataField>();
+  [...before, ...after].forEach((field) => {
+    const id = fieldId(field.group, field.key);
+    if (!keys.has(id)) keys.set(id, field);
+  });
+
+  const changes: MetadataChange[] = [];
+  let unchanged = 0;
+  [...keys]
+    .sort(
+      ([, a], [, b]) =>
+        GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group),
+    )
+    .forEach(([id, { group, key }]) => {
+      const oldValue = left.get(id);
+      const newValue = right.get(id);
+      if (oldValue === newValue) {
+        unchanged += 1;
+      } else if (oldValue === undefined) {
+        changes.push({ type: "added", group, key, after: newValue });
+      } else if (newValue === undefined) {
+        changes.push({ type: "removed", group, key, before: oldValue });
+      } else {
+        changes.push({
+          type: "changed",
+          group,
+          key,
+          before: oldValue,
+          after: newValue,
+        });
+      }
+    });
+
+  const count = (type: MetadataChange["type"]) =>
+    changes.filter((change) => change.type === type).length;
+  return {
+    added: count("added"),
+    removed: count("removed"),
+    changed: count("changed"),
+    unchanged,
+    changes,
+  };
+};
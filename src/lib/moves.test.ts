@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import { detectMoves } from "./moves";
+
+const helper = ["function helper(value) {", "  return value * 2;", "}", ""];
+const main = ["function main() {", "  run(helper(21));", "}", ""];
+
+describe("detectMoves", () => {
+  it("links a block removed at the top and added at the bottom", () => {
+    const { lines, summary } = computeTextDiff(
+      [...helper, ...main].join("\n"),
+      [...main, ...helper].join("\n"),
+    );
+
+    const moved = lines.filter((line) => line.type === "moved");
+    expect(moved.map((line) => line.move)).toEqual([
+      { id: 1, side: "source", oldNumber: 1, newNumber: 5 },
+      { id: 1, side: "source", oldNumber: 2, newNumber: 6 },
+      { id: 1, side: "source", oldNumber: 3, newNumber: 7 },
+      { id: 1, side: "target", oldNumber: 1, newNumber: 5 },
+      { id: 1, side: "target", oldNumber: 2, newNumber: 6 },
+      { id: 1, side: "target", oldNumber: 3, newNumber: 7 },
+    ]);
+    expect(moved[0]).toMatchObject({
+      oldNumber: 1,
+      newNumber: null,
+      before: "function helper(value) {",
+    });
+    // The blank separator line is too short to move on its own.
+    expect(summary).toMatchObject({ added: 1, removed: 1, moved: 3 });
+  });
+
+  it("leaves short or nearly empty blocks as removed and added", () => {
+    const { lines, summary } = computeTextDiff(
+      ["a();", "}", "", "b();", "c();"].join("\n"),
+      ["b();", "c();", "a();", "}", ""].join("\n"),
+    );
+    expect(lines.some((line) => line.type === "moved")).toBe(false);
+    expect(summary.moved).toBeUndefined();
+
+    // Matching goes through the comparison key, so ignore options apply.
+    const removed = helper.map((text, idx) => ({
+      type: "removed" as const,
+      oldNumber: idx + 1,
+      newNumber: null,
+      before: text,
+    }));
+    const added = helper.map((text, idx) => ({
+      type: "added" as const,
+      oldNumber: null,
+      newNumber: idx + 1,
+      after: text.toUpperCase(),
+    }));
+    expect(
+      detectMoves([...removed, ...added], (text) => text.toLowerCase()).moved,
+    ).toBe(4);
+  });
+});
@@ -0,0 +1,103 @@
+import { DiffLine, LineMove } from "./types";
+
+// Shorter blocks, or blocks with less text than this, stay removed and added.
+export const MIN_MOVED_LINES = 3;
+const MIN_MOVED_CHARS = 20;
+// Targets tried per removed line, so very common lines stay cheap.
+const MAX_MOVE_CANDIDATES = 64;
+
+const isPlain = (line: DiffLine | undefined, type: "removed" | "added") =>
+  line?.type === type && !line.ignored;
+
+/**
+ * Finds blocks that were removed in one place and added back in another,
+ * and turns both copies into "moved" lines that share a move id. Lines are
+ * matched by `keyOf`, so the ignore options apply. Each removed block takes
+ * the longest unclaimed run of added lines it matches.
+ */
+export const detectMoves = (
+  lines: DiffLine[],
+  keyOf: (text: string) => string,
+): { lines: DiffLine[]; moved: number } => {
+  const keys = lines.map((line) =>
+    isPlain(line, "removed")
+      ? keyOf(line.before ?? "")
+      : isPlain(line, "added")
+        ? keyOf(line.after ?? "")
+        : null,
+  );
+  const targets = new Map<string, number[]>();
+  lines.forEach((line, position) => {
+    if (!isPlain(line, "added")) return;
+    const key = keys[position]!;
+    const found = targets.get(key);
+    if (found) found.push(position);
+    else targets.set(key, [position]);
+  });
+
+  const claimed = new Uint8Array(lines.length);
+  const result = [...lines];
+  let moved = 0;
+  let moveId = 0;
+  let idx = 0;
+  while (idx < lines.length) {
+    if (!isPlain(lines[idx], "removed")) {
+      idx += 1;
+      continue;
+    }
+    let bestTarget = -1;
+    let bestLength = 0;
+    let tried = 0;
+    for (const target of targets.get(keys[idx]!) ?? []) {
+      if (claimed[target]) continue;
+      if (tried === MAX_MOVE_CANDIDATES) break;
+      tried += 1;
+      let length = 0;
+      while (
+        isPlain(lines[idx + length], "removed") &&
+        isPlain(lines[target + length], "added") &&
+        !claimed[target + length] &&
+        keys[idx + length] === keys[target + length]
+      ) {
+        length += 1;
+      }
+      if (length > bestLength) {
+        bestTarget = target;
+        bestLength = length;
+      }
+    }
+    const text = keys
+      .slice(idx, idx + bestLength)
+      .join("")
+      .replace(/\s/g, "");
+    if (bestLength < MIN_MOVED_LINES || text.length < MIN_MOVED_CHARS) {
+      idx += 1;
+      continue;
+    }
+
+    moveId += 1;
+    for (let offset = 0; offset < bestLength; offset += 1) {
+      const source = lines[idx + offset];
+      const target = lines[bestTarget + offset];
+      const move: Omit<LineMove, "side"> = {
+        id: moveId,
+        oldNumber: source.oldNumber!,
+        newNumber: target.newNumber!,
+      };
+      result[idx + offset] = {
+        ...source,
+        type: "moved",
+        move: { ...move, side: "source" },
+      };
+      result[bestTarget + offset] = {
+        ...target,
+        type: "moved",
+        move: { ...move, side: "target" },
+      };
+      claimed[bestTarget + offset] = 1;
+    }
+    moved += bestLength;
+    idx += bestLength;
+  }
+  return { lines: result, moved };
+};
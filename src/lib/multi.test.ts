@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { computeMultiDiff } from "./multi";
+
+const text = (...lines: string[]) => lines.map((line) => `${line}\n`).join("");
+
+describe("computeMultiDiff", () => {
+  const baseline = text("host=db", "port=5432", "debug=false");
+
+  it("lists which variants changed each baseline line", () => {
+    const result = computeMultiDiff(baseline, [
+      text("host=db", "port=5432", "debug=false"),
+      text("host=db2", "port=5432", "debug=true"),
+      text("host=db", "debug=false", "trace=on"),
+    ]);
+
+    expect(result.summaries.map((summary) => summary.identical)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(result.lines[0].changes).toEqual([
+      { variant: 1, type: "modified", text: "host=db2" },
+    ]);
+    expect(result.lines[1].changes).toEqual([{ variant: 2, type: "removed" }]);
+    expect(result.lines[2]).toMatchObject({
+      number: 3,
+      text: "debug=false",
+      changes: [{ variant: 1, type: "modified", text: "debug=true" }],
+      insertions: [{ variant: 2, lines: ["trace=on"] }],
+    });
+  });
+
+  it("keeps insertions before the first line apart and respects ignore options", () => {
+    const result = computeMultiDiff(
+      baseline,
+      [
+        text(
+          "# generated",
+          "# do not edit",
+          "host=db",
+          "port=5432",
+          "debug=false",
+        ),
+        text("HOST=DB", "port=5432", "debug=false"),
+      ],
+      { ignoreCase: true },
+    );
+
+    expect(result.leadingInsertions).toEqual([
+      { variant: 0, lines: ["# generated", "# do not edit"] },
+    ]);
+    expect(result.lines.every((line) => line.changes.length === 0)).toBe(true);
+    expect(result.summaries[1]).toMatchObject({ added: 0, modified: 0 });
+  });
+});
@@ -0,0 +1,83 @@
+import { computeTextDiff, normalizeNewlines } from "./diff";
+import {
+  DiffSummary,
+  MultiDiffInsertion,
+  MultiDiffLine,
+  TextDiffOptions,
+} from "./types";
+
+export const MAX_VARIANTS = 10;
+
+const addInsertion = (
+  insertions: MultiDiffInsertion[],
+  variant: number,
+  line: string,
+) => {
+  const last = insertions[insertions.length - 1];
+  if (last?.variant === variant) {
+    last.lines.push(line);
+  } else {
+    insertions.push({ variant, lines: [line] });
+  }
+};
+
+/**
+ * Diffs every variant against one baseline and folds the results onto the
+ * baseline's lines, so each line lists the variants that modified or
+ * removed it and the lines each variant inserted after it. Variants are
+ * numbered from 0 in the order given.
+ */
+export const computeMultiDiff = (
+  baseline: string,
+  variants: string[],
+  options: TextDiffOptions = {},
+): {
+  summaries: DiffSummary[];
+  leadingInsertions: MultiDiffInsertion[];
+  lines: MultiDiffLine[];
+} => {
+  const normalized = normalizeNewlines(baseline);
+  const baseLines =
+    normalized === "" ? [] : normalized.replace(/\n$/, "").split("\n");
+  const lines: MultiDiffLine[] = baseLines.map((text, idx) => ({
+    number: idx + 1,
+    text,
+    changes: [],
+    insertions: [],
+  }));
+  const leadingInsertions: MultiDiffInsertion[] = [];
+
+  const summaries = variants.map((variant, variantIdx) => {
+    const diff = computeTextDiff(baseline, variant, options);
+    let previous = 0;
+    diff.lines.forEach((line) => {
+      if (line.ignored && line.type !== "unchanged") return;
+      if (line.oldNumber !== null) previous = line.oldNumber;
+      const target = lines[previous - 1];
+      // A moved block counts as removed from the baseline and inserted again.
+      const type = line.move
+        ? line.move.side === "source"
+          ? "removed"
+          : "added"
+        : line.type;
+      if (type === "added") {
+        addInsertion(
+          target ? target.insertions : leadingInsertions,
+          variantIdx,
+          line.after ?? "",
+        );
+      } else if (type === "removed") {
+        target.changes.push({ variant: variantIdx, type: "removed" });
+      } else if (type === "modified") {
+        target.changes.push({
+          variant: variantIdx,
+          type: "modified",
+          text: line.after ?? "",
+        });
+      }
+    });
+    return diff.summary;
+  });
+
+  return { summaries, leadingInsertions, lines };
+};
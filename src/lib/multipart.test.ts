@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { multipartBoundary, receiveMultipart } from "./multipart";
+
+/** Encodes a form the way a browser would, then replays it in small chunks. */
+const encodeForm = async (form: FormData, chunkSize: number) => {
+  const response = new Response(form);
+  const boundary = multipartBoundary(
+    response.headers.get("content-type") ?? "",
+  );
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let at = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull: (controller) => {
+      if (at >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(at, at + chunkSize));
+      at += chunkSize;
+    },
+  });
+  return { body, boundary: boundary! };
+};
+
+describe("multipartBoundary", () => {
+  it("reads plain and quoted boundaries from form-data content types", () => {
+    expect(multipartBoundary("multipart/form-data; boundary=abc123")).toBe(
+      "abc123",
+    );
+    expect(multipartBoundary('multipart/form-data; boundary="a b"')).toBe(
+      "a b",
+    );
+    expect(multipartBoundary("application/json")).toBeNull();
+  });
+});
+
+describe("receiveMultipart", () => {
+  let directory = "";
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "mintdiff-upload-"));
+  });
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("writes files to disk and keeps fields, whatever the chunk size", async () => {
+    const content = "line one\r\n--not a boundary\r\n".repeat(50);
+    for (const chunkSize of [1, 7, 4096]) {
+      const form = new FormData();
+      form.append("context", "5");
+      form.append(
+        "files",
+        new File([content], "a.log", { type: "text/plain" }),
+      );
+      form.append("files", new File([""], "empty.log"));
+      const { body, boundary } = await encodeForm(form, chunkSize);
+      const upload = await receiveMultipart(body, boundary, {
+        directory,
+        maxFileSize: 1024 * 1024,
+        maxCombinedSize: 1024 * 1024,
+      });
+
+      expect(upload.fields).toEqual([["context", "5"]]);
+      expect(
+        upload.files.map(({ name, type, size }) => ({ name, type, size })),
+      ).toEqual([
+        { name: "a.log", type: "text/plain", size: content.length },
+        { name: "empty.log", type: "application/octet-stream", size: 0 },
+      ]);
+      const [first] = upload.files;
+      expect(await readFile(first.path, "utf8")).toBe(content);
+      expect(first.hash).toBe(
+        crypto.createHash("sha256").update(content).digest("hex"),
+      );
+      expect(first.head.toString()).toBe(content);
+    }
+  });
+
+  it("stops reading once a file goes over the limits", async () => {
+    const megabyte = 1024 * 1024;
+    const form = new FormData();
+    form.append("files", new File(["x".repeat(megabyte + 1)], "big.txt"));
+    const limits = {
+      directory,
+      maxFileSize: megabyte,
+      maxCombinedSize: 4 * megabyte,
+    };
+    const { body, boundary } = await encodeForm(form, 65536);
+    await expect(receiveMultipart(body, boundary, limits)).rejects.toThrow(
+      "Each file must be 1 MB or smaller.",
+    );
+    await expect(
+      receiveMultipart((await encodeForm(form, 65536)).body, "other", limits),
+    ).rejects.toThrow("The upload ended before the form data was complete.");
+
+    form.append("files", new File(["y".repeat(megabyte)], "more.txt"));
+    const both = await encodeForm(form, 65536);
+    await expect(
+      receiveMultipart(both.body, both.boundary, {
+        directory,
+        maxFileSize: 2 * megabyte,
+        maxCombinedSize: 2 * megabyte,
+      }),
+    ).rejects.toThrow("Combined file size must be 2 MB or smaller.");
+  });
+});
@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Bytes kept from the start of each file for type and encoding sniffing.
+export const UPLOAD_HEAD_BYTES = 64 * 1024;
+const MAX_HEADER_BYTES = 16 * 1024;
+const MAX_FIELD_BYTES = 64 * 1024;
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+
+export type ReceivedFile = {
+  field: string;
+  name: string;
+  type: string;
+  path: string;
+  size: number;
+  hash: string;
+  head: Buffer;
+};
+
+export type MultipartUpload = {
+  fields: [string, string][];
+  files: ReceivedFile[];
+};
+
+export type MultipartLimits = {
+  directory: string;
+  maxFileSize: number;
+  maxCombinedSize: number;
+};
+
+type OpenPart = {
+  name: string;
+  filename?: string;
+  type: string;
+  // String fields are buffered here; files keep only their first bytes.
+  chunks: Buffer[];
+  size: number;
+  handle?: fs.FileHandle;
+  hash?: crypto.Hash;
+  path?: string;
+};
+
+const megabytes = (bytes: number) => `${bytes / 1024 / 1024} MB`;
+
+export const multipartBoundary = (contentType: string): string | null => {
+  if (!/^multipart\/form-data/i.test(contentType.trim())) return null;
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? (match[1] ?? match[2]) : null;
+};
+
+const parseHeaders = (block: string) => {
+  const headers: Record<string, string> = {};
+  block.split("\r\n").forEach((line) => {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line
+        .slice(colon + 1)
+        .trim();
+    }
+  });
+  const disposition = headers["content-disposition"] ?? "";
+  const parameter = (key: string) =>
+    new RegExp(`(?:^|;)\\s*${key}="((?:[^"\\\\]|\\\\.)*)"`, "i")
+      .exec(disposition)?.[1]
+      .replace(/\\(.)/g, "$1");
+  return {
+    name: parameter("name"),
+    filename: parameter("filename"),
+    type: headers["content-type"] ?? "",
+  };
+};
+
+/**
+ * Reads a multipart/form-data body as it arrives, writing each file part to
+ * its own file under `directory` while hashing it, so uploads never have to
+ * fit in memory. String fields are returned in order; the size limits are
+ * enforced as bytes come in.
+ */
+export const receiveMultipart = async (
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  limits: MultipartLimits,
+): Promise<MultipartUpload> => {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const fields: [string, string][] = [];
+  const files: ReceivedFile[] = [];
+  // The leading CRLF lets the first boundary match the same delimiter.
+  let pending: Buffer = CRLF;
+  let state: "preamble" | "boundary" | "headers" | "body" | "done" = "preamble";
+  let combined = 0;
+  let part: OpenPart | null = null;
+
+  const write = async (data: Buffer) => {
+    if (!part || !data.length) return;
+    part.size += data.length;
+    if (!part.handle) {
+      if (part.size > MAX_FIELD_BYTES) {
+        throw new Error(`Form field "${part.name}" is too large.`);
+      }
+      part.chunks.push(Buffer.from(data));
+      return;
+    }
+    combined += data.length;
+    if (part.size > limits.maxFileSize) {
+      throw new Error(
+        `Each file must be ${megabytes(limits.maxFileSize)} or smaller.`,
+      );
+    }
+    if (combined > limits.maxCombinedSize) {
+      throw new Error(
+        `Combined file size must be ${megabytes(limits.maxCombinedSize)} or smaller.`,
+      );
+    }
+    const headBytes = part.chunks.reduce(
+      (total, chunk) => total + chunk.length,
+      0,
+    );
+    if (headBytes < UPLOAD_HEAD_BYTES) {
+      part.chunks.push(
+        Buffer.from(data.subarray(0, UPLOAD_HEAD_BYTES - headBytes)),
+      );
+    }
+    part.hash!.update(data);
+    await part.handle.write(data);
+  };
+
+  const finishPart = async () => {
+    if (!part) return;
+    const current = part;
+    part = null;
+    if (!current.handle) {
+      fields.push([
+        current.name,
+        Buffer.concat(current.chunks).toString("utf8"),
+      ]);
+      return;
+    }
+    await current.handle.close();
+    files.push({
+      field: current.name,
+      name: current.filename ?? "",
+      type: current.type,
+      path: current.path!,
+      size: current.size,
+      hash: current.hash!.digest("hex"),
+      head: Buffer.concat(current.chunks),
+    });
+  };
+
+  /** Parses as much of `pending` as it can; resolves true after the close. */
+  const consume = async (): Promise<boolean> => {
+    for (;;) {
+      if (state === "preamble" || state === "body") {
+        const at = pending.indexOf(delimiter);
+        if (at < 0) {
+          // Keep enough bytes to finish a delimiter split across chunks.
+          const safe = pending.length - delimiter.length + 1;
+          if (safe > 0) {
+            if (state === "body") await write(pending.subarray(0, safe));
+            pending = pending.subarray(safe);
+          }
+          return false;
+        }
+        if (state === "body") {
+          await write(pending.subarray(0, at));
+          await finishPart();
+        }
+        pending = pending.subarray(at + delimiter.length);
+        state = "boundary";
+      } else if (state === "boundary") {
+        if (pending.length < 2) return false;
+        if (pending[0] === 0x2d && pending[1] === 0x2d) {
+          state = "done";
+          return true;
+        }
+        const lineEnd = pending.indexOf(CRLF);
+        if (lineEnd < 0) return false;
+        pending = pending.subarray(lineEnd + 2);
+        state = "headers";
+      } else if (state === "headers") {
+        const at = pending.indexOf(HEADER_END);
+        if (at < 0) {
+          if (pending.length > MAX_HEADER_BYTES) {
+            throw new Error("Form part headers are too large.");
+          }
+          return false;
+        }
+        const headers = parseHeaders(pending.toString("utf8", 0, at));
+        pending = pending.subarray(at + HEADER_END.length);
+        if (headers.name === undefined) {
+          throw new Error("Form part is missing its field name.");
+        }
+        part = { ...headers, name: headers.name, chunks: [], size: 0 };
+        if (headers.filename !== undefined) {
+          part.path = path.join(limits.directory, String(files.length));
+          part.handle = await fs.open(part.path, "w");
+          part.hash = crypto.createHash("sha256");
+        }
+        state = "body";
+      } else {
+        return true;
+      }
+    }
+  };
+
+  const reader = body.getReader();
+  try {
+    let complete = false;
+    while (!complete) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending = Buffer.concat([pending, value]);
+      complete = await consume();
+    }
+    if (!complete) {
+      throw new Error("The upload ended before the form data was complete.");
+    }
+    return { fields, files };
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    await (part as OpenPart | null)?.handle?.close().catch(() => undefined);
+    throw error;
+  }
+};
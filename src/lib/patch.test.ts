@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import {
+  applyPatch,
+  parseUnifiedDiff,
+  patchToDiffLines,
+  selectFilePatch,
+} from "./patch";
+import { renderUnifiedDiff } from "./unified";
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, idx) => `line ${idx + 1}\n`).join("");
+
+const patchFor = (before: string, after: string, context = 3) => {
+  const { lines } = computeTextDiff(before, after);
+  return renderUnifiedDiff(lines, {
+    oldName: "file.txt",
+    newName: "file.txt",
+    context,
+    oldFinalNewline: before === "" || before.endsWith("\n"),
+    newFinalNewline: after === "" || after.endsWith("\n"),
+  });
+};
+
+describe("parseUnifiedDiff", () => {
+  it("reads file names, hunk ranges and missing-newline markers", () => {
+    const [patch] = parseUnifiedDiff(
+      [
+        "diff --git a/src/app.ts b/src/app.ts",
+        "index 1234567..89abcde 100644",
+        "--- a/src/app.ts\t2024-01-01 00:00:00",
+        "+++ b/src/app.ts",
+        "@@ -1,2 +1 @@",
+        " keep",
+        "-drop",
+        "\\ No newline at end of file",
+        "",
+      ].join("\n"),
+    );
+
+    expect(patch.oldName).toBe("src/app.ts");
+    expect(patch.newName).toBe("src/app.ts");
+    expect(patch.hunks[0]).toMatchObject({
+      oldStart: 1,
+      oldCount: 2,
+      newStart: 1,
+      newCount: 1,
+    });
+    expect(patch.hunks[0].lines[1]).toEqual({
+      prefix: "-",
+      text: "drop",
+      noNewline: true,
+    });
+  });
+
+  it("rejects input without hunks or with truncated hunks", () => {
+    expect(() => parseUnifiedDiff("just some text\n")).toThrow(/No hunks/);
+    expect(() => parseUnifiedDiff("@@ -1,3 +1,3 @@\n a\n")).toThrow(
+      /ends before/,
+    );
+  });
+
+  it("selects the section for a file in a multi-file patch", () => {
+    const patches = parseUnifiedDiff(
+      [
+        "--- a/one.txt",
+        "+++ b/one.txt",
+        "@@ -1 +1 @@",
+        "-a",
+        "+b",
+        "--- a/dir/two.txt",
+        "+++ b/dir/two.txt",
+        "@@ -1 +1 @@",
+        "-c",
+        "+d",
+      ].join("\n"),
+    );
+
+    expect(selectFilePatch(patches, "two.txt")?.newName).toBe("dir/two.txt");
+    expect(selectFilePatch(patches, "three.txt")).toBeNull();
+  });
+});
+
+describe("applyPatch", () => {
+  it("round-trips exported unified diffs", () => {
+    const before = numbered(20);
+    const after = before
+      .replace("line 2\n", "line two\n")
+      .replace("line 15\n", "")
+      .concat("line 21\n");
+    const [patch] = parseUnifiedDiff(patchFor(before, after));
+
+    const result = applyPatch(before, patch);
+    expect(result.text).toBe(after);
+    expect(result.hunks.every((hunk) => hunk.status === "applied")).toBe(true);
+  });
+
+  it("reports the offset when lines have moved", () => {
+    const before = numbered(10);
+    const [patch] = parseUnifiedDiff(
+      patchFor(before, before.replace("line 6\n", "line six\n")),
+    );
+    const shifted = `header a\nheader b\n${before}`;
+
+    const result = applyPatch(shifted, patch);
+    expect(result.hunks[0]).toMatchObject({
+      status: "applied",
+      offset: 2,
+      fuzz: 0,
+    });
+    expect(result.text).toContain("line 5\nline six\nline 7\n");
+  });
+
+  it("applies with fuzz when outer context has drifted", () => {
+    const before = numbered(10);
+    const [patch] = parseUnifiedDiff(
+      patchFor(before, before.replace("line 6\n", "line six\n")),
+    );
+    const edited = before.replace("line 3\n", "line three\n");
+
+    const result = applyPatch(edited, patch);
+    expect(result.hunks[0]).toMatchObject({ status: "applied", fuzz: 1 });
+    expect(result.text).toContain("line three\n");
+    expect(result.text).toContain("line six\n");
+  });
+
+  it("skips hunks that no longer match", () => {
+    const before = numbered(30);
+    const after = before
+      .replace("line 2\n", "line two\n")
+      .replace("line 25\n", "line twenty-five\n");
+    const [patch] = parseUnifiedDiff(patchFor(before, after));
+    const drifted = before.replace("line 2\n", "something else\n");
+
+    const result = applyPatch(drifted, patch);
+    expect(result.hunks.map((hunk) => hunk.status)).toEqual([
+      "failed",
+      "applied",
+    ]);
+    expect(result.text).toContain("something else\n");
+    expect(result.text).toContain("line twenty-five\n");
+  });
+
+  it("honours missing-newline markers", () => {
+    const [patch] = parseUnifiedDiff(patchFor("a\nb\n", "a\nb"));
+    expect(applyPatch("a\nb\n", patch).text).toBe("a\nb");
+  });
+
+  it("creates content in an empty file", () => {
+    const [patch] = parseUnifiedDiff(patchFor("", "new\n"));
+    expect(applyPatch("", patch).text).toBe("new\n");
+  });
+});
+
+describe("patchToDiffLines", () => {
+  it("numbers hunk lines from their headers", () => {
+    const [patch] = parseUnifiedDiff(
+      ["@@ -10,3 +12,3 @@", " keep", "-old value", "+new value", " tail"].join(
+        "\n",
+      ),
+    );
+
+    const { lines, summary } = patchToDiffLines(patch);
+    expect(
+      lines.map((line) => [line.type, line.oldNumber, line.newNumber]),
+    ).toEqual([
+      ["unchanged", 10, 12],
+      ["modified", 11, 13],
+      ["unchanged", 12, 14],
+    ]);
+    expect(summary.modified).toBe(1);
+  });
+});
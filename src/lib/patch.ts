@@ -0,0 +1,313 @@
+import { computeTextDiff, normalizeNewlines } from "./diff";
+import {
+  DiffLine,
+  DiffSummary,
+  InlineGranularity,
+  PatchHunkResult,
+} from "./types";
+
+export const PATCH_EXTENSIONS = ["diff", "patch"];
+export const DEFAULT_MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export type PatchHunkLine = {
+  prefix: " " | "-" | "+";
+  text: string;
+  noNewline?: boolean;
+};
+
+export type PatchHunk = {
+  header: string;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: PatchHunkLine[];
+};
+
+export type FilePatch = {
+  oldName: string | null;
+  newName: string | null;
+  hunks: PatchHunk[];
+};
+
+/**
+ * Strips the `a/` / `b/` prefixes and trailing timestamps from a `---` or
+ * `+++` header. `/dev/null` (a created or deleted file) becomes null.
+ */
+const headerName = (line: string): string | null => {
+  const name = line.slice(4).split("\t")[0].trim();
+  if (name === "/dev/null") return null;
+  return name.replace(/^[ab]\//, "");
+};
+
+export const parseUnifiedDiff = (text: string): FilePatch[] => {
+  const lines = normalizeNewlines(text).split("\n");
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        oldName: headerName(line),
+        newName: headerName(lines[i + 1]),
+        hunks: [],
+      };
+      patches.push(current);
+      i += 1;
+      continue;
+    }
+
+    const match = HUNK_HEADER.exec(line);
+    if (!match) continue;
+    if (!current) {
+      current = { oldName: null, newName: null, hunks: [] };
+      patches.push(current);
+    }
+    const hunk: PatchHunk = {
+      header: match[0],
+      oldStart: Number(match[1]),
+      oldCount: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newCount: match[4] === undefined ? 1 : Number(match[4]),
+      lines: [],
+    };
+    let oldRemaining = hunk.oldCount;
+    let newRemaining = hunk.newCount;
+
+    while (oldRemaining > 0 || newRemaining > 0) {
+      i += 1;
+      if (i >= lines.length) {
+        throw new Error(`Hunk ${hunk.header} ends before all its lines.`);
+      }
+      const body = lines[i];
+      if (body.startsWith("\\")) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last) last.noNewline = true;
+        continue;
+      }
+      // Some editors strip the single space that prefixes a blank context line.
+      const prefix = body === "" ? " " : body[0];
+      if (prefix === " " && oldRemaining > 0 && newRemaining > 0) {
+        oldRemaining -= 1;
+        newRemaining -= 1;
+      } else if (prefix === "-" && oldRemaining > 0) {
+        oldRemaining -= 1;
+      } else if (prefix === "+" && newRemaining > 0) {
+        newRemaining -= 1;
+      } else {
+        throw new Error(
+          `Hunk ${hunk.header} has an unexpected line: ${body.slice(0, 80)}`,
+        );
+      }
+      hunk.lines.push({ prefix, text: body.slice(1) });
+    }
+    if (lines[i + 1]?.startsWith("\\")) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewline = true;
+      i += 1;
+    }
+    current.hunks.push(hunk);
+  }
+
+  const withHunks = patches.filter((patch) => patch.hunks.length);
+  if (!withHunks.length) {
+    throw new Error("No hunks found in the patch.");
+  }
+  return withHunks;
+};
+
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+/**
+ * Picks the file section of a multi-file patch that targets `name`. A patch
+ * with a single section applies regardless of its file names.
+ */
+export const selectFilePatch = (
+  patches: FilePatch[],
+  name: string,
+): FilePatch | null => {
+  if (patches.length === 1) return patches[0];
+  const target = baseName(name);
+  return (
+    patches.find(
+      (patch) =>
+        (patch.oldName !== null && baseName(patch.oldName) === target) ||
+        (patch.newName !== null && baseName(patch.newName) === target),
+    ) ?? null
+  );
+};
+
+const sideOf = (hunk: PatchHunk, side: "old" | "new"): PatchHunkLine[] =>
+  hunk.lines.filter((line) =>
+    side === "old" ? line.prefix !== "+" : line.prefix !== "-",
+  );
+
+type Placement = {
+  position: number;
+  fuzz: number;
+  lead: number;
+  trail: number;
+};
+
+const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.replace(/\n$/, "").split("\n");
+
+const matchesAt = (lines: string[], block: string[], position: number) =>
+  position >= 0 &&
+  position + block.length <= lines.length &&
+  block.every((line, idx) => lines[position + idx] === line);
+
+/**
+ * Applies one file's hunks to LF-normalized text the way `patch` does: each
+ * hunk is searched for outward from its stated line (carrying the previous
+ * hunk's offset), and on failure retried while ignoring up to `maxFuzz`
+ * lines of leading and trailing context. Hunks that still do not match are
+ * reported as failed and skipped.
+ */
+export const applyPatch = (
+  original: string,
+  patch: FilePatch,
+  options: { maxFuzz?: number } = {},
+): { text: string; hunks: PatchHunkResult[] } => {
+  const maxFuzz = options.maxFuzz ?? DEFAULT_MAX_FUZZ;
+  const normalized = normalizeNewlines(original);
+  const lines = splitLines(normalized);
+  let finalNewline = normalized === "" || normalized.endsWith("\n");
+  let growth = 0;
+  let drift = 0;
+  let floor = 0;
+  const results: PatchHunkResult[] = [];
+
+  patch.hunks.forEach((hunk, idx) => {
+    const oldSide = sideOf(hunk, "old");
+    const newSide = sideOf(hunk, "new");
+    const leading = hunk.lines.findIndex((line) => line.prefix !== " ");
+    const trailing = [...hunk.lines]
+      .reverse()
+      .findIndex((line) => line.prefix !== " ");
+    // With no old lines the header names the line to insert after.
+    const stated = (hunk.oldCount ? hunk.oldStart - 1 : hunk.oldStart) + growth;
+    let applied: Placement | null = null;
+
+    for (let fuzz = 0; fuzz <= maxFuzz && !applied; fuzz += 1) {
+      const lead = Math.min(fuzz, Math.max(0, leading));
+      const trail = Math.min(fuzz, Math.max(0, trailing));
+      if (fuzz > 0 && lead === 0 && trail === 0) break;
+      const block = oldSide
+        .slice(lead, oldSide.length - trail)
+        .map((line) => line.text);
+      if (!block.length && oldSide.length) continue;
+      const target = stated + drift + lead;
+      if (!block.length) {
+        const position = Math.min(Math.max(target, floor), lines.length);
+        applied = { position, fuzz, lead, trail };
+        break;
+      }
+      const reach = Math.max(target, lines.length - target);
+      for (let distance = 0; distance <= reach && !applied; distance += 1) {
+        const candidates = distance
+          ? [target - distance, target + distance]
+          : [target];
+        const position = candidates.find(
+          (candidate) =>
+            candidate >= floor && matchesAt(lines, block, candidate),
+        );
+        if (position !== undefined) applied = { position, fuzz, lead, trail };
+      }
+    }
+
+    if (!applied) {
+      results.push({
+        index: idx + 1,
+        header: hunk.header,
+        status: "failed",
+        offset: 0,
+        fuzz: 0,
+      });
+      return;
+    }
+
+    const { position, fuzz, lead, trail } = applied;
+    const removedCount = oldSide.length - lead - trail;
+    const replacement = newSide
+      .slice(lead, newSide.length - trail)
+      .map((line) => line.text);
+    const reachesEnd = position + removedCount === lines.length;
+    lines.splice(position, removedCount, ...replacement);
+
+    if (reachesEnd && hunk.lines.some((line) => line.noNewline)) {
+      finalNewline = !newSide[newSide.length - 1]?.noNewline;
+    }
+    const offset = position - lead - stated;
+    results.push({
+      index: idx + 1,
+      header: hunk.header,
+      status: "applied",
+      offset,
+      fuzz,
+    });
+    drift = offset;
+    growth += replacement.length - removedCount;
+    floor = position + replacement.length;
+  });
+
+  const text = lines.join("\n");
+  return {
+    text: lines.length && finalNewline ? `${text}\n` : text,
+    hunks: results,
+  };
+};
+
+/**
+ * Renders a patch without its original file. Only the lines inside the hunks
+ * are known, so their old and new sides are diffed and then renumbered from
+ * each hunk header; `before` and `after` hold those partial texts.
+ */
+export const patchToDiffLines = (
+  patch: FilePatch,
+  options: { granularity?: InlineGranularity } = {},
+): {
+  lines: DiffLine[];
+  summary: DiffSummary;
+  before: string;
+  after: string;
+} => {
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  const oldText: string[] = [];
+  const newText: string[] = [];
+
+  patch.hunks.forEach((hunk) => {
+    sideOf(hunk, "old").forEach((line, idx) => {
+      oldText.push(line.text);
+      oldNumbers.push(hunk.oldStart + idx);
+    });
+    sideOf(hunk, "new").forEach((line, idx) => {
+      newText.push(line.text);
+      newNumbers.push(hunk.newStart + idx);
+    });
+  });
+
+  const before = oldText.map((line) => `${line}\n`).join("");
+  const after = newText.map((line) => `${line}\n`).join("");
+  const diff = computeTextDiff(before, after, {
+    granularity: options.granularity,
+  });
+  const lines = diff.lines.map((line) => ({
+    ...line,
+    oldNumber: line.oldNumber === null ? null : oldNumbers[line.oldNumber - 1],
+    newNumber: line.newNumber === null ? null : newNumbers[line.newNumber - 1],
+    ...(line.move && {
+      move: {
+        ...line.move,
+        oldNumber: oldNumbers[line.move.oldNumber - 1],
+        newNumber: newNumbers[line.move.newNumber - 1],
+      },
+    }),
+  }));
+
+  return { lines, summary: diff.summary, before, after };
+};
@@ -0,0 +1,141 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { extractPdfText, isPdf } from "./pdf";
+
+const latin1 = (text: string) => Buffer.from(text, "latin1");
+
+/**
+ * Numbers the objects from 1, leaving out the null slots; the reader finds
+ * them without an xref table.
+ */
+const buildPdf = (
+  objects: (string | Buffer | null)[],
+  trailer = "<< /Root 1 0 R >>",
+) =>
+  Buffer.concat([
+    latin1("%PDF-1.7\n"),
+    ...objects.flatMap((body, idx) =>
+      body === null
+        ? []
+        : [
+            latin1(`${idx + 1} 0 obj\n`),
+            Buffer.isBuffer(body) ? body : latin1(body),
+            latin1("\nendobj\n"),
+          ],
+    ),
+    latin1(`trailer\n${trailer}\n%%EOF\n`),
+  ]);
+
+const stream = (data: string | Buffer, dict = "") => {
+  const bytes = Buffer.isBuffer(data) ? data : latin1(data);
+  return Buffer.concat([
+    latin1(`<< /Length ${bytes.length} ${dict}>>\nstream\n`),
+    bytes,
+    latin1("\nendstream"),
+  ]);
+};
+
+const CATALOG = "<< /Type /Catalog /Pages 2 0 R >>";
+const onePage = (
+  font: string,
+  content: string,
+  extra: (string | Buffer)[] = [],
+) =>
+  buildPdf([
+    CATALOG,
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    font,
+    stream(content),
+    ...extra,
+  ]);
+
+describe("extractPdfText", () => {
+  it("reads pages in order, breaking lines on vertical moves and wide gaps", () => {
+    const pdf = buildPdf([
+      CATALOG,
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents [7 0 R] >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      stream(
+        "BT /F1 12 Tf 72 720 Td (Caf\\351 au) Tj ( lait) Tj 0 -14 Td [(Sec)-50(ond)-600(line)] TJ ET",
+      ),
+      stream(
+        zlib.deflateSync(
+          latin1("BT /F1 10 Tf 1 0 0 1 50 500 Tm (Page two) Tj ET"),
+        ),
+        "/Filter /FlateDecode ",
+      ),
+    ]);
+
+    expect(isPdf(pdf)).toBe(true);
+    expect(extractPdfText(pdf)).toEqual({
+      pages: [["Café au lait", "Second line"], ["Page two"]],
+      warnings: [],
+    });
+  });
+
+  it("maps composite font codes through the ToUnicode CMap", () => {
+    const cmap = [
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "2 beginbfchar <0001> <0048> <0002> <00690021> endbfchar",
+      "1 beginbfrange <0010> <0012> <03B1> endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = onePage(
+      "<< /Type /Font /Subtype /Type0 /BaseFont /Sans /Encoding /Identity-H /DescendantFonts [6 0 R] /ToUnicode 7 0 R >>",
+      "BT /F1 12 Tf 10 10 Td <00010002> Tj <0010 0011 0012> Tj <0099> Tj ET",
+      ["<< /Type /Font /Subtype /CIDFontType2 /DW 1000 >>", stream(cmap)],
+    );
+
+    expect(extractPdfText(pdf)).toEqual({
+      pages: [["Hi!αβγ"]],
+      warnings: [
+        "Some PDF text uses fonts without a Unicode map and was left out.",
+      ],
+    });
+  });
+
+  it("applies /Differences glyph names over the base encoding", () => {
+    const pdf = onePage(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Serif /Encoding << /BaseEncoding /WinAnsiEncoding /Differences [1 /eacute /fi 65 /uni00DF] >> >>",
+      "BT /F1 12 Tf 10 10 Td (caf\\001 \\002ne A) Tj ET",
+    );
+
+    expect(extractPdfText(pdf).pages).toEqual([["café fine ß"]]);
+  });
+
+  it("reads objects packed into compressed object streams", () => {
+    const packed = [
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    ];
+    const offsets = `2 0 3 ${packed[0].length + 1} `;
+    const pdf = buildPdf([
+      CATALOG,
+      null,
+      null,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+      stream("BT /F1 9 Tf 0 0 Td (Packed) Tj ET"),
+      stream(
+        zlib.deflateSync(latin1(`${offsets}${packed.join(" ")}`)),
+        `/Type /ObjStm /N 2 /First ${offsets.length} /Filter /FlateDecode `,
+      ),
+    ]);
+
+    expect(extractPdfText(pdf).pages).toEqual([["Packed"]]);
+  });
+
+  it("rejects encrypted files", () => {
+    const pdf = buildPdf(
+      [CATALOG, "<< /Type /Pages /Kids [] /Count 0 >>"],
+      "<< /Root 1 0 R /Encrypt << /Filter /Standard >> >>",
+    );
+
+    expect(() => extractPdfText(pdf)).toThrow(
+      "Encrypted PDFs are not supported.",
+    );
+  });
+});
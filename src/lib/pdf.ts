@@ -0,0 +1,1054 @@
+import zlib from "zlib";
+
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+const MAX_FORM_DEPTH = 8;
+const MAX_CMAP_RANGE = 0x10000;
+// Glyph width used when a font lists none (the standard 14 fonts).
+const DEFAULT_GLYPH_WIDTH = 500;
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([...Buffer.from("()<>[]{}/%", "latin1")]);
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: Buffer }
+  | { type: "name"; value: string }
+  | { type: "keyword"; value: string };
+
+type PdfName = { kind: "name"; name: string };
+type PdfRef = { kind: "ref"; id: string };
+type PdfDict = { kind: "dict"; entries: Record<string, PdfValue> };
+type PdfStream = { kind: "stream"; dict: PdfDict; data: Buffer };
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | Buffer
+  | PdfName
+  | PdfRef
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+type PdfFont = {
+  codeLength: number;
+  decode: (code: number) => string | undefined;
+  width: (code: number) => number;
+};
+
+const hasKind = <K extends string>(
+  value: PdfValue,
+  kind: K,
+): value is Extract<PdfValue, { kind: K }> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Buffer.isBuffer(value) &&
+  !Array.isArray(value) &&
+  value.kind === kind;
+
+const nameOf = (value: PdfValue) =>
+  hasKind(value, "name") ? value.name : undefined;
+
+const numberOf = (value: PdfValue, fallback = 0) =>
+  typeof value === "number" ? value : fallback;
+
+export const isPdf = (buffer: Buffer) =>
+  buffer.subarray(0, 1024).includes("%PDF-");
+
+const createLexer = (data: Buffer, start = 0) => {
+  let position = start;
+
+  const skipWhitespace = () => {
+    while (position < data.length) {
+      if (WHITESPACE.has(data[position])) {
+        position += 1;
+      } else if (data[position] === 0x25) {
+        while (
+          position < data.length &&
+          data[position] !== 0x0a &&
+          data[position] !== 0x0d
+        ) {
+          position += 1;
+        }
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readLiteral = () => {
+    const out: number[] = [];
+    let depth = 1;
+    position += 1;
+    while (position < data.length) {
+      const byte = data[position];
+      position += 1;
+      if (byte === 0x28) {
+        depth += 1;
+      } else if (byte === 0x29) {
+        depth -= 1;
+        if (!depth) break;
+      } else if (byte === 0x5c) {
+        const next = data[position];
+        position += 1;
+        const escapes: Record<number, number> = {
+          0x6e: 0x0a,
+          0x72: 0x0d,
+          0x74: 0x09,
+          0x62: 0x08,
+          0x66: 0x0c,
+        };
+        if (escapes[next] !== undefined) {
+          out.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let code = next - 0x30;
+          for (
+            let digits = 1;
+            digits < 3 && data[position] >= 0x30 && data[position] <= 0x37;
+            digits += 1
+          ) {
+            code = code * 8 + data[position] - 0x30;
+            position += 1;
+          }
+          out.push(code & 0xff);
+        } else if (next === 0x0d) {
+          // A backslash before a line break continues the string.
+          if (data[position] === 0x0a) position += 1;
+        } else if (next !== 0x0a && next !== undefined) {
+          out.push(next);
+        }
+        continue;
+      }
+      out.push(byte);
+    }
+    return Buffer.from(out);
+  };
+
+  const readHex = () => {
+    const end = data.indexOf(0x3e, position);
+    const stop = end < 0 ? data.length : end;
+    const digits = data
+      .toString("latin1", position + 1, stop)
+      .replace(/[^0-9a-fA-F]/g, "");
+    position = stop + 1;
+    return Buffer.from(digits.length % 2 ? `${digits}0` : digits, "hex");
+  };
+
+  const readRegular = () => {
+    const begin = position;
+    while (
+      position < data.length &&
+      !WHITESPACE.has(data[position]) &&
+      !DELIMITERS.has(data[position])
+    ) {
+      position += 1;
+    }
+    return data.toString("latin1", begin, position);
+  };
+
+  const next = (): Token | null => {
+    skipWhitespace();
+    if (position >= data.length) return null;
+    const byte = data[position];
+    if (byte === 0x28) return { type: "string", value: readLiteral() };
+    if (byte === 0x3c) {
+      if (data[position + 1] === 0x3c) {
+        position += 2;
+        return { type: "keyword", value: "<<" };
+      }
+      return { type: "string", value: readHex() };
+    }
+    if (byte === 0x3e && data[position + 1] === 0x3e) {
+      position += 2;
+      return { type: "keyword", value: ">>" };
+    }
+    if (byte === 0x2f) {
+      position += 1;
+      return {
+        type: "name",
+        value: readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+      };
+    }
+    if (DELIMITERS.has(byte)) {
+      position += 1;
+      return { type: "keyword", value: String.fromCharCode(byte) };
+    }
+    const word = readRegular();
+    return NUMBER.test(word)
+      ? { type: "number", value: Number(word) }
+      : { type: "keyword", value: word };
+  };
+
+  return {
+    next,
+    tell: () => position,
+    seek: (offset: number) => {
+      position = offset;
+    },
+  };
+};
+
+type Lexer = ReturnType<typeof createLexer>;
+
+const isKeyword = (token: Token | null, value: string) =>
+  token?.type === "keyword" && token.value === value;
+
+/** Parses one value; bare keywords other than true/false/null are returned as names of operators. */
+const parseValue = (lexer: Lexer, token: Token | null): PdfValue | Token => {
+  if (!token) throw new Error("PDF object is truncated.");
+  if (token.type === "string") return token.value;
+  if (token.type === "name") return { kind: "name", name: token.value };
+  if (token.type === "number") {
+    // "12 0 R" is a reference; anything else leaves the lookahead unread.
+    const saved = lexer.tell();
+    const generation = lexer.next();
+    if (
+      generation?.type === "number" &&
+      Number.isInteger(token.value) &&
+      Number.isInteger(generation.value) &&
+      isKeyword(lexer.next(), "R")
+    ) {
+      return { kind: "ref", id: `${token.value} ${generation.value}` };
+    }
+    lexer.seek(saved);
+    return token.value;
+  }
+  switch (token.value) {
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "null":
+      return null;
+    case "[": {
+      const items: PdfValue[] = [];
+      for (
+        let item = lexer.next();
+        item && !isKeyword(item, "]");
+        item = lexer.next()
+      ) {
+        items.push(parseObject(lexer, item));
+      }
+      return items;
+    }
+    case "<<": {
+      const entries: Record<string, PdfValue> = {};
+      for (
+        let key = lexer.next();
+        key && !isKeyword(key, ">>");
+        key = lexer.next()
+      ) {
+        if (key.type !== "name") continue;
+        entries[key.value] = parseObject(lexer, lexer.next());
+      }
+      return { kind: "dict", entries };
+    }
+    default:
+      return token;
+  }
+};
+
+const isToken = (value: PdfValue | Token): value is Token =>
+  typeof value === "object" &&
+  value !== null &&
+  !Buffer.isBuffer(value) &&
+  !Array.isArray(value) &&
+  "type" in value;
+
+/** Parses a value where operators cannot appear; stray keywords read as null. */
+const parseObject = (lexer: Lexer, token: Token | null): PdfValue => {
+  const value = parseValue(lexer, token);
+  return isToken(value) ? null : value;
+};
+
+const decodeAscii85 = (data: Buffer) => {
+  const text = data.toString("latin1").replace(/\s/g, "");
+  const end = text.indexOf("~>");
+  const body = (end < 0 ? text : text.slice(0, end)).replace(/^<~/, "");
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    let value = 0;
+    for (let idx = 0; idx < 5; idx += 1)
+      value = value * 85 + (group[idx] ?? 84);
+    for (let idx = 0; idx < count; idx += 1) {
+      out.push((value >>> (24 - idx * 8)) & 0xff);
+    }
+    group = [];
+  };
+  for (const char of body) {
+    if (char === "z" && !group.length) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+  return Buffer.from(out);
+};
+
+/** Unicode for the glyph names that appear in font /Differences arrays. */
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ",
+  exclam: "!",
+  quotedbl: '"',
+  numbersign: "#",
+  dollar: "$",
+  percent: "%",
+  ampersand: "&",
+  quotesingle: "'",
+  parenleft: "(",
+  parenright: ")",
+  asterisk: "*",
+  plus: "+",
+  comma: ",",
+  hyphen: "-",
+  period: ".",
+  slash: "/",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+  colon: ":",
+  semicolon: ";",
+  less: "<",
+  equal: "=",
+  greater: ">",
+  question: "?",
+  at: "@",
+  bracketleft: "[",
+  backslash: "\\",
+  bracketright: "]",
+  asciicircum: "^",
+  underscore: "_",
+  grave: "`",
+  braceleft: "{",
+  bar: "|",
+  braceright: "}",
+  asciitilde: "~",
+  quoteleft: "‘",
+  quoteright: "’",
+  quotedblleft: "“",
+  quotedblright: "”",
+  quotesinglbase: "‚",
+  quotedblbase: "„",
+  endash: "–",
+  emdash: "—",
+  bullet: "•",
+  ellipsis: "…",
+  dagger: "†",
+  daggerdbl: "‡",
+  trademark: "™",
+  copyright: "©",
+  registered: "®",
+  degree: "°",
+  section: "§",
+  paragraph: "¶",
+  periodcentered: "·",
+  guillemotleft: "«",
+  guillemotright: "»",
+  minus: "−",
+  multiply: "×",
+  divide: "÷",
+  Euro: "€",
+  sterling: "£",
+  yen: "¥",
+  cent: "¢",
+  germandbls: "ß",
+  ae: "æ",
+  AE: "Æ",
+  oe: "œ",
+  OE: "Œ",
+  oslash: "ø",
+  Oslash: "Ø",
+  lslash: "ł",
+  Lslash: "Ł",
+  dotlessi: "ı",
+  fi: "fi",
+  fl: "fl",
+  ff: "ff",
+  ffi: "ffi",
+  ffl: "ffl",
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: "́",
+  grave: "̀",
+  circumflex: "̂",
+  dieresis: "̈",
+  tilde: "̃",
+  ring: "̊",
+  cedilla: "̧",
+  caron: "̌",
+};
+
+const glyphToUnicode = (glyph: string): string | undefined => {
+  const name = glyph.split(".")[0];
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni((?:[0-9A-F]{4})+)$/.exec(name);
+  if (uni) {
+    return String.fromCharCode(
+      ...uni[1].match(/.{4}/g)!.map((hex) => parseInt(hex, 16)),
+    );
+  }
+  const code = /^u([0-9A-F]{4,6})$/.exec(name);
+  if (code && parseInt(code[1], 16) <= 0x10ffff) {
+    return String.fromCodePoint(parseInt(code[1], 16));
+  }
+  const accented =
+    /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron)$/.exec(
+      name,
+    );
+  return accented
+    ? `${accented[1]}${ACCENTS[accented[2]]}`.normalize("NFC")
+    : undefined;
+};
+
+const byteTable = (label: string) => {
+  const decoder = new TextDecoder(label);
+  return Array.from({ length: 256 }, (_, byte) =>
+    decoder.decode(Uint8Array.of(byte)),
+  );
+};
+
+const WIN_ANSI = byteTable("windows-1252");
+const MAC_ROMAN = byteTable("macintosh");
+// StandardEncoding matches ASCII except for its curly single quotes.
+const STANDARD = WIN_ANSI.map((char, byte) =>
+  byte === 0x27 ? "’" : byte === 0x60 ? "‘" : char,
+);
+const BASE_ENCODINGS: Record<string, string[]> = {
+  WinAnsiEncoding: WIN_ANSI,
+  MacRomanEncoding: MAC_ROMAN,
+  StandardEncoding: STANDARD,
+};
+
+const utf16 = (hex: string) =>
+  new TextDecoder("utf-16be").decode(
+    Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex"),
+  );
+
+/** Reads the code-to-Unicode mappings of a ToUnicode CMap. */
+const parseCMap = (text: string) => {
+  const map = new Map<number, string>();
+  const space = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(text);
+  const firstCode = /beginbf(?:char|range)\s*<([0-9a-fA-F]+)>/.exec(text);
+  const codeLength = Math.max(
+    1,
+    Math.ceil((space?.[1] ?? firstCode?.[1] ?? "00").length / 2),
+  );
+
+  for (const [, body] of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of body.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g,
+    )) {
+      map.set(parseInt(source, 16), utf16(target));
+    }
+  }
+  for (const [, body] of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of body.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    )) {
+      const first = parseInt(low, 16);
+      const last = Math.min(parseInt(high, 16), first + MAX_CMAP_RANGE);
+      if (target.startsWith("[")) {
+        const targets = [...target.matchAll(/<([0-9a-fA-F]*)>/g)];
+        targets.forEach(([, hex], offset) => {
+          if (first + offset <= last) map.set(first + offset, utf16(hex));
+        });
+        continue;
+      }
+      // The last UTF-16 unit counts up through the range.
+      const start = utf16(target.slice(1, -1));
+      const prefix = start.slice(0, -1);
+      const unit = start.charCodeAt(start.length - 1);
+      for (let code = first; code <= last; code += 1) {
+        map.set(code, prefix + String.fromCharCode(unit + code - first));
+      }
+    }
+  }
+  return { map, codeLength };
+};
+
+const multiply = (a: Matrix, b: Matrix): Matrix => [
+  a[0] * b[0] + a[1] * b[2],
+  a[0] * b[1] + a[1] * b[3],
+  a[2] * b[0] + a[3] * b[2],
+  a[2] * b[1] + a[3] * b[3],
+  a[4] * b[0] + a[5] * b[2] + b[4],
+  a[4] * b[1] + a[5] * b[3] + b[5],
+];
+
+const translate = (matrix: Matrix, x: number, y: number) =>
+  multiply([1, 0, 0, 1, x, y], matrix);
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Groups shown strings into lines by their position: a vertical move or a
+ * jump back to the left starts a new line, and a horizontal gap wider than
+ * a fifth of the font size becomes a space.
+ */
+const createLineBuilder = () => {
+  const lines: string[] = [];
+  let current = "";
+  let lastY: number | null = null;
+  let lastEnd = 0;
+
+  const add = (
+    text: string,
+    x: number,
+    y: number,
+    end: number,
+    size: number,
+  ) => {
+    if (!text) return;
+    const height = Math.max(Math.abs(size), 1);
+    if (
+      lastY === null ||
+      Math.abs(y - lastY) > height / 2 ||
+      x < lastEnd - height * 2
+    ) {
+      if (lastY !== null) lines.push(current);
+      current = text;
+    } else {
+      if (
+        x - lastEnd > height / 5 &&
+        !/\s$/.test(current) &&
+        !/^\s/.test(text)
+      ) {
+        current += " ";
+      }
+      current += text;
+    }
+    lastY = y;
+    lastEnd = end;
+  };
+
+  const finish = () => {
+    if (lastY !== null) lines.push(current);
+    return lines
+      .map((line) =>
+        line
+          .replace(/[ﬀ-ﬆ]/g, (ligature) => ligature.normalize("NFKC"))
+          .replace(/\s+/g, " ")
+          .trim(),
+      )
+      .filter(Boolean);
+  };
+
+  return { add, finish };
+};
+
+/**
+ * Extracts the text of every page, in page order, as lines. Objects are
+ * found by scanning the file rather than trusting the cross-reference
+ * table, so damaged or incrementally updated files still read.
+ */
+export const extractPdfText = (
+  buffer: Buffer,
+): { pages: string[][]; warnings: string[] } => {
+  const text = buffer.toString("latin1");
+  const objects = new Map<string, PdfValue>();
+  const trailers: PdfDict[] = [];
+  const warnings = new Set<string>();
+  let inflateBudget = MAX_INFLATED_BYTES;
+
+  const header = /(\d+)\s+(\d+)\s+obj\b/g;
+  for (let match = header.exec(text); match; match = header.exec(text)) {
+    const lexer = createLexer(buffer, match.index + match[0].length);
+    const id = `${match[1]} ${match[2]}`;
+    let value: PdfValue;
+    try {
+      value = parseObject(lexer, lexer.next());
+    } catch {
+      continue;
+    }
+    const afterValue = lexer.tell();
+    if (!hasKind(value, "dict") || !isKeyword(lexer.next(), "stream")) {
+      objects.set(id, value);
+      header.lastIndex = afterValue;
+      continue;
+    }
+    let start = lexer.tell();
+    if (buffer[start] === 0x0d) start += 1;
+    if (buffer[start] === 0x0a) start += 1;
+    const length = value.entries.Length;
+    let end =
+      typeof length === "number" &&
+      /^\s*endstream/.test(text.slice(start + length, start + length + 20))
+        ? start + length
+        : text.indexOf("endstream", start);
+    if (end < 0) end = buffer.length;
+    else if (typeof length !== "number" || end !== start + length) {
+      while (
+        end > start &&
+        (buffer[end - 1] === 0x0a || buffer[end - 1] === 0x0d)
+      ) {
+        end -= 1;
+      }
+    }
+    objects.set(id, {
+      kind: "stream",
+      dict: value,
+      data: buffer.subarray(start, end),
+    });
+    header.lastIndex = end;
+  }
+  for (const match of text.matchAll(/trailer\s*<</g)) {
+    const lexer = createLexer(buffer, match.index! + match[0].length - 2);
+    const trailer = parseObject(lexer, lexer.next());
+    if (hasKind(trailer, "dict")) trailers.push(trailer);
+  }
+
+  const resolve = (value: PdfValue | undefined): PdfValue => {
+    let current = value ?? null;
+    for (let hops = 0; hasKind(current, "ref") && hops < 32; hops += 1) {
+      current = objects.get(current.id) ?? null;
+    }
+    return hasKind(current, "ref") ? null : current;
+  };
+
+  const inflate = (data: Buffer) => {
+    try {
+      const out = zlib.inflateSync(data, {
+        maxOutputLength: Math.max(1, inflateBudget),
+        finishFlush: zlib.constants.Z_SYNC_FLUSH,
+      });
+      inflateBudget -= out.length;
+      return out;
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error(
+          `PDF streams unpack to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB.`,
+        );
+      }
+      throw new Error("PDF stream could not be inflated.");
+    }
+  };
+
+  const decodeStream = (stream: PdfStream): Buffer => {
+    const filter = resolve(stream.dict.entries.Filter);
+    const filters = Array.isArray(filter) ? filter : [filter];
+    const parameters = resolve(stream.dict.entries.DecodeParms);
+    const predictor = [parameters]
+      .flat()
+      .map((entry) => resolve(entry))
+      .some(
+        (entry) =>
+          hasKind(entry, "dict") &&
+          numberOf(resolve(entry.entries.Predictor), 1) > 1,
+      );
+    if (predictor) throw new Error("PDF stream predictors are not supported.");
+    return filters.reduce<Buffer>((data, entry) => {
+      const name = nameOf(resolve(entry));
+      if (!name) return data;
+      if (name === "FlateDecode" || name === "Fl") return inflate(data);
+      if (name === "ASCIIHexDecode" || name === "AHx") {
+        const digits = data
+          .toString("latin1")
+          .replace(/>[\s\S]*$/, "")
+          .replace(/[^0-9a-fA-F]/g, "");
+        return Buffer.from(digits.length % 2 ? `${digits}0` : digits, "hex");
+      }
+      if (name === "ASCII85Decode" || name === "A85")
+        return decodeAscii85(data);
+      throw new Error(`PDF filter ${name} is not supported.`);
+    }, stream.data);
+  };
+
+  [...objects.values()].forEach((value) => {
+    if (
+      hasKind(value, "stream") &&
+      nameOf(value.dict.entries.Type) === "XRef"
+    ) {
+      trailers.push(value.dict);
+    }
+  });
+  if (trailers.some((trailer) => trailer.entries.Encrypt !== undefined)) {
+    throw new Error("Encrypted PDFs are not supported.");
+  }
+
+  // Compressed object streams hold further objects; direct objects win.
+  [...objects.values()].forEach((value) => {
+    if (
+      !hasKind(value, "stream") ||
+      nameOf(value.dict.entries.Type) !== "ObjStm"
+    ) {
+      return;
+    }
+    try {
+      const data = decodeStream(value);
+      const first = numberOf(resolve(value.dict.entries.First));
+      const lexer = createLexer(data);
+      const offsets: [number, number][] = [];
+      const count = numberOf(resolve(value.dict.entries.N));
+      for (let idx = 0; idx < count; idx += 1) {
+        const number = lexer.next();
+        const offset = lexer.next();
+        if (number?.type !== "number" || offset?.type !== "number") break;
+        offsets.push([number.value, offset.value]);
+      }
+      offsets.forEach(([number, offset]) => {
+        const id = `${number} 0`;
+        if (objects.has(id)) return;
+        const reader = createLexer(data, first + offset);
+        objects.set(id, parseObject(reader, reader.next()));
+      });
+    } catch (error) {
+      warnings.add(
+        error instanceof Error
+          ? error.message
+          : "A PDF object stream could not be read.",
+      );
+    }
+  });
+
+  const catalog =
+    trailers
+      .map((trailer) => resolve(trailer.entries.Root))
+      .reverse()
+      .find((root) => hasKind(root, "dict")) ??
+    [...objects.values()]
+      .reverse()
+      .find(
+        (value) =>
+          hasKind(value, "dict") && nameOf(value.entries.Type) === "Catalog",
+      );
+  if (!catalog || !hasKind(catalog, "dict")) {
+    throw new Error("PDF document catalog is missing.");
+  }
+
+  // Walk the page tree depth first; Resources are inherited from parents.
+  const pages: { page: PdfDict; resources: PdfValue }[] = [];
+  const visited = new Set<PdfValue>();
+  const walk = (node: PdfValue, inherited: PdfValue) => {
+    if (!hasKind(node, "dict") || visited.has(node)) return;
+    visited.add(node);
+    const resources = node.entries.Resources ?? inherited;
+    const kids = resolve(node.entries.Kids);
+    if (Array.isArray(kids)) {
+      kids.forEach((kid) => walk(resolve(kid), resources));
+    } else if (nameOf(node.entries.Type) !== "Pages") {
+      pages.push({ page: node, resources });
+    }
+  };
+  walk(resolve(catalog.entries.Pages), null);
+
+  const fonts = new Map<PdfValue, PdfFont>();
+  const loadFont = (value: PdfValue): PdfFont => {
+    const cached = fonts.get(value);
+    if (cached) return cached;
+    const font = hasKind(value, "dict") ? value.entries : {};
+    const composite = nameOf(resolve(font.Subtype)) === "Type0";
+
+    let unicode: ReturnType<typeof parseCMap> | undefined;
+    const toUnicode = resolve(font.ToUnicode);
+    if (hasKind(toUnicode, "stream")) {
+      try {
+        unicode = parseCMap(decodeStream(toUnicode).toString("latin1"));
+      } catch {
+        warnings.add("A PDF font's Unicode map could not be read.");
+      }
+    }
+
+    let base: string[] | undefined;
+    if (!composite) {
+      const encoding = resolve(font.Encoding);
+      const baseName = hasKind(encoding, "dict")
+        ? nameOf(resolve(encoding.entries.BaseEncoding))
+        : nameOf(encoding);
+      base = [...(BASE_ENCODINGS[baseName ?? ""] ?? STANDARD)];
+      const differences = hasKind(encoding, "dict")
+        ? resolve(encoding.entries.Differences)
+        : null;
+      if (Array.isArray(differences)) {
+        let code = 0;
+        differences.forEach((entry) => {
+          if (typeof entry === "number") {
+            code = entry;
+          } else if (hasKind(entry, "name")) {
+            const mapped = glyphToUnicode(entry.name);
+            if (mapped !== undefined && code < 256) base![code] = mapped;
+            code += 1;
+          }
+        });
+      }
+    }
+
+    const widths = new Map<number, number>();
+    let defaultWidth = DEFAULT_GLYPH_WIDTH;
+    if (composite) {
+      const descendants = resolve(font.DescendantFonts);
+      const descendant = resolve(
+        Array.isArray(descendants) ? descendants[0] : null,
+      );
+      if (hasKind(descendant, "dict")) {
+        defaultWidth = numberOf(resolve(descendant.entries.DW), 1000);
+        const list = resolve(descendant.entries.W);
+        // Entries are "first [w1 w2 …]" or "first last w".
+        for (let idx = 0; Array.isArray(list) && idx < list.length;) {
+          const first = numberOf(resolve(list[idx]));
+          const next = resolve(list[idx + 1]);
+          if (Array.isArray(next)) {
+            next.forEach((width, offset) =>
+              widths.set(first + offset, numberOf(resolve(width))),
+            );
+            idx += 2;
+          } else {
+            const last = Math.min(numberOf(next), first + MAX_CMAP_RANGE);
+            const width = numberOf(resolve(list[idx + 2]));
+            for (let code = first; code <= last; code += 1)
+              widths.set(code, width);
+            idx += 3;
+          }
+        }
+      }
+    } else {
+      const first = numberOf(resolve(font.FirstChar));
+      const list = resolve(font.Widths);
+      if (Array.isArray(list)) {
+        list.forEach((width, offset) =>
+          widths.set(first + offset, numberOf(resolve(width))),
+        );
+        const descriptor = resolve(font.FontDescriptor);
+        defaultWidth = hasKind(descriptor, "dict")
+          ? numberOf(resolve(descriptor.entries.MissingWidth))
+          : 0;
+      }
+    }
+
+    const loaded: PdfFont = {
+      codeLength: unicode?.codeLength ?? (composite ? 2 : 1),
+      decode: (code) => unicode?.map.get(code) ?? base?.[code],
+      width: (code) => widths.get(code) ?? defaultWidth,
+    };
+    fonts.set(value, loaded);
+    return loaded;
+  };
+
+  const dictionaryOf = (value: PdfValue, key: string) => {
+    const resources = resolve(value);
+    const entry = hasKind(resources, "dict")
+      ? resolve(resources.entries[key])
+      : null;
+    return hasKind(entry, "dict") ? entry.entries : {};
+  };
+
+  /** Runs a content stream, feeding shown text to the line builder. */
+  const runContent = (
+    content: Buffer,
+    resources: PdfValue,
+    lines: ReturnType<typeof createLineBuilder>,
+    depth: number,
+  ) => {
+    const fontResources = dictionaryOf(resources, "Font");
+    const xObjects = dictionaryOf(resources, "XObject");
+    const lexer = createLexer(content);
+    const operands: PdfValue[] = [];
+    let textMatrix = IDENTITY;
+    let lineMatrix = IDENTITY;
+    let font: PdfFont | undefined;
+    let fontSize = 0;
+    let charSpacing = 0;
+    let wordSpacing = 0;
+    let scale = 1;
+    let leading = 0;
+    let missing = false;
+
+    const moveLine = (x: number, y: number) => {
+      lineMatrix = translate(lineMatrix, x, y);
+      textMatrix = lineMatrix;
+    };
+
+    const show = (bytes: Buffer) => {
+      if (!font) return;
+      const [x, y] = [textMatrix[4], textMatrix[5]];
+      let shown = "";
+      for (
+        let at = 0;
+        at + font.codeLength <= bytes.length;
+        at += font.codeLength
+      ) {
+        let code = 0;
+        for (let idx = 0; idx < font.codeLength; idx += 1)
+          code = code * 256 + bytes[at + idx];
+        const char = font.decode(code);
+        if (char === undefined) missing = true;
+        else shown += char;
+        const spacing = font.codeLength === 1 && code === 32 ? wordSpacing : 0;
+        const advance =
+          ((font.width(code) / 1000) * fontSize + charSpacing + spacing) *
+          scale;
+        textMatrix = translate(textMatrix, advance, 0);
+      }
+      const size = fontSize * Math.hypot(textMatrix[2], textMatrix[3]);
+      lines.add(shown, x, y, textMatrix[4], size);
+    };
+
+    for (let token = lexer.next(); token; token = lexer.next()) {
+      const value = parseValue(lexer, token);
+      if (!isToken(value)) {
+        operands.push(value);
+        continue;
+      }
+      const operator = value.type === "keyword" ? value.value : "";
+      const number = (idx: number) => numberOf(operands[operands.length - idx]);
+      switch (operator) {
+        case "BT":
+          textMatrix = IDENTITY;
+          lineMatrix = IDENTITY;
+          break;
+        case "Tf": {
+          const fontName = nameOf(operands[operands.length - 2] ?? null);
+          font = fontName
+            ? loadFont(resolve(fontResources[fontName]))
+            : undefined;
+          fontSize = number(1);
+          break;
+        }
+        case "Tc":
+          charSpacing = number(1);
+          break;
+        case "Tw":
+          wordSpacing = number(1);
+          break;
+        case "Tz":
+          scale = number(1) / 100;
+          break;
+        case "TL":
+          leading = number(1);
+          break;
+        case "Td":
+          moveLine(number(2), number(1));
+          break;
+        case "TD":
+          leading = -number(1);
+          moveLine(number(2), number(1));
+          break;
+        case "Tm":
+          lineMatrix = [
+            number(6),
+            number(5),
+            number(4),
+            number(3),
+            number(2),
+            number(1),
+          ];
+          textMatrix = lineMatrix;
+          break;
+        case "T*":
+          moveLine(0, -leading);
+          break;
+        case "Tj":
+        case "'":
+        case '"': {
+          if (operator !== "Tj") moveLine(0, -leading);
+          if (operator === '"') {
+            wordSpacing = number(3);
+            charSpacing = number(2);
+          }
+          const bytes = operands[operands.length - 1];
+          if (Buffer.isBuffer(bytes)) show(bytes);
+          break;
+        }
+        case "TJ": {
+          const items = operands[operands.length - 1];
+          (Array.isArray(items) ? items : []).forEach((item) => {
+            if (Buffer.isBuffer(item)) show(item);
+            else if (typeof item === "number") {
+              textMatrix = translate(
+                textMatrix,
+                (-item / 1000) * fontSize * scale,
+                0,
+              );
+            }
+          });
+          break;
+        }
+        case "Do": {
+          const name = nameOf(operands[operands.length - 1] ?? null);
+          const xObject = name ? resolve(xObjects[name]) : null;
+          if (
+            depth < MAX_FORM_DEPTH &&
+            hasKind(xObject, "stream") &&
+            nameOf(xObject.dict.entries.Subtype) === "Form"
+          ) {
+            try {
+              runContent(
+                decodeStream(xObject),
+                xObject.dict.entries.Resources ?? resources,
+                lines,
+                depth + 1,
+              );
+            } catch (error) {
+              warnings.add(
+                error instanceof Error
+                  ? error.message
+                  : "A PDF form could not be read.",
+              );
+            }
+          }
+          break;
+        }
+        case "BI": {
+          // Skip inline image data, which ends at a whitespace-delimited "EI".
+          const data = content.toString("latin1", lexer.tell());
+          const end = /\sEI(?=[\s]|$)/.exec(data.slice(data.indexOf("ID") + 2));
+          lexer.seek(
+            end
+              ? lexer.tell() +
+                  data.indexOf("ID") +
+                  2 +
+                  end.index +
+                  end[0].length
+              : content.length,
+          );
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+    if (missing) {
+      warnings.add(
+        "Some PDF text uses fonts without a Unicode map and was left out.",
+      );
+    }
+  };
+
+  const pageLines = pages.map(({ page, resources }) => {
+    const lines = createLineBuilder();
+    const contents = resolve(page.entries.Contents);
+    const streams = (Array.isArray(contents) ? contents : [contents])
+      .map((entry) => resolve(entry))
+      .filter((entry): entry is PdfStream => hasKind(entry, "stream"));
+    try {
+      // Content may be split anywhere between streams, so they run as one.
+      const content = Buffer.concat(
+        streams.flatMap((stream) => [decodeStream(stream), Buffer.from("\n")]),
+      );
+      runContent(content, resources, lines, 0);
+    } catch (error) {
+      warnings.add(
+        error instanceof Error
+          ? error.message
+          : "A PDF page could not be read.",
+      );
+    }
+    return lines.finish();
+  });
+
+  return { pages: pageLines, warnings: [...warnings] };
+};
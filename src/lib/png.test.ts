@@ -0,0 +1,79 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, isPng, readPngInfo } from "./png";
+
+/** Builds a PNG from raw chunks; CRCs are left at zero, which the decoder ignores. */
+const buildPng = (chunks: [string, Buffer][]): Buffer =>
+  Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    ...chunks.map(([type, data]) => {
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(data.length, 0);
+      header.write(type, 4, "latin1");
+      return Buffer.concat([header, data, Buffer.alloc(4)]);
+    }),
+  ]);
+
+const ihdr = (
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+) => {
+  const data = Buffer.alloc(13);
+  data.writeUInt32BE(width, 0);
+  data.writeUInt32BE(height, 4);
+  data[8] = bitDepth;
+  data[9] = colorType;
+  return data;
+};
+
+describe("encodePng / decodePng", () => {
+  it("round-trips RGBA pixels", () => {
+    const data = Uint8Array.from([
+      255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40, 50, 60, 70,
+      80, 90, 100, 110, 120,
+    ]);
+    const png = encodePng({ width: 3, height: 2, data });
+
+    expect(isPng(png)).toBe(true);
+    expect(readPngInfo(png)).toEqual({
+      format: "png",
+      width: 3,
+      height: 2,
+      alpha: true,
+      animated: false,
+    });
+    expect(Array.from(decodePng(png).data)).toEqual(Array.from(data));
+  });
+});
+
+describe("decodePng", () => {
+  it("expands 1-bit grayscale and applies the transparent key", () => {
+    // Two rows of four pixels: 1010 and 0110, with black as transparent.
+    const rows = Buffer.from([0, 0b10100000, 0, 0b01100000]);
+    const png = buildPng([
+      ["IHDR", ihdr(4, 2, 1, 0)],
+      ["tRNS", Buffer.from([0, 0])],
+      ["IDAT", zlib.deflateSync(rows)],
+      ["IEND", Buffer.alloc(0)],
+    ]);
+    const { data } = decodePng(png);
+    const pixel = (idx: number) =>
+      Array.from(data.subarray(idx * 4, idx * 4 + 4));
+
+    expect(pixel(0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(1)).toEqual([0, 0, 0, 0]);
+    expect(pixel(5)).toEqual([255, 255, 255, 255]);
+    expect(readPngInfo(png).alpha).toBe(true);
+  });
+
+  it("rejects image data that inflates past the header's size", () => {
+    const png = buildPng([
+      ["IHDR", ihdr(1, 1, 8, 0)],
+      ["IDAT", zlib.deflateSync(Buffer.alloc(1000))],
+      ["IEND", Buffer.alloc(0)],
+    ]);
+    expect(() => decodePng(png)).toThrow(/could not be inflated/);
+  });
+});
@@ -0,0 +1,317 @@
+import zlib from "zlib";
+import type { Raster } from "./image";
+import { ImageInfo } from "./types";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+// Samples per pixel for each color type: gray, RGB, palette, gray+alpha, RGBA.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Adam7 passes as [x start, y start, x step, y step].
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+type PngChunk = { type: string; data: Buffer };
+
+type PngHeader = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+};
+
+export const isPng = (buffer: Buffer) =>
+  buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+
+/** Lists the chunks up to IEND; CRCs are not checked. */
+export const readPngChunks = (buffer: Buffer): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > buffer.length) {
+      throw new Error(`PNG chunk ${type} is truncated.`);
+    }
+    chunks.push({ type, data: buffer.subarray(offset + 8, end - 4) });
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return chunks;
+};
+
+const readHeader = (chunks: PngChunk[]): PngHeader => {
+  const ihdr = chunks[0];
+  if (ihdr?.type !== "IHDR" || ihdr.data.length < 13) {
+    throw new Error("PNG header is missing.");
+  }
+  const header = {
+    width: ihdr.data.readUInt32BE(0),
+    height: ihdr.data.readUInt32BE(4),
+    bitDepth: ihdr.data[8],
+    colorType: ihdr.data[9],
+    interlaced: ihdr.data[12] === 1,
+  };
+  if (
+    !CHANNELS[header.colorType] ||
+    ![1, 2, 4, 8, 16].includes(header.bitDepth)
+  ) {
+    throw new Error(
+      `Unsupported PNG color type ${header.colorType} at ${header.bitDepth} bits.`,
+    );
+  }
+  if (!header.width || !header.height) {
+    throw new Error("PNG image has no pixels.");
+  }
+  return header;
+};
+
+export const readPngInfo = (buffer: Buffer): ImageInfo => {
+  const chunks = readPngChunks(buffer);
+  const { width, height, colorType } = readHeader(chunks);
+  return {
+    format: "png",
+    width,
+    height,
+    alpha:
+      colorType === 4 ||
+      colorType === 6 ||
+      chunks.some((chunk) => chunk.type === "tRNS"),
+    animated: chunks.some((chunk) => chunk.type === "acTL"),
+  };
+};
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+/** Reverses the per-row filters of one (sub)image starting at `offset`. */
+const unfilter = (
+  data: Buffer,
+  offset: number,
+  stride: number,
+  rows: number,
+  bytesPerPixel: number,
+): Uint8Array => {
+  const out = new Uint8Array(stride * rows);
+  if (offset + (stride + 1) * rows > data.length) {
+    throw new Error("PNG image data is truncated.");
+  }
+  let position = offset;
+  for (let y = 0; y < rows; y += 1) {
+    const filter = data[position];
+    position += 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x += 1) {
+      const raw = data[position + x];
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y ? out[row - stride + x] : 0;
+      const upLeft =
+        y && x >= bytesPerPixel ? out[row - stride + x - bytesPerPixel] : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unknown PNG filter type ${filter}.`);
+      }
+      out[row + x] = value & 0xff;
+    }
+    position += stride;
+  }
+  return out;
+};
+
+/** Decodes a PNG (any color type, bit depth or interlacing) to RGBA. */
+export const decodePng = (buffer: Buffer): Raster => {
+  const chunks = readPngChunks(buffer);
+  const { width, height, bitDepth, colorType, interlaced } = readHeader(chunks);
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+  const passSizes = passes.map(([x0, y0, dx, dy]) => [
+    Math.ceil((width - x0) / dx),
+    Math.ceil((height - y0) / dy),
+  ]);
+  const expected = passSizes.reduce(
+    (total, [w, h]) =>
+      w && h ? total + (Math.ceil((w * bitsPerPixel) / 8) + 1) * h : total,
+    0,
+  );
+
+  let data: Buffer;
+  try {
+    data = zlib.inflateSync(
+      Buffer.concat(
+        chunks.filter((chunk) => chunk.type === "IDAT").map((c) => c.data),
+      ),
+      { maxOutputLength: expected },
+    );
+  } catch {
+    throw new Error("PNG image data could not be inflated.");
+  }
+
+  const palette = chunks.find((chunk) => chunk.type === "PLTE")?.data;
+  const transparency = chunks.find((chunk) => chunk.type === "tRNS")?.data;
+  if (colorType === 3 && !palette) {
+    throw new Error("PNG palette is missing.");
+  }
+  const maxSample = (1 << bitDepth) - 1;
+  const scale = (value: number) =>
+    bitDepth === 16
+      ? value >> 8
+      : bitDepth === 8
+        ? value
+        : Math.round((value * 255) / maxSample);
+  const transparentKey =
+    transparency &&
+    (colorType === 0 || colorType === 2) &&
+    transparency.length >= CHANNELS[colorType] * 2
+      ? [0, 2, 4]
+          .slice(0, CHANNELS[colorType])
+          .map((at) => transparency.readUInt16BE(at))
+      : undefined;
+
+  const pixels = new Uint8Array(width * height * 4);
+  let offset = 0;
+  passes.forEach(([x0, y0, dx, dy], pass) => {
+    const [passWidth, passHeight] = passSizes[pass];
+    if (!passWidth || !passHeight) return;
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const rows = unfilter(data, offset, stride, passHeight, bytesPerPixel);
+    offset += (stride + 1) * passHeight;
+
+    const sample = (row: number, index: number) => {
+      if (bitDepth === 8) return rows[row + index];
+      if (bitDepth === 16)
+        return (rows[row + index * 2] << 8) | rows[row + index * 2 + 1];
+      const bit = index * bitDepth;
+      return (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    };
+
+    for (let py = 0; py < passHeight; py += 1) {
+      const row = py * stride;
+      for (let px = 0; px < passWidth; px += 1) {
+        const target = ((y0 + py * dy) * width + x0 + px * dx) * 4;
+        const first = px * channels;
+        const value = sample(row, first);
+        let red: number;
+        let green: number;
+        let blue: number;
+        let alpha = 255;
+        if (colorType === 3) {
+          red = palette![value * 3] ?? 0;
+          green = palette![value * 3 + 1] ?? 0;
+          blue = palette![value * 3 + 2] ?? 0;
+          alpha = transparency?.[value] ?? 255;
+        } else if (channels <= 2) {
+          red = green = blue = scale(value);
+          if (channels === 2) alpha = scale(sample(row, first + 1));
+          else if (transparentKey?.[0] === value) alpha = 0;
+        } else {
+          const greenSample = sample(row, first + 1);
+          const blueSample = sample(row, first + 2);
+          red = scale(value);
+          green = scale(greenSample);
+          blue = scale(blueSample);
+          if (channels === 4) alpha = scale(sample(row, first + 3));
+          else if (
+            transparentKey?.[0] === value &&
+            transparentKey[1] === greenSample &&
+            transparentKey[2] === blueSample
+          ) {
+            alpha = 0;
+          }
+        }
+        pixels[target] = red;
+        pixels[target + 1] = green;
+        pixels[target + 2] = blue;
+        pixels[target + 3] = alpha;
+      }
+    }
+  });
+
+  return { width, height, data: pixels };
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, "latin1");
+  data.copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+};
+
+/** Encodes an RGBA raster as an 8-bit PNG, using the Up filter on every row. */
+export const encodePng = ({ width, height, data }: Raster): Buffer => {
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    const row = y * (stride + 1);
+    raw[row] = 2;
+    for (let x = 0; x < stride; x += 1) {
+      const value = data[y * stride + x];
+      raw[row + 1 + x] = y ? value - data[(y - 1) * stride + x] : value;
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+};
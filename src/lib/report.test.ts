@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { buildDescriptor, computeTextDiff } from "./diff";
+import { renderHtmlReport, renderMarkdownReport } from "./report";
+import { DiffResult } from "./types";
+
+const generatedAt = new Date("2024-05-01T12:00:00Z");
+
+const buildResult = (left: string, right: string): DiffResult => {
+  const diff = computeTextDiff(left, right);
+  return {
+    files: [
+      buildDescriptor({
+        name: "before.txt",
+        mime: "text/plain",
+        buffer: Buffer.from(left),
+        kind: "text",
+        encoding: "utf-8",
+        lineEnding: "lf",
+      }),
+      buildDescriptor({
+        name: "after.txt",
+        mime: "text/plain",
+        buffer: Buffer.from(right),
+        kind: "text",
+        encoding: "utf-8",
+        lineEnding: "lf",
+      }),
+    ],
+    summary: diff.summary,
+    textDiff: diff.lines,
+    warnings: ["Example warning"],
+  };
+};
+
+describe("renderHtmlReport", () => {
+  it("produces a standalone page with escaped content", () => {
+    const html = renderHtmlReport(
+      buildResult("<b>title</b>\nsame\n", "<b>heading</b>\nsame\n"),
+      { generatedAt },
+    );
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<link|<script|src=|href=/);
+    expect(html).toContain("2024-05-01T12:00:00.000Z");
+    expect(html).toContain("before.txt");
+    expect(html).toContain('<li class="warning">Example warning</li>');
+    expect(html).toContain("&lt;b&gt;");
+    expect(html).not.toContain("<b>title");
+    expect(html).toContain("<del>title</del>");
+    expect(html).toContain("<ins>heading</ins>");
+  });
+});
+
+describe("renderMarkdownReport", () => {
+  it("tabulates descriptors and summary and fences the diff", () => {
+    const markdown = renderMarkdownReport(
+      buildResult("a | b\nkeep\n", "a | c\nkeep\n"),
+      { generatedAt },
+    );
+
+    expect(markdown).toContain("| Name | before.txt | after.txt |");
+    expect(markdown).toContain("| Modified | 1 |");
+    expect(markdown).toContain("- Example warning");
+    expect(markdown).toContain("```diff\n-a | b\n+a | c\n keep\n```");
+  });
+
+  it("lengthens the fence when the diff contains backticks", () => {
+    const markdown = renderMarkdownReport(buildResult("```js\n", "```ts\n"), {
+      generatedAt,
+    });
+
+    expect(markdown).toContain("````diff\n-```js\n+```ts\n````");
+  });
+
+  it("escapes Markdown in file names, findings and warnings", () => {
+    const result = buildResult("a\n", "b\n");
+    result.files[0].name = "[x](javascript:alert(1)).txt";
+    result.findings = [
+      {
+        kind: "encoding",
+        message: "Encoding <img src=x> differs",
+        before: "utf-8",
+        after: "latin1",
+      },
+    ];
+    result.warnings = ["# *not* a heading\n| row |"];
+    const markdown = renderMarkdownReport(result, { generatedAt });
+
+    expect(markdown).toContain("\\[x\\](javascript:alert(1)).txt vs after.txt");
+    expect(markdown).toContain(
+      "| Name | \\[x\\](javascript:alert(1)).txt | after.txt |",
+    );
+    expect(markdown).toContain("- Encoding \\<img src=x\\> differs");
+    expect(markdown).toContain("- \\# \\*not\\* a heading \\| row \\|");
+  });
+});
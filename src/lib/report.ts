@@ -0,0 +1,446 @@
+import { describeLocator } from "./document";
+import {
+  DiffLine,
+  DiffResult,
+  DocumentInfo,
+  DocumentLocator,
+  FileDescriptor,
+  InlineSegment,
+  LineEnding,
+} from "./types";
+
+export type ReportFormat = "html" | "markdown";
+
+export const REPORT_FORMATS: ReportFormat[] = ["html", "markdown"];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  html: "text/html; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  html: "html",
+  markdown: "md",
+};
+
+export type ReportOptions = {
+  generatedAt?: Date;
+};
+
+const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  lf: "LF",
+  crlf: "CRLF",
+  cr: "CR",
+  mixed: "Mixed",
+  none: "None",
+};
+
+const formatBytes = (size: number) => {
+  if (size === 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const idx = Math.floor(Math.log(size) / Math.log(1024));
+  const value = size / 1024 ** idx;
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[idx]}`;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Keeps file names and messages on one line and backslash-escapes the
+ * characters Markdown would read as formatting, links or HTML.
+ */
+const escapeMarkdown = (value: string) =>
+  value
+    .replace(/\r?\n|\r/g, " ")
+    .replace(/[\\`*_[\]<>|~&]/g, "\\$&")
+    .replace(/^([#+=-])/, "\\$1")
+    .replace(/^(\d+)([.)])/, "$1\\$2");
+
+const verdict = (result: DiffResult) => {
+  const { summary } = result;
+  if (summary.identical) return "Identical";
+  const lineChanges =
+    summary.added + summary.removed + summary.modified + (summary.moved ?? 0);
+  const equivalent = Boolean(result.textDiff) && lineChanges === 0;
+  return equivalent ? "Equivalent" : "Different";
+};
+
+const describeDocument = ({ format, pages, paragraphs, sheets }: DocumentInfo) => {
+  const parts = [format.toUpperCase()];
+  if (pages !== undefined) parts.push(`${pages} pages`);
+  if (paragraphs !== undefined) parts.push(`${paragraphs} paragraphs`);
+  if (sheets) parts.push(`sheets ${sheets.join(", ")}`);
+  return parts.join(", ");
+};
+
+const descriptorRows = (file: FileDescriptor): [string, string][] => {
+  const rows: [string, string][] = [
+    ["Name", file.name],
+    ["Size", formatBytes(file.size)],
+    ["Type", `${file.mime} (${file.kind === "text" ? "text-like" : "binary"})`],
+  ];
+  if (file.encoding) {
+    rows.push(["Encoding", `${file.encoding}${file.bom ? " + BOM" : ""}`]);
+  }
+  if (file.lineEnding) {
+    rows.push(["Line endings", LINE_ENDING_LABELS[file.lineEnding]]);
+  }
+  if (file.finalNewline === false && file.size > 0) {
+    rows.push(["Final newline", "Missing"]);
+  }
+  if (file.metadata) {
+    const { camera, software, created, colorProfile, location } =
+      file.metadata;
+    if (camera) rows.push(["Camera", camera]);
+    if (software) rows.push(["Software", software]);
+    if (created) rows.push(["Created", created]);
+    if (colorProfile) rows.push(["Color profile", colorProfile]);
+    if (location) rows.push(["Location", "GPS coordinates embedded"]);
+  }
+  if (file.document) rows.push(["Document", describeDocument(file.document)]);
+  rows.push(["SHA-256", file.hash]);
+  return rows;
+};
+
+const summaryRows = (result: DiffResult): [string, string][] => {
+  const { summary } = result;
+  const rows: [string, string][] = [
+    ["Verdict", verdict(result)],
+    ["Total lines", String(summary.totalLines)],
+    ["Added", String(summary.added)],
+    ["Removed", String(summary.removed)],
+    ["Modified", String(summary.modified)],
+  ];
+  if (summary.moved) rows.push(["Moved", String(summary.moved)]);
+  if (summary.ignored) rows.push(["Ignored", String(summary.ignored)]);
+  rows.push(["Similarity", `${Math.max(0, 100 - summary.changePercent)}%`]);
+  return rows;
+};
+
+const notes = (result: DiffResult): string[] => {
+  const lines: string[] = [];
+  if (result.binaryDiff) {
+    lines.push(
+      `Byte-level comparison: ${result.binaryDiff.changedBytes} changed bytes, ${result.binaryDiff.similarity}% similar.`,
+    );
+  }
+  if (result.imageDiff) {
+    const { images, changedPixels, totalPixels, similarity } =
+      result.imageDiff;
+    lines.push(
+      `Images: ${images
+        .map((info) => `${info.format.toUpperCase()} ${info.width}×${info.height}`)
+        .join(" vs ")}${
+        changedPixels === undefined
+          ? "."
+          : `, ${changedPixels} of ${totalPixels} pixels changed, ${similarity}% structurally similar.`
+      }`,
+    );
+  }
+  if (result.metadataDiff) {
+    const { added, removed, changed } = result.metadataDiff;
+    lines.push(
+      `Metadata: ${added} added, ${removed} removed, ${changed} changed fields.`,
+    );
+  }
+  if (result.structuredDiff) {
+    const { format, added, removed, changed } = result.structuredDiff;
+    lines.push(
+      `${format.toUpperCase()} structure: ${added} added, ${removed} removed, ${changed} changed values.`,
+    );
+  }
+  if (result.tabularDiff) {
+    const { added, removed, changed } = result.tabularDiff;
+    lines.push(
+      `Table rows: ${added} added, ${removed} removed, ${changed} changed.`,
+    );
+  }
+  return lines;
+};
+
+const REPORT_STYLES = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #0f2f2c; margin: 2rem; }
+h1 { font-size: 1.6rem; margin: 0 0 0.25rem; }
+h2 { font-size: 1.1rem; margin: 1.75rem 0 0.5rem; border-bottom: 1px solid #b8ddd6; padding-bottom: 0.25rem; }
+.meta { color: #4b6e69; font-size: 0.85rem; }
+.files { display: flex; gap: 1rem; flex-wrap: wrap; }
+.files table { flex: 1 1 20rem; }
+table { border-collapse: collapse; font-size: 0.85rem; }
+th, td { text-align: left; padding: 0.25rem 0.6rem; border: 1px solid #d3e8e4; vertical-align: top; }
+th { background: #eef7f5; font-weight: 600; }
+.hash { font-family: ui-monospace, Menlo, monospace; word-break: break-all; }
+ul { margin: 0.25rem 0; padding-left: 1.25rem; font-size: 0.9rem; }
+.warning { color: #8a5a00; }
+.diff { width: 100%; font-family: ui-monospace, Menlo, monospace; font-size: 0.8rem; }
+.diff td { border: none; padding: 0 0.5rem; white-space: pre-wrap; word-break: break-all; }
+.diff td.num { color: #7a9a95; text-align: right; width: 3.5rem; white-space: nowrap; user-select: none; }
+.diff td.sign { width: 1rem; color: #4b6e69; }
+.diff tr.added { background: #e3f8ec; }
+.diff tr.removed { background: #fde8ea; }
+.diff tr.modified { background: #fff6df; }
+.diff tr.moved { background: #e4f3fa; }
+.diff .move { color: #4b7f99; font-style: italic; }
+.diff tr.ignored { color: #6b8fa8; font-style: italic; }
+ins { background: #b9efcd; text-decoration: none; }
+del { background: #f8c3c9; }
+@media print {
+  body { margin: 0; }
+  .diff tr { break-inside: avoid; }
+  tr.added, tr.removed, tr.modified, tr.moved, ins, del { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`.trim();
+
+const htmlTable = (rows: [string, string][], caption?: string) =>
+  [
+    "<table>",
+    caption ? `<caption>${escapeHtml(caption)}</caption>` : "",
+    ...rows.map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td${label === "SHA-256" ? ' class="hash"' : ""}>${escapeHtml(value)}</td></tr>`,
+    ),
+    "</table>",
+  ].join("");
+
+const htmlSegments = (segments: InlineSegment[], side: "before" | "after") =>
+  segments
+    .filter((segment) =>
+      side === "before"
+        ? segment.type !== "inserted"
+        : segment.type !== "deleted",
+    )
+    .map((segment) => {
+      const text = escapeHtml(segment.value);
+      if (segment.type === "inserted") return `<ins>${text}</ins>`;
+      if (segment.type === "deleted") return `<del>${text}</del>`;
+      return text;
+    })
+    .join("");
+
+// Document lines show where they came from instead of a line number.
+const lineLabel = (number: number | null, locator?: DocumentLocator) =>
+  locator ? escapeHtml(describeLocator(locator)) : (number ?? "");
+
+const htmlDiffRow = (
+  line: DiffLine,
+  sign: string,
+  type: string,
+  content: string,
+) =>
+  `<tr class="${type}${line.ignored ? " ignored" : ""}"><td class="num">${lineLabel(line.oldNumber, line.oldLocator)}</td><td class="num">${lineLabel(line.newNumber, line.newLocator)}</td><td class="sign">${sign}</td><td>${content}</td></tr>`;
+
+const moveLabel = ({ move }: DiffLine) =>
+  move?.side === "source"
+    ? `moved to line ${move.newNumber}`
+    : `moved from line ${move?.oldNumber}`;
+
+const htmlDiffLines = (line: DiffLine): string[] => {
+  switch (line.type) {
+    case "added":
+      return [htmlDiffRow(line, "+", "added", escapeHtml(line.after ?? ""))];
+    case "removed":
+      return [htmlDiffRow(line, "-", "removed", escapeHtml(line.before ?? ""))];
+    case "modified":
+      return [
+        htmlDiffRow(
+          { ...line, newNumber: null, newLocator: undefined },
+          "-",
+          "modified",
+          line.segments
+            ? htmlSegments(line.segments, "before")
+            : escapeHtml(line.before ?? ""),
+        ),
+        htmlDiffRow(
+          { ...line, oldNumber: null, oldLocator: undefined },
+          "+",
+          "modified",
+          line.segments
+            ? htmlSegments(line.segments, "after")
+            : escapeHtml(line.after ?? ""),
+        ),
+      ];
+    case "moved":
+      return [
+        htmlDiffRow(
+          line,
+          line.move?.side === "source" ? "-" : "+",
+          "moved",
+          `${escapeHtml(line.before ?? line.after ?? "")} <span class="move">${moveLabel(line)}</span>`,
+        ),
+      ];
+    default:
+      return [
+        htmlDiffRow(line, "", "unchanged", escapeHtml(line.before ?? "")),
+      ];
+  }
+};
+
+const reportTitle = (result: DiffResult) =>
+  `${result.files[0].name} vs ${result.files[1].name}`;
+
+/**
+ * Renders a comparison as a single HTML page with its styles inlined, so the
+ * file can be archived, emailed or printed without the app.
+ */
+export const renderHtmlReport = (
+  result: DiffResult,
+  options: ReportOptions = {},
+): string => {
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString();
+  const sections: string[] = [
+    `<h1>MintDiff report</h1>`,
+    `<p class="meta">${escapeHtml(reportTitle(result))} · generated ${generatedAt}</p>`,
+    `<h2>Files</h2>`,
+    `<div class="files">${result.files
+      .map((file, idx) =>
+        htmlTable(descriptorRows(file), idx === 0 ? "Original" : "Comparison"),
+      )
+      .join("")}</div>`,
+    `<h2>Summary</h2>`,
+    htmlTable(summaryRows(result)),
+  ];
+
+  const details = [
+    ...(result.findings ?? []).map((finding) => finding.message),
+    ...notes(result),
+  ];
+  if (details.length) {
+    sections.push(
+      `<ul>${details.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`,
+    );
+  }
+  if (result.warnings?.length) {
+    sections.push(
+      `<h2>Warnings</h2>`,
+      `<ul>${result.warnings
+        .map((warning) => `<li class="warning">${escapeHtml(warning)}</li>`)
+        .join("")}</ul>`,
+    );
+  }
+  if (result.textDiff) {
+    sections.push(
+      `<h2>Text diff</h2>`,
+      `<table class="diff">${result.textDiff.flatMap(htmlDiffLines).join("\n")}</table>`,
+    );
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>MintDiff report: ${escapeHtml(reportTitle(result))}</title>`,
+    `<style>\n${REPORT_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    ...sections,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+};
+
+const markdownTable = (headers: string[], rows: string[][]) =>
+  [
+    `| ${headers.map(escapeMarkdown).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeMarkdown).join(" | ")} |`),
+  ].join("\n");
+
+const markdownDiffLines = (line: DiffLine): string[] => {
+  switch (line.type) {
+    case "added":
+      return [`+${line.after ?? ""}`];
+    case "removed":
+      return [`-${line.before ?? ""}`];
+    case "modified":
+      return [`-${line.before ?? ""}`, `+${line.after ?? ""}`];
+    case "moved":
+      return line.move?.side === "source"
+        ? [`-${line.before ?? ""}`]
+        : [`+${line.after ?? ""}`];
+    default:
+      return [` ${line.before ?? ""}`];
+  }
+};
+
+/** Picks a code fence longer than any backtick run inside the diff. */
+const fenceFor = (body: string) => {
+  const longest = Math.max(
+    0,
+    ...(body.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  return "`".repeat(Math.max(3, longest + 1));
+};
+
+export const renderMarkdownReport = (
+  result: DiffResult,
+  options: ReportOptions = {},
+): string => {
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString();
+  const [left, right] = result.files;
+  const leftRows = descriptorRows(left);
+  const rightRows = descriptorRows(right);
+  const labels = [
+    ...new Set([...leftRows, ...rightRows].map(([label]) => label)),
+  ];
+  const valueOf = (rows: [string, string][], label: string) =>
+    rows.find(([name]) => name === label)?.[1] ?? "";
+
+  const sections: string[] = [
+    "# MintDiff report",
+    `${escapeMarkdown(reportTitle(result))} · generated ${generatedAt}`,
+    "## Files",
+    markdownTable(
+      ["", "Original", "Comparison"],
+      labels.map((label) => [
+        label,
+        valueOf(leftRows, label),
+        valueOf(rightRows, label),
+      ]),
+    ),
+    "## Summary",
+    markdownTable(
+      ["Metric", "Value"],
+      summaryRows(result).map(([label, value]) => [label, value]),
+    ),
+  ];
+
+  const details = [
+    ...(result.findings ?? []).map((finding) => finding.message),
+    ...notes(result),
+  ];
+  if (details.length) {
+    sections.push(
+      details.map((item) => `- ${escapeMarkdown(item)}`).join("\n"),
+    );
+  }
+  if (result.warnings?.length) {
+    sections.push(
+      "## Warnings",
+      result.warnings
+        .map((warning) => `- ${escapeMarkdown(warning)}`)
+        .join("\n"),
+    );
+  }
+  if (result.textDiff) {
+    const body = result.textDiff.flatMap(markdownDiffLines).join("\n");
+    const fence = fenceFor(body);
+    sections.push("## Text diff", `${fence}diff\n${body}\n${fence}`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+export const renderReport = (
+  result: DiffResult,
+  format: ReportFormat,
+  options: ReportOptions = {},
+): string =>
+  format === "html"
+    ? renderHtmlReport(result, options)
+    : renderMarkdownReport(result, options);
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffHistogram,
+  diffPatience,
+  MAX_EDIT_COST,
+  SequenceRun,
+} from "./sequence";
+
+/** Replays the runs, returning both sides as they were read. */
+const replay = (runs: SequenceRun[], left: number[], right: number[]) => {
+  const before: number[] = [];
+  const after: number[] = [];
+  let leftAt = 0;
+  let rightAt = 0;
+  runs.forEach(({ type, count }) => {
+    if (type !== "added") {
+      before.push(...left.slice(leftAt, leftAt + count));
+      leftAt += count;
+    }
+    if (type !== "removed") {
+      after.push(...right.slice(rightAt, rightAt + count));
+      rightAt += count;
+    }
+    if (type === "equal") {
+      expect(left.slice(leftAt - count, leftAt)).toEqual(
+        right.slice(rightAt - count, rightAt),
+      );
+    }
+  });
+  return { before, after };
+};
+
+const cost = (runs: SequenceRun[]) =>
+  runs
+    .filter((run) => run.type !== "equal")
+    .reduce((total, run) => total + run.count, 0);
+
+describe("diffPatience", () => {
+  it("reports edits as runs with removals before additions", () => {
+    expect(diffPatience([1, 2, 3, 4, 5], [1, 9, 3, 4, 6, 7, 5])).toEqual([
+      { type: "equal", count: 1 },
+      { type: "removed", count: 1 },
+      { type: "added", count: 1 },
+      { type: "equal", count: 2 },
+      { type: "added", count: 2 },
+      { type: "equal", count: 1 },
+    ]);
+    expect(diffPatience([], [1, 2])).toEqual([{ type: "added", count: 2 }]);
+    expect(diffPatience([1, 1], [1, 1])).toEqual([{ type: "equal", count: 2 }]);
+  });
+
+  it("finds a shortest edit script between repeated lines", () => {
+    // Pseudo-random inputs from a tiny alphabet, so no line is unique.
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % 3;
+    };
+    for (let round = 0; round < 50; round += 1) {
+      const left = Array.from({ length: 12 + (round % 7) }, random);
+      const right = Array.from({ length: 9 + (round % 5) }, random);
+      const runs = diffPatience(left, right);
+      expect(replay(runs, left, right)).toEqual({ before: left, after: right });
+
+      // Longest common subsequence by dynamic programming.
+      const lcs = left.reduce(
+        (row, value) => {
+          const next = [0];
+          right.forEach((other, j) =>
+            next.push(
+              value === other ? row[j] + 1 : Math.max(row[j + 1], next[j]),
+            ),
+          );
+          return next;
+        },
+        new Array<number>(right.length + 1).fill(0),
+      )[right.length];
+      expect(cost(runs)).toBe(left.length + right.length - 2 * lcs);
+    }
+  });
+
+  it("anchors on unique lines and replaces regions that cost too much", () => {
+    const size = MAX_EDIT_COST * 3;
+    const left = Array.from({ length: size }, (_, idx) => idx * 2);
+    const right = [...left];
+    right[10] = -1;
+    right.splice(size - 5, 0, -2, -3);
+    expect(cost(diffPatience(left, right))).toBe(4);
+
+    // Nothing in common and no anchors: one replacement.
+    const other = left.map((value) => value + 1);
+    expect(diffPatience(left, other)).toEqual([
+      { type: "removed", count: size },
+      { type: "added", count: size },
+    ]);
+  });
+});
+
+describe("diffHistogram", () => {
+  it("reports an inserted copy of a repeated block as one run", () => {
+    // 7 and 8 repeat like braces around the inserted 9.
+    const left = [1, 7, 8, 7, 3, 7, 8, 7, 2];
+    const right = [1, 7, 8, 7, 9, 7, 8, 7, 3, 7, 8, 7, 2];
+    const runs = diffHistogram(left, right);
+    expect(runs).toEqual([
+      { type: "equal", count: 4 },
+      { type: "added", count: 4 },
+      { type: "equal", count: 5 },
+    ]);
+
+    let seed = 11;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % 5;
+    };
+    for (let round = 0; round < 50; round += 1) {
+      const before = Array.from({ length: 10 + (round % 9) }, random);
+      const after = Array.from({ length: 8 + (round % 6) }, random);
+      expect(replay(diffHistogram(before, after), before, after)).toEqual({
+        before,
+        after,
+      });
+    }
+  });
+});
@@ -0,0 +1,460 @@
+// Edit cost at which a region is given up on and reported as replaced.
+export const MAX_EDIT_COST = 2048;
+
+export type SequenceRunType = "equal" | "removed" | "added";
+
+export type SequenceRun = {
+  type: SequenceRunType;
+  count: number;
+};
+
+/**
+ * Collects runs in order, merging neighbours of the same type. Within a
+ * stretch of changes, removals are always reported before additions.
+ */
+const createRunList = () => {
+  const runs: SequenceRun[] = [];
+  let removed = 0;
+  let added = 0;
+
+  const flushChanges = () => {
+    if (removed) runs.push({ type: "removed", count: removed });
+    if (added) runs.push({ type: "added", count: added });
+    removed = 0;
+    added = 0;
+  };
+
+  const push = (type: SequenceRunType, count: number) => {
+    if (!count) return;
+    if (type === "removed") {
+      removed += count;
+    } else if (type === "added") {
+      added += count;
+    } else {
+      flushChanges();
+      const last = runs[runs.length - 1];
+      if (last?.type === "equal") last.count += count;
+      else runs.push({ type, count });
+    }
+  };
+
+  return {
+    push,
+    finish: () => {
+      flushChanges();
+      return runs;
+    },
+  };
+};
+
+type RunList = ReturnType<typeof createRunList>;
+
+/**
+ * Finds where the forward and reverse Myers searches meet (the middle
+ * snake), in O(cost²) time and O(cost) space. Returns null when the two
+ * ranges need more than MAX_EDIT_COST edits.
+ */
+const bisect = (
+  left: ArrayLike<number>,
+  leftStart: number,
+  leftEnd: number,
+  right: ArrayLike<number>,
+  rightStart: number,
+  rightEnd: number,
+): [number, number] | null => {
+  const n = leftEnd - leftStart;
+  const m = rightEnd - rightStart;
+  const limit = Math.min(Math.ceil((n + m) / 2), MAX_EDIT_COST);
+  const offset = limit + 1;
+  const size = 2 * limit + 2;
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet on a forward step.
+  const meetForward = delta % 2 !== 0;
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let reverseStart = 0;
+  let reverseEnd = 0;
+
+  for (let d = 0; d < limit; d += 1) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const at = offset + k;
+      let x =
+        k === -d || (k !== d && forward[at - 1] < forward[at + 1])
+          ? forward[at + 1]
+          : forward[at - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && left[leftStart + x] === right[rightStart + y]) {
+        x += 1;
+        y += 1;
+      }
+      forward[at] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (meetForward) {
+        const mirror = offset + delta - k;
+        if (mirror >= 0 && mirror < size && reverse[mirror] !== -1) {
+          if (x >= n - reverse[mirror]) return [x, y];
+        }
+      }
+    }
+
+    for (let k = -d + reverseStart; k <= d - reverseEnd; k += 2) {
+      const at = offset + k;
+      let x =
+        k === -d || (k !== d && reverse[at - 1] < reverse[at + 1])
+          ? reverse[at + 1]
+          : reverse[at - 1] + 1;
+      let y = x - k;
+      while (
+        x < n &&
+        y < m &&
+        left[leftEnd - x - 1] === right[rightEnd - y - 1]
+      ) {
+        x += 1;
+        y += 1;
+      }
+      reverse[at] = x;
+      if (x > n) {
+        reverseEnd += 2;
+      } else if (y > m) {
+        reverseStart += 2;
+      } else if (!meetForward) {
+        const mirror = offset + delta - k;
+        if (mirror >= 0 && mirror < size && forward[mirror] !== -1) {
+          const forwardX = forward[mirror];
+          if (forwardX >= n - x) return [forwardX, offset + forwardX - mirror];
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/** Linear-space Myers diff of one region, splitting on the middle snake. */
+const diffRegion = (
+  left: ArrayLike<number>,
+  leftStart: number,
+  leftEnd: number,
+  right: ArrayLike<number>,
+  rightStart: number,
+  rightEnd: number,
+  runs: RunList,
+) => {
+  let prefix = 0;
+  while (
+    leftStart + prefix < leftEnd &&
+    rightStart + prefix < rightEnd &&
+    left[leftStart + prefix] === right[rightStart + prefix]
+  ) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    leftEnd - suffix > leftStart + prefix &&
+    rightEnd - suffix > rightStart + prefix &&
+    left[leftEnd - suffix - 1] === right[rightEnd - suffix - 1]
+  ) {
+    suffix += 1;
+  }
+  const from = [leftStart + prefix, rightStart + prefix];
+  const to = [leftEnd - suffix, rightEnd - suffix];
+  runs.push("equal", prefix);
+
+  const split =
+    from[0] < to[0] && from[1] < to[1]
+      ? bisect(left, from[0], to[0], right, from[1], to[1])
+      : null;
+  if (split) {
+    const [x, y] = split;
+    diffRegion(left, from[0], from[0] + x, right, from[1], from[1] + y, runs);
+    diffRegion(left, from[0] + x, to[0], right, from[1] + y, to[1], runs);
+  } else {
+    runs.push("removed", to[0] - from[0]);
+    runs.push("added", to[1] - from[1]);
+  }
+  runs.push("equal", suffix);
+};
+
+// Lines repeated more often than this are never used as histogram anchors.
+const MAX_HISTOGRAM_CHAIN = 64;
+
+export type SequenceDiff = (
+  left: ArrayLike<number>,
+  right: ArrayLike<number>,
+) => SequenceRun[];
+
+// A matched block: left index, right index and length.
+type Anchor = [number, number, number];
+
+type FindAnchors = (
+  left: ArrayLike<number>,
+  leftStart: number,
+  leftEnd: number,
+  right: ArrayLike<number>,
+  rightStart: number,
+  rightEnd: number,
+) => Anchor[];
+
+/**
+ * Pairs the lines that occur exactly once on each side of a region and
+ * keeps the longest run of pairs that appear in the same order (patience
+ * sorting).
+ */
+const uniqueAnchors: FindAnchors = (
+  left,
+  leftStart,
+  leftEnd,
+  right,
+  rightStart,
+  rightEnd,
+) => {
+  const positions = (values: ArrayLike<number>, start: number, end: number) => {
+    const seen = new Map<number, number>();
+    for (let idx = start; idx < end; idx += 1) {
+      seen.set(values[idx], seen.has(values[idx]) ? -1 : idx);
+    }
+    return seen;
+  };
+  const leftPositions = positions(left, leftStart, leftEnd);
+  const rightPositions = positions(right, rightStart, rightEnd);
+  const pairs: [number, number][] = [];
+  for (let idx = rightStart; idx < rightEnd; idx += 1) {
+    const leftIdx = leftPositions.get(right[idx]) ?? -1;
+    if (leftIdx >= 0 && rightPositions.get(right[idx]) === idx) {
+      pairs.push([leftIdx, idx]);
+    }
+  }
+
+  // tails[len] is the pair ending the best increasing run of length len + 1.
+  const tails: number[] = [];
+  const previous = new Int32Array(pairs.length);
+  pairs.forEach(([leftIdx], idx) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[tails[middle]][0] < leftIdx) low = middle + 1;
+      else high = middle;
+    }
+    previous[idx] = low ? tails[low - 1] : -1;
+    tails[low] = idx;
+  });
+  const anchors: Anchor[] = [];
+  for (
+    let idx = tails.length ? tails[tails.length - 1] : -1;
+    idx >= 0;
+    idx = previous[idx]
+  ) {
+    anchors.push([...pairs[idx], 1]);
+  }
+  return anchors.reverse();
+};
+
+/**
+ * Picks the common block whose rarest line occurs least often on the left
+ * (longest block on ties), as git's histogram diff does. Lines repeated
+ * more than MAX_HISTOGRAM_CHAIN times are not considered.
+ */
+const histogramAnchor: FindAnchors = (
+  left,
+  leftStart,
+  leftEnd,
+  right,
+  rightStart,
+  rightEnd,
+) => {
+  const occurrences = new Map<number, number[]>();
+  for (let idx = leftStart; idx < leftEnd; idx += 1) {
+    const found = occurrences.get(left[idx]);
+    if (found) found.push(idx);
+    else occurrences.set(left[idx], [idx]);
+  }
+
+  let best: Anchor | null = null;
+  let bestCount = MAX_HISTOGRAM_CHAIN;
+  for (let rightIdx = rightStart; rightIdx < rightEnd;) {
+    const found = occurrences.get(right[rightIdx]);
+    let next = rightIdx + 1;
+    if (found && found.length <= bestCount) {
+      for (const leftIdx of found) {
+        let before = 0;
+        while (
+          leftIdx - before > leftStart &&
+          rightIdx - before > rightStart &&
+          left[leftIdx - before - 1] === right[rightIdx - before - 1]
+        ) {
+          before += 1;
+        }
+        let after = 1;
+        let count = found.length;
+        while (
+          leftIdx + after < leftEnd &&
+          rightIdx + after < rightEnd &&
+          left[leftIdx + after] === right[rightIdx + after]
+        ) {
+          count = Math.min(
+            count,
+            occurrences.get(left[leftIdx + after])!.length,
+          );
+          after += 1;
+        }
+        for (let back = 1; back <= before; back += 1) {
+          count = Math.min(
+            count,
+            occurrences.get(left[leftIdx - back])!.length,
+          );
+        }
+        const length = before + after;
+        if (
+          count < bestCount ||
+          (count === bestCount && length > (best?.[2] ?? 0))
+        ) {
+          best = [leftIdx - before, rightIdx - before, length];
+          bestCount = count;
+        }
+        // Later starts inside this block would only find parts of it.
+        next = Math.max(next, rightIdx + after);
+      }
+    }
+    rightIdx = next;
+  }
+  return best ? [best] : [];
+};
+
+/**
+ * Slides every block that only removes or only adds lines as far down as
+ * the equal lines after it allow, so an inserted function starts at its
+ * signature instead of at the closing brace of the one before it.
+ */
+const slideDown = (
+  runs: SequenceRun[],
+  left: ArrayLike<number>,
+  right: ArrayLike<number>,
+): SequenceRun[] => {
+  const slid = createRunList();
+  const pending = runs.map((run) => ({ ...run }));
+  let leftAt = 0;
+  let rightAt = 0;
+  pending.forEach((run, idx) => {
+    const next = pending[idx + 1];
+    if (
+      run.type !== "equal" &&
+      next?.type === "equal" &&
+      pending[idx - 1]?.type !== "removed"
+    ) {
+      const lines = run.type === "removed" ? left : right;
+      const start = run.type === "removed" ? leftAt : rightAt;
+      let shift = 0;
+      while (
+        shift < next.count &&
+        lines[start + shift] === lines[start + shift + run.count]
+      ) {
+        shift += 1;
+      }
+      slid.push("equal", shift);
+      next.count -= shift;
+      leftAt += shift;
+      rightAt += shift;
+    }
+    slid.push(run.type, run.count);
+    if (run.type !== "added") leftAt += run.count;
+    if (run.type !== "removed") rightAt += run.count;
+  });
+  return slid.finish();
+};
+
+type Task =
+  | { type: "equal"; count: number }
+  | { type: "region"; bounds: [number, number, number, number] };
+
+/**
+ * Splits regions on the anchors `findAnchors` picks until none are left,
+ * then diffs what remains with linear-space Myers. Works from an explicit
+ * stack so long inputs cannot overflow the call stack.
+ */
+const diffAnchored = (
+  left: ArrayLike<number>,
+  right: ArrayLike<number>,
+  findAnchors: FindAnchors,
+): SequenceRun[] => {
+  const runs = createRunList();
+  const stack: Task[] = [
+    { type: "region", bounds: [0, left.length, 0, right.length] },
+  ];
+  while (stack.length) {
+    const task = stack.pop()!;
+    if (task.type === "equal") {
+      runs.push("equal", task.count);
+      continue;
+    }
+    let [leftStart, leftEnd, rightStart, rightEnd] = task.bounds;
+    while (
+      leftStart < leftEnd &&
+      rightStart < rightEnd &&
+      left[leftStart] === right[rightStart]
+    ) {
+      leftStart += 1;
+      rightStart += 1;
+      runs.push("equal", 1);
+    }
+    let suffix = 0;
+    while (
+      leftEnd > leftStart &&
+      rightEnd > rightStart &&
+      left[leftEnd - 1] === right[rightEnd - 1]
+    ) {
+      leftEnd -= 1;
+      rightEnd -= 1;
+      suffix += 1;
+    }
+
+    const anchors =
+      leftStart < leftEnd && rightStart < rightEnd
+        ? findAnchors(left, leftStart, leftEnd, right, rightStart, rightEnd)
+        : [];
+    if (!anchors.length) {
+      diffRegion(left, leftStart, leftEnd, right, rightStart, rightEnd, runs);
+      runs.push("equal", suffix);
+      continue;
+    }
+    const tasks: Task[] = [];
+    anchors.forEach(([leftIdx, rightIdx, length]) => {
+      tasks.push(
+        { type: "region", bounds: [leftStart, leftIdx, rightStart, rightIdx] },
+        { type: "equal", count: length },
+      );
+      leftStart = leftIdx + length;
+      rightStart = rightIdx + length;
+    });
+    tasks.push(
+      { type: "region", bounds: [leftStart, leftEnd, rightStart, rightEnd] },
+      { type: "equal", count: suffix },
+    );
+    stack.push(...tasks.reverse());
+  }
+  return slideDown(runs.finish(), left, right);
+};
+
+/**
+ * Patience diff: lines unique to both sides of a region anchor the
+ * alignment, recursively, and gaps without unique lines go through Myers'
+ * algorithm in linear space; a gap that needs more than MAX_EDIT_COST
+ * edits is reported as replaced. Memory stays proportional to the input,
+ * so files with millions of lines can be compared.
+ */
+export const diffPatience: SequenceDiff = (left, right) =>
+  diffAnchored(left, right, uniqueAnchors);
+
+/**
+ * Histogram diff: like patience, but anchors on the rarest common lines
+ * instead of only unique ones, which keeps repeated braces and blank lines
+ * from pulling unrelated code together.
+ */
+export const diffHistogram: SequenceDiff = (left, right) =>
+  diffAnchored(left, right, histogramAnchor);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignBlocks,
+  levenshtein,
+  lineSimilarity,
+  MAX_PAIRING_COST,
+} from "./similarity";
+
+describe("levenshtein", () => {
+  it("counts single-character edits", () => {
+    expect(levenshtein("kitten", "sitting")).toBe(3);
+    expect(levenshtein("", "abc")).toBe(3);
+    expect(levenshtein("same", "same")).toBe(0);
+  });
+});
+
+describe("lineSimilarity", () => {
+  it("scores identical lines as fully similar", () => {
+    expect(lineSimilarity("  const a = 1;", "const a = 1;")).toBe(1);
+  });
+
+  it("scores unrelated lines low", () => {
+    expect(lineSimilarity("return total;", "}")).toBeLessThan(0.5);
+  });
+});
+
+describe("alignBlocks", () => {
+  it("does not shift pairs when a line is inserted at the top", () => {
+    const aligned = alignBlocks(
+      ["port: 8080", "host: localhost"],
+      ["# generated", "port: 8081", "host: localhost.dev"],
+    );
+
+    expect(aligned.map((entry) => entry.type)).toEqual([
+      "added",
+      "modified",
+      "modified",
+    ]);
+  });
+
+  it("still pairs lines by position when the blocks exceed the search budget", () => {
+    // 100 lines of 19 characters plus a newline cost 2000 on each side.
+    const removed = Array.from(
+      { length: 100 },
+      (_, idx) => `setting_${String(idx).padStart(3, "0")} = false`,
+    );
+    const added = removed.map((line) => line.replace("false", "FALSE"));
+    expect(2000 * 2000).toBe(MAX_PAIRING_COST);
+
+    const atBudget = alignBlocks(removed, added);
+    const overBudget = alignBlocks(removed, [
+      ...added.slice(0, 99),
+      `${added[99]}!`,
+    ]);
+    for (const aligned of [atBudget, overBudget]) {
+      expect(aligned).toHaveLength(100);
+      expect(aligned.every((entry) => entry.type === "modified")).toBe(true);
+    }
+  });
+
+  it("reports dissimilar lines as pure removals and additions", () => {
+    const aligned = alignBlocks(["alpha"], ["}"]);
+    expect(aligned).toEqual([
+      { type: "removed", before: "alpha" },
+      { type: "added", after: "}" },
+    ]);
+  });
+});
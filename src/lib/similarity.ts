@@ -0,0 +1,134 @@
+export const MODIFIED_SIMILARITY_THRESHOLD = 0.5;
+
+// Upper bound on the character work spent scoring a removed/added block pair.
+export const MAX_PAIRING_COST = 4_000_000;
+
+export type BlockAlignment =
+  | { type: "removed"; before: string }
+  | { type: "added"; after: string }
+  | { type: "modified"; before: string; after: string };
+
+export const levenshtein = (left: string, right: string): number => {
+  if (left === right) return 0;
+  if (!left.length) return right.length;
+  if (!right.length) return left.length;
+
+  let previous = Array.from({ length: right.length + 1 }, (_, idx) => idx);
+  let current = new Array<number>(right.length + 1);
+
+  for (let i = 1; i <= left.length; i += 1) {
+    current[0] = i;
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left.charCodeAt(i - 1) === right.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[right.length];
+};
+
+export const lineSimilarity = (left: string, right: string): number => {
+  const a = left.trim();
+  const b = right.trim();
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+};
+
+const blockCost = (lines: string[]): number =>
+  lines.reduce((total, line) => total + line.length + 1, 0);
+
+/**
+ * Aligns a removed block against the added block that replaced it. Lines are
+ * only paired as "modified" when they are at least `threshold` similar; the
+ * pairing maximises total similarity while keeping both sides in order.
+ * Blocks too large to search are paired line by line in position order
+ * instead, until the same character budget runs out.
+ */
+export const alignBlocks = (
+  removedLines: string[],
+  addedLines: string[],
+  threshold = MODIFIED_SIMILARITY_THRESHOLD,
+): BlockAlignment[] => {
+  const rows = removedLines.length;
+  const cols = addedLines.length;
+  const pairs: Array<[number, number]> = [];
+
+  if (
+    rows > 0 &&
+    cols > 0 &&
+    blockCost(removedLines) * blockCost(addedLines) <= MAX_PAIRING_COST
+  ) {
+    const similarity = removedLines.map((before) =>
+      addedLines.map((after) => lineSimilarity(before, after)),
+    );
+    const score = Array.from({ length: rows + 1 }, () =>
+      new Array<number>(cols + 1).fill(0),
+    );
+
+    for (let i = 1; i <= rows; i += 1) {
+      for (let j = 1; j <= cols; j += 1) {
+        const sim = similarity[i - 1][j - 1];
+        const paired =
+          sim >= threshold ? score[i - 1][j - 1] + sim : Number.NEGATIVE_INFINITY;
+        score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], paired);
+      }
+    }
+
+    let i = rows;
+    let j = cols;
+    while (i > 0 && j > 0) {
+      const sim = similarity[i - 1][j - 1];
+      if (sim >= threshold && score[i][j] === score[i - 1][j - 1] + sim) {
+        pairs.push([i - 1, j - 1]);
+        i -= 1;
+        j -= 1;
+      } else if (score[i][j] === score[i - 1][j]) {
+        i -= 1;
+      } else {
+        j -= 1;
+      }
+    }
+    pairs.reverse();
+  } else {
+    let budget = MAX_PAIRING_COST;
+    for (let k = 0; k < Math.min(rows, cols); k += 1) {
+      budget -= (removedLines[k].length + 1) * (addedLines[k].length + 1);
+      if (budget < 0) break;
+      if (lineSimilarity(removedLines[k], addedLines[k]) >= threshold) {
+        pairs.push([k, k]);
+      }
+    }
+  }
+
+  const aligned: BlockAlignment[] = [];
+  let nextRemoved = 0;
+  let nextAdded = 0;
+  const flushUntil = (removedEnd: number, addedEnd: number) => {
+    for (; nextRemoved < removedEnd; nextRemoved += 1) {
+      aligned.push({ type: "removed", before: removedLines[nextRemoved] });
+    }
+    for (; nextAdded < addedEnd; nextAdded += 1) {
+      aligned.push({ type: "added", after: addedLines[nextAdded] });
+    }
+  };
+
+  pairs.forEach(([removedIdx, addedIdx]) => {
+    flushUntil(removedIdx, addedIdx);
+    aligned.push({
+      type: "modified",
+      before: removedLines[removedIdx],
+      after: addedLines[addedIdx],
+    });
+    nextRemoved += 1;
+    nextAdded += 1;
+  });
+  flushUntil(rows, cols);
+
+  return aligned;
+};
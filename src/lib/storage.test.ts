@@ -0,0 +1,238 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { buildDescriptor, computeTextDiff } from "./diff";
+import {
+  createFileSystemStore,
+  createMemoryStore,
+  deleteComparison,
+  loadComparison,
+  purgeExpired,
+  purgeExpiredIfDue,
+  saveComparison,
+  savedResult,
+} from "./storage";
+import { DiffResult } from "./types";
+
+const now = new Date("2024-05-01T12:00:00Z");
+const hoursLater = (hours: number) =>
+  new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+const upload = (name: string, content: string) => {
+  const buffer = Buffer.from(content);
+  const descriptor = buildDescriptor({
+    name,
+    mime: "text/plain",
+    buffer,
+    kind: "text",
+  });
+  return {
+    name,
+    type: "text/plain",
+    hash: descriptor.hash,
+    buffer,
+    descriptor,
+  };
+};
+
+const comparisonOf = (
+  left: ReturnType<typeof upload>,
+  right: ReturnType<typeof upload>,
+): DiffResult => {
+  const diff = computeTextDiff(left.buffer.toString(), right.buffer.toString());
+  return {
+    files: [left.descriptor, right.descriptor],
+    summary: diff.summary,
+    textDiff: diff.lines,
+  };
+};
+
+describe("saved comparisons", () => {
+  it("saves, loads and expires a comparison", async () => {
+    const store = createMemoryStore();
+    const left = upload("a.txt", "one\n");
+    const right = upload("b.txt", "two\n");
+    const saved = await saveComparison(store, {
+      files: [left, right],
+      fields: [["granularity", "char"]],
+      result: comparisonOf(left, right),
+      retentionHours: 24,
+      now,
+    });
+
+    expect(saved.url).toBe(`/c/${saved.id}`);
+    expect(saved.expiresAt).toBe("2024-05-02T12:00:00.000Z");
+    expect(saved.deleteToken).toBeTruthy();
+
+    const record = await loadComparison(store, saved.id, hoursLater(1));
+    expect(record && savedResult(record).saved).toMatchObject({
+      id: saved.id,
+      fields: [["granularity", "char"]],
+    });
+    expect(record && savedResult(record).saved?.deleteToken).toBeUndefined();
+
+    expect(await loadComparison(store, saved.id, hoursLater(25))).toBeNull();
+    expect(await store.getBlob(left.hash)).toBeNull();
+  });
+
+  it("deduplicates blobs and keeps shared ones until the last reference goes", async () => {
+    const store = createMemoryStore();
+    const shared = upload("shared.txt", "same\n");
+    const first = await saveComparison(store, {
+      files: [shared, upload("x.txt", "x\n")],
+      fields: [],
+      result: comparisonOf(shared, upload("x.txt", "x\n")),
+      now,
+    });
+    await saveComparison(store, {
+      files: [shared, upload("y.txt", "y\n")],
+      fields: [],
+      result: comparisonOf(shared, upload("y.txt", "y\n")),
+      now,
+    });
+
+    expect(
+      await deleteComparison(store, first.id, "wrong-token", hoursLater(1)),
+    ).toBe("forbidden");
+    expect(
+      await deleteComparison(
+        store,
+        first.id,
+        first.deleteToken ?? "",
+        hoursLater(1),
+      ),
+    ).toBe("deleted");
+    expect(await store.getBlob(shared.hash)).not.toBeNull();
+    expect(await store.getBlob(upload("x.txt", "x\n").hash)).toBeNull();
+  });
+
+  it("caps retention and purges expired records", async () => {
+    const store = createMemoryStore();
+    const left = upload("a.txt", "a\n");
+    const saved = await saveComparison(store, {
+      files: [left, left],
+      fields: [],
+      result: comparisonOf(left, left),
+      retentionHours: 10_000,
+      now,
+    });
+
+    expect(saved.expiresAt).toBe(hoursLater(30 * 24).toISOString());
+    expect(await purgeExpired(store, hoursLater(30 * 24 + 1))).toBe(1);
+    expect(await store.listComparisons()).toEqual([]);
+  });
+
+  it("keeps a blob that a concurrent save reuses while it is purged", async () => {
+    const store = createMemoryStore();
+    const left = upload("a.txt", "shared\n");
+    const save = (at: Date) =>
+      saveComparison(store, {
+        files: [left, left],
+        fields: [],
+        result: comparisonOf(left, left),
+        retentionHours: 1,
+        now: at,
+      });
+    await save(now);
+
+    const [purged, saved] = await Promise.all([
+      purgeExpired(store, hoursLater(2)),
+      save(hoursLater(2)),
+    ]);
+    expect(purged).toBe(1);
+    expect(await loadComparison(store, saved.id, hoursLater(2))).not.toBeNull();
+    expect(await store.getBlob(left.hash)).not.toBeNull();
+  });
+
+  it("purges on save at most once every ten minutes", async () => {
+    const store = createMemoryStore();
+    const left = upload("a.txt", "a\n");
+    await saveComparison(store, {
+      files: [left, left],
+      fields: [],
+      result: comparisonOf(left, left),
+      retentionHours: 1,
+      now,
+    });
+
+    expect(await purgeExpiredIfDue(store, hoursLater(0.9))).toBe(0);
+    expect(await purgeExpiredIfDue(store, hoursLater(1.05))).toBe(0);
+    expect(await purgeExpiredIfDue(store, hoursLater(1.1))).toBe(1);
+  });
+});
+
+describe("createFileSystemStore", () => {
+  let root: string | null = null;
+
+  afterEach(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+    root = null;
+  });
+
+  it("persists records and blobs on disk", async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), "mintdiff-store-"));
+    const store = createFileSystemStore(root);
+    const left = upload("a.txt", "left\n");
+    const right = upload("b.txt", "right\n");
+    const saved = await saveComparison(store, {
+      files: [left, right],
+      fields: [],
+      result: comparisonOf(left, right),
+      now,
+    });
+
+    const reopened = createFileSystemStore(root);
+    const record = await loadComparison(reopened, saved.id, hoursLater(1));
+    expect(record?.files.map((file) => file.name)).toEqual(["a.txt", "b.txt"]);
+    expect((await reopened.getBlob(right.hash))?.toString()).toBe("right\n");
+    expect((await readdir(path.join(root, "blobs"))).sort()).toEqual(
+      [left.hash, right.hash].sort(),
+    );
+  });
+
+  it("deletes shared blobs with their last reference without listing records", async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), "mintdiff-store-"));
+    const store = createFileSystemStore(root);
+    const shared = upload("shared.txt", "same\n");
+    const saved = await Promise.all(
+      ["x\n", "y\n"].map((content) => {
+        const other = upload("other.txt", content);
+        return saveComparison(store, {
+          files: [shared, other],
+          fields: [],
+          result: comparisonOf(shared, other),
+          now,
+        });
+      }),
+    );
+
+    const reopened = createFileSystemStore(root);
+    reopened.listComparisons = () => {
+      throw new Error("Deleting should not list every comparison.");
+    };
+    const remove = (index: number) =>
+      deleteComparison(
+        reopened,
+        saved[index].id,
+        saved[index].deleteToken ?? "",
+        hoursLater(1),
+      );
+    expect(await remove(0)).toBe("deleted");
+    expect(await readdir(path.join(root, "blobs"))).toHaveLength(2);
+    expect(await reopened.getBlob(shared.hash)).not.toBeNull();
+    expect(await remove(1)).toBe("deleted");
+    expect(await readdir(path.join(root, "blobs"))).toEqual([]);
+    expect(await readdir(path.join(root, "references"))).toEqual([]);
+  });
+
+  it("rejects ids that could escape the storage directory", async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), "mintdiff-store-"));
+    const store = createFileSystemStore(root);
+
+    expect(await loadComparison(store, "../../etc/passwd")).toBeNull();
+    await expect(store.getComparison("../secret")).rejects.toThrow(
+      /Invalid comparison id/,
+    );
+  });
+});
@@ -0,0 +1,368 @@
+import crypto from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { DiffResult, SavedComparison } from "./types";
+
+export const DEFAULT_RETENTION_HOURS = 7 * 24;
+export const MAX_RETENTION_HOURS = 30 * 24;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,32}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const HOUR_MS = 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export type StoredFile = {
+  name: string;
+  type: string;
+  hash: string;
+};
+
+export type StoredComparison = {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  deleteTokenHash: string;
+  files: StoredFile[];
+  fields: [string, string][];
+  result: DiffResult;
+};
+
+/**
+ * Persistence backend for saved comparisons. Blobs are keyed by their
+ * SHA-256 hash so a file uploaded to many comparisons is stored once, and
+ * each blob keeps the ids of the comparisons that reference it so deleting
+ * one never has to read the others.
+ */
+export interface ComparisonStore {
+  hasBlob(hash: string): Promise<boolean>;
+  putBlob(hash: string, data: Buffer): Promise<void>;
+  getBlob(hash: string): Promise<Buffer | null>;
+  deleteBlob(hash: string): Promise<void>;
+  putBlobReference(hash: string, id: string): Promise<void>;
+  deleteBlobReference(hash: string, id: string): Promise<void>;
+  hasBlobReferences(hash: string): Promise<boolean>;
+  putComparison(record: StoredComparison): Promise<void>;
+  getComparison(id: string): Promise<StoredComparison | null>;
+  deleteComparison(id: string): Promise<void>;
+  listComparisons(): Promise<StoredComparison[]>;
+}
+
+export const isComparisonId = (id: string): boolean => ID_PATTERN.test(id);
+
+const assertId = (id: string) => {
+  if (!isComparisonId(id)) throw new Error(`Invalid comparison id "${id}".`);
+};
+
+const assertHash = (hash: string) => {
+  if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid blob hash "${hash}".`);
+};
+
+const isMissing = (error: unknown) =>
+  error instanceof Error && "code" in error && error.code === "ENOENT";
+
+export const createFileSystemStore = (root: string): ComparisonStore => {
+  const blobPath = (hash: string) => {
+    assertHash(hash);
+    return path.join(root, "blobs", hash);
+  };
+  const referencesPath = (hash: string) => {
+    assertHash(hash);
+    return path.join(root, "references", hash);
+  };
+  const referencePath = (hash: string, id: string) => {
+    assertId(id);
+    return path.join(referencesPath(hash), id);
+  };
+  const recordPath = (id: string) => {
+    assertId(id);
+    return path.join(root, "comparisons", `${id}.json`);
+  };
+  const readRecord = async (file: string) => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as StoredComparison;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+  // Write to a temporary file first so readers never see a partial record.
+  const writeAtomic = async (file: string, data: string | Buffer) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+  };
+
+  return {
+    hasBlob: async (hash) =>
+      fs
+        .access(blobPath(hash))
+        .then(() => true)
+        .catch(() => false),
+    putBlob: async (hash, data) => writeAtomic(blobPath(hash), data),
+    getBlob: async (hash) => {
+      try {
+        return await fs.readFile(blobPath(hash));
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+    deleteBlob: async (hash) => {
+      await fs.rm(blobPath(hash), { force: true });
+      await fs.rm(referencesPath(hash), { recursive: true, force: true });
+    },
+    putBlobReference: async (hash, id) => {
+      await fs.mkdir(referencesPath(hash), { recursive: true });
+      await fs.writeFile(referencePath(hash, id), "");
+    },
+    deleteBlobReference: async (hash, id) =>
+      fs.rm(referencePath(hash, id), { force: true }),
+    hasBlobReferences: async (hash) => {
+      try {
+        return (await fs.readdir(referencesPath(hash))).length > 0;
+      } catch (error) {
+        if (isMissing(error)) return false;
+        throw error;
+      }
+    },
+    putComparison: async (record) =>
+      writeAtomic(recordPath(record.id), JSON.stringify(record)),
+    getComparison: async (id) => readRecord(recordPath(id)),
+    deleteComparison: async (id) => fs.rm(recordPath(id), { force: true }),
+    listComparisons: async () => {
+      const directory = path.join(root, "comparisons");
+      const names = await fs.readdir(directory).catch((error) => {
+        if (isMissing(error)) return [] as string[];
+        throw error;
+      });
+      const records = await Promise.all(
+        names
+          .filter((name) => name.endsWith(".json"))
+          .map((name) => readRecord(path.join(directory, name))),
+      );
+      return records.filter(
+        (record): record is StoredComparison => record !== null,
+      );
+    },
+  };
+};
+
+export const createMemoryStore = (): ComparisonStore => {
+  const blobs = new Map<string, Buffer>();
+  const references = new Map<string, Set<string>>();
+  const records = new Map<string, string>();
+  return {
+    hasBlob: async (hash) => blobs.has(hash),
+    putBlob: async (hash, data) => {
+      blobs.set(hash, Buffer.from(data));
+    },
+    getBlob: async (hash) => blobs.get(hash) ?? null,
+    deleteBlob: async (hash) => {
+      blobs.delete(hash);
+      references.delete(hash);
+    },
+    putBlobReference: async (hash, id) => {
+      references.set(hash, (references.get(hash) ?? new Set()).add(id));
+    },
+    deleteBlobReference: async (hash, id) => {
+      references.get(hash)?.delete(id);
+    },
+    hasBlobReferences: async (hash) => (references.get(hash)?.size ?? 0) > 0,
+    putComparison: async (record) => {
+      records.set(record.id, JSON.stringify(record));
+    },
+    getComparison: async (id) => {
+      const record = records.get(id);
+      return record ? (JSON.parse(record) as StoredComparison) : null;
+    },
+    deleteComparison: async (id) => {
+      records.delete(id);
+    },
+    listComparisons: async () =>
+      [...records.values()].map(
+        (record) => JSON.parse(record) as StoredComparison,
+      ),
+  };
+};
+
+let sharedStore: ComparisonStore | null = null;
+
+/**
+ * Returns the store configured through `MINTDIFF_STORAGE` (`fs`, the
+ * default, or `memory`) and `MINTDIFF_STORAGE_DIR`.
+ */
+export const getComparisonStore = (): ComparisonStore => {
+  if (!sharedStore) {
+    sharedStore =
+      process.env.MINTDIFF_STORAGE === "memory"
+        ? createMemoryStore()
+        : createFileSystemStore(
+            process.env.MINTDIFF_STORAGE_DIR ??
+              path.join(process.cwd(), ".mintdiff-data"),
+          );
+  }
+  return sharedStore;
+};
+
+/** Default lifetime of a saved comparison, overridable via `MINTDIFF_RETENTION_HOURS`. */
+const configuredRetentionHours = () => {
+  const configured = Number(process.env.MINTDIFF_RETENTION_HOURS);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_RETENTION_HOURS;
+};
+
+const tokenHash = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const isExpired = (record: StoredComparison, now: Date) =>
+  Date.parse(record.expiresAt) <= now.getTime();
+
+const toSaved = (record: StoredComparison): SavedComparison => ({
+  id: record.id,
+  url: `/c/${record.id}`,
+  createdAt: record.createdAt,
+  expiresAt: record.expiresAt,
+  fields: record.fields,
+});
+
+// Tail of each store's queue of blob writes and deletions.
+const storeQueues = new WeakMap<ComparisonStore, Promise<unknown>>();
+const lastPurges = new WeakMap<ComparisonStore, number>();
+
+/**
+ * Runs `task` once the store's earlier saves and deletions have finished, so
+ * a purge cannot delete a blob between a save finding it and writing the
+ * record that references it.
+ */
+const exclusive = <T>(
+  store: ComparisonStore,
+  task: () => Promise<T>,
+): Promise<T> => {
+  const result = (storeQueues.get(store) ?? Promise.resolve()).then(task);
+  storeQueues.set(
+    store,
+    result.catch(() => undefined),
+  );
+  return result;
+};
+
+const hashesOf = (record: Pick<StoredComparison, "files">) =>
+  new Set(record.files.map((file) => file.hash));
+
+/**
+ * Removes records and their blob references, then the blobs that no
+ * comparison references any more.
+ */
+const dropComparisons = (store: ComparisonStore, records: StoredComparison[]) =>
+  exclusive(store, async () => {
+    for (const record of records) {
+      await store.deleteComparison(record.id);
+      for (const hash of hashesOf(record)) {
+        await store.deleteBlobReference(hash, record.id);
+      }
+    }
+    const hashes = new Set(records.flatMap((record) => [...hashesOf(record)]));
+    for (const hash of hashes) {
+      if (!(await store.hasBlobReferences(hash))) await store.deleteBlob(hash);
+    }
+  });
+
+export const purgeExpired = async (
+  store: ComparisonStore,
+  now = new Date(),
+): Promise<number> => {
+  lastPurges.set(store, now.getTime());
+  const expired = (await store.listComparisons()).filter((record) =>
+    isExpired(record, now),
+  );
+  if (expired.length > 0) await dropComparisons(store, expired);
+  return expired.length;
+};
+
+/** Purges expired records unless the store was purged in the last ten minutes. */
+export const purgeExpiredIfDue = async (
+  store: ComparisonStore,
+  now = new Date(),
+): Promise<number> => {
+  const last = lastPurges.get(store);
+  if (last !== undefined && now.getTime() - last < PURGE_INTERVAL_MS) return 0;
+  return purgeExpired(store, now);
+};
+
+export const saveComparison = async (
+  store: ComparisonStore,
+  input: {
+    files: { name: string; type: string; hash: string; buffer: Buffer }[];
+    fields: [string, string][];
+    result: DiffResult;
+    retentionHours?: number;
+    now?: Date;
+  },
+): Promise<SavedComparison> => {
+  const now = input.now ?? new Date();
+  const retentionHours = Math.min(
+    input.retentionHours ?? configuredRetentionHours(),
+    MAX_RETENTION_HOURS,
+  );
+  const deleteToken = crypto.randomBytes(18).toString("base64url");
+  const record: StoredComparison = {
+    id: crypto.randomBytes(9).toString("base64url"),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + retentionHours * HOUR_MS).toISOString(),
+    deleteTokenHash: tokenHash(deleteToken),
+    files: input.files.map(({ name, type, hash }) => ({ name, type, hash })),
+    fields: input.fields,
+    result: input.result,
+  };
+
+  await exclusive(store, async () => {
+    for (const file of input.files) {
+      if (!(await store.hasBlob(file.hash))) {
+        await store.putBlob(file.hash, file.buffer);
+      }
+    }
+    for (const hash of hashesOf(record)) {
+      await store.putBlobReference(hash, record.id);
+    }
+    await store.putComparison(record);
+  });
+
+  return { ...toSaved(record), deleteToken };
+};
+
+export const loadComparison = async (
+  store: ComparisonStore,
+  id: string,
+  now = new Date(),
+): Promise<StoredComparison | null> => {
+  if (!isComparisonId(id)) return null;
+  const record = await store.getComparison(id);
+  if (!record) return null;
+  if (isExpired(record, now)) {
+    await dropComparisons(store, [record]);
+    return null;
+  }
+  return record;
+};
+
+export const savedResult = (record: StoredComparison): DiffResult => ({
+  ...record.result,
+  saved: toSaved(record),
+});
+
+export const deleteComparison = async (
+  store: ComparisonStore,
+  id: string,
+  token: string,
+  now = new Date(),
+): Promise<"deleted" | "not-found" | "forbidden"> => {
+  const record = await loadComparison(store, id, now);
+  if (!record) return "not-found";
+  const expected = Buffer.from(record.deleteTokenHash, "hex");
+  const actual = Buffer.from(tokenHash(token), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) return "forbidden";
+  await dropComparisons(store, [record]);
+  return "deleted";
+};
@@ -0,0 +1,137 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import { diffPatience } from "./sequence";
+import { indexText, StreamDiffOptions, streamTextDiff } from "./stream";
+import { DiffStreamChunk } from "./types";
+
+let directory = "";
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "mintdiff-stream-"));
+});
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const source = async (name: string, content: string | Buffer) => {
+  const filePath = path.join(directory, name);
+  await writeFile(filePath, content);
+  return { path: filePath, encoding: "utf-8" };
+};
+
+/** Indexes and streams two texts, collecting every chunk sent. */
+const streamDiff = async (
+  original: string,
+  comparison: string,
+  options: StreamDiffOptions,
+) => {
+  const left = await source("left.txt", original);
+  const right = await source("right.txt", comparison);
+  const runs = diffPatience(
+    (await indexText(left, options)).hashes,
+    (await indexText(right, options)).hashes,
+  );
+  const chunks: DiffStreamChunk[] = [];
+  const result = await streamTextDiff(
+    left,
+    right,
+    runs,
+    options,
+    async (chunk) => {
+      chunks.push(chunk);
+    },
+  );
+  return { ...result, chunks };
+};
+
+describe("indexText", () => {
+  it("splits lines on CRLF even when a chunk ends between CR and LF", async () => {
+    // The default read size is 64 KiB, so the first CR ends the first chunk.
+    const first = "a".repeat(64 * 1024 - 1);
+    const index = await indexText(
+      await source("crlf.txt", `${first}\r\nsecond\r\n`),
+    );
+
+    expect(index.hashes).toHaveLength(2);
+    expect(index.lineEnding).toBe("crlf");
+    expect(index.finalNewline).toBe(true);
+
+    const mixed = await indexText(await source("mixed.txt", "one\rtwo\nend"));
+    expect(mixed.hashes).toHaveLength(3);
+    expect(mixed.lineEnding).toBe("mixed");
+    expect(mixed.finalNewline).toBe(false);
+  });
+});
+
+describe("streamTextDiff", () => {
+  it("emits the same lines and summary as computeTextDiff", async () => {
+    const original = [
+      "alpha",
+      "beta",
+      "gamma",
+      "  delta  ",
+      "",
+      "epsilon",
+      "zeta",
+    ].join("\n");
+    const comparison = [
+      "alpha",
+      "beta changed",
+      "gamma",
+      "delta",
+      "new line",
+      "epsilon",
+      "",
+    ].join("\n");
+    const options = { ignoreWhitespace: true, ignoreBlankLines: true };
+    const { chunks, summary } = await streamDiff(original, comparison, {
+      ...options,
+      context: 100,
+    });
+    const expected = computeTextDiff(original, comparison, options);
+
+    expect(chunks).toEqual([{ type: "lines", lines: expected.lines }]);
+    expect(summary).toEqual(expected.summary);
+  });
+
+  it("sends unchanged lines away from changes as skipped ranges", async () => {
+    const lines = Array.from({ length: 30 }, (_, idx) => `line ${idx + 1}`);
+    const changed = [...lines];
+    changed[9] = "line ten";
+    changed.splice(25, 1);
+    const { chunks, summary } = await streamDiff(
+      lines.join("\n"),
+      changed.join("\n"),
+      { context: 2 },
+    );
+
+    expect(
+      chunks.map((chunk) =>
+        chunk.type === "lines"
+          ? chunk.lines.map((line) => `${line.type} ${line.oldNumber}`)
+          : chunk,
+      ),
+    ).toEqual([
+      { type: "skipped", oldNumber: 1, newNumber: 1, count: 7 },
+      [
+        "unchanged 8",
+        "unchanged 9",
+        "modified 10",
+        "unchanged 11",
+        "unchanged 12",
+      ],
+      { type: "skipped", oldNumber: 13, newNumber: 13, count: 11 },
+      [
+        "unchanged 24",
+        "unchanged 25",
+        "removed 26",
+        "unchanged 27",
+        "unchanged 28",
+      ],
+      { type: "skipped", oldNumber: 29, newNumber: 28, count: 2 },
+    ]);
+    expect(summary).toMatchObject({ totalLines: 30, modified: 1, removed: 1 });
+  });
+});
@@ -0,0 +1,411 @@
+import { createReadStream } from "fs";
+import { comparisonKey, computeInlineSegments } from "./diff";
+import { createStreamDecoder } from "./encoding";
+import { compileIgnoreRules, matchesLineRule } from "./ignore";
+import { SequenceRun } from "./sequence";
+import { alignBlocks } from "./similarity";
+import {
+  DiffLine,
+  DiffStreamChunk,
+  DiffSummary,
+  LineEnding,
+  TextDiffOptions,
+} from "./types";
+
+// Diff lines sent per "lines" chunk.
+export const STREAM_BATCH_LINES = 1000;
+// Longer change blocks are listed as removed and added without pairing lines.
+const MAX_ALIGNED_LINES = 1000;
+const INITIAL_INDEX_SIZE = 1 << 16;
+const LINE_BREAK = /\r\n|\r|\n/g;
+
+export type TextSource = {
+  path: string;
+  encoding: string;
+};
+
+export type TextIndex = {
+  // One hash per line of the comparison key, ready for diffPatience.
+  hashes: Float64Array;
+  lineEnding: LineEnding;
+  finalNewline: boolean;
+};
+
+export type StreamDiffOptions = TextDiffOptions & {
+  context: number;
+};
+
+/**
+ * Reads a text file one line at a time, splitting on CRLF, CR or LF like
+ * normalizeNewlines, and counting which line breaks it saw on the way.
+ */
+const createLineReader = ({ path, encoding }: TextSource) => {
+  const stream = createReadStream(path);
+  const chunks = stream[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  const decoder = createStreamDecoder(encoding);
+  const breaks = { crlf: 0, cr: 0, lf: 0 };
+  let lines: string[] = [];
+  let at = 0;
+  let rest = "";
+  let last = "";
+  let ended = false;
+
+  const split = (text: string, final: boolean) => {
+    if (text) last = text[text.length - 1];
+    const value = rest + text;
+    let start = 0;
+    LINE_BREAK.lastIndex = 0;
+    for (
+      let match = LINE_BREAK.exec(value);
+      match;
+      match = LINE_BREAK.exec(value)
+    ) {
+      // A CR that ends the chunk may be the first half of a CRLF.
+      if (!final && match[0] === "\r" && match.index === value.length - 1) {
+        break;
+      }
+      breaks[match[0] === "\r\n" ? "crlf" : match[0] === "\r" ? "cr" : "lf"] +=
+        1;
+      lines.push(value.slice(start, match.index));
+      start = match.index + match[0].length;
+    }
+    rest = value.slice(start);
+    if (final && rest) {
+      lines.push(rest);
+      rest = "";
+    }
+  };
+
+  const next = async (): Promise<string | undefined> => {
+    while (at === lines.length) {
+      if (ended) return undefined;
+      lines = [];
+      at = 0;
+      const chunk = await chunks.next();
+      if (chunk.done) {
+        ended = true;
+        split(decoder.end(), true);
+      } else {
+        split(decoder.write(chunk.value), false);
+      }
+    }
+    at += 1;
+    return lines[at - 1];
+  };
+
+  const lineEnding = (): LineEnding => {
+    const styles = (Object.keys(breaks) as (keyof typeof breaks)[]).filter(
+      (style) => breaks[style] > 0,
+    );
+    if (styles.length === 0) return "none";
+    return styles.length > 1 ? "mixed" : styles[0];
+  };
+
+  return {
+    next,
+    lineEnding,
+    finalNewline: () => last === "\n" || last === "\r",
+    close: () => stream.destroy(),
+  };
+};
+
+type LineReader = ReturnType<typeof createLineReader>;
+
+/** 53-bit string hash (cyrb53); equal keys always hash alike. */
+const hashKey = (key: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let idx = 0; idx < key.length; idx += 1) {
+    const code = key.charCodeAt(idx);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/**
+ * Reads a file once, keeping only a hash of each line's comparison key and
+ * the line-ending facts. Throws if the file does not decode.
+ */
+export const indexText = async (
+  source: TextSource,
+  options: TextDiffOptions = {},
+): Promise<TextIndex> => {
+  const rules = compileIgnoreRules(options.ignoreRules ?? []);
+  const reader = createLineReader(source);
+  let hashes = new Float64Array(INITIAL_INDEX_SIZE);
+  let count = 0;
+  try {
+    for (
+      let line = await reader.next();
+      line !== undefined;
+      line = await reader.next()
+    ) {
+      if (count === hashes.length) {
+        const grown = new Float64Array(count * 2);
+        grown.set(hashes);
+        hashes = grown;
+      }
+      hashes[count] = hashKey(comparisonKey(line, options, rules));
+      count += 1;
+    }
+  } finally {
+    reader.close();
+  }
+  return {
+    hashes: hashes.subarray(0, count),
+    lineEnding: reader.lineEnding(),
+    finalNewline: reader.finalNewline(),
+  };
+};
+
+const readLine = async (reader: LineReader) => (await reader.next()) ?? "";
+
+const readLines = async (reader: LineReader, count: number) => {
+  const lines: string[] = [];
+  for (let idx = 0; idx < count; idx += 1) lines.push(await readLine(reader));
+  return lines;
+};
+
+/**
+ * Re-reads both files along the runs from diffPatience and emits the same
+ * lines computeTextDiff would, in batches. Unchanged lines further than
+ * `context` from a change are sent as "skipped" ranges instead; only one
+ * change block is held in memory at a time.
+ */
+export const streamTextDiff = async (
+  left: TextSource,
+  right: TextSource,
+  runs: SequenceRun[],
+  options: StreamDiffOptions,
+  emit: (chunk: DiffStreamChunk) => Promise<void>,
+): Promise<{ summary: DiffSummary; warnings: string[] }> => {
+  const granularity = options.granularity ?? "word";
+  const { context } = options;
+  const rules = compileIgnoreRules(options.ignoreRules ?? []);
+  const leftReader = createLineReader(left);
+  const rightReader = createLineReader(right);
+  const warnings: string[] = [];
+  let batch: DiffLine[] = [];
+  // Unchanged lines that may still be needed as context before a change.
+  let held: DiffLine[] = [];
+  let skipped: { oldNumber: number; newNumber: number; count: number } | null =
+    null;
+  let trailing = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  let added = 0;
+  let removed = 0;
+  let modified = 0;
+  let ignored = 0;
+
+  const flushBatch = async () => {
+    if (!batch.length) return;
+    const lines = batch;
+    batch = [];
+    await emit({ type: "lines", lines });
+  };
+
+  const show = async (line: DiffLine) => {
+    batch.push(line);
+    if (batch.length >= STREAM_BATCH_LINES) await flushBatch();
+  };
+
+  const skip = (lines: DiffLine[]) => {
+    if (!lines.length) return;
+    if (skipped) {
+      skipped.count += lines.length;
+    } else {
+      skipped = {
+        oldNumber: lines[0].oldNumber!,
+        newNumber: lines[0].newNumber!,
+        count: lines.length,
+      };
+    }
+  };
+
+  const flushSkipped = async () => {
+    if (!skipped) return;
+    await flushBatch();
+    await emit({ type: "skipped", ...skipped });
+    skipped = null;
+  };
+
+  const keepLast = (count: number) => {
+    if (held.length <= count) return;
+    skip(held.slice(0, held.length - count));
+    held = held.slice(held.length - count);
+  };
+
+  const unchanged = async (line: DiffLine) => {
+    if (line.ignored) ignored += 1;
+    if (trailing > 0) {
+      trailing -= 1;
+      await show(line);
+      return;
+    }
+    held.push(line);
+    if (held.length > context + STREAM_BATCH_LINES) keepLast(context);
+  };
+
+  const changed = async (line: DiffLine) => {
+    keepLast(context);
+    await flushSkipped();
+    for (const kept of held) await show(kept);
+    held = [];
+    trailing = context;
+    if (line.ignored) ignored += 1;
+    await show(line);
+  };
+
+  const isIgnoredLine = (line: string) =>
+    (Boolean(options.ignoreBlankLines) && line.trim() === "") ||
+    matchesLineRule(line, rules);
+
+  const pushRemoved = async (before: string) => {
+    const lineIgnored = isIgnoredLine(before);
+    await changed({
+      type: "removed",
+      oldNumber: oldLine,
+      newNumber: null,
+      before,
+      after: null,
+      ...(lineIgnored && { ignored: lineIgnored }),
+    });
+    oldLine += 1;
+    if (!lineIgnored) removed += 1;
+  };
+
+  const pushAdded = async (after: string) => {
+    const lineIgnored = isIgnoredLine(after);
+    await changed({
+      type: "added",
+      oldNumber: null,
+      newNumber: newLine,
+      before: null,
+      after,
+      ...(lineIgnored && { ignored: lineIgnored }),
+    });
+    newLine += 1;
+    if (!lineIgnored) added += 1;
+  };
+
+  const pushAligned = async (before: string[], after: string[]) => {
+    for (const entry of alignBlocks(before, after)) {
+      if (entry.type === "modified") {
+        await changed({
+          type: "modified",
+          oldNumber: oldLine,
+          newNumber: newLine,
+          before: entry.before,
+          after: entry.after,
+          segments: computeInlineSegments(
+            entry.before,
+            entry.after,
+            granularity,
+          ),
+        });
+        oldLine += 1;
+        newLine += 1;
+        modified += 1;
+      } else if (entry.type === "removed") {
+        await pushRemoved(entry.before);
+      } else {
+        await pushAdded(entry.after);
+      }
+    }
+  };
+
+  const pushBlock = async (removedCount: number, addedCount: number) => {
+    if (removedCount <= MAX_ALIGNED_LINES && addedCount <= MAX_ALIGNED_LINES) {
+      await pushAligned(
+        await readLines(leftReader, removedCount),
+        await readLines(rightReader, addedCount),
+      );
+      return;
+    }
+    if (removedCount && addedCount && !warnings.length) {
+      warnings.push(
+        `Change blocks longer than ${MAX_ALIGNED_LINES} lines are listed as removed and added without pairing similar lines.`,
+      );
+    }
+    for (let idx = 0; idx < removedCount; idx += 1) {
+      await pushRemoved(await readLine(leftReader));
+    }
+    for (let idx = 0; idx < addedCount; idx += 1) {
+      await pushAdded(await readLine(rightReader));
+    }
+  };
+
+  try {
+    for (let idx = 0; idx < runs.length; idx += 1) {
+      const run = runs[idx];
+      const next = runs[idx + 1];
+      if (run.type === "removed" && next?.type === "added") {
+        await pushBlock(run.count, next.count);
+        idx += 1;
+      } else if (run.type === "removed") {
+        await pushBlock(run.count, 0);
+      } else if (run.type === "added") {
+        await pushBlock(0, run.count);
+      } else {
+        for (let count = 0; count < run.count; count += 1) {
+          const before = await readLine(leftReader);
+          const after = await readLine(rightReader);
+          // Different keys can share a hash; such a pair is still a change.
+          if (
+            comparisonKey(before, options, rules) !==
+            comparisonKey(after, options, rules)
+          ) {
+            await pushAligned([before], [after]);
+            continue;
+          }
+          await unchanged({
+            type: "unchanged",
+            oldNumber: oldLine,
+            newNumber: newLine,
+            before,
+            after,
+            ...(before !== after && { ignored: true }),
+          });
+          oldLine += 1;
+          newLine += 1;
+        }
+      }
+    }
+    skip(held);
+    held = [];
+    await flushSkipped();
+    await flushBatch();
+  } finally {
+    leftReader.close();
+    rightReader.close();
+  }
+
+  const totalLines = Math.max(oldLine - 1, newLine - 1);
+  const changesCount = added + removed + modified;
+  const changePercent =
+    totalLines === 0
+      ? 0
+      : Math.min(
+          100,
+          Math.max(0, Math.round((changesCount / totalLines) * 100)),
+        );
+
+  return {
+    summary: {
+      identical: changesCount === 0,
+      totalLines,
+      added,
+      removed,
+      modified,
+      changePercent,
+      ...(ignored > 0 && { ignored }),
+    },
+    warnings,
+  };
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareStructured,
+  computeStructuredDiff,
+  detectStructuredFormat,
+} from "./structured";
+import { FileDescriptor } from "./types";
+
+const descriptor = (name: string, mime: string): FileDescriptor => ({
+  name,
+  extension: name.split(".").pop() ?? "",
+  size: 0,
+  mime,
+  hash: "",
+  kind: "text",
+});
+
+describe("detectStructuredFormat", () => {
+  it("detects JSON by extension or mime", () => {
+    expect(
+      detectStructuredFormat(
+        descriptor("a.json", "text/plain"),
+        descriptor("b.txt", "application/json"),
+      ),
+    ).toBe("json");
+  });
+
+  it("detects YAML and TOML", () => {
+    expect(
+      detectStructuredFormat(
+        descriptor("a.yml", "text/plain"),
+        descriptor("b.yaml", "text/plain"),
+      ),
+    ).toBe("yaml");
+    expect(
+      detectStructuredFormat(
+        descriptor("Cargo.toml", "text/plain"),
+        descriptor("Cargo.toml", "application/toml"),
+      ),
+    ).toBe("toml");
+  });
+
+  it("ignores mismatched formats", () => {
+    expect(
+      detectStructuredFormat(
+        descriptor("a.json", "application/json"),
+        descriptor("b.txt", "text/plain"),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("compareStructured", () => {
+  it("ignores key order", () => {
+    expect(compareStructured({ a: 1, b: 2 }, { b: 2, a: 1 })).toEqual([]);
+  });
+
+  it("reports added, removed and changed paths", () => {
+    const changes = compareStructured(
+      { a: { b: [1, 2, 3] }, gone: true, "odd key": 1 },
+      { a: { b: [1, 5, 3, 4] }, "odd key": 2, fresh: null },
+    );
+
+    expect(changes).toEqual([
+      {
+        type: "changed",
+        path: "$.a.b[1]",
+        segments: ["a", "b", "[1]"],
+        before: 2,
+        after: 5,
+      },
+      { type: "added", path: "$.a.b[3]", segments: ["a", "b", "[3]"], after: 4 },
+      { type: "removed", path: "$.gone", segments: ["gone"], before: true },
+      {
+        type: "changed",
+        path: '$["odd key"]',
+        segments: ['["odd key"]'],
+        before: 1,
+        after: 2,
+      },
+      { type: "added", path: "$.fresh", segments: ["fresh"], after: null },
+    ]);
+  });
+
+  it("matches array items by a key field", () => {
+    const changes = compareStructured(
+      [
+        { id: 1, name: "api" },
+        { id: 2, name: "web" },
+      ],
+      [
+        { id: 2, name: "web" },
+        { id: 1, name: "gateway" },
+      ],
+      { arrayKey: "id" },
+    );
+
+    expect(changes.map((change) => change.path)).toEqual(["$[id=1].name"]);
+  });
+
+  it("falls back to index matching when items lack the key", () => {
+    const changes = compareStructured([{ id: 1 }, 2], [2, { id: 1 }], {
+      arrayKey: "id",
+    });
+    expect(changes.map((change) => change.path)).toEqual(["$[0]", "$[1]"]);
+  });
+});
+
+describe("computeStructuredDiff", () => {
+  it("summarises reformatted documents as identical", () => {
+    const diff = computeStructuredDiff(
+      '{"a":1,"b":[true]}',
+      '{\n  "b": [\n    true\n  ],\n  "a": 1\n}\n',
+      "json",
+    );
+    expect(diff.identical).toBe(true);
+    expect(diff.changes).toEqual([]);
+  });
+
+  it("names the side that failed to parse", () => {
+    expect(() => computeStructuredDiff("{}", "{oops", "json")).toThrow(
+      /^Comparison file:/,
+    );
+  });
+});
+
+describe("computeStructuredDiff with YAML and TOML", () => {
+  it("ignores comments and key order in YAML", () => {
+    const diff = computeStructuredDiff(
+      "# service\nname: api\nreplicas: 2\n",
+      "replicas: 3 # scaled\nname: api\n",
+      "yaml",
+    );
+    expect(diff.changes).toEqual([
+      {
+        type: "changed",
+        path: "$.replicas",
+        segments: ["replicas"],
+        before: 2,
+        after: 3,
+      },
+    ]);
+    expect(diff.documents).toBeUndefined();
+  });
+
+  it("matches multi-document streams by kind and metadata.name", () => {
+    const left = [
+      "kind: Service\nmetadata:\n  name: web\nspec:\n  port: 80",
+      "kind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 1",
+    ].join("\n---\n");
+    const right = [
+      "kind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 2",
+      "kind: Service\nmetadata:\n  name: web\nspec:\n  port: 80",
+      "kind: ConfigMap\nmetadata:\n  name: env\n  namespace: prod",
+    ].join("\n---\n");
+    const diff = computeStructuredDiff(left, right, "yaml");
+
+    expect(diff.documents).toEqual([2, 3]);
+    expect(diff.changes.map((change) => [change.type, change.path])).toEqual([
+      ["changed", '$[doc="Deployment/web"].spec.replicas'],
+      ["added", '$[doc="ConfigMap/prod/env"]'],
+    ]);
+  });
+
+  it("compares TOML tables semantically", () => {
+    const diff = computeStructuredDiff(
+      '[package]\nname = "mintdiff"\nversion = "0.1.0"\n\n[dependencies]\nserde = "1"\n',
+      '# bumped\n[dependencies]\nserde = "1"\n\n[package]\nversion = "0.2.0"\nname = "mintdiff"\n',
+      "toml",
+    );
+    expect(diff.changes.map((change) => change.path)).toEqual([
+      "$.package.version",
+    ]);
+  });
+
+  it("serialises TOML dates as strings", () => {
+    const diff = computeStructuredDiff(
+      "released = 2024-01-01\n",
+      "released = 2024-02-01\n",
+      "toml",
+    );
+    expect(diff.changes[0]).toMatchObject({
+      before: "2024-01-01",
+      after: "2024-02-01",
+    });
+  });
+
+  it("reports YAML syntax errors", () => {
+    expect(() =>
+      computeStructuredDiff("a: 1\n", "a: [1\n", "yaml"),
+    ).toThrow(/^Comparison file:/);
+  });
+});
@@ -0,0 +1,331 @@
+import { parse as parseToml } from "smol-toml";
+import { parseAllDocuments } from "yaml";
+import {
+  FileDescriptor,
+  JsonValue,
+  StructuredChange,
+  StructuredDiff,
+  StructuredFormat,
+} from "./types";
+
+const STRUCTURED_EXTENSIONS: Record<string, StructuredFormat> = {
+  json: "json",
+  yaml: "yaml",
+  yml: "yaml",
+  toml: "toml",
+};
+
+const STRUCTURED_MIMES: Record<string, StructuredFormat> = {
+  "application/json": "json",
+  "application/yaml": "yaml",
+  "application/x-yaml": "yaml",
+  "application/toml": "toml",
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+type JsonObject = { [key: string]: JsonValue };
+
+const isObject = (value: JsonValue | undefined): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const own = (value: JsonObject, key: string): JsonValue | undefined =>
+  Object.hasOwn(value, key) ? value[key] : undefined;
+
+const formatOf = (descriptor: FileDescriptor): StructuredFormat | null =>
+  STRUCTURED_EXTENSIONS[descriptor.extension] ??
+  STRUCTURED_MIMES[descriptor.mime.split(";")[0].trim()] ??
+  null;
+
+export const detectStructuredFormat = (
+  left: FileDescriptor,
+  right: FileDescriptor,
+): StructuredFormat | null => {
+  const format = formatOf(left);
+  return format && format === formatOf(right) ? format : null;
+};
+
+/**
+ * Coerces parser output (TOML dates, big integers, YAML maps) into plain JSON
+ * values so every format is compared by the same tree walk.
+ */
+const toJsonValue = (value: unknown): JsonValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value.entries()].map(([key, item]) => [String(key), toJsonValue(item)]),
+    );
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]),
+    );
+  }
+  return String(value);
+};
+
+/**
+ * Parses a file into its documents. Only YAML streams can hold more than one;
+ * an empty YAML stream yields none.
+ */
+export const parseDocuments = (
+  text: string,
+  format: StructuredFormat,
+): JsonValue[] => {
+  switch (format) {
+    case "json":
+      return [JSON.parse(text) as JsonValue];
+    case "toml":
+      return [toJsonValue(parseToml(text))];
+    case "yaml":
+      return parseAllDocuments(text).map((document) => {
+        const [error] = document.errors;
+        if (error) throw error;
+        return toJsonValue(document.toJS());
+      });
+  }
+};
+
+export const parseStructured = (
+  text: string,
+  format: StructuredFormat,
+): JsonValue => {
+  const documents = parseDocuments(text, format);
+  return documents.length === 1 ? documents[0] : documents;
+};
+
+export const isEqualJson = (left: JsonValue, right: JsonValue): boolean => {
+  if (left === right) return true;
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right)) return false;
+    if (left.length !== right.length) return false;
+    return left.every((item, idx) => isEqualJson(item, right[idx]));
+  }
+  if (isObject(left) && isObject(right)) {
+    const leftKeys = Object.keys(left);
+    if (leftKeys.length !== Object.keys(right).length) return false;
+    return leftKeys.every(
+      (key) => Object.hasOwn(right, key) && isEqualJson(left[key], right[key]),
+    );
+  }
+  return false;
+};
+
+const keySegment = (key: string): string =>
+  IDENTIFIER.test(key) ? key : `[${JSON.stringify(key)}]`;
+
+const joinPath = (segments: string[]): string =>
+  segments.reduce(
+    (path, segment) =>
+      segment.startsWith("[") ? `${path}${segment}` : `${path}.${segment}`,
+    "$",
+  );
+
+const keyedIndex = (
+  items: JsonValue[],
+  arrayKey: string,
+): Map<string, JsonValue> | null => {
+  const index = new Map<string, JsonValue>();
+  for (const item of items) {
+    if (!isObject(item)) return null;
+    const key = own(item, arrayKey);
+    if (key === undefined || (typeof key === "object" && key !== null)) {
+      return null;
+    }
+    const label = JSON.stringify(key);
+    if (index.has(label)) return null;
+    index.set(label, item);
+  }
+  return index;
+};
+
+const walk = (
+  before: JsonValue | undefined,
+  after: JsonValue | undefined,
+  segments: string[],
+  arrayKey: string | undefined,
+  changes: StructuredChange[],
+) => {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    changes.push({ type: "added", path: joinPath(segments), segments, after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({
+      type: "removed",
+      path: joinPath(segments),
+      segments,
+      before,
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const leftIndex = arrayKey ? keyedIndex(before, arrayKey) : null;
+    const rightIndex = arrayKey ? keyedIndex(after, arrayKey) : null;
+    if (arrayKey && leftIndex && rightIndex) {
+      const labels = [
+        ...leftIndex.keys(),
+        ...[...rightIndex.keys()].filter((label) => !leftIndex.has(label)),
+      ];
+      labels.forEach((label) =>
+        walk(
+          leftIndex.get(label),
+          rightIndex.get(label),
+          [...segments, `[${arrayKey}=${label}]`],
+          arrayKey,
+          changes,
+        ),
+      );
+      return;
+    }
+    const length = Math.max(before.length, after.length);
+    for (let idx = 0; idx < length; idx += 1) {
+      walk(before[idx], after[idx], [...segments, `[${idx}]`], arrayKey, changes);
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [
+      ...Object.keys(before),
+      ...Object.keys(after).filter((key) => !Object.hasOwn(before, key)),
+    ];
+    keys.forEach((key) =>
+      walk(
+        own(before, key),
+        own(after, key),
+        [...segments, keySegment(key)],
+        arrayKey,
+        changes,
+      ),
+    );
+    return;
+  }
+
+  if (!isEqualJson(before, after)) {
+    changes.push({
+      type: "changed",
+      path: joinPath(segments),
+      segments,
+      before,
+      after,
+    });
+  }
+};
+
+export const compareStructured = (
+  before: JsonValue,
+  after: JsonValue,
+  options: { arrayKey?: string } = {},
+): StructuredChange[] => {
+  const changes: StructuredChange[] = [];
+  walk(before, after, [], options.arrayKey, changes);
+  return changes;
+};
+
+/**
+ * Identifies a YAML document by Kubernetes-style `kind` and `metadata.name`
+ * (plus namespace when present), so reordered manifests still line up.
+ */
+const documentIdentity = (document: JsonValue): string | null => {
+  if (!isObject(document)) return null;
+  const kind = own(document, "kind");
+  const metadata = own(document, "metadata");
+  const name = isObject(metadata) ? own(metadata, "name") : undefined;
+  if (typeof kind !== "string" || typeof name !== "string") return null;
+  const namespace = isObject(metadata) ? own(metadata, "namespace") : undefined;
+  return typeof namespace === "string"
+    ? `${kind}/${namespace}/${name}`
+    : `${kind}/${name}`;
+};
+
+const indexDocuments = (documents: JsonValue[]): Map<string, JsonValue> => {
+  const index = new Map<string, JsonValue>();
+  documents.forEach((document, idx) => {
+    const identity = documentIdentity(document);
+    const label =
+      identity && !index.has(`[doc=${JSON.stringify(identity)}]`)
+        ? `[doc=${JSON.stringify(identity)}]`
+        : `[doc=${idx}]`;
+    index.set(label, document);
+  });
+  return index;
+};
+
+const compareDocuments = (
+  before: JsonValue[],
+  after: JsonValue[],
+  options: { arrayKey?: string },
+): StructuredChange[] => {
+  const leftIndex = indexDocuments(before);
+  const rightIndex = indexDocuments(after);
+  const labels = [
+    ...leftIndex.keys(),
+    ...[...rightIndex.keys()].filter((label) => !leftIndex.has(label)),
+  ];
+  const changes: StructuredChange[] = [];
+  labels.forEach((label) =>
+    walk(
+      leftIndex.get(label),
+      rightIndex.get(label),
+      [label],
+      options.arrayKey,
+      changes,
+    ),
+  );
+  return changes;
+};
+
+const parseSide = (
+  text: string,
+  format: StructuredFormat,
+  label: string,
+): JsonValue[] => {
+  try {
+    return parseDocuments(text, format);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${label} file: ${reason}`);
+  }
+};
+
+export const computeStructuredDiff = (
+  original: string,
+  comparison: string,
+  format: StructuredFormat,
+  options: { arrayKey?: string } = {},
+): StructuredDiff => {
+  const before = parseSide(original, format, "Original");
+  const after = parseSide(comparison, format, "Comparison");
+  const stream = before.length > 1 || after.length > 1;
+  const changes = stream
+    ? compareDocuments(before, after, options)
+    : compareStructured(before[0] ?? null, after[0] ?? null, options);
+  const count = (type: StructuredChange["type"]) =>
+    changes.filter((change) => change.type === type).length;
+
+  return {
+    format,
+    arrayKey: options.arrayKey,
+    documents: stream ? [before.length, after.length] : undefined,
+    identical: changes.length === 0,
+    added: count("added"),
+    removed: count("removed"),
+    changed: count("changed"),
+    changes,
+  };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeTabularDiff,
+  detectDelimiter,
+  looksLikeHeader,
+  parseDelimited,
+} from "./tabular";
+
+describe("parseDelimited", () => {
+  it("handles quoted cells with delimiters, quotes and newlines", () => {
+    const rows = parseDelimited('a,"b, c","say ""hi""","multi\nline"\n', ",");
+    expect(rows).toEqual([["a", "b, c", 'say "hi"', "multi\nline"]]);
+  });
+
+  it("skips blank lines", () => {
+    expect(parseDelimited("a,b\n\nc,d\n", ",")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("detects tabs, semicolons and commas", () => {
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3\n")).toBe("\t");
+    expect(detectDelimiter("name;price\nfoo;1,50\nbar;2,00\n")).toBe(";");
+    expect(detectDelimiter("a,b\n1,2\n")).toBe(",");
+  });
+});
+
+describe("looksLikeHeader", () => {
+  it("accepts unique labels and rejects numeric rows", () => {
+    expect(looksLikeHeader([["id", "name"], ["1", "x"]])).toBe(true);
+    expect(looksLikeHeader([["1", "x"], ["2", "y"]])).toBe(false);
+  });
+});
+
+describe("computeTabularDiff", () => {
+  it("matches rows by key columns and reports changed cells", () => {
+    const left = "id,name,price\n1,apple,1.00\n2,pear,2.00\n3,plum,3.00\n";
+    const right = "id,name,price\n3,plum,3.00\n1,apple,1.25\n4,kiwi,0.50\n";
+    const diff = computeTabularDiff(left, right, { keyColumns: ["id"] });
+
+    expect(diff.keyColumns).toEqual(["id"]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.rows).toEqual([
+      {
+        type: "changed",
+        key: "1",
+        oldRow: 2,
+        newRow: 3,
+        before: ["1", "apple", "1.00"],
+        after: ["1", "apple", "1.25"],
+        changedColumns: ["price"],
+      },
+      {
+        type: "removed",
+        key: "2",
+        oldRow: 3,
+        newRow: null,
+        before: ["2", "pear", "2.00"],
+        after: null,
+        changedColumns: [],
+      },
+      {
+        type: "added",
+        key: "4",
+        oldRow: null,
+        newRow: 4,
+        before: null,
+        after: ["4", "kiwi", "0.50"],
+        changedColumns: [],
+      },
+    ]);
+  });
+
+  it("reports column schema changes", () => {
+    const diff = computeTabularDiff(
+      "id,name,legacy\n1,a,x\n",
+      "id,name,region\n1,a,eu\n",
+      { keyColumns: ["ID"] },
+    );
+
+    expect(diff.columns).toEqual(["id", "name", "region", "legacy"]);
+    expect(diff.addedColumns).toEqual(["region"]);
+    expect(diff.removedColumns).toEqual(["legacy"]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it("matches reordered rows by content when no key is given", () => {
+    const diff = computeTabularDiff("a,b\n1,2\n3,4\n5,6\n", "a,b\n5,6\n1,2\n3,9\n");
+
+    expect(diff.unchanged).toBe(2);
+    expect(diff.rows).toHaveLength(1);
+    expect(diff.rows[0]).toMatchObject({
+      type: "changed",
+      oldRow: 3,
+      newRow: 4,
+      changedColumns: ["b"],
+    });
+  });
+
+  it("matches many identical rows without a key", () => {
+    const same = "x,1\n".repeat(30_000);
+    const diff = computeTabularDiff(`a,b\n${same}`, `a,b\n${same}x,1\ny,2\n`);
+
+    expect(diff.unchanged).toBe(30_000);
+    expect(diff.rows.map((row) => row.type)).toEqual(["added", "added"]);
+  });
+
+  it("rejects unknown or non-unique key columns", () => {
+    expect(() =>
+      computeTabularDiff("id,v\n1,a\n", "id,v\n1,b\n", { keyColumns: ["sku"] }),
+    ).toThrow(/"sku" is missing from the original file/);
+    expect(() =>
+      computeTabularDiff("id,v\n1,a\n1,b\n", "id,v\n1,b\n", {
+        keyColumns: ["id"],
+      }),
+    ).toThrow(/uniquely identify rows in the original file/);
+  });
+});
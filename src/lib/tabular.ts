@@ -0,0 +1,301 @@
+import { FileDescriptor, TabularDiff, TabularRowChange } from "./types";
+
+const TABULAR_EXTENSIONS = ["csv", "tsv"];
+const TABULAR_MIMES = ["text/csv", "text/tab-separated-values"];
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"];
+const SNIFF_ROWS = 20;
+const NUMERIC = /^[-+]?(\d+([.,]\d+)?|\.\d+)(e[-+]?\d+)?%?$/i;
+
+type Table = {
+  delimiter: string;
+  header: string[] | null;
+  rows: string[][];
+};
+
+const isTabular = (descriptor: FileDescriptor): boolean =>
+  TABULAR_EXTENSIONS.includes(descriptor.extension) ||
+  TABULAR_MIMES.includes(descriptor.mime.split(";")[0].trim());
+
+export const detectTabular = (
+  left: FileDescriptor,
+  right: FileDescriptor,
+): boolean => isTabular(left) && isTabular(right);
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.length > 1 || cells[0] !== "");
+};
+
+/**
+ * Picks the delimiter that splits the first rows into the most columns with
+ * the most consistent width.
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split("\n").slice(0, SNIFF_ROWS).join("\n");
+  let best = ",";
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const widths = parseDelimited(sample, delimiter).map((cells) => cells.length);
+    if (!widths.length) return;
+    const counts = new Map<number, number>();
+    widths.forEach((width) => counts.set(width, (counts.get(width) ?? 0) + 1));
+    const [modeWidth, modeCount] = [...counts.entries()].reduce((top, entry) =>
+      entry[1] > top[1] || (entry[1] === top[1] && entry[0] > top[0])
+        ? entry
+        : top,
+    );
+    if (modeWidth < 2) return;
+    const score = modeWidth * (modeCount / widths.length);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * A first row is treated as a header when its cells are unique, non-empty and
+ * non-numeric.
+ */
+export const looksLikeHeader = (rows: string[][]): boolean => {
+  const [first] = rows;
+  if (!first || rows.length < 2) return false;
+  const cells = first.map((cell) => cell.trim());
+  return (
+    cells.every((cell) => cell !== "" && !NUMERIC.test(cell)) &&
+    new Set(cells).size === cells.length
+  );
+};
+
+const columnNames = (table: Table): string[] => {
+  const width = Math.max(
+    table.header?.length ?? 0,
+    ...table.rows.map((cells) => cells.length),
+  );
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, idx) => {
+    const base = table.header?.[idx]?.trim() || `Column ${idx + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+};
+
+const resolveColumn = (
+  requested: string,
+  columns: string[],
+  side: string,
+): number => {
+  const exact = columns.indexOf(requested);
+  if (exact !== -1) return exact;
+  const lowered = requested.toLowerCase();
+  const loose = columns.findIndex((name) => name.toLowerCase() === lowered);
+  if (loose !== -1) return loose;
+  const position = Number(requested);
+  if (Number.isInteger(position) && position >= 1 && position <= columns.length) {
+    return position - 1;
+  }
+  throw new Error(`Key column "${requested}" is missing from the ${side} file.`);
+};
+
+const indexByKey = (
+  rows: string[][],
+  keyIndexes: number[],
+  side: string,
+): Map<string, number> => {
+  const index = new Map<string, number>();
+  rows.forEach((cells, rowIdx) => {
+    const key = JSON.stringify(keyIndexes.map((idx) => cells[idx] ?? ""));
+    if (index.has(key)) {
+      const label = keyIndexes.map((idx) => cells[idx] ?? "").join(", ");
+      throw new Error(
+        `Key columns do not uniquely identify rows in the ${side} file ("${label}" repeats).`,
+      );
+    }
+    index.set(key, rowIdx);
+  });
+  return index;
+};
+
+const loadTable = (text: string, hasHeader: boolean, delimiter: string): Table => {
+  const rows = parseDelimited(text, delimiter);
+  return hasHeader
+    ? { delimiter, header: rows[0] ?? [], rows: rows.slice(1) }
+    : { delimiter, header: null, rows };
+};
+
+export const computeTabularDiff = (
+  original: string,
+  comparison: string,
+  options: { keyColumns?: string[] } = {},
+): TabularDiff => {
+  const leftDelimiter = detectDelimiter(original);
+  const rightDelimiter = detectDelimiter(comparison);
+  const leftRows = parseDelimited(original, leftDelimiter);
+  const rightRows = parseDelimited(comparison, rightDelimiter);
+  const hasHeader =
+    (leftRows.length < 2 || looksLikeHeader(leftRows)) &&
+    (rightRows.length < 2 || looksLikeHeader(rightRows)) &&
+    (leftRows.length >= 2 || rightRows.length >= 2);
+
+  const left = loadTable(original, hasHeader, leftDelimiter);
+  const right = loadTable(comparison, hasHeader, rightDelimiter);
+  const leftColumns = columnNames(left);
+  const rightColumns = columnNames(right);
+  const removedColumns = leftColumns.filter((name) => !rightColumns.includes(name));
+  const addedColumns = rightColumns.filter((name) => !leftColumns.includes(name));
+  const columns = [...rightColumns, ...removedColumns];
+  const sharedColumns = columns.filter(
+    (name) => leftColumns.includes(name) && rightColumns.includes(name),
+  );
+  // Header rows occupy record 1 when present.
+  const rowOffset = hasHeader ? 2 : 1;
+
+  const project = (cells: string[], names: string[]) =>
+    columns.map((name) => {
+      const idx = names.indexOf(name);
+      return idx === -1 ? null : (cells[idx] ?? "");
+    });
+  const cellOf = (cells: string[], names: string[], name: string) =>
+    cells[names.indexOf(name)] ?? "";
+
+  const keyColumns = (options.keyColumns ?? []).map(
+    (requested) =>
+      leftColumns[resolveColumn(requested, leftColumns, "original")],
+  );
+  keyColumns.forEach((name) => resolveColumn(name, rightColumns, "comparison"));
+
+  const keyOf = (cells: string[], names: string[]) =>
+    keyColumns.length
+      ? keyColumns.map((name) => cellOf(cells, names, name)).join(", ")
+      : "";
+
+  const rows: TabularRowChange[] = [];
+  let unchanged = 0;
+
+  const compareRows = (leftIdx: number | null, rightIdx: number | null) => {
+    const before = leftIdx === null ? null : left.rows[leftIdx];
+    const after = rightIdx === null ? null : right.rows[rightIdx];
+    const changedColumns =
+      before && after
+        ? sharedColumns.filter(
+            (name) =>
+              cellOf(before, leftColumns, name) !==
+              cellOf(after, rightColumns, name),
+          )
+        : [];
+    if (before && after && !changedColumns.length) {
+      unchanged += 1;
+      return;
+    }
+    rows.push({
+      type: !before ? "added" : !after ? "removed" : "changed",
+      key: before
+        ? keyOf(before, leftColumns)
+        : keyOf(after ?? [], rightColumns),
+      oldRow: leftIdx === null ? null : leftIdx + rowOffset,
+      newRow: rightIdx === null ? null : rightIdx + rowOffset,
+      before: before ? project(before, leftColumns) : null,
+      after: after ? project(after, rightColumns) : null,
+      changedColumns,
+    });
+  };
+
+  if (keyColumns.length) {
+    const leftKeys = keyColumns.map((name) => leftColumns.indexOf(name));
+    const rightKeys = keyColumns.map((name) => rightColumns.indexOf(name));
+    const leftIndex = indexByKey(left.rows, leftKeys, "original");
+    const rightIndex = indexByKey(right.rows, rightKeys, "comparison");
+    leftIndex.forEach((leftIdx, key) =>
+      compareRows(leftIdx, rightIndex.get(key) ?? null),
+    );
+    rightIndex.forEach((rightIdx, key) => {
+      if (!leftIndex.has(key)) compareRows(null, rightIdx);
+    });
+  } else {
+    // Without keys, identical rows match wherever they moved; leftovers pair up in order.
+    const signature = (cells: string[], names: string[]) =>
+      JSON.stringify(sharedColumns.map((name) => cellOf(cells, names, name)));
+    // Right rows by signature, with a cursor past the ones already matched.
+    const pending = new Map<string, { rows: number[]; next: number }>();
+    right.rows.forEach((cells, idx) => {
+      const key = signature(cells, rightColumns);
+      const entry = pending.get(key);
+      if (entry) entry.rows.push(idx);
+      else pending.set(key, { rows: [idx], next: 0 });
+    });
+    const leftovers: number[] = [];
+    left.rows.forEach((cells, idx) => {
+      const matches = pending.get(signature(cells, leftColumns));
+      if (matches && matches.next < matches.rows.length) {
+        compareRows(idx, matches.rows[matches.next]);
+        matches.next += 1;
+      } else {
+        leftovers.push(idx);
+      }
+    });
+    const unmatched = [...pending.values()]
+      .flatMap(({ rows: indexes, next }) => indexes.slice(next))
+      .sort((a, b) => a - b);
+    leftovers.forEach((leftIdx, position) =>
+      compareRows(leftIdx, unmatched[position] ?? null),
+    );
+    unmatched.slice(leftovers.length).forEach((rightIdx) =>
+      compareRows(null, rightIdx),
+    );
+  }
+
+  const count = (type: TabularRowChange["type"]) =>
+    rows.filter((row) => row.type === type).length;
+
+  return {
+    delimiters: [leftDelimiter, rightDelimiter],
+    hasHeader,
+    columns,
+    addedColumns,
+    removedColumns,
+    keyColumns,
+    added: count("added"),
+    removed: count("removed"),
+    changed: count("changed"),
+    unchanged,
+    rows,
+  };
+};
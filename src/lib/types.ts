@@ -1,5 +1,13 @@
 export type FileKind = "text" | "binary";
 
+export type LineEnding = "lf" | "crlf" | "cr" | "mixed" | "none";
+
+export interface TextFacts {
+  lineEnding: LineEnding;
+  bom: boolean;
+  finalNewline: boolean;
+}
+
 export interface FileDescriptor {
   name: string;
   extension: string;
@@ -7,10 +15,43 @@ export interface FileDescriptor {
   mime: string;
   hash: string;
   kind: FileKind;
+  encoding?: string;
+  lineEnding?: LineEnding;
+  bom?: boolean;
+  finalNewline?: boolean;
+  metadata?: MetadataSummary;
+  document?: DocumentInfo;
   warnings?: string[];
 }
 
-export type DiffLineType = "unchanged" | "added" | "removed" | "modified";
+export type DiffLineType =
+  | "unchanged"
+  | "added"
+  | "removed"
+  | "modified"
+  | "moved";
+
+export type InlineGranularity = "word" | "char";
+
+export type DiffAlgorithm = "myers" | "patience" | "histogram";
+
+export type InlineSegmentType = "equal" | "inserted" | "deleted";
+
+export interface InlineSegment {
+  type: InlineSegmentType;
+  value: string;
+}
+
+export type LineMoveSide = "source" | "target";
+
+export interface LineMove {
+  // Shared by every line of one moved block, numbered from 1.
+  id: number;
+  // "source" is where the block was removed, "target" where it was added.
+  side: LineMoveSide;
+  oldNumber: number;
+  newNumber: number;
+}
 
 export interface DiffLine {
   type: DiffLineType;
@@ -18,6 +59,52 @@ export interface DiffLine {
   newNumber: number | null;
   before?: string | null;
   after?: string | null;
+  segments?: InlineSegment[];
+  ignored?: boolean;
+  oldLocator?: DocumentLocator;
+  newLocator?: DocumentLocator;
+  move?: LineMove;
+}
+
+export interface DiffHunk {
+  // Position of the hunk's first line in the full text diff.
+  start: number;
+  lines: DiffLine[];
+}
+
+export interface TextHunks {
+  // Number of lines in the full text diff, shown or not.
+  lineCount: number;
+  context: number;
+  hunks: DiffHunk[];
+  // GET with `start` and `end` to fetch hidden lines. Absent for streamed diffs.
+  linesUrl?: string;
+}
+
+export interface DiffLinePage {
+  start: number;
+  lines: DiffLine[];
+}
+
+export interface IgnoreOptions {
+  ignoreTrailingWhitespace?: boolean;
+  ignoreWhitespace?: boolean;
+  ignoreCase?: boolean;
+  ignoreBlankLines?: boolean;
+}
+
+export type IgnoreRuleScope = "substring" | "line";
+
+export interface IgnoreRule {
+  pattern: string;
+  scope: IgnoreRuleScope;
+  flags?: string;
+}
+
+export interface TextDiffOptions extends IgnoreOptions {
+  granularity?: InlineGranularity;
+  algorithm?: DiffAlgorithm;
+  ignoreRules?: IgnoreRule[];
 }
 
 export interface DiffSummary {
@@ -27,12 +114,334 @@ export interface DiffSummary {
   removed: number;
   modified: number;
   changePercent: number;
+  ignored?: number;
+  moved?: number;
+}
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface HexRow {
+  offset: number;
+  left: number[];
+  right: number[];
 }
 
+export interface HexPreview {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  rows: HexRow[];
+}
+
+export interface BinaryDiff {
+  leftSize: number;
+  rightSize: number;
+  changedBytes: number;
+  ranges: ByteRange[];
+  rangesTruncated: boolean;
+  similarity: number;
+  preview: HexPreview;
+}
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export type StructuredFormat = "json" | "yaml" | "toml";
+
+export type StructuredChangeType = "added" | "removed" | "changed";
+
+export interface StructuredChange {
+  type: StructuredChangeType;
+  path: string;
+  segments: string[];
+  before?: JsonValue;
+  after?: JsonValue;
+}
+
+export interface StructuredDiff {
+  format: StructuredFormat;
+  arrayKey?: string;
+  documents?: [number, number];
+  identical: boolean;
+  added: number;
+  removed: number;
+  changed: number;
+  changes: StructuredChange[];
+}
+
+export type TabularRowChangeType = "added" | "removed" | "changed";
+
+export interface TabularRowChange {
+  type: TabularRowChangeType;
+  key: string;
+  oldRow: number | null;
+  newRow: number | null;
+  before: (string | null)[] | null;
+  after: (string | null)[] | null;
+  changedColumns: string[];
+}
+
+export interface TabularDiff {
+  delimiters: [string, string];
+  hasHeader: boolean;
+  columns: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  keyColumns: string[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  rows: TabularRowChange[];
+}
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+export type ArchiveEntryStatus =
+  | "added"
+  | "removed"
+  | "changed"
+  | "renamed"
+  | "identical";
+
+export interface ArchiveEntryChange {
+  path: string;
+  oldPath?: string;
+  status: ArchiveEntryStatus;
+  kind: FileKind;
+  oldSize: number | null;
+  newSize: number | null;
+  oldHash: string | null;
+  newHash: string | null;
+}
+
+export interface ArchiveDiff {
+  formats: [ArchiveFormat, ArchiveFormat];
+  added: number;
+  removed: number;
+  changed: number;
+  renamed: number;
+  identical: number;
+  entries: ArchiveEntryChange[];
+  entry?: string;
+}
+
+export type FindingKind = "encoding" | "line-ending" | "bom" | "final-newline";
+
+export interface Finding {
+  kind: FindingKind;
+  message: string;
+  before: string | boolean;
+  after: string | boolean;
+}
+
+export type PatchHunkStatus = "applied" | "failed";
+
+export interface PatchHunkResult {
+  index: number;
+  header: string;
+  status: PatchHunkStatus;
+  offset: number;
+  fuzz: number;
+}
+
+export interface PatchReport {
+  mode: "apply" | "preview";
+  oldName: string | null;
+  newName: string | null;
+  fileCount: number;
+  hunkCount: number;
+  applied: number;
+  failed: number;
+  hunks: PatchHunkResult[];
+}
+
+export type MultiDiffChangeType = "modified" | "removed";
+
+export interface MultiDiffChange {
+  variant: number;
+  type: MultiDiffChangeType;
+  text?: string;
+}
+
+export interface MultiDiffInsertion {
+  variant: number;
+  lines: string[];
+}
+
+export interface MultiDiffLine {
+  number: number;
+  text: string;
+  changes: MultiDiffChange[];
+  insertions: MultiDiffInsertion[];
+}
+
+export interface MultiDiffVariant {
+  file: FileDescriptor;
+  summary: DiffSummary;
+}
+
+export interface MultiDiff {
+  baseline: FileDescriptor;
+  variants: MultiDiffVariant[];
+  selected: number;
+  leadingInsertions: MultiDiffInsertion[];
+  lines: MultiDiffLine[];
+}
+
+export type MergeHunkType =
+  | "unchanged"
+  | "ours"
+  | "theirs"
+  | "both"
+  | "conflict";
+
+export type MergeResolution = "ours" | "theirs" | "both" | "base";
+
+export type MergeConflictStyle = "merge" | "diff3";
+
+export interface MergeHunk {
+  index: number;
+  type: MergeHunkType;
+  baseStart: number;
+  oursStart: number;
+  theirsStart: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+  resolution?: MergeResolution;
+}
+
+export interface MergeResult {
+  base: FileDescriptor;
+  conflictStyle: MergeConflictStyle;
+  oursOnly: number;
+  theirsOnly: number;
+  bothSame: number;
+  conflicts: number;
+  unresolved: number;
+  hunks: MergeHunk[];
+  merged: string;
+}
+
+export type ImageFormat = "png" | "jpeg" | "gif" | "webp";
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  alpha: boolean;
+  animated: boolean;
+}
+
+export interface ImageDiff {
+  images: [ImageInfo, ImageInfo];
+  formatChanged: boolean;
+  dimensionsChanged: boolean;
+  totalPixels?: number;
+  changedPixels?: number;
+  changePercent?: number;
+  similarity?: number;
+  overlay?: string;
+}
+
+export type MetadataGroup =
+  | "container"
+  | "exif"
+  | "xmp"
+  | "iptc"
+  | "icc"
+  | "text";
+
+export interface MetadataSummary {
+  fields: Partial<Record<MetadataGroup, number>>;
+  camera?: string;
+  software?: string;
+  created?: string;
+  colorProfile?: string;
+  location: boolean;
+}
+
+export type MetadataChangeType = "added" | "removed" | "changed";
+
+export interface MetadataChange {
+  type: MetadataChangeType;
+  group: MetadataGroup;
+  key: string;
+  before?: string;
+  after?: string;
+}
+
+export interface MetadataDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  changes: MetadataChange[];
+}
+
+export type DocumentFormat = "pdf" | "docx" | "xlsx";
+
+export type DocumentUnit = "page" | "paragraph" | "row";
+
+export interface DocumentLocator {
+  unit: DocumentUnit;
+  number: number;
+  sheet?: string;
+}
+
+export interface DocumentInfo {
+  format: DocumentFormat;
+  pages?: number;
+  paragraphs?: number;
+  sheets?: string[];
+}
+
+export interface SavedComparison {
+  id: string;
+  url: string;
+  createdAt: string;
+  expiresAt: string;
+  fields: [string, string][];
+  deleteToken?: string;
+}
+
+export type DiffStreamChunk =
+  | { type: "files"; files: [FileDescriptor, FileDescriptor] }
+  | { type: "lines"; lines: DiffLine[] }
+  | { type: "skipped"; oldNumber: number; newNumber: number; count: number }
+  | {
+      type: "summary";
+      summary: DiffSummary;
+      findings?: Finding[];
+      warnings?: string[];
+    }
+  | { type: "error"; error: string };
+
 export interface DiffResult {
   files: [FileDescriptor, FileDescriptor];
   summary: DiffSummary;
   textDiff?: DiffLine[];
+  textHunks?: TextHunks;
+  findings?: Finding[];
+  binaryDiff?: BinaryDiff;
+  structuredDiff?: StructuredDiff;
+  tabularDiff?: TabularDiff;
+  archiveDiff?: ArchiveDiff;
+  patch?: PatchReport;
+  merge?: MergeResult;
+  multiDiff?: MultiDiff;
+  imageDiff?: ImageDiff;
+  metadataDiff?: MetadataDiff;
+  saved?: SavedComparison;
   warnings?: string[];
   error?: string;
 }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { computeTextDiff } from "./diff";
+import { renderUnifiedDiff } from "./unified";
+
+const names = { oldName: "config.txt", newName: "config.txt" };
+
+describe("renderUnifiedDiff", () => {
+  it("returns an empty patch for identical content", () => {
+    const { lines } = computeTextDiff("a\nb\n", "a\nb\n");
+    expect(renderUnifiedDiff(lines, names)).toBe("");
+  });
+
+  it("renders hunks with context and removals before additions", () => {
+    const left = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n";
+    const right = "1\n2\n3\n4\nfive\n6\n7\n8\n9\n10\n11\n";
+    const { lines } = computeTextDiff(left, right);
+
+    expect(renderUnifiedDiff(lines, { ...names, context: 1 })).toBe(
+      [
+        "--- a/config.txt",
+        "+++ b/config.txt",
+        "@@ -4,3 +4,3 @@",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        "@@ -10 +10,2 @@",
+        " 10",
+        "+11",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("merges nearby changes into one hunk", () => {
+    const { lines } = computeTextDiff("a\nb\nc\nd\n", "A\nb\nc\nD\n");
+    const patch = renderUnifiedDiff(lines, { ...names, context: 1 });
+    expect(patch.match(/^@@/gm)).toHaveLength(1);
+    expect(patch).toContain("@@ -1,4 +1,4 @@");
+  });
+
+  it("uses a zero start for additions to an empty file", () => {
+    const { lines } = computeTextDiff("", "new\n");
+    expect(renderUnifiedDiff(lines, names)).toContain("@@ -0,0 +1 @@\n+new\n");
+  });
+
+  it("marks a missing final newline", () => {
+    const { lines } = computeTextDiff("a\nb", "a\nb\n");
+    expect(
+      renderUnifiedDiff(lines, {
+        ...names,
+        oldFinalNewline: false,
+        newFinalNewline: true,
+      }),
+    ).toBe(
+      [
+        "--- a/config.txt",
+        "+++ b/config.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "\\ No newline at end of file",
+        "+b",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps the marker on shared context when both files lack it", () => {
+    const { lines } = computeTextDiff("x\nend", "y\nend");
+    const patch = renderUnifiedDiff(lines, {
+      ...names,
+      oldFinalNewline: false,
+      newFinalNewline: false,
+    });
+    expect(patch.endsWith(" end\n\\ No newline at end of file\n")).toBe(true);
+  });
+
+  it("writes lines matched only through ignore options as changes", () => {
+    const { lines } = computeTextDiff("a\nKeep  me\n", "a\nkeep me\n", {
+      ignoreCase: true,
+      ignoreWhitespace: true,
+    });
+    expect(renderUnifiedDiff(lines, names)).toBe(
+      [
+        "--- a/config.txt",
+        "+++ b/config.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-Keep  me",
+        "+keep me",
+        "",
+      ].join("\n"),
+    );
+  });
+});
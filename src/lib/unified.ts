@@ -0,0 +1,162 @@
+import { DiffLine } from "./types";
+
+export const DEFAULT_CONTEXT_LINES = 3;
+export const MAX_CONTEXT_LINES = 1000;
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+type PatchLine = {
+  prefix: " " | "-" | "+";
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+};
+
+export type UnifiedDiffOptions = {
+  oldName: string;
+  newName: string;
+  context?: number;
+  oldFinalNewline?: boolean;
+  newFinalNewline?: boolean;
+};
+
+/**
+ * Flattens diff lines into patch lines. Within each changed run every removal
+ * is written before every addition, as `diff -u` does. Lines whose differences
+ * were ignored are still written as changes, so the patch applies exactly.
+ */
+const toPatchLines = (
+  lines: DiffLine[],
+  oldLineCount: number,
+  newLineCount: number,
+  oldFinalNewline: boolean,
+  newFinalNewline: boolean,
+): PatchLine[] => {
+  const patch: PatchLine[] = [];
+  let removals: PatchLine[] = [];
+  let additions: PatchLine[] = [];
+  const flush = () => {
+    patch.push(...removals, ...additions);
+    removals = [];
+    additions = [];
+  };
+
+  lines.forEach((line) => {
+    // A shared line still changes when only one side of it ends in a newline,
+    // or when an ignore option matched it despite different text.
+    const oldTerminated = line.oldNumber !== oldLineCount || oldFinalNewline;
+    const newTerminated = line.newNumber !== newLineCount || newFinalNewline;
+    const sameText = line.after === undefined || line.after === line.before;
+    if (
+      line.type === "unchanged" &&
+      oldTerminated === newTerminated &&
+      sameText
+    ) {
+      flush();
+      patch.push({
+        prefix: " ",
+        text: line.before ?? "",
+        oldNumber: line.oldNumber,
+        newNumber: line.newNumber,
+      });
+      return;
+    }
+    if (line.oldNumber !== null) {
+      removals.push({
+        prefix: "-",
+        text: line.before ?? "",
+        oldNumber: line.oldNumber,
+        newNumber: null,
+      });
+    }
+    if (line.newNumber !== null) {
+      additions.push({
+        prefix: "+",
+        text: line.after ?? "",
+        oldNumber: null,
+        newNumber: line.newNumber,
+      });
+    }
+  });
+  flush();
+
+  return patch;
+};
+
+const hunkRange = (start: number, count: number) =>
+  count === 1 ? `${start}` : `${start},${count}`;
+
+export const renderUnifiedDiff = (
+  lines: DiffLine[],
+  options: UnifiedDiffOptions,
+): string => {
+  const context = Math.max(0, options.context ?? DEFAULT_CONTEXT_LINES);
+  const oldFinalNewline = options.oldFinalNewline ?? true;
+  const newFinalNewline = options.newFinalNewline ?? true;
+  const oldLineCount = lines.reduce(
+    (max, line) => Math.max(max, line.oldNumber ?? 0),
+    0,
+  );
+  const newLineCount = lines.reduce(
+    (max, line) => Math.max(max, line.newNumber ?? 0),
+    0,
+  );
+  const patch = toPatchLines(
+    lines,
+    oldLineCount,
+    newLineCount,
+    oldFinalNewline,
+    newFinalNewline,
+  );
+
+  const changed = patch
+    .map((line, idx) => (line.prefix === " " ? -1 : idx))
+    .filter((idx) => idx !== -1);
+  if (!changed.length) return "";
+
+  const hunks: Array<[number, number]> = [];
+  changed.forEach((idx) => {
+    const start = Math.max(0, idx - context);
+    const end = Math.min(patch.length - 1, idx + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const output = [`--- a/${options.oldName}`, `+++ b/${options.newName}`];
+  let oldSeen = 0;
+  let newSeen = 0;
+  let cursor = 0;
+
+  const advance = (line: PatchLine) => {
+    if (line.prefix !== "+") oldSeen += 1;
+    if (line.prefix !== "-") newSeen += 1;
+  };
+
+  hunks.forEach(([start, end]) => {
+    for (; cursor < start; cursor += 1) advance(patch[cursor]);
+    const body = patch.slice(start, end + 1);
+    const oldCount = body.filter((line) => line.prefix !== "+").length;
+    const newCount = body.filter((line) => line.prefix !== "-").length;
+    const oldStart = oldCount ? oldSeen + 1 : oldSeen;
+    const newStart = newCount ? newSeen + 1 : newSeen;
+    output.push(
+      `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`,
+    );
+
+    body.forEach((line) => {
+      output.push(`${line.prefix}${line.text}`);
+      const endsOld = line.prefix !== "+" && line.oldNumber === oldLineCount;
+      const endsNew = line.prefix !== "-" && line.newNumber === newLineCount;
+      if ((endsOld && !oldFinalNewline) || (endsNew && !newFinalNewline)) {
+        output.push(NO_NEWLINE_MARKER);
+      }
+    });
+    for (; cursor <= end; cursor += 1) advance(patch[cursor]);
+  });
+
+  return `${output.join("\n")}\n`;
+};
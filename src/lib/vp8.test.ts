@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { decodeVp8 } from "./vp8";
+
+// The VP8 chunk of a 4×2 key frame whose rows fade from red to blue.
+const FRAME = Buffer.from(
+  "MAMAnQEqBAACAAFAJiWoAnRyAPsArgD+AZQB+gALdrLzEAD++WYMzkST/9dBXN/T//wJ3/+dBXN/T/4E7kgnEZfT1YpdU8ZQAAA=",
+  "base64",
+);
+
+describe("decodeVp8", () => {
+  it("decodes a key frame to opaque RGBA", () => {
+    const { width, height, data } = decodeVp8(FRAME);
+    expect([width, height]).toEqual([4, 2]);
+    expect(Array.from(data.subarray(0, 8))).toEqual([
+      221, 29, 35, 255, 182, 39, 89, 255,
+    ]);
+  });
+
+  it("rejects interframes and missing start codes", () => {
+    const interframe = Buffer.from(FRAME);
+    interframe[0] |= 1;
+    expect(() => decodeVp8(interframe)).toThrow(/key frame/);
+    const unsigned = Buffer.from(FRAME);
+    unsigned[3] = 0;
+    expect(() => decodeVp8(unsigned)).toThrow(/start code/);
+  });
+});
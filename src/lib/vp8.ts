@@ -0,0 +1,1257 @@
+import type { Raster } from "./image";
+
+// Default token probabilities, indexed [type][band][context][node] (RFC 6386, 13.5).
+const COEFF_PROBS = [
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 253, 136, 254, 255, 228, 219, 128, 128, 128, 128, 128, 189,
+  129, 242, 255, 227, 213, 255, 219, 128, 128, 128, 106, 126, 227, 252, 214,
+  209, 255, 255, 128, 128, 128, 1, 98, 248, 255, 236, 226, 255, 255, 128, 128,
+  128, 181, 133, 238, 254, 221, 234, 255, 154, 128, 128, 128, 78, 134, 202, 247,
+  198, 180, 255, 219, 128, 128, 128, 1, 185, 249, 255, 243, 255, 128, 128, 128,
+  128, 128, 184, 150, 247, 255, 236, 224, 128, 128, 128, 128, 128, 77, 110, 216,
+  255, 236, 230, 128, 128, 128, 128, 128, 1, 101, 251, 255, 241, 255, 128, 128,
+  128, 128, 128, 170, 139, 241, 252, 236, 209, 255, 255, 128, 128, 128, 37, 116,
+  196, 243, 228, 255, 255, 255, 128, 128, 128, 1, 204, 254, 255, 245, 255, 128,
+  128, 128, 128, 128, 207, 160, 250, 255, 238, 128, 128, 128, 128, 128, 128,
+  102, 103, 231, 255, 211, 171, 128, 128, 128, 128, 128, 1, 152, 252, 255, 240,
+  255, 128, 128, 128, 128, 128, 177, 135, 243, 255, 234, 225, 128, 128, 128,
+  128, 128, 80, 129, 211, 255, 194, 224, 128, 128, 128, 128, 128, 1, 1, 255,
+  128, 128, 128, 128, 128, 128, 128, 128, 246, 1, 255, 128, 128, 128, 128, 128,
+  128, 128, 128, 255, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 198, 35,
+  237, 223, 193, 187, 162, 160, 145, 155, 62, 131, 45, 198, 221, 172, 176, 220,
+  157, 252, 221, 1, 68, 47, 146, 208, 149, 167, 221, 162, 255, 223, 128, 1, 149,
+  241, 255, 221, 224, 255, 255, 128, 128, 128, 184, 141, 234, 253, 222, 220,
+  255, 199, 128, 128, 128, 81, 99, 181, 242, 176, 190, 249, 202, 255, 255, 128,
+  1, 129, 232, 253, 214, 197, 242, 196, 255, 255, 128, 99, 121, 210, 250, 201,
+  198, 255, 202, 128, 128, 128, 23, 91, 163, 242, 170, 187, 247, 210, 255, 255,
+  128, 1, 200, 246, 255, 234, 255, 128, 128, 128, 128, 128, 109, 178, 241, 255,
+  231, 245, 255, 255, 128, 128, 128, 44, 130, 201, 253, 205, 192, 255, 255, 128,
+  128, 128, 1, 132, 239, 251, 219, 209, 255, 165, 128, 128, 128, 94, 136, 225,
+  251, 218, 190, 255, 255, 128, 128, 128, 22, 100, 174, 245, 186, 161, 255, 199,
+  128, 128, 128, 1, 182, 249, 255, 232, 235, 128, 128, 128, 128, 128, 124, 143,
+  241, 255, 227, 234, 128, 128, 128, 128, 128, 35, 77, 181, 251, 193, 211, 255,
+  205, 128, 128, 128, 1, 157, 247, 255, 236, 231, 255, 255, 128, 128, 128, 121,
+  141, 235, 255, 225, 227, 255, 255, 128, 128, 128, 45, 99, 188, 251, 195, 217,
+  255, 224, 128, 128, 128, 1, 1, 251, 255, 213, 255, 128, 128, 128, 128, 128,
+  203, 1, 248, 255, 255, 128, 128, 128, 128, 128, 128, 137, 1, 177, 255, 224,
+  255, 128, 128, 128, 128, 128, 253, 9, 248, 251, 207, 208, 255, 192, 128, 128,
+  128, 175, 13, 224, 243, 193, 185, 249, 198, 255, 255, 128, 73, 17, 171, 221,
+  161, 179, 236, 167, 255, 234, 128, 1, 95, 247, 253, 212, 183, 255, 255, 128,
+  128, 128, 239, 90, 244, 250, 211, 209, 255, 255, 128, 128, 128, 155, 77, 195,
+  248, 188, 195, 255, 255, 128, 128, 128, 1, 24, 239, 251, 218, 219, 255, 205,
+  128, 128, 128, 201, 51, 219, 255, 196, 186, 128, 128, 128, 128, 128, 69, 46,
+  190, 239, 201, 218, 255, 228, 128, 128, 128, 1, 191, 251, 255, 255, 128, 128,
+  128, 128, 128, 128, 223, 165, 249, 255, 213, 255, 128, 128, 128, 128, 128,
+  141, 124, 248, 255, 255, 128, 128, 128, 128, 128, 128, 1, 16, 248, 255, 255,
+  128, 128, 128, 128, 128, 128, 190, 36, 230, 255, 236, 255, 128, 128, 128, 128,
+  128, 149, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128, 1, 226, 255, 128,
+  128, 128, 128, 128, 128, 128, 128, 247, 192, 255, 128, 128, 128, 128, 128,
+  128, 128, 128, 240, 128, 255, 128, 128, 128, 128, 128, 128, 128, 128, 1, 134,
+  252, 255, 255, 128, 128, 128, 128, 128, 128, 213, 62, 250, 255, 255, 128, 128,
+  128, 128, 128, 128, 55, 93, 255, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 202, 24, 213, 235, 186, 191, 220, 160, 240, 175, 255, 126, 38, 182,
+  232, 169, 184, 228, 174, 255, 187, 128, 61, 46, 138, 219, 151, 178, 240, 170,
+  255, 216, 128, 1, 112, 230, 250, 199, 191, 247, 159, 255, 255, 128, 166, 109,
+  228, 252, 211, 215, 255, 174, 128, 128, 128, 39, 77, 162, 232, 172, 180, 245,
+  178, 255, 255, 128, 1, 52, 220, 246, 198, 199, 249, 220, 255, 255, 128, 124,
+  74, 191, 243, 183, 193, 250, 221, 255, 255, 128, 24, 71, 130, 219, 154, 170,
+  243, 182, 255, 255, 128, 1, 182, 225, 249, 219, 240, 255, 224, 128, 128, 128,
+  149, 150, 226, 252, 216, 205, 255, 171, 128, 128, 128, 28, 108, 170, 242, 183,
+  194, 254, 223, 255, 255, 128, 1, 81, 230, 252, 204, 203, 255, 192, 128, 128,
+  128, 123, 102, 209, 247, 188, 196, 255, 233, 128, 128, 128, 20, 95, 153, 243,
+  164, 173, 255, 203, 128, 128, 128, 1, 222, 248, 255, 216, 213, 128, 128, 128,
+  128, 128, 168, 175, 246, 252, 235, 205, 255, 255, 128, 128, 128, 47, 116, 215,
+  255, 211, 212, 255, 255, 128, 128, 128, 1, 121, 236, 253, 212, 214, 255, 255,
+  128, 128, 128, 141, 84, 213, 252, 201, 202, 255, 219, 128, 128, 128, 42, 80,
+  160, 240, 162, 185, 255, 205, 128, 128, 128, 1, 1, 255, 128, 128, 128, 128,
+  128, 128, 128, 128, 244, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128, 238,
+  1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+];
+
+// Probability that a key frame replaces each token probability (RFC 6386, 13.4).
+const COEFF_UPDATE_PROBS = [
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 176, 246, 255, 255, 255, 255, 255, 255, 255, 255, 255, 223,
+  241, 252, 255, 255, 255, 255, 255, 255, 255, 255, 249, 253, 253, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 244, 252, 255, 255, 255, 255, 255, 255,
+  255, 255, 234, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255, 253, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 246, 254, 255, 255, 255,
+  255, 255, 255, 255, 255, 239, 253, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 248, 254,
+  255, 255, 255, 255, 255, 255, 255, 255, 251, 255, 254, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255, 251, 254, 254, 255,
+  255, 255, 255, 255, 255, 255, 255, 254, 255, 254, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 254, 253, 255, 254, 255, 255, 255, 255, 255, 255, 250,
+  255, 254, 255, 254, 255, 255, 255, 255, 255, 255, 254, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 217, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 225, 252, 241, 253, 255, 255, 254, 255, 255, 255,
+  255, 234, 250, 241, 250, 253, 255, 253, 254, 255, 255, 255, 255, 254, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 223, 254, 254, 255, 255, 255, 255,
+  255, 255, 255, 255, 238, 253, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255, 249, 254, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 247,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 253, 254, 255, 255, 255, 255, 255, 255,
+  255, 255, 252, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 254, 254, 255, 255, 255,
+  255, 255, 255, 255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 254, 253,
+  255, 255, 255, 255, 255, 255, 255, 255, 250, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 186, 251, 250, 255, 255, 255, 255, 255, 255, 255, 255, 234,
+  251, 244, 254, 255, 255, 255, 255, 255, 255, 255, 251, 251, 243, 253, 254,
+  255, 254, 255, 255, 255, 255, 255, 253, 254, 255, 255, 255, 255, 255, 255,
+  255, 255, 236, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255, 251, 253,
+  253, 254, 254, 255, 255, 255, 255, 255, 255, 255, 254, 254, 255, 255, 255,
+  255, 255, 255, 255, 255, 254, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 254, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 254, 254, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 254, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 248, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 250, 254, 252, 254, 255, 255, 255,
+  255, 255, 255, 255, 248, 254, 249, 253, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255, 246, 253, 253, 255,
+  255, 255, 255, 255, 255, 255, 255, 252, 254, 251, 254, 254, 255, 255, 255,
+  255, 255, 255, 255, 254, 252, 255, 255, 255, 255, 255, 255, 255, 255, 248,
+  254, 253, 255, 255, 255, 255, 255, 255, 255, 255, 253, 255, 254, 254, 255,
+  255, 255, 255, 255, 255, 255, 255, 251, 254, 255, 255, 255, 255, 255, 255,
+  255, 255, 245, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255, 253, 253,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 251, 253, 255, 255, 255,
+  255, 255, 255, 255, 255, 252, 253, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 252, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 249, 255, 254, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 250, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 254,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255,
+];
+
+// Subblock mode probabilities on key frames, indexed [above][left][node].
+const BMODE_PROBS = [
+  231, 120, 48, 89, 115, 113, 120, 152, 112, 152, 179, 64, 126, 170, 118, 46,
+  70, 95, 175, 69, 143, 80, 85, 82, 72, 155, 103, 56, 58, 10, 171, 218, 189, 17,
+  13, 152, 114, 26, 17, 163, 44, 195, 21, 10, 173, 121, 24, 80, 195, 26, 62, 44,
+  64, 85, 144, 71, 10, 38, 171, 213, 144, 34, 26, 170, 46, 55, 19, 136, 160, 33,
+  206, 71, 63, 20, 8, 114, 114, 208, 12, 9, 226, 81, 40, 11, 96, 182, 84, 29,
+  16, 36, 134, 183, 89, 137, 98, 101, 106, 165, 148, 72, 187, 100, 130, 157,
+  111, 32, 75, 80, 66, 102, 167, 99, 74, 62, 40, 234, 128, 41, 53, 9, 178, 241,
+  141, 26, 8, 107, 74, 43, 26, 146, 73, 166, 49, 23, 157, 65, 38, 105, 160, 51,
+  52, 31, 115, 128, 104, 79, 12, 27, 217, 255, 87, 17, 7, 87, 68, 71, 44, 114,
+  51, 15, 186, 23, 47, 41, 14, 110, 182, 183, 21, 17, 194, 66, 45, 25, 102, 197,
+  189, 23, 18, 22, 88, 88, 147, 150, 42, 46, 45, 196, 205, 43, 97, 183, 117, 85,
+  38, 35, 179, 61, 39, 53, 200, 87, 26, 21, 43, 232, 171, 56, 34, 51, 104, 114,
+  102, 29, 93, 77, 39, 28, 85, 171, 58, 165, 90, 98, 64, 34, 22, 116, 206, 23,
+  34, 43, 166, 73, 107, 54, 32, 26, 51, 1, 81, 43, 31, 68, 25, 106, 22, 64, 171,
+  36, 225, 114, 34, 19, 21, 102, 132, 188, 16, 76, 124, 62, 18, 78, 95, 85, 57,
+  50, 48, 51, 193, 101, 35, 159, 215, 111, 89, 46, 111, 60, 148, 31, 172, 219,
+  228, 21, 18, 111, 112, 113, 77, 85, 179, 255, 38, 120, 114, 40, 42, 1, 196,
+  245, 209, 10, 25, 109, 88, 43, 29, 140, 166, 213, 37, 43, 154, 61, 63, 30,
+  155, 67, 45, 68, 1, 209, 100, 80, 8, 43, 154, 1, 51, 26, 71, 142, 78, 78, 16,
+  255, 128, 34, 197, 171, 41, 40, 5, 102, 211, 183, 4, 1, 221, 51, 50, 17, 168,
+  209, 192, 23, 25, 82, 138, 31, 36, 171, 27, 166, 38, 44, 229, 67, 87, 58, 169,
+  82, 115, 26, 59, 179, 63, 59, 90, 180, 59, 166, 93, 73, 154, 40, 40, 21, 116,
+  143, 209, 34, 39, 175, 47, 15, 16, 183, 34, 223, 49, 45, 183, 46, 17, 33, 183,
+  6, 98, 15, 32, 183, 57, 46, 22, 24, 128, 1, 54, 17, 37, 65, 32, 73, 115, 28,
+  128, 23, 128, 205, 40, 3, 9, 115, 51, 192, 18, 6, 223, 87, 37, 9, 115, 59, 77,
+  64, 21, 47, 104, 55, 44, 218, 9, 54, 53, 130, 226, 64, 90, 70, 205, 40, 41,
+  23, 26, 57, 54, 57, 112, 184, 5, 41, 38, 166, 213, 30, 34, 26, 133, 152, 116,
+  10, 32, 134, 39, 19, 53, 221, 26, 114, 32, 73, 255, 31, 9, 65, 234, 2, 15, 1,
+  118, 73, 75, 32, 12, 51, 192, 255, 160, 43, 51, 88, 31, 35, 67, 102, 85, 55,
+  186, 85, 56, 21, 23, 111, 59, 205, 45, 37, 192, 55, 38, 70, 124, 73, 102, 1,
+  34, 98, 125, 98, 42, 88, 104, 85, 117, 175, 82, 95, 84, 53, 89, 128, 100, 113,
+  101, 45, 75, 79, 123, 47, 51, 128, 81, 171, 1, 57, 17, 5, 71, 102, 57, 53, 41,
+  49, 38, 33, 13, 121, 57, 73, 26, 1, 85, 41, 10, 67, 138, 77, 110, 90, 47, 114,
+  115, 21, 2, 10, 102, 255, 166, 23, 6, 101, 29, 16, 10, 85, 128, 101, 196, 26,
+  57, 18, 10, 102, 102, 213, 34, 20, 43, 117, 20, 15, 36, 163, 128, 68, 1, 26,
+  102, 61, 71, 37, 34, 53, 31, 243, 192, 69, 60, 71, 38, 73, 119, 28, 222, 37,
+  68, 45, 128, 34, 1, 47, 11, 245, 171, 62, 17, 19, 70, 146, 85, 55, 62, 70, 37,
+  43, 37, 154, 100, 163, 85, 160, 1, 63, 9, 92, 136, 28, 64, 32, 201, 85, 75,
+  15, 9, 9, 64, 255, 184, 119, 16, 86, 6, 28, 5, 64, 255, 25, 248, 1, 56, 8, 17,
+  132, 137, 255, 55, 116, 128, 58, 15, 20, 82, 135, 57, 26, 121, 40, 164, 50,
+  31, 137, 154, 133, 25, 35, 218, 51, 103, 44, 131, 131, 123, 31, 6, 158, 86,
+  40, 64, 135, 148, 224, 45, 183, 128, 22, 26, 17, 131, 240, 154, 14, 1, 209,
+  45, 16, 21, 91, 64, 222, 7, 1, 197, 56, 21, 39, 155, 60, 138, 23, 102, 213,
+  83, 12, 13, 54, 192, 255, 68, 47, 28, 85, 26, 85, 85, 128, 128, 32, 146, 171,
+  18, 11, 7, 63, 144, 171, 4, 4, 246, 35, 27, 10, 146, 174, 171, 12, 26, 128,
+  190, 80, 35, 99, 180, 80, 126, 54, 45, 85, 126, 47, 87, 176, 51, 41, 20, 32,
+  101, 75, 128, 139, 118, 146, 116, 128, 85, 56, 41, 15, 176, 236, 85, 37, 9,
+  62, 71, 30, 17, 119, 118, 255, 17, 18, 138, 101, 38, 60, 138, 55, 70, 43, 26,
+  142, 146, 36, 19, 30, 171, 255, 97, 27, 20, 138, 45, 61, 62, 219, 1, 81, 188,
+  64, 32, 41, 20, 117, 151, 142, 20, 21, 163, 112, 19, 12, 61, 195, 128, 48, 4,
+  24,
+];
+
+// Dequantization factors by quantizer index (RFC 6386, 14.1).
+const DC_TABLE = [
+  4, 5, 6, 7, 8, 9, 10, 10, 11, 12, 13, 14, 15, 16, 17, 17, 18, 19, 20, 20, 21,
+  21, 22, 22, 23, 23, 24, 25, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  37, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 46, 47, 48, 49, 50, 51, 52, 53,
+  54, 55, 56, 57, 58, 59, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72,
+  73, 74, 75, 76, 76, 77, 78, 79, 80, 81, 82, 83, 84, 85, 86, 87, 88, 89, 91,
+  93, 95, 96, 98, 100, 101, 102, 104, 106, 108, 110, 112, 114, 116, 118, 122,
+  124, 126, 128, 130, 132, 134, 136, 138, 140, 143, 145, 148, 151, 154, 157,
+];
+
+const AC_TABLE = [
+  4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24,
+  25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42, 43,
+  44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 60, 62, 64, 66,
+  68, 70, 72, 74, 76, 78, 80, 82, 84, 86, 88, 90, 92, 94, 96, 98, 100, 102, 104,
+  106, 108, 110, 112, 114, 116, 119, 122, 125, 128, 131, 134, 137, 140, 143,
+  146, 149, 152, 155, 158, 161, 164, 167, 170, 173, 177, 181, 185, 189, 193,
+  197, 201, 205, 209, 213, 217, 221, 225, 229, 234, 239, 245, 249, 254, 259,
+  264, 269, 274, 279, 284,
+];
+
+// Position of each zigzag-ordered coefficient in the natural 4x4 block.
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+
+// Probability band of each coefficient position; the 17th entry is a sentinel.
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+
+// Extra-bit probabilities of the DCT_CAT3 to DCT_CAT6 tokens.
+const CATEGORY_PROBS = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+];
+
+// Intra prediction modes. Whole-block modes share the numbers of their
+// subblock counterparts, so they can seed the subblock mode contexts.
+const DC_PRED = 0;
+const TM_PRED = 1;
+const VE_PRED = 2;
+const HE_PRED = 3;
+const RD_PRED = 4;
+const VR_PRED = 5;
+const LD_PRED = 6;
+const VL_PRED = 7;
+const HD_PRED = 8;
+const HU_PRED = 9;
+
+// Token types, which pick the first index of the token probabilities.
+const TYPE_Y_AFTER_Y2 = 0;
+const TYPE_Y2 = 1;
+const TYPE_CHROMA = 2;
+const TYPE_Y_WITH_DC = 3;
+
+const SEGMENTS = 4;
+
+type BoolDecoder = {
+  readBool: (prob: number) => number;
+  readLiteral: (bits: number) => number;
+  readSigned: (bits: number) => number;
+};
+
+type Quantizer = {
+  y1: [number, number];
+  y2: [number, number];
+  uv: [number, number];
+};
+
+type FilterStrength = {
+  limit: number;
+  interiorLimit: number;
+  hevThreshold: number;
+};
+
+type FrameHeader = {
+  segmentMapProbs: number[] | null;
+  quantizers: Quantizer[];
+  // Loop filter strengths by segment, then by whether the macroblock is split into subblocks.
+  filters: FilterStrength[][];
+  simpleFilter: boolean;
+  filterLevel: number;
+  partitions: number;
+  coeffProbs: Uint8Array;
+  skipProb: number | null;
+};
+
+/** The boolean entropy decoder of RFC 6386, section 7, reading `data[start, end)`. */
+const createBoolDecoder = (
+  data: Buffer,
+  start: number,
+  end: number,
+): BoolDecoder => {
+  let offset = start;
+  let value = 0;
+  let range = 255;
+  let bitCount = 0;
+  const nextByte = () => (offset < end ? data[offset++] : 0);
+  value = (nextByte() << 8) | nextByte();
+
+  const readBool = (prob: number) => {
+    const split = 1 + (((range - 1) * prob) >> 8);
+    const bigSplit = split << 8;
+    let bit = 0;
+    if (value >= bigSplit) {
+      bit = 1;
+      range -= split;
+      value -= bigSplit;
+    } else {
+      range = split;
+    }
+    while (range < 128) {
+      value <<= 1;
+      range <<= 1;
+      bitCount += 1;
+      if (bitCount === 8) {
+        bitCount = 0;
+        value |= nextByte();
+      }
+    }
+    return bit;
+  };
+  const readLiteral = (bits: number) => {
+    let result = 0;
+    for (let i = 0; i < bits; i += 1) result = (result << 1) | readBool(128);
+    return result;
+  };
+  const readSigned = (bits: number) => {
+    const magnitude = readLiteral(bits);
+    return readBool(128) ? -magnitude : magnitude;
+  };
+  return { readBool, readLiteral, readSigned };
+};
+
+const clampIndex = (value: number, max: number) =>
+  value < 0 ? 0 : value > max ? max : value;
+
+const readFrameHeader = (reader: BoolDecoder): FrameHeader => {
+  reader.readLiteral(2); // Color space and clamping type.
+
+  const segmented = reader.readBool(128) === 1;
+  let updateMap = false;
+  let absolute = false;
+  const segmentQuantizers = [0, 0, 0, 0];
+  const segmentLevels = [0, 0, 0, 0];
+  let segmentMapProbs: number[] | null = null;
+  if (segmented) {
+    updateMap = reader.readBool(128) === 1;
+    if (reader.readBool(128)) {
+      absolute = reader.readBool(128) === 1;
+      for (let s = 0; s < SEGMENTS; s += 1) {
+        segmentQuantizers[s] = reader.readBool(128) ? reader.readSigned(7) : 0;
+      }
+      for (let s = 0; s < SEGMENTS; s += 1) {
+        segmentLevels[s] = reader.readBool(128) ? reader.readSigned(6) : 0;
+      }
+    }
+    if (updateMap) {
+      segmentMapProbs = [0, 1, 2].map(() =>
+        reader.readBool(128) ? reader.readLiteral(8) : 255,
+      );
+    }
+  }
+
+  const simpleFilter = reader.readBool(128) === 1;
+  const filterLevel = reader.readLiteral(6);
+  const sharpness = reader.readLiteral(3);
+  // Only the intra-frame and B_PRED deltas apply to key frames.
+  let refDelta = 0;
+  let modeDelta = 0;
+  const useDeltas = reader.readBool(128) === 1;
+  if (useDeltas && reader.readBool(128)) {
+    for (let i = 0; i < 4; i += 1) {
+      const delta = reader.readBool(128) ? reader.readSigned(6) : 0;
+      if (i === 0) refDelta = delta;
+    }
+    for (let i = 0; i < 4; i += 1) {
+      const delta = reader.readBool(128) ? reader.readSigned(6) : 0;
+      if (i === 0) modeDelta = delta;
+    }
+  }
+
+  const partitions = 1 << reader.readLiteral(2);
+
+  const baseIndex = reader.readLiteral(7);
+  const [y1Dc, y2Dc, y2Ac, uvDc, uvAc] = [0, 1, 2, 3, 4].map(() =>
+    reader.readBool(128) ? reader.readSigned(4) : 0,
+  );
+
+  const quantizers: Quantizer[] = [];
+  const filters: FilterStrength[][] = [];
+  for (let s = 0; s < SEGMENTS; s += 1) {
+    let index = baseIndex;
+    let level = filterLevel;
+    if (segmented) {
+      index = segmentQuantizers[s] + (absolute ? 0 : baseIndex);
+      level = segmentLevels[s] + (absolute ? 0 : filterLevel);
+    }
+    quantizers.push({
+      y1: [
+        DC_TABLE[clampIndex(index + y1Dc, 127)],
+        AC_TABLE[clampIndex(index, 127)],
+      ],
+      y2: [
+        DC_TABLE[clampIndex(index + y2Dc, 127)] * 2,
+        Math.max(8, (AC_TABLE[clampIndex(index + y2Ac, 127)] * 155) / 100) | 0,
+      ],
+      uv: [
+        DC_TABLE[clampIndex(index + uvDc, 117)],
+        AC_TABLE[clampIndex(index + uvAc, 127)],
+      ],
+    });
+    filters.push(
+      [false, true].map((split) => {
+        let adjusted = level;
+        if (useDeltas) adjusted += refDelta + (split ? modeDelta : 0);
+        adjusted = clampIndex(adjusted, 63);
+        if (adjusted === 0) {
+          return { limit: 0, interiorLimit: 0, hevThreshold: 0 };
+        }
+        let interiorLimit = adjusted;
+        if (sharpness > 0) {
+          interiorLimit >>= sharpness > 4 ? 2 : 1;
+          interiorLimit = Math.min(interiorLimit, 9 - sharpness);
+        }
+        interiorLimit = Math.max(interiorLimit, 1);
+        return {
+          limit: 2 * adjusted + interiorLimit,
+          interiorLimit,
+          hevThreshold: adjusted >= 40 ? 2 : adjusted >= 15 ? 1 : 0,
+        };
+      }),
+    );
+  }
+
+  reader.readBool(128); // refresh_entropy_probs; there are no later frames.
+  const coeffProbs = new Uint8Array(COEFF_PROBS.length);
+  for (let i = 0; i < coeffProbs.length; i += 1) {
+    coeffProbs[i] = reader.readBool(COEFF_UPDATE_PROBS[i])
+      ? reader.readLiteral(8)
+      : COEFF_PROBS[i];
+  }
+  const skipProb = reader.readBool(128) ? reader.readLiteral(8) : null;
+
+  return {
+    segmentMapProbs,
+    quantizers,
+    filters,
+    simpleFilter,
+    filterLevel,
+    partitions,
+    coeffProbs,
+    skipProb,
+  };
+};
+
+const readLargeValue = (reader: BoolDecoder, probs: Uint8Array, at: number) => {
+  if (!reader.readBool(probs[at + 3])) {
+    if (!reader.readBool(probs[at + 4])) return 2;
+    return 3 + reader.readBool(probs[at + 5]);
+  }
+  if (!reader.readBool(probs[at + 6])) {
+    if (!reader.readBool(probs[at + 7])) return 5 + reader.readBool(159);
+    return 7 + 2 * reader.readBool(165) + reader.readBool(145);
+  }
+  const high = reader.readBool(probs[at + 8]);
+  const category = 2 * high + reader.readBool(probs[at + 9 + high]);
+  let extra = 0;
+  for (const prob of CATEGORY_PROBS[category]) {
+    extra = 2 * extra + reader.readBool(prob);
+  }
+  return extra + 3 + (8 << category);
+};
+
+/**
+ * Reads one block's tokens into `out` as dequantized coefficients in natural
+ * order. Returns the position after the last token that is not end-of-block.
+ */
+const readCoefficients = (
+  reader: BoolDecoder,
+  probs: Uint8Array,
+  type: number,
+  context: number,
+  dequant: [number, number],
+  first: number,
+  out: Int16Array,
+  outAt: number,
+) => {
+  const probsAt = (n: number, ctx: number) =>
+    ((type * 8 + BANDS[n]) * 3 + ctx) * 11;
+  let at = probsAt(first, context);
+  for (let n = first; n < 16; n += 1) {
+    if (!reader.readBool(probs[at])) return n;
+    while (!reader.readBool(probs[at + 1])) {
+      n += 1;
+      if (n === 16) return 16;
+      at = probsAt(n, 0);
+    }
+    let value = 1;
+    let nextContext = 1;
+    if (reader.readBool(probs[at + 2])) {
+      value = readLargeValue(reader, probs, at);
+      nextContext = 2;
+    }
+    if (reader.readBool(128)) value = -value;
+    out[outAt + ZIGZAG[n]] = value * dequant[n > 0 ? 1 : 0];
+    at = probsAt(n + 1, nextContext);
+  }
+  return 16;
+};
+
+/** Spreads the inverse Walsh-Hadamard transform of `input` over the DC of 16 luma blocks. */
+const inverseWalshHadamard = (input: Int16Array, out: Int16Array) => {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i += 1) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+  for (let i = 0; i < 4; i += 1) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[i * 4 + 3];
+    const a1 = tmp[i * 4 + 1] + tmp[i * 4 + 2];
+    const a2 = tmp[i * 4 + 1] - tmp[i * 4 + 2];
+    const a3 = dc - tmp[i * 4 + 3];
+    out[i * 64] = (a0 + a1) >> 3;
+    out[i * 64 + 16] = (a3 + a2) >> 3;
+    out[i * 64 + 32] = (a0 - a1) >> 3;
+    out[i * 64 + 48] = (a3 - a2) >> 3;
+  }
+};
+
+const mul1 = (a: number) => ((a * 20091) >> 16) + a;
+const mul2 = (a: number) => (a * 35468) >> 16;
+
+/** Adds the inverse DCT of one 4x4 block to the predicted pixels at `at`. */
+const addInverseDct = (
+  coeffs: Int16Array,
+  from: number,
+  plane: Uint8ClampedArray,
+  at: number,
+  stride: number,
+) => {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i += 1) {
+    const a = coeffs[from + i] + coeffs[from + 8 + i];
+    const b = coeffs[from + i] - coeffs[from + 8 + i];
+    const c = mul2(coeffs[from + 4 + i]) - mul1(coeffs[from + 12 + i]);
+    const d = mul1(coeffs[from + 4 + i]) + mul2(coeffs[from + 12 + i]);
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+  for (let i = 0; i < 4; i += 1) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]);
+    const d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+    const row = at + i * stride;
+    plane[row] += (a + d) >> 3;
+    plane[row + 1] += (b + c) >> 3;
+    plane[row + 2] += (b - c) >> 3;
+    plane[row + 3] += (a - d) >> 3;
+  }
+};
+
+const hasCoefficients = (coeffs: Int16Array, from: number) => {
+  for (let i = from; i < from + 16; i += 1) if (coeffs[i] !== 0) return true;
+  return false;
+};
+
+/**
+ * Predicts a whole 16x16 luma or 8x8 chroma block. Edges outside the frame
+ * read as 127 above and 129 to the left, as in the reference decoder.
+ */
+const predictBlock = (
+  plane: Uint8ClampedArray,
+  stride: number,
+  at: number,
+  size: number,
+  mode: number,
+  hasTop: boolean,
+  hasLeft: boolean,
+) => {
+  const top = (i: number) => (hasTop ? plane[at - stride + i] : 127);
+  const left = (j: number) => (hasLeft ? plane[at + j * stride - 1] : 129);
+  const corner = !hasTop ? 127 : !hasLeft ? 129 : plane[at - stride - 1];
+  const shift = size === 16 ? 4 : 3;
+  let dc = 128;
+  if (mode === DC_PRED) {
+    let sum = 0;
+    for (let i = 0; i < size; i += 1) {
+      sum += (hasTop ? top(i) : 0) + (hasLeft ? left(i) : 0);
+    }
+    if (hasTop && hasLeft) dc = (sum + size) >> (shift + 1);
+    else if (hasTop || hasLeft) dc = (sum + (size >> 1)) >> shift;
+  }
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      plane[at + y * stride + x] =
+        mode === VE_PRED
+          ? top(x)
+          : mode === HE_PRED
+            ? left(y)
+            : mode === TM_PRED
+              ? left(y) + top(x) - corner
+              : dc;
+    }
+  }
+};
+
+const avg2 = (a: number, b: number) => (a + b + 1) >> 1;
+const avg3 = (a: number, b: number, c: number) => (a + 2 * b + c + 2) >> 2;
+
+/**
+ * Predicts one 4x4 luma subblock from the eight pixels above it (`above`, the
+ * last four being above and to the right), the four to its left and the
+ * corner pixel.
+ */
+const predictSubblock = (
+  plane: Uint8ClampedArray,
+  stride: number,
+  at: number,
+  mode: number,
+  above: number[],
+  left: number[],
+  corner: number,
+) => {
+  const [A, B, C, D, E, F, G, H] = above;
+  const [I, J, K, L] = left;
+  const X = corner;
+  const put = (x: number, y: number, value: number) => {
+    plane[at + y * stride + x] = value;
+  };
+  const fill = (value: (x: number, y: number) => number) => {
+    for (let y = 0; y < 4; y += 1) {
+      for (let x = 0; x < 4; x += 1) put(x, y, value(x, y));
+    }
+  };
+  switch (mode) {
+    case DC_PRED: {
+      const dc = (A + B + C + D + I + J + K + L + 4) >> 3;
+      fill(() => dc);
+      return;
+    }
+    case TM_PRED:
+      fill((x, y) => left[y] + above[x] - X);
+      return;
+    case VE_PRED: {
+      const row = [avg3(X, A, B), avg3(A, B, C), avg3(B, C, D), avg3(C, D, E)];
+      fill((x) => row[x]);
+      return;
+    }
+    case HE_PRED: {
+      const column = [
+        avg3(X, I, J),
+        avg3(I, J, K),
+        avg3(J, K, L),
+        avg3(K, L, L),
+      ];
+      fill((_, y) => column[y]);
+      return;
+    }
+    case RD_PRED: {
+      // Pixels along each down-right diagonal share a value.
+      const edge = [L, K, J, I, X, A, B, C, D];
+      fill((x, y) => avg3(edge[3 - y + x], edge[4 - y + x], edge[5 - y + x]));
+      return;
+    }
+    case LD_PRED: {
+      const edge = [A, B, C, D, E, F, G, H, H];
+      fill((x, y) => avg3(edge[x + y], edge[x + y + 1], edge[x + y + 2]));
+      return;
+    }
+    case VR_PRED:
+      put(0, 0, avg2(X, A));
+      put(1, 2, avg2(X, A));
+      put(1, 0, avg2(A, B));
+      put(2, 2, avg2(A, B));
+      put(2, 0, avg2(B, C));
+      put(3, 2, avg2(B, C));
+      put(3, 0, avg2(C, D));
+      put(0, 3, avg3(K, J, I));
+      put(0, 2, avg3(J, I, X));
+      put(0, 1, avg3(I, X, A));
+      put(1, 3, avg3(I, X, A));
+      put(1, 1, avg3(X, A, B));
+      put(2, 3, avg3(X, A, B));
+      put(2, 1, avg3(A, B, C));
+      put(3, 3, avg3(A, B, C));
+      put(3, 1, avg3(B, C, D));
+      return;
+    case VL_PRED:
+      put(0, 0, avg2(A, B));
+      put(1, 0, avg2(B, C));
+      put(0, 2, avg2(B, C));
+      put(2, 0, avg2(C, D));
+      put(1, 2, avg2(C, D));
+      put(3, 0, avg2(D, E));
+      put(2, 2, avg2(D, E));
+      put(0, 1, avg3(A, B, C));
+      put(1, 1, avg3(B, C, D));
+      put(0, 3, avg3(B, C, D));
+      put(2, 1, avg3(C, D, E));
+      put(1, 3, avg3(C, D, E));
+      put(3, 1, avg3(D, E, F));
+      put(2, 3, avg3(D, E, F));
+      put(3, 2, avg3(E, F, G));
+      put(3, 3, avg3(F, G, H));
+      return;
+    case HD_PRED:
+      put(0, 0, avg2(I, X));
+      put(2, 1, avg2(I, X));
+      put(0, 1, avg2(J, I));
+      put(2, 2, avg2(J, I));
+      put(0, 2, avg2(K, J));
+      put(2, 3, avg2(K, J));
+      put(0, 3, avg2(L, K));
+      put(3, 0, avg3(A, B, C));
+      put(2, 0, avg3(X, A, B));
+      put(1, 0, avg3(I, X, A));
+      put(3, 1, avg3(I, X, A));
+      put(1, 1, avg3(J, I, X));
+      put(3, 2, avg3(J, I, X));
+      put(1, 2, avg3(K, J, I));
+      put(3, 3, avg3(K, J, I));
+      put(1, 3, avg3(L, K, J));
+      return;
+    default:
+      // HU_PRED
+      fill(() => L);
+      put(0, 0, avg2(I, J));
+      put(2, 0, avg2(J, K));
+      put(0, 1, avg2(J, K));
+      put(2, 1, avg2(K, L));
+      put(0, 2, avg2(K, L));
+      put(1, 0, avg3(I, J, K));
+      put(3, 0, avg3(J, K, L));
+      put(1, 1, avg3(J, K, L));
+      put(3, 1, avg3(K, L, L));
+      put(1, 2, avg3(K, L, L));
+  }
+};
+
+const readSubblockMode = (reader: BoolDecoder, above: number, left: number) => {
+  const at = (above * 10 + left) * 9;
+  const bit = (node: number) => reader.readBool(BMODE_PROBS[at + node]);
+  if (!bit(0)) return DC_PRED;
+  if (!bit(1)) return TM_PRED;
+  if (!bit(2)) return VE_PRED;
+  if (!bit(3)) {
+    if (!bit(4)) return HE_PRED;
+    return bit(5) ? VR_PRED : RD_PRED;
+  }
+  if (!bit(6)) return LD_PRED;
+  if (!bit(7)) return VL_PRED;
+  return bit(8) ? HU_PRED : HD_PRED;
+};
+
+const signedClamp = (value: number, limit: number) =>
+  value < -limit ? -limit : value > limit - 1 ? limit - 1 : value;
+
+// Loop filter primitives over the pixels `step` apart across the edge at `at`.
+const needsFilter = (
+  p: Uint8ClampedArray,
+  at: number,
+  step: number,
+  threshold: number,
+) =>
+  4 * Math.abs(p[at - step] - p[at]) +
+    Math.abs(p[at - 2 * step] - p[at + step]) <=
+  threshold;
+
+const needsNormalFilter = (
+  p: Uint8ClampedArray,
+  at: number,
+  step: number,
+  threshold: number,
+  interiorLimit: number,
+) => {
+  if (!needsFilter(p, at, step, threshold)) return false;
+  for (const [a, b] of [
+    [-4, -3],
+    [-3, -2],
+    [-2, -1],
+    [3, 2],
+    [2, 1],
+    [1, 0],
+  ]) {
+    if (Math.abs(p[at + a * step] - p[at + b * step]) > interiorLimit) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const highEdgeVariance = (
+  p: Uint8ClampedArray,
+  at: number,
+  step: number,
+  threshold: number,
+) =>
+  Math.abs(p[at - 2 * step] - p[at - step]) > threshold ||
+  Math.abs(p[at + step] - p[at]) > threshold;
+
+const filterCommon = (p: Uint8ClampedArray, at: number, step: number) => {
+  const p0 = p[at - step];
+  const q0 = p[at];
+  const a = 3 * (q0 - p0) + signedClamp(p[at - 2 * step] - p[at + step], 128);
+  p[at - step] = p0 + signedClamp((a + 3) >> 3, 16);
+  p[at] = q0 - signedClamp((a + 4) >> 3, 16);
+};
+
+const filterSubblockEdge = (p: Uint8ClampedArray, at: number, step: number) => {
+  const p0 = p[at - step];
+  const q0 = p[at];
+  const a = 3 * (q0 - p0);
+  const a1 = signedClamp((a + 4) >> 3, 16);
+  const a3 = (a1 + 1) >> 1;
+  p[at - 2 * step] += a3;
+  p[at - step] = p0 + signedClamp((a + 3) >> 3, 16);
+  p[at] = q0 - a1;
+  p[at + step] -= a3;
+};
+
+const filterMacroblockEdge = (
+  p: Uint8ClampedArray,
+  at: number,
+  step: number,
+) => {
+  const p0 = p[at - step];
+  const q0 = p[at];
+  const w = signedClamp(
+    3 * (q0 - p0) + signedClamp(p[at - 2 * step] - p[at + step], 128),
+    128,
+  );
+  const a1 = (27 * w + 63) >> 7;
+  const a2 = (18 * w + 63) >> 7;
+  const a3 = (9 * w + 63) >> 7;
+  p[at - 3 * step] += a3;
+  p[at - 2 * step] += a2;
+  p[at - step] = p0 + a1;
+  p[at] = q0 - a1;
+  p[at + step] -= a2;
+  p[at + 2 * step] -= a3;
+};
+
+/**
+ * Filters `count` pixel positions of one edge, starting at `at` and moving
+ * `along` between positions, with pixels `across` apart across the edge.
+ */
+const filterEdge = (
+  p: Uint8ClampedArray,
+  at: number,
+  across: number,
+  along: number,
+  count: number,
+  limit: number,
+  strength: FilterStrength | null,
+  macroblockEdge: boolean,
+) => {
+  const threshold = 2 * limit + 1;
+  for (let i = 0; i < count; i += 1, at += along) {
+    if (!strength) {
+      if (needsFilter(p, at, across, threshold)) filterCommon(p, at, across);
+      continue;
+    }
+    if (!needsNormalFilter(p, at, across, threshold, strength.interiorLimit)) {
+      continue;
+    }
+    if (highEdgeVariance(p, at, across, strength.hevThreshold)) {
+      filterCommon(p, at, across);
+    } else if (macroblockEdge) {
+      filterMacroblockEdge(p, at, across);
+    } else {
+      filterSubblockEdge(p, at, across);
+    }
+  }
+};
+
+const yuvToRgb = (
+  y: number,
+  u: number,
+  v: number,
+  out: Uint8Array,
+  at: number,
+) => {
+  const clip = (value: number) =>
+    (value & ~16383) === 0 ? value >> 6 : value < 0 ? 0 : 255;
+  const luma = (y * 19077) >> 8;
+  out[at] = clip(luma + ((v * 26149) >> 8) - 14234);
+  out[at + 1] = clip(luma - ((u * 6419) >> 8) - ((v * 13320) >> 8) + 8708);
+  out[at + 2] = clip(luma + ((u * 33050) >> 8) - 17685);
+  out[at + 3] = 255;
+};
+
+/**
+ * Decodes a lossy WebP's VP8 key frame to opaque RGBA. Chroma is upsampled
+ * with the reference decoder's bilinear filter so colours match libwebp.
+ */
+export const decodeVp8 = (data: Buffer): Raster => {
+  if (data.length < 10) throw new Error("VP8 frame header is truncated.");
+  const tag = data[0] | (data[1] << 8) | (data[2] << 16);
+  if (tag & 1) throw new Error("VP8 data is not a key frame.");
+  if (data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) {
+    throw new Error("VP8 start code is missing.");
+  }
+  const width = data.readUInt16LE(6) & 0x3fff;
+  const height = data.readUInt16LE(8) & 0x3fff;
+  const firstPartitionEnd = 10 + (tag >> 5);
+  if (!width || !height || firstPartitionEnd > data.length) {
+    throw new Error("VP8 frame header is invalid.");
+  }
+
+  const reader = createBoolDecoder(data, 10, firstPartitionEnd);
+  const header = readFrameHeader(reader);
+  const probs = header.coeffProbs;
+
+  const partitions: BoolDecoder[] = [];
+  let partitionStart = firstPartitionEnd + 3 * (header.partitions - 1);
+  if (partitionStart > data.length) {
+    throw new Error("VP8 partition table is truncated.");
+  }
+  for (let i = 0; i < header.partitions; i += 1) {
+    const sizeAt = firstPartitionEnd + 3 * i;
+    const end =
+      i === header.partitions - 1
+        ? data.length
+        : Math.min(data.length, partitionStart + data.readUIntLE(sizeAt, 3));
+    partitions.push(createBoolDecoder(data, partitionStart, end));
+    partitionStart = end;
+  }
+
+  const mbWidth = (width + 15) >> 4;
+  const mbHeight = (height + 15) >> 4;
+  const stride = mbWidth * 16;
+  const uvStride = mbWidth * 8;
+  const yPlane = new Uint8ClampedArray(stride * mbHeight * 16);
+  const uPlane = new Uint8ClampedArray(uvStride * mbHeight * 8);
+  const vPlane = new Uint8ClampedArray(uvStride * mbHeight * 8);
+  const filterType = header.filterLevel === 0 ? 0 : header.simpleFilter ? 1 : 2;
+
+  // Per macroblock column: subblock modes of the bottom row, and non-zero
+  // flags of the bottom luma row, the two chroma rows and Y2.
+  const topModes = new Uint8Array(mbWidth * 4);
+  const topNonZero = new Uint8Array(mbWidth * 9);
+  const leftModes = new Uint8Array(4);
+  const leftNonZero = new Uint8Array(9);
+  const coeffs = new Int16Array(24 * 16);
+  const y2 = new Int16Array(16);
+  const modes = new Uint8Array(16);
+  const macroblockFilters: {
+    strength: FilterStrength;
+    inner: boolean;
+  }[] = [];
+
+  for (let mbY = 0; mbY < mbHeight; mbY += 1) {
+    const tokens = partitions[mbY & (header.partitions - 1)];
+    leftModes.fill(DC_PRED);
+    leftNonZero.fill(0);
+    for (let mbX = 0; mbX < mbWidth; mbX += 1) {
+      const probsMap = header.segmentMapProbs;
+      const segment = !probsMap
+        ? 0
+        : !reader.readBool(probsMap[0])
+          ? reader.readBool(probsMap[1])
+          : 2 + reader.readBool(probsMap[2]);
+      const skip =
+        header.skipProb !== null && reader.readBool(header.skipProb) === 1;
+      const split = !reader.readBool(145);
+      let lumaMode = DC_PRED;
+      if (split) {
+        for (let y = 0; y < 4; y += 1) {
+          let mode = leftModes[y];
+          for (let x = 0; x < 4; x += 1) {
+            mode = readSubblockMode(reader, topModes[mbX * 4 + x], mode);
+            topModes[mbX * 4 + x] = mode;
+            modes[y * 4 + x] = mode;
+          }
+          leftModes[y] = mode;
+        }
+      } else {
+        lumaMode = reader.readBool(156)
+          ? reader.readBool(128)
+            ? TM_PRED
+            : HE_PRED
+          : reader.readBool(163)
+            ? VE_PRED
+            : DC_PRED;
+        topModes.fill(lumaMode, mbX * 4, mbX * 4 + 4);
+        leftModes.fill(lumaMode);
+      }
+      const chromaMode = !reader.readBool(142)
+        ? DC_PRED
+        : !reader.readBool(114)
+          ? VE_PRED
+          : reader.readBool(183)
+            ? TM_PRED
+            : HE_PRED;
+
+      // Residual coefficients.
+      coeffs.fill(0);
+      const quant = header.quantizers[segment];
+      const top = mbX * 9;
+      if (skip) {
+        topNonZero.fill(0, top, top + 8);
+        leftNonZero.fill(0, 0, 8);
+        if (!split) {
+          topNonZero[top + 8] = 0;
+          leftNonZero[8] = 0;
+        }
+      } else {
+        let first = 0;
+        let lumaType = TYPE_Y_WITH_DC;
+        if (!split) {
+          y2.fill(0);
+          const count = readCoefficients(
+            tokens,
+            probs,
+            TYPE_Y2,
+            topNonZero[top + 8] + leftNonZero[8],
+            quant.y2,
+            0,
+            y2,
+            0,
+          );
+          topNonZero[top + 8] = leftNonZero[8] = count > 0 ? 1 : 0;
+          if (count > 1) {
+            inverseWalshHadamard(y2, coeffs);
+          } else {
+            const dc = (y2[0] + 3) >> 3;
+            for (let i = 0; i < 16; i += 1) coeffs[i * 16] = dc;
+          }
+          first = 1;
+          lumaType = TYPE_Y_AFTER_Y2;
+        }
+        for (let y = 0; y < 4; y += 1) {
+          for (let x = 0; x < 4; x += 1) {
+            const count = readCoefficients(
+              tokens,
+              probs,
+              lumaType,
+              topNonZero[top + x] + leftNonZero[y],
+              quant.y1,
+              first,
+              coeffs,
+              (y * 4 + x) * 16,
+            );
+            topNonZero[top + x] = leftNonZero[y] = count > first ? 1 : 0;
+          }
+        }
+        // U then V, each a 2x2 grid of blocks after the 16 luma blocks.
+        for (let plane = 0; plane < 2; plane += 1) {
+          for (let y = 0; y < 2; y += 1) {
+            for (let x = 0; x < 2; x += 1) {
+              const count = readCoefficients(
+                tokens,
+                probs,
+                TYPE_CHROMA,
+                topNonZero[top + 4 + plane * 2 + x] +
+                  leftNonZero[4 + plane * 2 + y],
+                quant.uv,
+                0,
+                coeffs,
+                (16 + plane * 4 + y * 2 + x) * 16,
+              );
+              topNonZero[top + 4 + plane * 2 + x] = leftNonZero[
+                4 + plane * 2 + y
+              ] = count > 0 ? 1 : 0;
+            }
+          }
+        }
+      }
+
+      // Prediction and reconstruction.
+      const yAt = mbY * 16 * stride + mbX * 16;
+      let nonZero = false;
+      if (split) {
+        // Pixels above and right of the macroblock, which subblocks on its
+        // right column share.
+        const aboveRight =
+          mbY === 0
+            ? [127, 127, 127, 127]
+            : mbX === mbWidth - 1
+              ? new Array<number>(4).fill(yPlane[yAt - stride + 15])
+              : Array.from(
+                  yPlane.subarray(yAt - stride + 16, yAt - stride + 20),
+                );
+        for (let n = 0; n < 16; n += 1) {
+          const bx = n & 3;
+          const by = n >> 2;
+          const px = mbX * 16 + bx * 4;
+          const py = mbY * 16 + by * 4;
+          const at = py * stride + px;
+          const above: number[] = [];
+          for (let i = 0; i < 4; i += 1) {
+            above.push(py === 0 ? 127 : yPlane[at - stride + i]);
+          }
+          for (let i = 4; i < 8; i += 1) {
+            above.push(
+              bx === 3
+                ? aboveRight[i - 4]
+                : py === 0
+                  ? 127
+                  : yPlane[at - stride + i],
+            );
+          }
+          const left: number[] = [];
+          for (let j = 0; j < 4; j += 1) {
+            left.push(px === 0 ? 129 : yPlane[at + j * stride - 1]);
+          }
+          const corner =
+            py === 0 ? 127 : px === 0 ? 129 : yPlane[at - stride - 1];
+          predictSubblock(yPlane, stride, at, modes[n], above, left, corner);
+          if (hasCoefficients(coeffs, n * 16)) {
+            nonZero = true;
+            addInverseDct(coeffs, n * 16, yPlane, at, stride);
+          }
+        }
+      } else {
+        predictBlock(yPlane, stride, yAt, 16, lumaMode, mbY > 0, mbX > 0);
+        for (let n = 0; n < 16; n += 1) {
+          if (!hasCoefficients(coeffs, n * 16)) continue;
+          nonZero = true;
+          const at = yAt + (n >> 2) * 4 * stride + (n & 3) * 4;
+          addInverseDct(coeffs, n * 16, yPlane, at, stride);
+        }
+      }
+      const uvAt = mbY * 8 * uvStride + mbX * 8;
+      [uPlane, vPlane].forEach((chroma, plane) => {
+        predictBlock(chroma, uvStride, uvAt, 8, chromaMode, mbY > 0, mbX > 0);
+        for (let n = 0; n < 4; n += 1) {
+          const from = (16 + plane * 4 + n) * 16;
+          if (!hasCoefficients(coeffs, from)) continue;
+          nonZero = true;
+          const at = uvAt + (n >> 1) * 4 * uvStride + (n & 1) * 4;
+          addInverseDct(coeffs, from, chroma, at, uvStride);
+        }
+      });
+
+      macroblockFilters.push({
+        strength: header.filters[segment][split ? 1 : 0],
+        inner: split || nonZero,
+      });
+    }
+  }
+
+  // The loop filter runs after reconstruction, since intra prediction reads
+  // unfiltered pixels.
+  if (filterType > 0) {
+    for (let mbY = 0; mbY < mbHeight; mbY += 1) {
+      for (let mbX = 0; mbX < mbWidth; mbX += 1) {
+        const { strength, inner } = macroblockFilters[mbY * mbWidth + mbX];
+        const { limit } = strength;
+        if (limit === 0) continue;
+        const normal = filterType === 2 ? strength : null;
+        const yAt = mbY * 16 * stride + mbX * 16;
+        const uvAt = mbY * 8 * uvStride + mbX * 8;
+        const edge = (
+          at: number,
+          vertical: boolean,
+          edgeLimit: number,
+          mbEdge: boolean,
+        ) => {
+          filterEdge(
+            yPlane,
+            at,
+            vertical ? 1 : stride,
+            vertical ? stride : 1,
+            16,
+            edgeLimit,
+            normal,
+            mbEdge,
+          );
+        };
+        const chromaEdge = (
+          offset: number,
+          vertical: boolean,
+          edgeLimit: number,
+          mbEdge: boolean,
+        ) => {
+          if (!normal) return;
+          for (const chroma of [uPlane, vPlane]) {
+            filterEdge(
+              chroma,
+              uvAt + offset,
+              vertical ? 1 : uvStride,
+              vertical ? uvStride : 1,
+              8,
+              edgeLimit,
+              normal,
+              mbEdge,
+            );
+          }
+        };
+        if (mbX > 0) {
+          edge(yAt, true, limit + 4, true);
+          chromaEdge(0, true, limit + 4, true);
+        }
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) edge(yAt + k, true, limit, false);
+          chromaEdge(4, true, limit, false);
+        }
+        if (mbY > 0) {
+          edge(yAt, false, limit + 4, true);
+          chromaEdge(0, false, limit + 4, true);
+        }
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) {
+            edge(yAt + k * stride, false, limit, false);
+          }
+          chromaEdge(4 * uvStride, false, limit, false);
+        }
+      }
+    }
+  }
+
+  // Each output pixel blends its nearest chroma sample 9:3:3:1 with the
+  // neighbours towards it, clamping at the picture's chroma edges.
+  const uvWidth = (width + 1) >> 1;
+  const uvHeight = (height + 1) >> 1;
+  const pixels = new Uint8Array(width * height * 4);
+  const sample = (chroma: Uint8ClampedArray, x: number, y: number) => {
+    const nearX = x >> 1;
+    const nearY = y >> 1;
+    const farX = x & 1 ? nearX + 1 : nearX - 1;
+    const farY = clampIndex(y & 1 ? nearY + 1 : nearY - 1, uvHeight - 1);
+    const a = chroma[nearY * uvStride + nearX];
+    const c = chroma[farY * uvStride + nearX];
+    if (farX < 0 || farX >= uvWidth) return (3 * a + c + 2) >> 2;
+    const b = chroma[nearY * uvStride + farX];
+    const d = chroma[farY * uvStride + farX];
+    return (((a + d + 3 * (b + c) + 8) >> 3) + a) >> 1;
+  };
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      yuvToRgb(
+        yPlane[y * stride + x],
+        sample(uPlane, x, y),
+        sample(vPlane, x, y),
+        pixels,
+        (y * width + x) * 4,
+      );
+    }
+  }
+  return { width, height, data: pixels };
+};
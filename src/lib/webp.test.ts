@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { decodeWebp, isWebp, readWebpInfo } from "./webp";
+
+// 4×2 lossless: the left half opaque (220, 30, 30), the right half (30, 30, 220) at alpha 128.
+const LOSSLESS = Buffer.from(
+  "UklGRiIAAABXRUJQVlA4TBYAAAAvA0AAEA8wHhfivofvA/9jCWWI6H8A",
+  "base64",
+);
+// 4×2 lossy: each row fades from red to blue.
+const LOSSY = Buffer.from(
+  "UklGRlYAAABXRUJQVlA4IEoAAAAwAwCdASoEAAIAAUAmJagCdHIA+wCuAP4BlAH6AAt2svMQAP75ZgzORJP/10Fc39P//Anf/50Fc39P/gTuSCcRl9PVil1TxlAAAA==",
+  "base64",
+);
+// 4×4 lossy with an uncompressed ALPH chunk: alpha 0, 80, 160 and 240 by row.
+const LOSSY_ALPHA = Buffer.from(
+  "UklGRn4AAABXRUJQVlA4WAoAAAAQAAAAAwAAAwAAQUxQSBEAAAAAAAAAAFBQUFCgoKCg8PDw8ABWUDggRgAAALACAJ0BKgQABAAAwBIlqAJ0ugH4AMwAyQAFmzc2cAD+re6h2OE68PAjrqRB/5VgoJwnBnV/KX/4XzMK+7BfhfMwr/ccAAA=",
+  "base64",
+);
+
+describe("decodeWebp", () => {
+  it("decodes lossless images exactly", () => {
+    expect(isWebp(LOSSLESS)).toBe(true);
+    expect(readWebpInfo(LOSSLESS)).toEqual({
+      format: "webp",
+      width: 4,
+      height: 2,
+      alpha: true,
+      animated: false,
+    });
+    const { data } = decodeWebp(LOSSLESS);
+    expect(Array.from(data.subarray(0, 8))).toEqual([
+      220, 30, 30, 255, 220, 30, 30, 255,
+    ]);
+    expect(Array.from(data.subarray(28, 32))).toEqual([30, 30, 220, 128]);
+  });
+
+  it("decodes lossy images as libwebp does", () => {
+    expect(readWebpInfo(LOSSY)).toMatchObject({ width: 4, height: 2 });
+    const { width, height, data } = decodeWebp(LOSSY);
+    expect([width, height]).toEqual([4, 2]);
+    expect(Array.from(data.subarray(0, 16))).toEqual([
+      221, 29, 35, 255, 182, 39, 89, 255, 67, 21, 164, 255, 27, 31, 219, 255,
+    ]);
+    expect(Array.from(data.subarray(16))).toEqual(
+      Array.from(data.subarray(0, 16)),
+    );
+  });
+
+  it("applies the alpha chunk of lossy images", () => {
+    const { data } = decodeWebp(LOSSY_ALPHA);
+    expect(Array.from(data.subarray(0, 4))).toEqual([210, 73, 103, 0]);
+    expect(Array.from(data.subarray(60, 64))).toEqual([208, 121, 98, 240]);
+    expect(Array.from({ length: 4 }, (_, row) => data[row * 16 + 7])).toEqual([
+      0, 80, 160, 240,
+    ]);
+  });
+});
@@ -0,0 +1,780 @@
+import type { Raster } from "./image";
+import { ImageInfo } from "./types";
+import { decodeVp8 } from "./vp8";
+
+const VP8L_SIGNATURE = 0x2f;
+const PREDICTOR_TRANSFORM = 0;
+const CROSS_COLOR_TRANSFORM = 1;
+const SUBTRACT_GREEN_TRANSFORM = 2;
+const COLOR_INDEXING_TRANSFORM = 3;
+const LENGTH_CODES = 24;
+const DISTANCE_CODES = 40;
+const CODE_LENGTH_ORDER = [
+  17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+];
+// Short distance codes as (dx, dy) offsets into the nearby rows, as listed
+// in the VP8L specification; the distance is dx + dy * width.
+const DISTANCE_MAP = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [-1, 1],
+  [0, 2],
+  [2, 0],
+  [1, 2],
+  [-1, 2],
+  [2, 1],
+  [-2, 1],
+  [2, 2],
+  [-2, 2],
+  [0, 3],
+  [3, 0],
+  [1, 3],
+  [-1, 3],
+  [3, 1],
+  [-3, 1],
+  [2, 3],
+  [-2, 3],
+  [3, 2],
+  [-3, 2],
+  [0, 4],
+  [4, 0],
+  [1, 4],
+  [-1, 4],
+  [4, 1],
+  [-4, 1],
+  [3, 3],
+  [-3, 3],
+  [2, 4],
+  [-2, 4],
+  [4, 2],
+  [-4, 2],
+  [0, 5],
+  [3, 4],
+  [-3, 4],
+  [4, 3],
+  [-4, 3],
+  [5, 0],
+  [1, 5],
+  [-1, 5],
+  [5, 1],
+  [-5, 1],
+  [2, 5],
+  [-2, 5],
+  [5, 2],
+  [-5, 2],
+  [4, 4],
+  [-4, 4],
+  [3, 5],
+  [-3, 5],
+  [5, 3],
+  [-5, 3],
+  [0, 6],
+  [6, 0],
+  [1, 6],
+  [-1, 6],
+  [6, 1],
+  [-6, 1],
+  [2, 6],
+  [-2, 6],
+  [6, 2],
+  [-6, 2],
+  [4, 5],
+  [-4, 5],
+  [5, 4],
+  [-5, 4],
+  [3, 6],
+  [-3, 6],
+  [6, 3],
+  [-6, 3],
+  [0, 7],
+  [7, 0],
+  [1, 7],
+  [-1, 7],
+  [5, 5],
+  [-5, 5],
+  [7, 1],
+  [-7, 1],
+  [4, 6],
+  [-4, 6],
+  [6, 4],
+  [-6, 4],
+  [2, 7],
+  [-2, 7],
+  [7, 2],
+  [-7, 2],
+  [3, 7],
+  [-3, 7],
+  [7, 3],
+  [-7, 3],
+  [5, 6],
+  [-5, 6],
+  [6, 5],
+  [-6, 5],
+  [8, 0],
+  [4, 7],
+  [-4, 7],
+  [7, 4],
+  [-7, 4],
+  [8, 1],
+  [8, 2],
+  [6, 6],
+  [-6, 6],
+  [8, 3],
+  [5, 7],
+  [-5, 7],
+  [7, 5],
+  [-7, 5],
+  [8, 4],
+  [6, 7],
+  [-6, 7],
+  [7, 6],
+  [-7, 6],
+  [8, 5],
+  [7, 7],
+  [-7, 7],
+  [8, 6],
+  [8, 7],
+];
+
+type RiffChunk = { type: string; data: Buffer };
+
+type PrefixCode = {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+  single: number;
+};
+
+type Transform = {
+  type: number;
+  width: number;
+  bits: number;
+  data?: Uint32Array;
+};
+
+export const isWebp = (buffer: Buffer) =>
+  buffer.length >= 16 &&
+  buffer.toString("latin1", 0, 4) === "RIFF" &&
+  buffer.toString("latin1", 8, 12) === "WEBP";
+
+/** Lists the RIFF chunks from `start` (the first chunk after the file header by default). */
+export const readWebpChunks = (buffer: Buffer, start = 12): RiffChunk[] => {
+  const chunks: RiffChunk[] = [];
+  let offset = start;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (offset + 8 + size > buffer.length) {
+      throw new Error(`WebP chunk ${type.trim()} is truncated.`);
+    }
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+export const readWebpInfo = (buffer: Buffer): ImageInfo => {
+  const [first] = readWebpChunks(buffer);
+  if (first?.type === "VP8X" && first.data.length >= 10) {
+    return {
+      format: "webp",
+      width: first.data.readUIntLE(4, 3) + 1,
+      height: first.data.readUIntLE(7, 3) + 1,
+      alpha: (first.data[0] & 0x10) !== 0,
+      animated: (first.data[0] & 0x02) !== 0,
+    };
+  }
+  if (first?.type === "VP8L" && first.data[0] === VP8L_SIGNATURE) {
+    const bits = first.data.readUInt32LE(1);
+    return {
+      format: "webp",
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      alpha: ((bits >>> 28) & 1) === 1,
+      animated: false,
+    };
+  }
+  if (first?.type === "VP8 " && first.data.length >= 10) {
+    return {
+      format: "webp",
+      width: first.data.readUInt16LE(6) & 0x3fff,
+      height: first.data.readUInt16LE(8) & 0x3fff,
+      alpha: false,
+      animated: false,
+    };
+  }
+  throw new Error("WebP header is missing.");
+};
+
+/** Reads the VP8L bitstream, least significant bit first. */
+const createBitReader = (data: Buffer) => {
+  let offset = 0;
+  let value = 0;
+  let count = 0;
+  const readBits = (bits: number): number => {
+    while (count < bits) {
+      if (offset >= data.length + 4) {
+        throw new Error("WebP image data is truncated.");
+      }
+      value |= (data[offset] ?? 0) << count;
+      offset += 1;
+      count += 8;
+    }
+    const result = value & ((1 << bits) - 1);
+    value >>>= bits;
+    count -= bits;
+    return result;
+  };
+  return { readBits };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+const buildPrefixCode = (lengths: Uint8Array): PrefixCode => {
+  const counts = new Uint16Array(16);
+  lengths.forEach((length) => {
+    counts[length] += 1;
+  });
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length += 1) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  let used = 0;
+  lengths.forEach((length, symbol) => {
+    if (!length) return;
+    symbols[offsets[length]] = symbol;
+    offsets[length] += 1;
+    used += 1;
+  });
+  if (!used) throw new Error("WebP prefix code is empty.");
+  return { counts, symbols, single: used === 1 ? symbols[0] : -1 };
+};
+
+/** Canonical prefix decoding; a code with a single symbol reads no bits. */
+const readSymbol = (reader: BitReader, code: PrefixCode): number => {
+  if (code.single !== -1) return code.single;
+  let value = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length < 16; length += 1) {
+    value |= reader.readBits(1);
+    const count = code.counts[length];
+    if (value - first < count) return code.symbols[index + value - first];
+    index += count;
+    first = (first + count) << 1;
+    value <<= 1;
+  }
+  throw new Error("WebP image data is corrupt.");
+};
+
+const readPrefixCode = (reader: BitReader, alphabetSize: number) => {
+  const lengths = new Uint8Array(alphabetSize);
+  if (reader.readBits(1)) {
+    const symbolCount = reader.readBits(1) + 1;
+    const firstSymbol = reader.readBits(reader.readBits(1) ? 8 : 1);
+    const symbols = [firstSymbol];
+    if (symbolCount === 2) symbols.push(reader.readBits(8));
+    symbols.forEach((symbol) => {
+      if (symbol >= alphabetSize)
+        throw new Error("WebP image data is corrupt.");
+      lengths[symbol] = 1;
+    });
+    return buildPrefixCode(lengths);
+  }
+
+  const codeLengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  const codeLengthCount = reader.readBits(4) + 4;
+  for (let i = 0; i < codeLengthCount; i += 1) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const lengthCode = buildPrefixCode(codeLengthLengths);
+  let remaining = alphabetSize;
+  if (reader.readBits(1)) {
+    remaining = 2 + reader.readBits(2 + 2 * reader.readBits(3));
+    if (remaining > alphabetSize)
+      throw new Error("WebP image data is corrupt.");
+  }
+
+  let previous = 8;
+  for (let symbol = 0; symbol < alphabetSize && remaining > 0; remaining -= 1) {
+    const length = readSymbol(reader, lengthCode);
+    if (length < 16) {
+      lengths[symbol] = length;
+      symbol += 1;
+      if (length) previous = length;
+      continue;
+    }
+    const [extraBits, base] =
+      length === 16 ? [2, 3] : length === 17 ? [3, 3] : [7, 11];
+    const repeat = reader.readBits(extraBits) + base;
+    if (symbol + repeat > alphabetSize)
+      throw new Error("WebP image data is corrupt.");
+    lengths.fill(length === 16 ? previous : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+  return buildPrefixCode(lengths);
+};
+
+/** Lengths and distances share one prefix-plus-extra-bits encoding. */
+const readPrefixedValue = (reader: BitReader, prefix: number) => {
+  if (prefix < 4) return prefix + 1;
+  const extraBits = (prefix - 2) >> 1;
+  return ((2 + (prefix & 1)) << extraBits) + reader.readBits(extraBits) + 1;
+};
+
+const subSampleSize = (size: number, bits: number) =>
+  (size + (1 << bits) - 1) >> bits;
+
+const decodeEntropyCoded = (
+  reader: BitReader,
+  width: number,
+  height: number,
+  topLevel: boolean,
+): Uint32Array => {
+  let cacheBits = 0;
+  if (reader.readBits(1)) {
+    cacheBits = reader.readBits(4);
+    if (cacheBits < 1 || cacheBits > 11) {
+      throw new Error("WebP color cache size is invalid.");
+    }
+  }
+  let groupBits = 0;
+  let groupImage: Uint32Array | null = null;
+  if (topLevel && reader.readBits(1)) {
+    groupBits = reader.readBits(3) + 2;
+    groupImage = decodeImageStream(
+      reader,
+      subSampleSize(width, groupBits),
+      subSampleSize(height, groupBits),
+      false,
+    );
+  }
+  const groupWidth = subSampleSize(width, groupBits);
+  const groupCount = groupImage
+    ? groupImage.reduce(
+        (max, pixel) => Math.max(max, (pixel >> 8) & 0xffff),
+        0,
+      ) + 1
+    : 1;
+  const cacheSize = cacheBits ? 1 << cacheBits : 0;
+  const alphabets = [
+    256 + LENGTH_CODES + cacheSize,
+    256,
+    256,
+    256,
+    DISTANCE_CODES,
+  ];
+  const groups = Array.from({ length: groupCount }, () =>
+    alphabets.map((size) => readPrefixCode(reader, size)),
+  );
+
+  const total = width * height;
+  const pixels = new Uint32Array(total);
+  const cache = new Uint32Array(cacheSize);
+  const groupMask = groupImage ? (1 << groupBits) - 1 : -1;
+  const groupAt = (x: number, y: number) =>
+    groupImage
+      ? groups[
+          (groupImage[(y >> groupBits) * groupWidth + (x >> groupBits)] >> 8) &
+            0xffff
+        ]
+      : groups[0];
+  let group = groups[0];
+  let position = 0;
+  let cached = 0;
+  let x = 0;
+  let y = 0;
+
+  while (position < total) {
+    if ((x & groupMask) === 0) group = groupAt(x, y);
+    const code = readSymbol(reader, group[0]);
+    if (code < 256) {
+      const red = readSymbol(reader, group[1]);
+      const blue = readSymbol(reader, group[2]);
+      const alpha = readSymbol(reader, group[3]);
+      pixels[position] =
+        ((alpha << 24) | (red << 16) | (code << 8) | blue) >>> 0;
+      position += 1;
+      x += 1;
+    } else if (code < 256 + LENGTH_CODES) {
+      const length = readPrefixedValue(reader, code - 256);
+      const distanceCode = readPrefixedValue(
+        reader,
+        readSymbol(reader, group[4]),
+      );
+      let distance = distanceCode - 120;
+      if (distanceCode <= 120) {
+        const [dx, dy] = DISTANCE_MAP[distanceCode - 1];
+        distance = Math.max(1, dx + dy * width);
+      }
+      if (distance > position || position + length > total) {
+        throw new Error("WebP image data is corrupt.");
+      }
+      for (let i = 0; i < length; i += 1) {
+        pixels[position + i] = pixels[position + i - distance];
+      }
+      position += length;
+      x += length;
+    } else {
+      if (code - 256 - LENGTH_CODES >= cacheSize) {
+        throw new Error("WebP image data is corrupt.");
+      }
+      // Catch the cache up before reading from it.
+      for (; cached < position; cached += 1) {
+        const color = pixels[cached];
+        cache[Math.imul(0x1e35a7bd, color) >>> (32 - cacheBits)] = color;
+      }
+      pixels[position] = cache[code - 256 - LENGTH_CODES];
+      position += 1;
+      x += 1;
+    }
+    while (x >= width) {
+      x -= width;
+      y += 1;
+    }
+    if (code >= 256 && code < 256 + LENGTH_CODES && position < total) {
+      group = groupAt(x, y);
+    }
+    if (cacheSize) {
+      for (; cached < position; cached += 1) {
+        const color = pixels[cached];
+        cache[Math.imul(0x1e35a7bd, color) >>> (32 - cacheBits)] = color;
+      }
+    }
+  }
+  return pixels;
+};
+
+const channel = (pixel: number, shift: number) => (pixel >>> shift) & 0xff;
+
+const addPixels = (a: number, b: number) =>
+  ((((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00) |
+    (((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff)) >>>
+  0;
+
+const average2 = (a: number, b: number) =>
+  ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+
+const perChannel = (combine: (shift: number) => number) => {
+  let pixel = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = combine(shift);
+    pixel |= (value < 0 ? 0 : value > 255 ? 255 : value) << shift;
+  }
+  return pixel >>> 0;
+};
+
+const select = (left: number, top: number, topLeft: number) => {
+  let towardsLeft = 0;
+  let towardsTop = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    towardsLeft += Math.abs(channel(top, shift) - channel(topLeft, shift));
+    towardsTop += Math.abs(channel(left, shift) - channel(topLeft, shift));
+  }
+  return towardsLeft < towardsTop ? left : top;
+};
+
+const predict = (
+  mode: number,
+  left: number,
+  top: number,
+  topRight: number,
+  topLeft: number,
+) => {
+  switch (mode) {
+    case 1:
+      return left;
+    case 2:
+      return top;
+    case 3:
+      return topRight;
+    case 4:
+      return topLeft;
+    case 5:
+      return average2(average2(left, topRight), top);
+    case 6:
+      return average2(left, topLeft);
+    case 7:
+      return average2(left, top);
+    case 8:
+      return average2(topLeft, top);
+    case 9:
+      return average2(top, topRight);
+    case 10:
+      return average2(average2(left, topLeft), average2(top, topRight));
+    case 11:
+      return select(left, top, topLeft);
+    case 12:
+      return perChannel(
+        (shift) =>
+          channel(left, shift) + channel(top, shift) - channel(topLeft, shift),
+      );
+    case 13: {
+      const average = average2(left, top);
+      return perChannel((shift) => {
+        const a = channel(average, shift);
+        return a + Math.trunc((a - channel(topLeft, shift)) / 2);
+      });
+    }
+    default:
+      return 0xff000000;
+  }
+};
+
+const toInt8 = (value: number) => (value << 24) >> 24;
+
+const colorDelta = (multiplier: number, color: number) =>
+  (toInt8(multiplier) * toInt8(color)) >> 5;
+
+const inverseTransform = (
+  transform: Transform,
+  pixels: Uint32Array,
+  height: number,
+): Uint32Array => {
+  const { type, width, bits, data } = transform;
+  const blocksPerRow = subSampleSize(width, bits);
+  if (type === SUBTRACT_GREEN_TRANSFORM) {
+    return pixels.map((pixel) => {
+      const green = channel(pixel, 8);
+      return (
+        ((pixel & 0xff00ff00) |
+          (((channel(pixel, 16) + green) & 0xff) << 16) |
+          ((channel(pixel, 0) + green) & 0xff)) >>>
+        0
+      );
+    });
+  }
+  if (type === PREDICTOR_TRANSFORM) {
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const at = y * width + x;
+        const mode = !y
+          ? x
+            ? 1
+            : 0
+          : !x
+            ? 2
+            : (data![(y >> bits) * blocksPerRow + (x >> bits)] >> 8) & 0xf;
+        // The top-right neighbour of the last column wraps to this row's start.
+        const prediction = predict(
+          mode,
+          pixels[at - 1],
+          pixels[at - width],
+          pixels[at - width + 1],
+          pixels[at - width - 1],
+        );
+        pixels[at] = addPixels(pixels[at], prediction);
+      }
+    }
+    return pixels;
+  }
+  if (type === CROSS_COLOR_TRANSFORM) {
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const at = y * width + x;
+        const element = data![(y >> bits) * blocksPerRow + (x >> bits)];
+        const pixel = pixels[at];
+        const green = channel(pixel, 8);
+        const red =
+          (channel(pixel, 16) + colorDelta(channel(element, 0), green)) & 0xff;
+        const blue =
+          (channel(pixel, 0) +
+            colorDelta(channel(element, 8), green) +
+            colorDelta(channel(element, 16), red)) &
+          0xff;
+        pixels[at] = ((pixel & 0xff00ff00) | (red << 16) | blue) >>> 0;
+      }
+    }
+    return pixels;
+  }
+
+  // Color indexing: unpack 1, 2, 4 or 8 palette indexes per packed pixel.
+  const packedWidth = subSampleSize(width, bits);
+  const indexBits = 8 >> bits;
+  const indexMask = (1 << indexBits) - 1;
+  const perPixelMask = (1 << bits) - 1;
+  const out = new Uint32Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const packed = pixels[y * packedWidth + (x >> bits)];
+      const index =
+        (packed >> (8 + (x & perPixelMask) * indexBits)) & indexMask;
+      out[y * width + x] = data![index] ?? 0;
+    }
+  }
+  return out;
+};
+
+/** Decodes one VP8L image; only the top-level image carries transforms. */
+const decodeImageStream = (
+  reader: BitReader,
+  width: number,
+  height: number,
+  topLevel: boolean,
+): Uint32Array => {
+  const transforms: Transform[] = [];
+  let codedWidth = width;
+  while (topLevel && reader.readBits(1)) {
+    const type = reader.readBits(2);
+    if (transforms.some((transform) => transform.type === type)) {
+      throw new Error("WebP image repeats a transform.");
+    }
+    if (type === PREDICTOR_TRANSFORM || type === CROSS_COLOR_TRANSFORM) {
+      const bits = reader.readBits(3) + 2;
+      const data = decodeImageStream(
+        reader,
+        subSampleSize(codedWidth, bits),
+        subSampleSize(height, bits),
+        false,
+      );
+      transforms.push({ type, width: codedWidth, bits, data });
+    } else if (type === SUBTRACT_GREEN_TRANSFORM) {
+      transforms.push({ type, width: codedWidth, bits: 0 });
+    } else if (type === COLOR_INDEXING_TRANSFORM) {
+      const colors = reader.readBits(8) + 1;
+      const bits = colors > 16 ? 0 : colors > 4 ? 1 : colors > 2 ? 2 : 3;
+      const palette = decodeImageStream(reader, colors, 1, false);
+      for (let i = 1; i < palette.length; i += 1) {
+        palette[i] = addPixels(palette[i], palette[i - 1]);
+      }
+      transforms.push({ type, width: codedWidth, bits, data: palette });
+      codedWidth = subSampleSize(codedWidth, bits);
+    }
+  }
+
+  return transforms.reduceRight(
+    (pixels, transform) => inverseTransform(transform, pixels, height),
+    decodeEntropyCoded(reader, codedWidth, height, topLevel),
+  );
+};
+
+const decodeVp8l = (data: Buffer, canvas: ImageInfo): Raster => {
+  const reader = createBitReader(data);
+  if (reader.readBits(8) !== VP8L_SIGNATURE) {
+    throw new Error("WebP lossless header is invalid.");
+  }
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  if (width > canvas.width || height > canvas.height) {
+    throw new Error("WebP image is larger than its canvas.");
+  }
+  reader.readBits(1);
+  if (reader.readBits(3) !== 0) {
+    throw new Error("Unsupported WebP lossless version.");
+  }
+  const argb = decodeImageStream(reader, width, height, true);
+  const pixels = new Uint8Array(width * height * 4);
+  argb.forEach((pixel, idx) => {
+    pixels[idx * 4] = channel(pixel, 16);
+    pixels[idx * 4 + 1] = channel(pixel, 8);
+    pixels[idx * 4 + 2] = channel(pixel, 0);
+    pixels[idx * 4 + 3] = channel(pixel, 24);
+  });
+  return { width, height, data: pixels };
+};
+
+/** Decodes an ALPH chunk into one alpha value per pixel. */
+const decodeAlpha = (data: Buffer, width: number, height: number) => {
+  const compression = data[0] & 0x03;
+  const filter = (data[0] >> 2) & 0x03;
+  let alpha: Uint8Array;
+  if (compression === 0) {
+    if (data.length - 1 < width * height) {
+      throw new Error("WebP alpha data is truncated.");
+    }
+    alpha = Uint8Array.from(data.subarray(1, 1 + width * height));
+  } else if (compression === 1) {
+    // A headerless lossless stream with the alpha in its green channel.
+    const reader = createBitReader(data.subarray(1));
+    alpha = Uint8Array.from(
+      decodeImageStream(reader, width, height, true),
+      (pixel) => channel(pixel, 8),
+    );
+  } else {
+    throw new Error("Unsupported WebP alpha compression.");
+  }
+  if (filter === 0) return alpha;
+
+  // Undo the horizontal, vertical or gradient prediction. The first row
+  // predicts from the left and the first column from above.
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (x === 0 && y === 0) continue;
+      const at = y * width + x;
+      const left = alpha[at - 1];
+      const above = alpha[at - width];
+      let prediction = y === 0 ? left : x === 0 ? above : 0;
+      if (x > 0 && y > 0) {
+        prediction =
+          filter === 1
+            ? left
+            : filter === 2
+              ? above
+              : Math.min(
+                  255,
+                  Math.max(0, left + above - alpha[at - width - 1]),
+                );
+      }
+      alpha[at] = (alpha[at] + prediction) & 0xff;
+    }
+  }
+  return alpha;
+};
+
+/** Decodes the VP8L, or VP8 and ALPH, chunks of an image or animation frame. */
+const decodeImageChunks = (
+  chunks: RiffChunk[],
+  canvas: ImageInfo,
+): Raster | null => {
+  const lossless = chunks.find((chunk) => chunk.type === "VP8L");
+  if (lossless) return decodeVp8l(lossless.data, canvas);
+  const lossy = chunks.find((chunk) => chunk.type === "VP8 ");
+  if (!lossy) return null;
+  const decoded = decodeVp8(lossy.data);
+  if (decoded.width > canvas.width || decoded.height > canvas.height) {
+    throw new Error("WebP image is larger than its canvas.");
+  }
+  const alpha = chunks.find((chunk) => chunk.type === "ALPH");
+  if (alpha) {
+    decodeAlpha(alpha.data, decoded.width, decoded.height).forEach(
+      (value, idx) => {
+        decoded.data[idx * 4 + 3] = value;
+      },
+    );
+  }
+  return decoded;
+};
+
+/** Decodes a lossless or lossy WebP, or the first frame of an animated one. */
+export const decodeWebp = (buffer: Buffer): Raster => {
+  const chunks = readWebpChunks(buffer);
+  const canvas = readWebpInfo(buffer);
+  const image = decodeImageChunks(chunks, canvas);
+  if (image) return image;
+
+  const frame = chunks.find((chunk) => chunk.type === "ANMF");
+  if (frame && frame.data.length >= 16) {
+    const { width, height } = canvas;
+    const decoded = decodeImageChunks(readWebpChunks(frame.data, 16), canvas);
+    if (decoded) {
+      const left = frame.data.readUIntLE(0, 3) * 2;
+      const top = frame.data.readUIntLE(3, 3) * 2;
+      const pixels = new Uint8Array(width * height * 4);
+      for (let y = 0; y < decoded.height && top + y < height; y += 1) {
+        const rowWidth = Math.min(decoded.width, width - left);
+        if (rowWidth <= 0) break;
+        pixels.set(
+          decoded.data.subarray(
+            y * decoded.width * 4,
+            (y * decoded.width + rowWidth) * 4,
+          ),
+          ((top + y) * width + left) * 4,
+        );
+      }
+      return { width, height, data: pixels };
+    }
+  }
+  throw new Error("WebP image data is missing.");
+};
@@ -0,0 +1,70 @@
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/** Replaces the predefined and numeric character references. */
+export const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return XML_ENTITIES[entity] ?? match;
+    const code =
+      entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+
+export type XmlToken =
+  | {
+      type: "open";
+      name: string;
+      attributes: Record<string, string>;
+      selfClosing: boolean;
+    }
+  | { type: "close"; name: string }
+  | { type: "text"; value: string };
+
+/**
+ * Walks the tags and character data of an XML document in order, skipping
+ * declarations, comments and processing instructions. Enough for the flat
+ * markup of office documents; it does not check that tags balance.
+ */
+export const scanXml = (xml: string): XmlToken[] => {
+  const tokens: XmlToken[] = [];
+  const pattern =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  for (const [
+    ,
+    cdata,
+    closing,
+    name,
+    attributeText,
+    selfClosing,
+    text,
+  ] of xml.matchAll(pattern)) {
+    if (cdata !== undefined) {
+      tokens.push({ type: "text", value: cdata });
+    } else if (text !== undefined) {
+      tokens.push({ type: "text", value: decodeXml(text) });
+    } else if (name && closing) {
+      tokens.push({ type: "close", name });
+    } else if (name) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single] of attributeText.matchAll(
+        /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+      )) {
+        attributes[key] = decodeXml(double ?? single);
+      }
+      tokens.push({
+        type: "open",
+        name,
+        attributes,
+        selfClosing: selfClosing === "/",
+      });
+    }
+  }
+  return tokens;
+};